@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { computeDecoupling, decouplingTrend, rateDecoupling } from "./aerobic-decoupling.js";
+import type { ActivityStreams } from "./strava.js";
+
+// 1 Hz samples at 3 m/s for `minutes`, heart rate from `heartRateAt(seconds)`
+function streams(minutes: number, heartRateAt: (seconds: number) => number): ActivityStreams {
+  const time = Array.from({ length: minutes * 60 + 1 }, (_, i) => i);
+  return { time, distance: time.map((t) => t * 3), heartrate: time.map(heartRateAt) };
+}
+
+// 10 minutes of warm-up, then an hour split into halves at 40 minutes
+const drifting = (seconds: number) => (seconds <= 40 * 60 ? 150 : 165);
+
+describe("computeDecoupling", () => {
+  it("finds no decoupling on a steady run", () => {
+    const result = computeDecoupling(streams(70, () => 150))!;
+
+    expect(result.decoupling).toBe(0);
+    expect(result.cardiacDrift).toBe(0);
+    expect(result.rating).toBe("coupled");
+    expect(result.firstHalf).toMatchObject({ start: 0, duration: 1800, distance: 5400, speed: 3, heartRate: 150, efficiency: 1.2 });
+    expect(result.secondHalf.start).toBe(1800);
+  });
+
+  it("measures the loss of efficiency as heart rate drifts up", () => {
+    const result = computeDecoupling(streams(70, drifting))!;
+
+    // EF 180/150 = 1.2, then 180/165 = 1.091
+    expect(result.decoupling).toBe(9.1);
+    expect(result.cardiacDrift).toBe(15);
+    expect(result.rating).toBe("moderate");
+  });
+
+  it("leaves out the warm-up and pauses", () => {
+    // A high heart rate warming up, then two minutes stood still at a crossing,
+    // which moves the halfway point two minutes later
+    const base = streams(72, (t) => (t < 600 ? 185 : t >= 1200 && t < 1320 ? 100 : t <= 42 * 60 ? 150 : 165));
+    const distance = base.distance!.map((d, t) => (t < 1200 ? d : t < 1320 ? 3600 : d - 360));
+
+    const result = computeDecoupling({ ...base, distance })!;
+    expect(result.firstHalf.heartRate).toBe(150);
+    expect(result.secondHalf.heartRate).toBe(165);
+    expect(result.firstHalf.duration + result.secondHalf.duration).toBe(3600);
+  });
+
+  it("grade-adjusts only when the streams carry elevation", () => {
+    const flat = streams(70, drifting);
+    expect(computeDecoupling(flat)!.gradeAdjusted).toBe(false);
+
+    const withAltitude = computeDecoupling({ ...flat, altitude: flat.time!.map(() => 50) })!;
+    expect(withAltitude.gradeAdjusted).toBe(true);
+    expect(withAltitude.decoupling).toBe(9.1);
+  });
+
+  it("reports windows and the efficiency trend per hour", () => {
+    const result = computeDecoupling(streams(70, drifting), { windowSeconds: 600 })!;
+
+    expect(result.windows.map((w) => w.heartRate)).toEqual([150, 150, 150, 165, 165, 165]);
+    expect(result.driftPerHour).toBeLessThan(-10);
+    expect(computeDecoupling(streams(70, () => 150), { windowSeconds: 600 })!.driftPerHour).toBe(0);
+    expect(computeDecoupling(streams(70, () => 150))!.windows).toEqual([]);
+  });
+
+  it("needs heart rate and 20 minutes after the warm-up", () => {
+    expect(computeDecoupling(streams(29, () => 150))).toBeNull();
+    expect(computeDecoupling(streams(29, () => 150), { warmupSeconds: 0 })).not.toBeNull();
+    expect(computeDecoupling({ time: [0, 1], distance: [0, 3] })).toBeNull();
+  });
+});
+
+describe("rateDecoupling", () => {
+  it("uses Friel's 5% and 10% bands", () => {
+    expect(rateDecoupling(4.9)).toBe("coupled");
+    expect(rateDecoupling(5)).toBe("moderate");
+    expect(rateDecoupling(10)).toBe("decoupled");
+  });
+});
+
+describe("decouplingTrend", () => {
+  it("compares the older half of the runs with the newer half", () => {
+    expect(decouplingTrend([8, 7, 4, 3])).toEqual({
+      runs: 4,
+      averageDecoupling: 5.5,
+      recentDecoupling: 3.5,
+      earlierDecoupling: 7.5,
+      direction: "improving",
+    });
+    expect(decouplingTrend([4, 9, 6])!.direction).toBe("worsening");
+    expect(decouplingTrend([5, 5.5])!.direction).toBe("stable");
+    expect(decouplingTrend([5])).toBeNull();
+  });
+});
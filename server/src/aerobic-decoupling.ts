@@ -0,0 +1,196 @@
+/**
+ * Aerobic decoupling (Pa:HR) for steady runs
+ *
+ * The efficiency factor (EF) is speed over heart rate. On a steady aerobic run
+ * it barely moves; when the aerobic base is lacking, heart rate drifts up for
+ * the same pace and EF falls in the second half. Decoupling is that fall as a
+ * percentage of the first half's EF: under 5% is the usual mark of a solid
+ * base. Speeds are grade-adjusted when the streams carry elevation, so hills
+ * in one half don't read as drift. Pauses and the warm-up are left out.
+ */
+
+import { gradeCostFactor, gradesFromStreams } from "./grade-adjusted-pace.js";
+import type { ActivityStreams } from "./strava.js";
+
+export type DecouplingRating = "coupled" | "moderate" | "decoupled";
+
+export interface EfficiencySegment {
+  start: number; // seconds of moving time after the warm-up
+  duration: number; // seconds
+  distance: number; // meters (flat-equivalent when grade-adjusted)
+  speed: number; // meters per second
+  heartRate: number; // bpm, time-weighted
+  efficiency: number; // meters per minute per bpm
+}
+
+export interface DecouplingResult {
+  gradeAdjusted: boolean;
+  firstHalf: EfficiencySegment;
+  secondHalf: EfficiencySegment;
+  decoupling: number; // %, EF loss from first to second half
+  cardiacDrift: number; // bpm, second half minus first half
+  rating: DecouplingRating;
+  windows: EfficiencySegment[]; // empty unless windowSeconds is set
+  driftPerHour: number | null; // % EF change per hour from the windows' trend
+}
+
+export interface DecouplingOptions {
+  warmupSeconds?: number; // moving time skipped at the start
+  windowSeconds?: number; // sliding window length; omit for halves only
+  gradeAdjusted?: boolean; // default true
+}
+
+export interface DecouplingTrend {
+  runs: number;
+  averageDecoupling: number;
+  recentDecoupling: number; // average of the newer half of the runs
+  earlierDecoupling: number; // average of the older half
+  direction: "improving" | "stable" | "worsening";
+}
+
+// Friel's bands for Pa:HR on a steady aerobic run
+const COUPLED_PERCENT = 5;
+const DECOUPLED_PERCENT = 10;
+
+// Change in average decoupling between older and newer runs that counts as a trend
+const TREND_PERCENT = 1.5;
+
+// Samples slower than this are standing around, not running
+const MIN_MOVING_SPEED = 0.5; // m/s
+const MAX_SAMPLE_GAP_SECONDS = 30;
+const MIN_ANALYZED_SECONDS = 20 * 60;
+
+export const DEFAULT_WARMUP_SECONDS = 10 * 60;
+
+interface Sample {
+  time: number; // cumulative moving seconds
+  dt: number;
+  dx: number; // flat-equivalent meters when grade-adjusted
+  hr: number;
+}
+
+export function rateDecoupling(decoupling: number): DecouplingRating {
+  if (decoupling < COUPLED_PERCENT) return "coupled";
+  return decoupling < DECOUPLED_PERCENT ? "moderate" : "decoupled";
+}
+
+/**
+ * Moving samples with heart rate, timed in moving seconds
+ */
+function movingSamples(streams: ActivityStreams, gradeAdjusted: boolean): { samples: Sample[]; graded: boolean } | null {
+  const { time, distance, heartrate } = streams;
+  if (!time || !distance || !heartrate) return null;
+
+  const grades = gradeAdjusted ? gradesFromStreams(streams) : null;
+  const count = Math.min(time.length, distance.length, heartrate.length, grades?.length ?? Infinity);
+  const samples: Sample[] = [];
+  let moving = 0;
+
+  for (let i = 1; i < count; i++) {
+    const dt = time[i] - time[i - 1];
+    const dx = distance[i] - distance[i - 1];
+    if (dt <= 0 || dt > MAX_SAMPLE_GAP_SECONDS || dx / dt < MIN_MOVING_SPEED || heartrate[i] <= 0) {
+      continue;
+    }
+    const cost = grades ? gradeCostFactor((grades[i] + grades[i - 1]) / 2) : 1;
+    moving += dt;
+    samples.push({ time: moving, dt, dx: dx * cost, hr: heartrate[i] });
+  }
+
+  return { samples, graded: grades !== null };
+}
+
+function segment(samples: Sample[], start: number): EfficiencySegment {
+  const duration = samples.reduce((sum, s) => sum + s.dt, 0);
+  const distance = samples.reduce((sum, s) => sum + s.dx, 0);
+  const heartRate = samples.reduce((sum, s) => sum + s.hr * s.dt, 0) / duration;
+  const speed = distance / duration;
+  return {
+    start: Math.round(start),
+    duration: Math.round(duration),
+    distance: Math.round(distance),
+    speed: Math.round(speed * 1000) / 1000,
+    heartRate: Math.round(heartRate * 10) / 10,
+    efficiency: Math.round(((speed * 60) / heartRate) * 1000) / 1000,
+  };
+}
+
+/**
+ * Decoupling between the two halves of the run (by moving time), plus an
+ * optional sliding-window EF series
+ * Returns null without heart rate, or with under 20 minutes left after the warm-up.
+ */
+export function computeDecoupling(
+  streams: ActivityStreams,
+  options: DecouplingOptions = {},
+): DecouplingResult | null {
+  const warmup = options.warmupSeconds ?? DEFAULT_WARMUP_SECONDS;
+  const moving = movingSamples(streams, options.gradeAdjusted ?? true);
+  if (!moving) return null;
+
+  const samples = moving.samples
+    .filter((s) => s.time > warmup)
+    .map((s) => ({ ...s, time: s.time - warmup }));
+  const total = samples.length > 0 ? samples[samples.length - 1].time : 0;
+  if (total < MIN_ANALYZED_SECONDS) return null;
+
+  const firstHalf = segment(samples.filter((s) => s.time <= total / 2), 0);
+  const secondHalf = segment(samples.filter((s) => s.time > total / 2), total / 2);
+  const decoupling = Math.round(((firstHalf.efficiency - secondHalf.efficiency) / firstHalf.efficiency) * 1000) / 10;
+
+  // Consecutive windows; a trailing partial window is dropped
+  const windows: EfficiencySegment[] = [];
+  if (options.windowSeconds) {
+    for (let start = 0; start + options.windowSeconds <= total; start += options.windowSeconds) {
+      const inWindow = samples.filter((s) => s.time > start && s.time <= start + options.windowSeconds!);
+      if (inWindow.length > 0) windows.push(segment(inWindow, start));
+    }
+  }
+
+  // Least-squares EF trend over the windows, as % of the first window per hour
+  let driftPerHour: number | null = null;
+  if (windows.length >= 3) {
+    const xs = windows.map((w) => (w.start + w.duration / 2) / 3600);
+    const ys = windows.map((w) => w.efficiency);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    const slope =
+      xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) /
+      xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    driftPerHour = Math.round((slope / ys[0]) * 1000) / 10;
+  }
+
+  return {
+    gradeAdjusted: moving.graded,
+    firstHalf,
+    secondHalf,
+    decoupling,
+    cardiacDrift: Math.round((secondHalf.heartRate - firstHalf.heartRate) * 10) / 10,
+    rating: rateDecoupling(decoupling),
+    windows,
+    driftPerHour,
+  };
+}
+
+/**
+ * Direction of decoupling across runs (oldest first): falling decoupling on
+ * comparable long runs means the aerobic base is improving
+ */
+export function decouplingTrend(decouplings: number[]): DecouplingTrend | null {
+  if (decouplings.length < 2) return null;
+
+  const average = (values: number[]) =>
+    Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+  const half = Math.floor(decouplings.length / 2);
+  const earlier = average(decouplings.slice(0, half));
+  const recent = average(decouplings.slice(decouplings.length - half));
+  const change = recent - earlier;
+
+  return {
+    runs: decouplings.length,
+    averageDecoupling: average(decouplings),
+    recentDecoupling: recent,
+    earlierDecoupling: earlier,
+    direction: change <= -TREND_PERCENT ? "improving" : change >= TREND_PERCENT ? "worsening" : "stable",
+  };
+}
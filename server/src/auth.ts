@@ -1,4 +1,12 @@
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  deleteToken,
+  findTokenByAccessToken,
+  saveToken,
+  type StoredToken,
+} from "./token-store.js";
+import { getCachedIdentity, setCachedIdentity } from "./identity-cache.js";
+import { fetchAthlete, type StravaAthlete } from "./strava.js";
 
 type Extra = RequestHandlerExtra<any, any>;
 
@@ -6,6 +14,7 @@ export interface StravaAuth {
   userId: string;
   accessToken: string;
   expiresAt?: number;
+  athlete?: StravaAthlete; // profile (name, weight, sex, units) when the token was validated
 }
 
 export interface AuthError {
@@ -14,9 +23,23 @@ export interface AuthError {
   instructions: string[];
 }
 
+/**
+ * Custom error class for failed refresh_token grants
+ */
+export class TokenRefreshError extends Error {
+  public status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "TokenRefreshError";
+    this.status = status;
+  }
+}
+
 /**
  * Validates Strava access token and returns user info
  * Strava uses opaque tokens, so we validate via the /athlete endpoint
+ * (once per token per TTL - see identity-cache.ts)
  */
 export async function getAuth(extra: Extra): Promise<StravaAuth | null> {
   const authHeader = extra.requestInfo?.headers?.authorization;
@@ -31,39 +54,219 @@ export async function getAuth(extra: Extra): Promise<StravaAuth | null> {
   }
 
   const token = headerValue.slice(7).trim();
+  return resolveToken(token);
+}
+
+/**
+ * Resolve a token passed explicitly as a tool parameter
+ * Unvalidated tokens are still used as-is; Strava rejects them later if invalid
+ */
+export async function getManualAuth(token: string): Promise<StravaAuth> {
+  const auth = await resolveToken(token);
+  return auth ?? { userId: "manual", accessToken: token };
+}
+
+async function resolveToken(token: string): Promise<StravaAuth | null> {
+  // Tokens we hold a refresh token for are swapped for the current access token
+  const stored = await getStoredAuth(token);
+  if (stored) {
+    // The store already knows the athlete id; the profile is a best-effort extra
+    const athlete = await validateToken(stored.accessToken, stored.expiresAt);
+    return { ...stored, athlete: athlete ?? undefined };
+  }
+
+  const athlete = await validateToken(token);
+  if (!athlete) {
+    return null;
+  }
+
+  return {
+    userId: athlete.id.toString(),
+    accessToken: token,
+    athlete,
+  };
+}
+
+/**
+ * Get the athlete behind a token, from the identity cache or /athlete
+ */
+async function validateToken(
+  accessToken: string,
+  expiresAt?: number,
+): Promise<StravaAthlete | null> {
+  const cached = getCachedIdentity(accessToken);
+  if (cached) {
+    return cached;
+  }
 
   try {
-    // Validate token by fetching athlete info
-    const res = await fetch("https://www.strava.com/api/v3/athlete", {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+    const athlete = await fetchAthlete(accessToken);
+    setCachedIdentity(accessToken, athlete, expiresAt);
+    return athlete;
+  } catch (error) {
+    console.error("Error validating Strava token:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the athlete profile for an access token, validating it if needed
+ */
+export async function getAthleteProfile(
+  accessToken: string,
+): Promise<StravaAthlete | null> {
+  return validateToken(accessToken);
+}
+
+// Refresh this long before expiry so a tool call never starts with a token
+// that expires mid-request
+const TOKEN_REFRESH_MARGIN_SECONDS = 10 * 60;
+
+/**
+ * In-flight refreshes keyed by athlete id, so concurrent tool calls share one
+ * refresh request (Strava invalidates the old refresh token on use)
+ */
+const pendingRefreshes = new Map<string, Promise<StoredToken | null>>();
 
-    if (!res.ok) {
-      console.error("Strava auth failed:", res.status, res.statusText);
+/**
+ * Look up a token in the token store, refreshing it if it is about to expire
+ */
+async function getStoredAuth(token: string): Promise<StravaAuth | null> {
+  let stored: StoredToken | null;
+  try {
+    stored = await findTokenByAccessToken(token);
+  } catch (error) {
+    console.error("Error reading token store:", error);
+    return null;
+  }
+
+  if (!stored) {
+    return null;
+  }
+
+  if (isTokenExpired(stored.expiresAt, TOKEN_REFRESH_MARGIN_SECONDS)) {
+    stored = await refreshStoredToken(stored);
+    if (!stored) {
+      return null;
+    }
+  }
+
+  return {
+    userId: stored.athleteId,
+    accessToken: stored.accessToken,
+    expiresAt: stored.expiresAt,
+  };
+}
+
+async function refreshStoredToken(
+  stored: StoredToken,
+): Promise<StoredToken | null> {
+  const pending = pendingRefreshes.get(stored.athleteId);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = (async () => {
+    try {
+      const tokens = await refreshStravaToken(stored.refreshToken);
+      return await saveToken(stored.athleteId, tokens);
+    } catch (error) {
+      console.error(`Failed to refresh Strava token for athlete ${stored.athleteId}:`, error);
+      // A rejected refresh token cannot be retried - forget it so the user is asked to reconnect
+      if (error instanceof TokenRefreshError && error.status === 400) {
+        await deleteToken(stored.athleteId);
+      }
       return null;
+    } finally {
+      pendingRefreshes.delete(stored.athleteId);
     }
+  })();
+
+  pendingRefreshes.set(stored.athleteId, refresh);
+  return refresh;
+}
+
+/**
+ * Exchange a refresh token for a new access token via the Strava token endpoint
+ */
+export async function refreshStravaToken(refreshToken: string): Promise<{
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}> {
+  const clientId = process.env.STRAVA_CLIENT_ID;
+  const clientSecret = process.env.STRAVA_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error("Strava credentials not configured");
+  }
+
+  const res = await fetch("https://www.strava.com/oauth/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    }),
+  });
+
+  if (!res.ok) {
+    const errorData = await res.text();
+    throw new TokenRefreshError(
+      `Token refresh failed: ${res.status} ${errorData}`,
+      res.status,
+    );
+  }
+
+  const tokens = await res.json();
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: tokens.expires_at,
+  };
+}
+
+/**
+ * Persist tokens from an authorization_code exchange so they can be refreshed later
+ */
+export async function storeTokenResponse(tokens: {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+  scope?: string;
+  athlete?: { id: number };
+}): Promise<void> {
+  if (!tokens.athlete?.id || !tokens.refresh_token) {
+    console.warn("Token response has no athlete or refresh token, not storing");
+    return;
+  }
 
-    const athlete = await res.json();
-    return {
-      userId: athlete.id.toString(),
-      accessToken: token,
-    };
+  try {
+    await saveToken(tokens.athlete.id.toString(), {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: tokens.expires_at,
+      scope: tokens.scope,
+    });
   } catch (error) {
-    console.error("Error validating Strava token:", error);
-    return null;
+    // Storing is best-effort; the access token still works until it expires
+    console.error("Failed to store Strava tokens:", error);
   }
 }
 
 /**
  * Check if a token has expired based on expires_at timestamp
+ * A margin treats tokens expiring within that many seconds as already expired
  */
-export function isTokenExpired(expiresAt?: number): boolean {
+export function isTokenExpired(expiresAt?: number, marginSeconds: number = 0): boolean {
   if (!expiresAt) {
     return false; // If no expiration info, assume valid
   }
   
   const now = Math.floor(Date.now() / 1000);
-  return now >= expiresAt;
+  return now + marginSeconds >= expiresAt;
 }
 
 /**
@@ -99,7 +302,7 @@ export function createAuthError(type: AuthError["type"]): AuthError {
       type: "expired_token",
       message: "Your Strava connection has expired.",
       instructions: [
-        "Strava tokens expire after 6 hours for security.",
+        "Strava tokens expire after 6 hours and could not be refreshed automatically.",
         "Please reconnect using the 'connect_strava' tool."
       ]
     },
@@ -1,104 +1,595 @@
 /**
- * Conversation-scoped caching for Strava activities
+ * Persistent, incremental activity store
+ *
+ * Each athlete's activities are stored once by id in a JSON file on disk.
+ * New activities are synced incrementally from the newest stored start_date,
+ * older history is backfilled on demand, and any date window is served from
+ * what the store already holds.
  */
 
-import type { StravaActivity } from "./strava.js";
+import { readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import { writeJsonFile } from "./file-store.js";
+import {
+  fetchActivityStreams,
+  fetchAllActivities,
+  fetchAthleteZones,
+  fetchDetailedActivities,
+  matchesSportTypes,
+  RateLimitError,
+  RUN_SPORT_TYPES,
+  UnauthorizedError,
+  type ActivityStreams,
+  type AthleteZones,
+  type StravaActivity,
+} from "./strava.js";
 
-export interface CacheEntry {
-  data: StravaActivity[];
-  fetchedAt: string;
-  metadata: {
-    days: number;
-    includeDetails: boolean;
-    count: number;
-  };
+// Version 1 stores held runs only; they are discarded and resynced with every sport
+const STORE_VERSION = 2;
+
+interface AthleteActivityFile {
+  version: typeof STORE_VERSION;
+  athleteId: string;
+  activities: Record<string, StravaActivity>; // keyed by activity id
+  detailedIds: number[]; // activities stored with full detail (splits, polyline, ...)
+  coveredFrom: number | null; // unix seconds; everything after this has been synced
+  lastSyncedAt: string | null; // ISO 8601
+}
+
+interface SyncOutcome {
+  fetched: boolean; // whether Strava was called
+  truncated: boolean;
+}
+
+export interface ActivityQuery {
+  after: number; // unix seconds
+  before?: number; // unix seconds, defaults to now
+  includeDetails?: boolean;
+  sportTypes?: string[]; // defaults to RUN_SPORT_TYPES; ALL_SPORT_TYPES for every sport
+}
+
+export interface ActivityStoreResult {
+  data: StravaActivity[]; // oldest first
+  fetchedAt: string; // when the store last synced with Strava
+  cached: boolean; // true when no Strava request was needed
+  truncated: boolean;
+  detailsMissing?: number; // with includeDetails: activities still summaries, detailed on later calls
+}
+
+export interface DetailedActivitiesResult {
+  data: StravaActivity[]; // in the order given
+  missingIds: number[]; // still summaries: over the per-call budget or failed to fetch
 }
 
-export interface CacheKey {
+export interface ActivityStoreAuth {
   userId: string;
-  days: number;
-  includeDetails: boolean;
+  accessToken: string;
 }
 
+export type SyncListener = (
+  auth: ActivityStoreAuth,
+  activities: StravaActivity[],
+) => Promise<void> | void;
+
+// Within this window after a sync, the store is considered fresh and served without calling Strava
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+const storeDir =
+  process.env.ACTIVITY_STORE_DIR ||
+  path.join(process.cwd(), ".data", "activities");
+
+// Streams are large, so only the most recently used ones stay in memory
+const MAX_STREAMS_IN_MEMORY = 20;
+
+// Zones rarely change; re-read them from Strava after this long
+const ZONES_TTL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Loaded athlete files, so each file is read from disk once per process
+ * Key: athlete id
+ */
+const loadedFiles = new Map<string, AthleteActivityFile>();
+
 /**
- * In-memory cache for conversation context
- * Key format: "userId:days:includeDetails"
+ * Recently used activity streams
+ * Key: "athleteId:activityId"
  */
-const activityCache = new Map<string, CacheEntry>();
+const streamsCache = new Map<string, ActivityStreams>();
 
 /**
- * Generate cache key from parameters
+ * Athlete heart rate zones (null when the token lacks the scope to read them)
+ * Key: athlete id
  */
-export function generateCacheKey(key: CacheKey): string {
-  return `${key.userId}:${key.days}:${key.includeDetails}`;
+const zonesCache = new Map<string, { zones: AthleteZones | null; fetchedAt: number }>();
+
+/**
+ * Called with newly synced activities
+ */
+const syncListeners: SyncListener[] = [];
+
+/**
+ * In-flight syncs and the window start they sync from, keyed by athlete id,
+ * so concurrent tool calls share one sync
+ */
+const pendingSyncs = new Map<string, { after: number; sync: Promise<SyncOutcome> }>();
+
+function filePath(athleteId: string): string {
+  // Athlete ids are numeric; strip anything else so ids can't escape the store dir
+  return path.join(storeDir, `${athleteId.replace(/[^0-9a-z_-]/gi, "")}.json`);
+}
+
+function emptyFile(athleteId: string): AthleteActivityFile {
+  return {
+    version: STORE_VERSION,
+    athleteId,
+    activities: {},
+    detailedIds: [],
+    coveredFrom: null,
+    lastSyncedAt: null,
+  };
+}
+
+async function loadFile(athleteId: string): Promise<AthleteActivityFile> {
+  const loaded = loadedFiles.get(athleteId);
+  if (loaded) {
+    return loaded;
+  }
+
+  let file = emptyFile(athleteId);
+  try {
+    const raw = await readFile(filePath(athleteId), "utf-8");
+    const stored = JSON.parse(raw) as AthleteActivityFile;
+    if (stored.version === STORE_VERSION) {
+      file = { ...file, ...stored };
+    }
+  } catch (error) {
+    // A missing file just means this athlete has never synced
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to load activity store for ${athleteId}, starting empty:`, error);
+    }
+  }
+
+  loadedFiles.set(athleteId, file);
+  return file;
+}
+
+async function saveFile(file: AthleteActivityFile): Promise<void> {
+  await writeJsonFile(filePath(file.athleteId), file);
+}
+
+function upsertActivities(
+  file: AthleteActivityFile,
+  activities: StravaActivity[],
+): void {
+  const detailed = new Set(file.detailedIds);
+  for (const activity of activities) {
+    // Never downgrade a detailed activity to its summary representation
+    if (detailed.has(activity.id)) {
+      continue;
+    }
+    file.activities[activity.id] = activity;
+  }
+}
+
+function newestStartTimestamp(file: AthleteActivityFile): number | null {
+  let newest: number | null = null;
+  for (const activity of Object.values(file.activities)) {
+    const start = Math.floor(new Date(activity.start_date).getTime() / 1000);
+    if (newest === null || start > newest) {
+      newest = start;
+    }
+  }
+  return newest;
+}
+
+function oldestStartTimestamp(activities: StravaActivity[]): number | null {
+  let oldest: number | null = null;
+  for (const activity of activities) {
+    const start = Math.floor(new Date(activity.start_date).getTime() / 1000);
+    if (oldest === null || start < oldest) {
+      oldest = start;
+    }
+  }
+  return oldest;
 }
 
 /**
- * Get cached activities if available
+ * Bring the store up to date for the requested window
  */
-export function getCachedActivities(key: CacheKey): CacheEntry | null {
-  const cacheKey = generateCacheKey(key);
-  const entry = activityCache.get(cacheKey);
-  
-  if (!entry) {
-    return null;
+async function syncWindow(
+  file: AthleteActivityFile,
+  accessToken: string,
+  after: number,
+): Promise<SyncOutcome> {
+  const now = Math.floor(Date.now() / 1000);
+  let truncated = false;
+  let changed = false;
+
+  // Backfill history older than anything synced so far, newest first
+  if (file.coveredFrom === null || after < file.coveredFrom) {
+    const result = await fetchAllActivities(
+      accessToken,
+      after,
+      file.coveredFrom ?? now,
+      true,
+    );
+    upsertActivities(file, result.activities);
+    truncated = truncated || result.truncated;
+    // A truncated backfill still covers back to the oldest activity it reached,
+    // so the next one continues from there instead of starting over
+    file.coveredFrom = result.truncated
+      ? oldestStartTimestamp(result.activities) ?? file.coveredFrom
+      : after;
+    if (file.lastSyncedAt === null) {
+      file.lastSyncedAt = new Date().toISOString();
+    }
+    changed = true;
   }
 
-  // Check if cache is still valid (within conversation context)
-  // For now, we keep cache for the entire session
-  return entry;
+  // Incremental sync from the newest stored activity
+  const lastSynced = file.lastSyncedAt ? new Date(file.lastSyncedAt).getTime() : 0;
+  let added: StravaActivity[] = [];
+  if (Date.now() - lastSynced >= SYNC_INTERVAL_MS) {
+    const since = newestStartTimestamp(file) ?? file.coveredFrom ?? after;
+    const result = await fetchAllActivities(accessToken, since);
+    added = result.activities.filter((a) => !file.activities[a.id]);
+    upsertActivities(file, result.activities);
+    truncated = truncated || result.truncated;
+    file.lastSyncedAt = new Date().toISOString();
+    changed = true;
+  }
+
+  if (changed) {
+    await saveFile(file);
+  }
+
+  // Backfilled history is not "new"; only activities recorded since the last sync are announced
+  if (added.length > 0) {
+    await notifySyncListeners({ userId: file.athleteId, accessToken }, added);
+  }
+
+  return { fetched: changed, truncated };
 }
 
 /**
- * Store activities in cache
+ * Register a listener for activities that arrive through incremental sync
+ * Listeners run before the sync completes, so callers see their effects
  */
-export function setCachedActivities(
-  key: CacheKey,
+export function onActivitiesSynced(listener: SyncListener): void {
+  syncListeners.push(listener);
+}
+
+async function notifySyncListeners(
+  auth: ActivityStoreAuth,
   activities: StravaActivity[],
-): void {
-  const cacheKey = generateCacheKey(key);
-  
-  const entry: CacheEntry = {
-    data: activities,
-    fetchedAt: new Date().toISOString(),
-    metadata: {
-      days: key.days,
-      includeDetails: key.includeDetails,
-      count: activities.length,
-    },
+): Promise<void> {
+  for (const listener of syncListeners) {
+    try {
+      await listener(auth, activities);
+    } catch (error) {
+      // A failing listener must never fail the sync itself
+      console.error("Activity sync listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Replace summaries in the window with detailed activities, fetching each once
+ * A limited number are fetched per call, newest first; the rest follow on later
+ * calls and are listed in missingIds
+ */
+async function ensureDetails(
+  file: AthleteActivityFile,
+  accessToken: string,
+  activities: StravaActivity[],
+): Promise<DetailedActivitiesResult> {
+  const detailed = new Set(file.detailedIds);
+  const missing = activities
+    .filter((a) => !detailed.has(a.id))
+    .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime());
+
+  if (missing.length === 0) {
+    return { data: activities, missingIds: [] };
+  }
+
+  try {
+    await fetchDetailedActivities(accessToken, missing, (activity) => {
+      file.activities[activity.id] = activity;
+      detailed.add(activity.id);
+    });
+  } finally {
+    // Keep whatever arrived before a rate limit stopped the batch
+    if (detailed.size > file.detailedIds.length) {
+      file.detailedIds = Array.from(detailed);
+      await saveFile(file);
+    }
+  }
+
+  return {
+    data: activities.map((a) => file.activities[a.id] ?? a),
+    missingIds: activities.filter((a) => !detailed.has(a.id)).map((a) => a.id),
+  };
+}
+
+/**
+ * Fetch detailed activities without the store, keeping the summary on failure
+ */
+async function fetchDetailsUncached(
+  accessToken: string,
+  activities: StravaActivity[],
+): Promise<DetailedActivitiesResult> {
+  const newestFirst = [...activities].sort(
+    (a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime(),
+  );
+  const detailed = new Map<number, StravaActivity>();
+  await fetchDetailedActivities(accessToken, newestFirst, (activity) => {
+    detailed.set(activity.id, activity);
+  });
+  return {
+    data: activities.map((a) => detailed.get(a.id) ?? a),
+    missingIds: activities.filter((a) => !detailed.has(a.id)).map((a) => a.id),
+  };
+}
+
+function activitiesInWindow(
+  file: AthleteActivityFile,
+  after: number,
+  before: number,
+  sportTypes: string[],
+): StravaActivity[] {
+  return Object.values(file.activities)
+    .filter((a) => {
+      const start = new Date(a.start_date).getTime() / 1000;
+      return start >= after && start <= before && matchesSportTypes(a, sportTypes);
+    })
+    .sort(
+      (a, b) => new Date(a.start_date).getTime() - new Date(b.start_date).getTime(),
+    );
+}
+
+/**
+ * Sync the store, joining an in-flight sync for the same athlete
+ */
+async function sharedSync(
+  file: AthleteActivityFile,
+  accessToken: string,
+  after: number,
+): Promise<SyncOutcome> {
+  const pending = pendingSyncs.get(file.athleteId);
+  if (pending) {
+    const outcome = await pending.sync;
+    if (pending.after <= after) {
+      return outcome;
+    }
+    // The concurrent sync covered a shorter window than this query needs
+    const followUp = await sharedSync(file, accessToken, after);
+    return {
+      fetched: outcome.fetched || followUp.fetched,
+      truncated: outcome.truncated || followUp.truncated,
+    };
+  }
+
+  const sync = syncWindow(file, accessToken, after).finally(() => {
+    pendingSyncs.delete(file.athleteId);
+  });
+  pendingSyncs.set(file.athleteId, { after, sync });
+  return sync;
+}
+
+/**
+ * Get activities for a date window, syncing with Strava only when needed
+ */
+export async function getActivities(
+  auth: ActivityStoreAuth,
+  query: ActivityQuery,
+): Promise<ActivityStoreResult> {
+  const before = query.before ?? Math.floor(Date.now() / 1000);
+  const sportTypes = query.sportTypes ?? RUN_SPORT_TYPES;
+
+  // Unvalidated manual tokens have no athlete id to key the store by
+  if (auth.userId === "manual") {
+    const result = await fetchAllActivities(auth.accessToken, query.after, before);
+    const activities = result.activities.filter((a) => matchesSportTypes(a, sportTypes));
+    const details = query.includeDetails
+      ? await fetchDetailsUncached(auth.accessToken, activities)
+      : null;
+    return {
+      data: details?.data ?? activities,
+      fetchedAt: new Date().toISOString(),
+      cached: false,
+      truncated: result.truncated,
+      detailsMissing: details?.missingIds.length,
+    };
+  }
+
+  const file = await loadFile(auth.userId);
+  const outcome = await sharedSync(file, auth.accessToken, query.after);
+  let { truncated } = outcome;
+  let cached = !outcome.fetched;
+
+  let data = activitiesInWindow(file, query.after, before, sportTypes);
+  let detailsMissing: number | undefined;
+
+  if (query.includeDetails) {
+    const detailedCount = file.detailedIds.length;
+    const details = await ensureDetails(file, auth.accessToken, data);
+    data = details.data;
+    detailsMissing = details.missingIds.length;
+    cached = cached && file.detailedIds.length === detailedCount;
+  }
+
+  return {
+    data,
+    fetchedAt: file.lastSyncedAt ?? new Date().toISOString(),
+    cached,
+    truncated,
+    detailsMissing,
   };
+}
 
-  activityCache.set(cacheKey, entry);
+/**
+ * Get full detail (best efforts, splits, ...) for specific activities from the store
+ * Use this instead of includeDetails when only a few activities in a window need detail
+ */
+export async function getDetailedActivities(
+  auth: ActivityStoreAuth,
+  activities: StravaActivity[],
+): Promise<DetailedActivitiesResult> {
+  if (auth.userId === "manual") {
+    return fetchDetailsUncached(auth.accessToken, activities);
+  }
+
+  const file = await loadFile(auth.userId);
+  return ensureDetails(file, auth.accessToken, activities);
+}
+
+/**
+ * Get activities from the last N days
+ */
+export async function getActivitiesForDays(
+  auth: ActivityStoreAuth,
+  days: number,
+  includeDetails: boolean = false,
+  sportTypes: string[] = RUN_SPORT_TYPES,
+): Promise<ActivityStoreResult> {
+  const after = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
+  return getActivities(auth, { after, includeDetails, sportTypes });
+}
+
+function streamsPath(athleteId: string, activityId: number): string {
+  return path.join(
+    storeDir,
+    "streams",
+    athleteId.replace(/[^0-9a-z_-]/gi, ""),
+    `${Math.floor(activityId)}.json`,
+  );
+}
+
+function rememberStreams(key: string, streams: ActivityStreams): void {
+  streamsCache.delete(key); // re-insert so Map order tracks recency
+  streamsCache.set(key, streams);
+  while (streamsCache.size > MAX_STREAMS_IN_MEMORY) {
+    const oldest = streamsCache.keys().next().value;
+    if (oldest === undefined) break;
+    streamsCache.delete(oldest);
+  }
+}
+
+/**
+ * Get all streams for an activity
+ * Streams never change once recorded, so each activity is fetched from Strava once
+ */
+export async function getActivityStreams(
+  auth: ActivityStoreAuth,
+  activityId: number,
+): Promise<{ streams: ActivityStreams; cached: boolean }> {
+  if (auth.userId === "manual") {
+    const streams = await fetchActivityStreams(auth.accessToken, activityId);
+    return { streams, cached: false };
+  }
+
+  const key = `${auth.userId}:${activityId}`;
+  const inMemory = streamsCache.get(key);
+  if (inMemory) {
+    rememberStreams(key, inMemory);
+    return { streams: inMemory, cached: true };
+  }
+
+  const target = streamsPath(auth.userId, activityId);
+  try {
+    const streams = JSON.parse(await readFile(target, "utf-8")) as ActivityStreams;
+    rememberStreams(key, streams);
+    return { streams, cached: true };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to read cached streams for activity ${activityId}:`, error);
+    }
+  }
+
+  const streams = await fetchActivityStreams(auth.accessToken, activityId);
+  rememberStreams(key, streams);
+
+  try {
+    await writeJsonFile(target, streams);
+  } catch (error) {
+    // Persisting is best-effort; the streams are still returned
+    console.error(`Failed to store streams for activity ${activityId}:`, error);
+  }
+
+  return { streams, cached: false };
+}
+
+/**
+ * Get the athlete's Strava zones, cached in memory
+ */
+export async function getAthleteZones(
+  auth: ActivityStoreAuth,
+): Promise<{ zones: AthleteZones | null; cached: boolean }> {
+  const cachedZones = auth.userId === "manual" ? undefined : zonesCache.get(auth.userId);
+  if (cachedZones && Date.now() - cachedZones.fetchedAt < ZONES_TTL_MS) {
+    return { zones: cachedZones.zones, cached: true };
+  }
+
+  const zones = await fetchAthleteZones(auth.accessToken);
+  if (auth.userId !== "manual") {
+    zonesCache.set(auth.userId, { zones, fetchedAt: Date.now() });
+  }
+  return { zones, cached: false };
+}
+
+/**
+ * Get the athlete's Strava zones for analyses that can estimate them instead
+ * Auth and rate-limit errors still propagate; any other failure returns null zones
+ */
+export async function getAthleteZonesIfAvailable(
+  auth: ActivityStoreAuth,
+): Promise<{ zones: AthleteZones | null; cached: boolean }> {
+  try {
+    return await getAthleteZones(auth);
+  } catch (error) {
+    if (error instanceof UnauthorizedError || error instanceof RateLimitError) {
+      throw error;
+    }
+    console.error("Failed to fetch athlete zones, estimating them instead:", error);
+    return { zones: null, cached: false };
+  }
 }
 
 /**
- * Clear cache for a specific user or all cache
+ * Clear stored activities and streams for a specific user or all users
  */
-export function clearCache(userId?: string): void {
+export async function clearCache(userId?: string): Promise<void> {
   if (userId) {
-    // Clear all entries for this user
-    const keysToDelete: string[] = [];
-    for (const key of activityCache.keys()) {
+    loadedFiles.delete(userId);
+    zonesCache.delete(userId);
+    for (const key of Array.from(streamsCache.keys())) {
       if (key.startsWith(`${userId}:`)) {
-        keysToDelete.push(key);
+        streamsCache.delete(key);
       }
     }
-    keysToDelete.forEach(key => activityCache.delete(key));
+    await rm(filePath(userId), { force: true });
+    await rm(path.dirname(streamsPath(userId, 0)), { recursive: true, force: true });
   } else {
-    // Clear entire cache
-    activityCache.clear();
+    loadedFiles.clear();
+    streamsCache.clear();
+    zonesCache.clear();
+    await rm(storeDir, { recursive: true, force: true });
   }
 }
 
 /**
- * Get cache statistics
+ * Get store statistics for athletes loaded in this process
  */
 export function getCacheStats(): {
   size: number;
-  keys: string[];
+  athletes: Array<{ athleteId: string; activities: number; lastSyncedAt: string | null }>;
 } {
   return {
-    size: activityCache.size,
-    keys: Array.from(activityCache.keys()),
+    size: loadedFiles.size,
+    athletes: Array.from(loadedFiles.values()).map((file) => ({
+      athleteId: file.athleteId,
+      activities: Object.keys(file.activities).length,
+      lastSyncedAt: file.lastSyncedAt,
+    })),
   };
 }
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  activityDateKey,
+  addDays,
+  monthRanges,
+  resolveTimezone,
+  todayKey,
+  weekRanges,
+  weekStartKey,
+} from "./calendar.js";
+import { buildActivity } from "./test-fixtures.js";
+
+function activity(startDate: string, startDateLocal: string, timezone?: string) {
+  return buildActivity({ start_date: startDate, start_date_local: startDateLocal, timezone });
+}
+
+describe("todayKey", () => {
+  // 2024-03-10 23:30 UTC
+  const now = new Date(Date.UTC(2024, 2, 10, 23, 30));
+
+  it("returns the local day in the timezone", () => {
+    expect(todayKey("UTC", now)).toBe("2024-03-10");
+    expect(todayKey("Europe/Paris", now)).toBe("2024-03-11");
+    expect(todayKey("America/Los_Angeles", now)).toBe("2024-03-10");
+    expect(todayKey("Pacific/Kiritimati", now)).toBe("2024-03-11");
+  });
+});
+
+describe("activityDateKey", () => {
+  it("uses the local start date, not the UTC one", () => {
+    // 23:30 in Los Angeles is already the next day in UTC
+    const run = activity("2024-03-11T06:30:00Z", "2024-03-10T23:30:00Z");
+    expect(activityDateKey(run)).toBe("2024-03-10");
+  });
+});
+
+describe("resolveTimezone", () => {
+  it("prefers the requested timezone", () => {
+    expect(resolveTimezone("Asia/Tokyo", [])).toBe("Asia/Tokyo");
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(() => resolveTimezone("Mars/Olympus_Mons")).toThrow(/Unknown timezone/);
+  });
+
+  it("falls back to the most recent activity's timezone, then UTC", () => {
+    const runs = [
+      activity("2024-03-01T08:00:00Z", "2024-03-01T09:00:00Z", "(GMT+01:00) Europe/Paris"),
+      activity("2024-03-05T15:00:00Z", "2024-03-05T07:00:00Z", "(GMT-08:00) America/Los_Angeles"),
+    ];
+    expect(resolveTimezone(undefined, runs)).toBe("America/Los_Angeles");
+    expect(resolveTimezone(undefined, [])).toBe("UTC");
+  });
+});
+
+describe("addDays", () => {
+  it("steps over DST changes and month ends by whole days", () => {
+    expect(addDays("2024-03-30", 2)).toBe("2024-04-01");
+    expect(addDays("2024-10-27", 1)).toBe("2024-10-28");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+  });
+});
+
+describe("weekStartKey", () => {
+  it("starts weeks on Monday by default", () => {
+    expect(weekStartKey("2024-03-13")).toBe("2024-03-11"); // Wednesday
+    expect(weekStartKey("2024-03-11")).toBe("2024-03-11"); // Monday
+    expect(weekStartKey("2024-03-17")).toBe("2024-03-11"); // Sunday
+  });
+
+  it("starts weeks on Sunday when asked", () => {
+    expect(weekStartKey("2024-03-13", "sunday")).toBe("2024-03-10");
+    expect(weekStartKey("2024-03-17", "sunday")).toBe("2024-03-17");
+    expect(weekStartKey("2024-03-16", "sunday")).toBe("2024-03-10");
+  });
+
+  it("crosses month and year boundaries", () => {
+    expect(weekStartKey("2025-01-01")).toBe("2024-12-30");
+    expect(weekStartKey("2024-03-02", "sunday")).toBe("2024-02-25");
+  });
+});
+
+describe("weekRanges", () => {
+  it("returns consecutive weeks ending with the current one, oldest first", () => {
+    expect(weekRanges("2024-03-13", 3)).toEqual([
+      { start: "2024-02-26", end: "2024-03-03" },
+      { start: "2024-03-04", end: "2024-03-10" },
+      { start: "2024-03-11", end: "2024-03-17" },
+    ]);
+  });
+
+  it("follows the week start", () => {
+    expect(weekRanges("2024-03-13", 2, "sunday")).toEqual([
+      { start: "2024-03-03", end: "2024-03-09" },
+      { start: "2024-03-10", end: "2024-03-16" },
+    ]);
+  });
+});
+
+describe("monthRanges", () => {
+  it("ends each month on its last day, including leap years", () => {
+    expect(monthRanges("2024-03-15", 3)).toEqual([
+      { start: "2024-01-01", end: "2024-01-31" },
+      { start: "2024-02-01", end: "2024-02-29" },
+      { start: "2024-03-01", end: "2024-03-31" },
+    ]);
+    expect(monthRanges("2023-02-10", 1)).toEqual([{ start: "2023-02-01", end: "2023-02-28" }]);
+  });
+
+  it("crosses into the previous year", () => {
+    expect(monthRanges("2024-01-31", 2)).toEqual([
+      { start: "2023-12-01", end: "2023-12-31" },
+      { start: "2024-01-01", end: "2024-01-31" },
+    ]);
+  });
+});
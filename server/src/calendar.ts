@@ -0,0 +1,152 @@
+/**
+ * Calendar days and weeks in the athlete's timezone
+ *
+ * Strava's start_date_local is the wall-clock time where the activity was
+ * recorded, written with a "Z" suffix. Its date part is the athlete's local
+ * day, so activities are bucketed by that string and never parsed as UTC.
+ * "Today" comes from an IANA timezone: an explicit tool parameter, else the
+ * timezone of the athlete's most recent activity, else UTC.
+ * Date keys are YYYY-MM-DD strings; day arithmetic runs on UTC midnights so
+ * DST never skips or repeats a day.
+ */
+
+import type { StravaActivity } from "./strava.js";
+
+export type WeekStart = "monday" | "sunday";
+
+export const DEFAULT_WEEK_START: WeekStart = "monday";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD, first day
+  end: string; // YYYY-MM-DD, last day (inclusive)
+}
+
+/**
+ * Whether `timezone` is an IANA zone name this runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zone from Strava's activity timezone, e.g. "(GMT-08:00) America/Los_Angeles"
+ */
+export function parseStravaTimezone(value: string | undefined): string | null {
+  const zone = value?.replace(/^\([^)]*\)\s*/, "").trim();
+  return zone && isValidTimezone(zone) ? zone : null;
+}
+
+/**
+ * Pick the timezone: explicit request, then the most recent activity's, then UTC
+ */
+export function resolveTimezone(
+  requested: string | undefined,
+  activities: StravaActivity[] = [],
+): string {
+  if (requested) {
+    if (!isValidTimezone(requested)) {
+      throw new Error(`Unknown timezone "${requested}". Use an IANA name such as "Europe/Paris".`);
+    }
+    return requested;
+  }
+
+  const latest = activities.reduce<StravaActivity | null>(
+    (best, a) => (a.timezone && (!best || a.start_date > best.start_date) ? a : best),
+    null,
+  );
+  return parseStravaTimezone(latest?.timezone) ?? "UTC";
+}
+
+/**
+ * Local calendar day of an activity
+ */
+export function activityDateKey(activity: StravaActivity): string {
+  return activity.start_date_local.split("T")[0];
+}
+
+/**
+ * Today's date in `timezone`
+ */
+export function todayKey(timezone: string, now: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * First day of the week containing `dateKey`
+ */
+export function weekStartKey(dateKey: string, weekStart: WeekStart = DEFAULT_WEEK_START): string {
+  const day = new Date(`${dateKey}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+  const offset = weekStart === "monday" ? (day + 6) % 7 : day;
+  return addDays(dateKey, -offset);
+}
+
+/**
+ * `count` consecutive weeks ending with the week containing `lastDateKey`, oldest first
+ */
+export function weekRanges(
+  lastDateKey: string,
+  count: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START,
+): DateRange[] {
+  const lastStart = weekStartKey(lastDateKey, weekStart);
+  return Array.from({ length: count }, (_, i) => {
+    const start = addDays(lastStart, (i - count + 1) * 7);
+    return { start, end: addDays(start, 6) };
+  });
+}
+
+/**
+ * `count` consecutive calendar months ending with the month containing `lastDateKey`, oldest first
+ */
+export function monthRanges(lastDateKey: string, count: number): DateRange[] {
+  const [year, month] = lastDateKey.split("-").map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const first = new Date(Date.UTC(year, month - 1 - (count - 1 - i), 1));
+    const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0));
+    return {
+      start: first.toISOString().split("T")[0],
+      end: last.toISOString().split("T")[0],
+    };
+  });
+}
+
+/**
+ * Unix timestamp safe to pass as Strava's `after` for activities on or after
+ * `dateKey` in any timezone (local days can start up to 14 hours before UTC)
+ */
+export function afterTimestampForDateKey(dateKey: string): number {
+  return Math.floor(Date.parse(`${dateKey}T00:00:00Z`) / 1000) - DAY_MS / 1000;
+}
+
+/**
+ * Activities whose local day falls between two date keys (inclusive)
+ */
+export function filterActivitiesByLocalDate(
+  activities: StravaActivity[],
+  fromKey: string,
+  toKey: string,
+): StravaActivity[] {
+  return activities.filter((a) => {
+    const key = activityDateKey(a);
+    return key >= fromKey && key <= toKey;
+  });
+}
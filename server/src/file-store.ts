@@ -0,0 +1,57 @@
+/**
+ * Atomic JSON writes for the on-disk stores
+ *
+ * Each write goes to its own temp file and is renamed over the target, so a
+ * crash never leaves a half-written file. Writes to the same file are queued,
+ * so concurrent saves land in the order they were made.
+ */
+
+import { mkdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Last queued write per file
+ * Key: target path
+ */
+const writeQueues = new Map<string, Promise<void>>();
+
+let tmpCounter = 0;
+
+/**
+ * Write `data` as JSON to `target`, after any write to it still in flight
+ */
+export function writeJsonFile(
+  target: string,
+  data: unknown,
+  options: { pretty?: boolean; mode?: number } = {},
+): Promise<void> {
+  // Serialize now, so the file gets the state as of this call
+  const json = options.pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data);
+  const previous = writeQueues.get(target) ?? Promise.resolve();
+
+  const write = previous
+    // A failed earlier write is reported to its own caller; this one still runs
+    .catch(() => undefined)
+    .then(async () => {
+      const tmpPath = `${target}.${process.pid}.${++tmpCounter}.tmp`;
+      await mkdir(path.dirname(target), { recursive: true });
+      try {
+        await writeFile(tmpPath, json, { mode: options.mode });
+        await rename(tmpPath, target);
+      } catch (error) {
+        await rm(tmpPath, { force: true });
+        throw error;
+      }
+    });
+
+  writeQueues.set(target, write);
+  write
+    .finally(() => {
+      if (writeQueues.get(target) === write) {
+        writeQueues.delete(target);
+      }
+    })
+    .catch(() => undefined);
+
+  return write;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { addDays } from "./calendar.js";
+import { buildGearStatus, findShoe, type GearSettings } from "./gear.js";
+import type { StravaGear } from "./strava.js";
+import { buildRun } from "./test-fixtures.js";
+
+const today = "2024-03-28";
+
+function shoe(id: string, name: string, km: number, overrides: Partial<StravaGear> = {}): StravaGear {
+  return { id, name, primary: false, distance: km * 1000, ...overrides };
+}
+
+const run = (daysAgo: number, km: number, gearId: string) => buildRun(addDays(today, -daysAgo), km, 300, { gear_id: gearId });
+
+// 10 km every other day over the last four weeks, oldest first: 5 km a day
+const everyOtherDay = (gearId: string) =>
+  Array.from({ length: 14 }, (_, i) => run(26 - i * 2, 10, gearId));
+
+const noSettings: GearSettings = { defaultRetirementDistance: null, retirementDistances: {} };
+
+describe("buildGearStatus", () => {
+  it("projects retirement at the recent rate of wear", () => {
+    const [status] = buildGearStatus([shoe("g1", "Daily trainer", 500)], [run(40, 12, "g1"), ...everyOtherDay("g1")], noSettings, today);
+
+    expect(status).toMatchObject({
+      state: "ok",
+      distance: 500,
+      syncedDistance: 152,
+      retirementDistance: 700,
+      retirementSource: "standard",
+      remaining: 200,
+      percentUsed: 71,
+      activities: 15,
+      lastUsed: "2024-03-28",
+      recentDistance: 140,
+      // 200 km at 5 km a day
+      projectedRetirement: "2024-05-07",
+    });
+  });
+
+  it("moves from approaching to retire past 85% and 100%, most worn first and retired pairs last", () => {
+    const statuses = buildGearStatus(
+      [
+        shoe("g1", "Daily trainer", 500),
+        shoe("g2", "Racer", 720),
+        shoe("g3", "Old pair", 800, { retired: true }),
+        shoe("g4", "Trail", 600),
+      ],
+      [],
+      noSettings,
+      today,
+    );
+
+    expect(statuses.map((s) => [s.id, s.state, s.percentUsed, s.projectedRetirement])).toEqual([
+      ["g2", "retire", 103, null],
+      ["g4", "approaching", 86, null],
+      ["g1", "ok", 71, null],
+      ["g3", "retired", 114, null],
+    ]);
+    expect(statuses[0].remaining).toBe(-20);
+  });
+
+  it("uses a pair's own retirement distance, then the athlete's default", () => {
+    const settings: GearSettings = { defaultRetirementDistance: 600000, retirementDistances: { g1: 800000 } };
+    const statuses = buildGearStatus([shoe("g1", "Daily trainer", 500), shoe("g2", "Racer", 500)], [], settings, today);
+
+    expect(statuses.map((s) => [s.id, s.retirementDistance, s.retirementSource, s.state])).toEqual([
+      ["g2", 600, "default", "ok"],
+      ["g1", 800, "shoe", "ok"],
+    ]);
+  });
+
+  it("never reports less than the synced distance", () => {
+    const [status] = buildGearStatus([shoe("g1", "New pair", 0)], everyOtherDay("g1"), noSettings, today);
+    expect(status).toMatchObject({ distance: 140, syncedDistance: 140 });
+  });
+
+  it("reports miles with imperial units", () => {
+    const [status] = buildGearStatus([shoe("g1", "Daily trainer", 500)], [], noSettings, today, "imperial");
+    expect(status).toMatchObject({ distance: 310.7, retirementDistance: 435, lastUsed: null });
+  });
+});
+
+describe("findShoe", () => {
+  const shoes = [shoe("g1", "Pegasus 40", 100), shoe("g2", "Pegasus 40 Trail", 100), shoe("g3", "Vaporfly", 100)];
+
+  it("matches by id, exact name or a unique part of a name", () => {
+    expect(findShoe(shoes, "g3")?.id).toBe("g3");
+    expect(findShoe(shoes, "pegasus 40")?.id).toBe("g1");
+    expect(findShoe(shoes, "trail")?.id).toBe("g2");
+    expect(findShoe(shoes, "vapor")?.id).toBe("g3");
+  });
+
+  it("returns null when nothing or more than one pair matches", () => {
+    expect(findShoe(shoes, "pegasus")).toBeNull();
+    expect(findShoe(shoes, "novablast")).toBeNull();
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Shoe mileage and retirement
+ *
+ * Shoes come from the athlete's gear list, plus retired pairs that synced
+ * activities still point at (looked up one by one, since the list leaves them
+ * out). Wear is Strava's running total for each pair, which includes any
+ * starting distance the athlete entered; the synced activities add when a
+ * pair was last used and how quickly it is wearing. Retirement distances are
+ * set per athlete, as a default or for a single pair, and kept on disk.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { ActivityStoreAuth } from "./cache.js";
+import { activityDateKey, addDays } from "./calendar.js";
+import { writeJsonFile } from "./file-store.js";
+import {
+  fetchAthlete,
+  fetchGear,
+  RateLimitError,
+  UnauthorizedError,
+  type StravaActivity,
+  type StravaAthlete,
+  type StravaGear,
+} from "./strava.js";
+import { distanceInUnits, type UnitSystem } from "./units.js";
+
+export type GearState = "ok" | "approaching" | "retire" | "retired";
+
+export interface GearStatus {
+  id: string;
+  name: string;
+  brand: string | null;
+  model: string | null;
+  primary: boolean;
+  state: GearState;
+  distance: number; // km or mi, Strava's total for the pair
+  syncedDistance: number; // km or mi, from synced activities only
+  retirementDistance: number; // km or mi
+  retirementSource: "shoe" | "default" | "standard";
+  remaining: number; // km or mi; negative once past retirement
+  percentUsed: number; // of the retirement distance
+  activities: number; // synced activities with this pair
+  lastUsed: string | null; // YYYY-MM-DD
+  recentDistance: number; // km or mi over the last RECENT_DAYS
+  projectedRetirement: string | null; // YYYY-MM-DD at the recent rate of use
+}
+
+export interface GearSettings {
+  defaultRetirementDistance: number | null; // meters
+  retirementDistances: Record<string, number>; // meters, keyed by gear id
+}
+
+interface AthleteGearFile extends GearSettings {
+  version: 1;
+  athleteId: string;
+}
+
+// Common guidance for running shoes is 500-800 km
+export const DEFAULT_RETIREMENT_DISTANCE = 700000; // meters
+
+// Share of the retirement distance at which a pair is flagged as approaching it
+const APPROACHING_SHARE = 0.85;
+
+// Window used for the recent rate of wear
+export const RECENT_DAYS = 28;
+
+// Retired shoes looked up per call; each one is a Strava request
+const MAX_GEAR_LOOKUPS = 5;
+
+const gearDir =
+  process.env.GEAR_SETTINGS_DIR ||
+  path.join(process.cwd(), ".data", "gear");
+
+/**
+ * Loaded settings files, so each file is read from disk once per process
+ * Key: athlete id
+ */
+const loadedFiles = new Map<string, AthleteGearFile>();
+
+/**
+ * Gear looked up by id; names and brands rarely change
+ * Key: gear id
+ */
+const gearCache = new Map<string, StravaGear>();
+
+function filePath(athleteId: string): string {
+  return path.join(gearDir, `${athleteId.replace(/[^0-9a-z_-]/gi, "")}.json`);
+}
+
+function emptyFile(athleteId: string): AthleteGearFile {
+  return { version: 1, athleteId, defaultRetirementDistance: null, retirementDistances: {} };
+}
+
+async function loadFile(athleteId: string): Promise<AthleteGearFile> {
+  // Unvalidated manual tokens have no athlete id; their settings are not kept
+  if (athleteId === "manual") {
+    return emptyFile(athleteId);
+  }
+
+  const loaded = loadedFiles.get(athleteId);
+  if (loaded) {
+    return loaded;
+  }
+
+  let file = emptyFile(athleteId);
+  try {
+    const raw = await readFile(filePath(athleteId), "utf-8");
+    file = { ...file, ...(JSON.parse(raw) as AthleteGearFile) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to load gear settings for ${athleteId}, starting empty:`, error);
+    }
+  }
+
+  loadedFiles.set(athleteId, file);
+  return file;
+}
+
+async function saveFile(file: AthleteGearFile): Promise<void> {
+  await writeJsonFile(filePath(file.athleteId), file);
+}
+
+export async function getGearSettings(userId: string): Promise<GearSettings> {
+  const { defaultRetirementDistance, retirementDistances } = await loadFile(userId);
+  return { defaultRetirementDistance, retirementDistances };
+}
+
+/**
+ * Set the retirement distance for one pair, or the default for all pairs
+ * without their own; null clears it. Returns false when it can't be kept
+ * (unvalidated manual tokens).
+ */
+export async function setRetirementDistance(
+  userId: string,
+  meters: number | null,
+  gearId?: string,
+): Promise<boolean> {
+  if (userId === "manual") {
+    return false;
+  }
+
+  const file = await loadFile(userId);
+  if (gearId) {
+    if (meters === null) {
+      delete file.retirementDistances[gearId];
+    } else {
+      file.retirementDistances[gearId] = meters;
+    }
+  } else {
+    file.defaultRetirementDistance = meters;
+  }
+  await saveFile(file);
+  return true;
+}
+
+/**
+ * The athlete's shoes, plus retired shoes still referenced by `activities`
+ * The profile from token validation is reused when it carries the shoe list
+ */
+export async function getAthleteShoes(
+  auth: ActivityStoreAuth & { athlete?: StravaAthlete },
+  activities: StravaActivity[],
+): Promise<StravaGear[]> {
+  const athlete = auth.athlete?.shoes ? auth.athlete : await fetchAthlete(auth.accessToken);
+  const shoes = [...(athlete.shoes ?? [])];
+
+  // Most recently used first, so the lookup budget goes to shoes that matter
+  const known = new Set(shoes.map((s) => s.id));
+  const missing: string[] = [];
+  for (const activity of [...activities].reverse()) {
+    const gearId = activity.gear_id;
+    if (gearId?.startsWith("g") && !known.has(gearId)) {
+      known.add(gearId);
+      missing.push(gearId);
+    }
+  }
+
+  for (const gearId of missing.slice(0, MAX_GEAR_LOOKUPS)) {
+    let gear = gearCache.get(gearId);
+    if (!gear) {
+      try {
+        gear = await fetchGear(auth.accessToken, gearId);
+      } catch (error) {
+        if (error instanceof UnauthorizedError || error instanceof RateLimitError) {
+          throw error;
+        }
+        // One pair that can't be looked up (deleted, or not visible to this token) is left out
+        console.error(`Failed to look up gear ${gearId}, skipping it:`, error);
+        continue;
+      }
+      gearCache.set(gearId, gear);
+    }
+    shoes.push({ ...gear, retired: gear.retired ?? true });
+  }
+
+  return shoes;
+}
+
+/**
+ * Wear, usage and retirement state for each pair, most worn first with retired pairs last
+ */
+export function buildGearStatus(
+  shoes: StravaGear[],
+  activities: StravaActivity[],
+  settings: GearSettings,
+  today: string,
+  units: UnitSystem = "metric",
+): GearStatus[] {
+  const recentFrom = addDays(today, -(RECENT_DAYS - 1));
+
+  const statuses = shoes.map((shoe): GearStatus => {
+    const used = activities.filter((a) => a.gear_id === shoe.id);
+    const syncedMeters = used.reduce((sum, a) => sum + a.distance, 0);
+    const recentMeters = used
+      .filter((a) => activityDateKey(a) >= recentFrom)
+      .reduce((sum, a) => sum + a.distance, 0);
+    // Strava's total can lag a fresh sync; never report less than what was synced
+    const meters = Math.max(shoe.distance ?? 0, syncedMeters);
+
+    const own = settings.retirementDistances[shoe.id];
+    const retirementMeters = own ?? settings.defaultRetirementDistance ?? DEFAULT_RETIREMENT_DISTANCE;
+    const retirementSource: GearStatus["retirementSource"] =
+      own !== undefined ? "shoe" : settings.defaultRetirementDistance !== null ? "default" : "standard";
+    const remainingMeters = retirementMeters - meters;
+
+    let state: GearState = "ok";
+    if (shoe.retired) state = "retired";
+    else if (meters >= retirementMeters) state = "retire";
+    else if (meters >= retirementMeters * APPROACHING_SHARE) state = "approaching";
+
+    const dailyMeters = recentMeters / RECENT_DAYS;
+    const projectedRetirement =
+      state === "ok" || state === "approaching"
+        ? dailyMeters > 0 ? addDays(today, Math.ceil(remainingMeters / dailyMeters)) : null
+        : null;
+
+    const lastUsed = used.length > 0 ? activityDateKey(used[used.length - 1]) : null;
+
+    return {
+      id: shoe.id,
+      name: shoe.name,
+      brand: shoe.brand_name ?? null,
+      model: shoe.model_name ?? null,
+      primary: shoe.primary,
+      state,
+      distance: distanceInUnits(meters, units),
+      syncedDistance: distanceInUnits(syncedMeters, units),
+      retirementDistance: distanceInUnits(retirementMeters, units, 0),
+      retirementSource,
+      remaining: distanceInUnits(remainingMeters, units),
+      percentUsed: Math.round((meters / retirementMeters) * 100),
+      activities: used.length,
+      lastUsed,
+      recentDistance: distanceInUnits(recentMeters, units),
+      projectedRetirement,
+    };
+  });
+
+  return statuses.sort(
+    (a, b) => Number(a.state === "retired") - Number(b.state === "retired") || b.percentUsed - a.percentUsed,
+  );
+}
+
+/**
+ * Find a shoe by id or by (part of) its name; null when nothing or more than one pair matches
+ */
+export function findShoe(shoes: StravaGear[], query: string): StravaGear | null {
+  const byId = shoes.find((s) => s.id === query);
+  if (byId) return byId;
+
+  const needle = query.trim().toLowerCase();
+  const exact = shoes.filter((s) => s.name.toLowerCase() === needle);
+  if (exact.length === 1) return exact[0];
+
+  const partial = shoes.filter((s) => s.name.toLowerCase().includes(needle));
+  return partial.length === 1 ? partial[0] : null;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { gradeAdjustFromStreams, gradeCostFactor } from "./grade-adjusted-pace.js";
+import type { ActivityStreams } from "./strava.js";
+
+// 1 Hz samples at 3 m/s with altitude from `altitudeAt(meters)`, jittered by ±`noise` meters
+function streams(seconds: number, altitudeAt: (meters: number) => number, noise: number = 0): ActivityStreams {
+  const time = Array.from({ length: seconds + 1 }, (_, i) => i);
+  const distance = time.map((t) => t * 3);
+  const altitude = distance.map((d, i) => altitudeAt(d) + (i % 2 === 0 ? noise : -noise));
+  return { time, distance, altitude };
+}
+
+describe("gradeCostFactor", () => {
+  it("is 1 on the flat, more uphill and less on gentle descents", () => {
+    expect(gradeCostFactor(0)).toBe(1);
+    expect(gradeCostFactor(5)).toBeGreaterThan(1);
+    expect(gradeCostFactor(-5)).toBeLessThan(1);
+  });
+});
+
+describe("gradeAdjustFromStreams", () => {
+  it("leaves a flat run's pace unchanged", () => {
+    const result = gradeAdjustFromStreams({ ...streams(1000, () => 100), grade_smooth: new Array(1001).fill(0) })!;
+    expect(result.method).toBe("streams");
+    expect(result.distance).toBe(3000);
+    expect(result.gap).toBe(result.pace);
+    expect(result.splits).toHaveLength(3);
+  });
+
+  it("ignores altitude jitter when totalling gain and loss", () => {
+    const result = gradeAdjustFromStreams(streams(1000, () => 100, 1))!;
+    expect(result.elevationGain).toBe(0);
+    expect(result.elevationLoss).toBe(0);
+  });
+
+  it("still counts a real climb through the jitter", () => {
+    // 50 m up over the first kilometer, then flat
+    const result = gradeAdjustFromStreams(streams(1000, (d) => 100 + Math.min(d, 1000) * 0.05, 1))!;
+
+    expect(result.elevationGain).toBeGreaterThanOrEqual(47);
+    expect(result.elevationGain).toBeLessThanOrEqual(53);
+    expect(result.elevationLoss).toBeLessThanOrEqual(3);
+    expect(result.gap).toBeLessThan(result.pace);
+    expect(result.splits[0].averageGrade).toBeCloseTo(5, 0);
+  });
+
+  it("needs distance, time and some elevation data", () => {
+    expect(gradeAdjustFromStreams({ time: [0, 1], distance: [0, 3] })).toBeNull();
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Grade-adjusted pace (GAP): the pace an effort would have produced on flat ground
+ *
+ * Each stretch of a run is weighted by the relative energy cost of running at
+ * its grade, so climbs count as more than their distance and gentle descents
+ * as less. Grade comes from the grade stream when Strava provides it, otherwise
+ * from the altitude stream. Activities without streams fall back to an
+ * estimate from total elevation gain.
+ */
+
+import { getActivityStreams, type ActivityStoreAuth } from "./cache.js";
+import {
+  RateLimitError,
+  UnauthorizedError,
+  type ActivityStreams,
+  type StravaActivity,
+} from "./strava.js";
+import {
+  distanceInUnits,
+  distanceToMeters,
+  elevationInUnits,
+  formatPaceSeconds,
+  perKmSecondsInUnits,
+  type UnitSystem,
+} from "./units.js";
+
+export type GapMethod = "streams" | "estimate";
+
+export interface GapSplit {
+  split: number; // 1-based
+  distance: number; // meters
+  movingTime: number; // seconds
+  pace: number; // seconds per km
+  gap: number; // seconds per km, flat-equivalent
+  elevationChange: number; // meters, net
+  averageGrade: number; // percent
+}
+
+export interface GradeAdjustedPace {
+  method: GapMethod;
+  distance: number; // meters
+  movingTime: number; // seconds
+  pace: number; // seconds per km
+  gap: number; // seconds per km, flat-equivalent
+  elevationGain: number; // meters
+  elevationLoss: number; // meters
+  splits: GapSplit[]; // empty for estimates
+}
+
+export interface ElevationImpactRun {
+  id: number;
+  name: string;
+  date: string; // YYYY-MM-DD (local)
+  distance: number; // km or mi
+  elevationGain: number; // m or ft
+  elevationLoss: number; // m or ft
+  actualPace: string; // per km (or per mile)
+  adjustedPace: string; // grade-adjusted, per km (or per mile)
+  paceAdjustment: number; // seconds per km (or mile); positive when terrain slowed the run
+  elevationPerDistance: number; // m per km, or ft per mile
+  gapMethod: GapMethod;
+  splits: Array<{
+    split: number;
+    distance: number; // km or mi
+    pace: string;
+    gap: string;
+    elevationChange: number; // m or ft, net
+    averageGrade: number; // percent
+  }>; // per km (or mile), streams only
+}
+
+export interface ElevationImpact {
+  runs: ElevationImpactRun[]; // hilliest first
+  summary: {
+    totalActivities: number;
+    averageElevationGain: number; // m or ft
+    averagePaceAdjustment: number; // seconds per km (or mile)
+    adjustmentMethod: string;
+    streamCoverage: { fromStreams: number; estimated: number; rateLimited: boolean };
+  };
+}
+
+// Curve coefficients (grade in percent): cost = 1 + LINEAR·g + QUADRATIC·g²
+// Cheapest around -8.5% (~12% below flat); steeper descents cost more again
+// because braking eats the savings, which keeps downhill courses honest
+const COST_LINEAR = 0.029;
+const COST_QUADRATIC = 0.0017;
+
+// Grades beyond this are GPS/barometer noise or scrambling, not running
+const MAX_GRADE_PERCENT = 35;
+
+// Altitude is differenced over at least this distance to suppress noise
+const GRADE_WINDOW_METERS = 20;
+
+// Gain and loss only count once altitude has moved this far from the last turning
+// point, so GPS/barometer jitter doesn't add up (a dead band, as devices use)
+const ELEVATION_THRESHOLD_METERS = 3;
+
+// Gaps between samples longer than this are pauses, not running
+const MAX_SAMPLE_GAP_SECONDS = 30;
+
+const DEFAULT_SPLIT_DISTANCE = 1000;
+
+/**
+ * Relative energy cost of running at a grade (percent), 1 on the flat
+ */
+export function gradeCostFactor(gradePercent: number): number {
+  const g = Math.max(-MAX_GRADE_PERCENT, Math.min(MAX_GRADE_PERCENT, gradePercent));
+  return 1 + COST_LINEAR * g + COST_QUADRATIC * g * g;
+}
+
+/**
+ * Per-sample grade (percent): the grade stream if present, else derived from altitude
+ * Returns null when neither is available
+ */
+export function gradesFromStreams(streams: ActivityStreams): number[] | null {
+  const { grade_smooth, altitude, distance } = streams;
+  if (grade_smooth && grade_smooth.length > 1) {
+    return grade_smooth;
+  }
+  if (!altitude || !distance || altitude.length < 2) {
+    return null;
+  }
+
+  const samples = Math.min(altitude.length, distance.length);
+  const grades = new Array<number>(samples).fill(0);
+  let back = 0;
+  let ahead = 0;
+  for (let i = 0; i < samples; i++) {
+    // Widen a window around i until it spans GRADE_WINDOW_METERS
+    while (back < i && distance[i] - distance[back + 1] >= GRADE_WINDOW_METERS / 2) back++;
+    ahead = Math.max(ahead, i);
+    while (ahead < samples - 1 && distance[ahead] - distance[i] < GRADE_WINDOW_METERS / 2) ahead++;
+
+    const run = distance[ahead] - distance[back];
+    grades[i] = run > 0 ? ((altitude[ahead] - altitude[back]) / run) * 100 : 0;
+  }
+  return grades;
+}
+
+/**
+ * Grade-adjusted pace for a whole activity and per split, from streams
+ * Returns null without distance/time streams or without any elevation data
+ */
+export function gradeAdjustFromStreams(
+  streams: ActivityStreams,
+  splitDistance: number = DEFAULT_SPLIT_DISTANCE,
+): GradeAdjustedPace | null {
+  const { distance, time, altitude } = streams;
+  const grades = gradesFromStreams(streams);
+  if (!distance || !time || !grades || distance.length < 2) {
+    return null;
+  }
+
+  const samples = Math.min(distance.length, time.length, grades.length);
+  const splits: GapSplit[] = [];
+  let totalDistance = 0;
+  let totalTime = 0;
+  let totalFlat = 0;
+  let gain = 0;
+  let loss = 0;
+  // Elevation relative to the start, and where it last counted towards gain or loss
+  let elevation = 0;
+  let anchor = 0;
+
+  // Running totals for the split in progress
+  let split = { distance: 0, time: 0, flat: 0, rise: 0 };
+  const closeSplit = () => {
+    if (split.distance <= 0 || split.time <= 0) return;
+    splits.push({
+      split: splits.length + 1,
+      distance: Math.round(split.distance),
+      movingTime: Math.round(split.time),
+      pace: Math.round((split.time / split.distance) * 1000),
+      gap: Math.round((split.time / split.flat) * 1000),
+      elevationChange: Math.round(split.rise),
+      averageGrade: Math.round((split.rise / split.distance) * 1000) / 10,
+    });
+    split = { distance: 0, time: 0, flat: 0, rise: 0 };
+  };
+
+  for (let i = 1; i < samples; i++) {
+    const dx = distance[i] - distance[i - 1];
+    const dt = time[i] - time[i - 1];
+    if (dx <= 0 || dt <= 0 || dt > MAX_SAMPLE_GAP_SECONDS) {
+      continue;
+    }
+
+    const grade = (grades[i] + grades[i - 1]) / 2;
+    const flat = dx * gradeCostFactor(grade);
+    const rise = altitude && altitude.length > i
+      ? altitude[i] - altitude[i - 1]
+      : (dx * grade) / 100;
+
+    totalDistance += dx;
+    totalTime += dt;
+    totalFlat += flat;
+    elevation += rise;
+    if (elevation - anchor >= ELEVATION_THRESHOLD_METERS) {
+      gain += elevation - anchor;
+      anchor = elevation;
+    } else if (anchor - elevation >= ELEVATION_THRESHOLD_METERS) {
+      loss += anchor - elevation;
+      anchor = elevation;
+    }
+
+    split.distance += dx;
+    split.time += dt;
+    split.flat += flat;
+    split.rise += rise;
+    if (split.distance >= splitDistance) {
+      closeSplit();
+    }
+  }
+  closeSplit();
+
+  if (totalDistance <= 0 || totalTime <= 0) {
+    return null;
+  }
+
+  return {
+    method: "streams",
+    distance: Math.round(totalDistance),
+    movingTime: Math.round(totalTime),
+    pace: Math.round((totalTime / totalDistance) * 1000),
+    gap: Math.round((totalTime / totalFlat) * 1000),
+    elevationGain: Math.round(gain),
+    elevationLoss: Math.round(loss),
+    splits,
+  };
+}
+
+/**
+ * Fallback without streams: assume the run climbs its total gain over half its
+ * distance and descends it over the other half (a loop or out-and-back)
+ */
+export function estimateGradeAdjusted(activity: StravaActivity): GradeAdjustedPace {
+  const pace = activity.average_speed > 0 ? 1000 / activity.average_speed : 0;
+  const half = activity.distance / 2;
+  const grade = half > 0 ? (activity.total_elevation_gain / half) * 100 : 0;
+  const cost = (gradeCostFactor(grade) + gradeCostFactor(-grade)) / 2;
+
+  return {
+    method: "estimate",
+    distance: Math.round(activity.distance),
+    movingTime: activity.moving_time,
+    pace: Math.round(pace),
+    gap: Math.round(pace / cost),
+    elevationGain: Math.round(activity.total_elevation_gain),
+    elevationLoss: Math.round(activity.total_elevation_gain),
+    splits: [],
+  };
+}
+
+/**
+ * Grade-adjusted pace for each activity: from streams for the hilliest
+ * `maxStreamActivities`, estimated for the rest. A rate limit stops further
+ * stream requests instead of failing the analysis.
+ */
+export async function gradeAdjustActivities(
+  auth: ActivityStoreAuth,
+  activities: StravaActivity[],
+  maxStreamActivities: number,
+  splitDistance: number = DEFAULT_SPLIT_DISTANCE,
+): Promise<{ results: Map<number, GradeAdjustedPace>; rateLimited: boolean }> {
+  const byClimb = [...activities].sort((a, b) => b.total_elevation_gain - a.total_elevation_gain);
+  let streamBudget = maxStreamActivities;
+  let rateLimited = false;
+  const results = new Map<number, GradeAdjustedPace>();
+
+  for (const activity of byClimb) {
+    let result: GradeAdjustedPace | null = null;
+
+    if (streamBudget > 0 && !rateLimited) {
+      streamBudget--;
+      try {
+        const { streams } = await getActivityStreams(auth, activity.id);
+        result = gradeAdjustFromStreams(streams, splitDistance);
+      } catch (error) {
+        if (error instanceof UnauthorizedError) throw error;
+        // Keep going on estimates rather than failing the whole analysis
+        if (error instanceof RateLimitError) {
+          rateLimited = true;
+        } else {
+          console.error(`Failed to fetch streams for activity ${activity.id}:`, error);
+        }
+      }
+    }
+
+    results.set(activity.id, result ?? estimateGradeAdjusted(activity));
+  }
+
+  return { results, rateLimited };
+}
+
+/**
+ * Grade-adjusted pace and elevation for each run in the athlete's units, with
+ * per-unit splits, hilliest first, plus averages over all of them
+ */
+export async function analyzeElevationImpact(
+  auth: ActivityStoreAuth,
+  activities: StravaActivity[],
+  maxStreamActivities: number,
+  units: UnitSystem,
+): Promise<ElevationImpact> {
+  const { results, rateLimited } = await gradeAdjustActivities(
+    auth,
+    activities,
+    maxStreamActivities,
+    distanceToMeters(1, units),
+  );
+
+  const runs = activities.map((activity): ElevationImpactRun => {
+    const distance = distanceInUnits(activity.distance, units, 3);
+    const result = results.get(activity.id)!;
+    const elevationGain = elevationInUnits(result.elevationGain, units);
+
+    return {
+      id: activity.id,
+      name: activity.name,
+      date: activity.start_date_local.split("T")[0],
+      distance: Math.round(distance * 10) / 10,
+      elevationGain,
+      elevationLoss: elevationInUnits(result.elevationLoss, units),
+      actualPace: formatPaceSeconds(perKmSecondsInUnits(result.pace, units)),
+      adjustedPace: formatPaceSeconds(perKmSecondsInUnits(result.gap, units)),
+      // Positive when terrain slowed the run, negative when it helped (net downhill)
+      paceAdjustment: Math.round(perKmSecondsInUnits(result.pace - result.gap, units)),
+      elevationPerDistance: distance > 0 ? Math.round(elevationGain / distance) : 0,
+      gapMethod: result.method,
+      splits: result.splits.map((split) => ({
+        split: split.split,
+        distance: distanceInUnits(split.distance, units, 2),
+        pace: formatPaceSeconds(perKmSecondsInUnits(split.pace, units)),
+        gap: formatPaceSeconds(perKmSecondsInUnits(split.gap, units)),
+        elevationChange: elevationInUnits(split.elevationChange, units),
+        averageGrade: split.averageGrade,
+      })),
+    };
+  });
+
+  const fromStreams = [...results.values()].filter((r) => r.method === "streams").length;
+  const estimated = activities.length - fromStreams;
+  // Same gain the runs are ranked by: from streams where fetched, Strava's total otherwise
+  const totalElevationGain = [...results.values()].reduce((sum, r) => sum + r.elevationGain, 0);
+  const totalPaceAdjustment = runs.reduce((sum, r) => sum + r.paceAdjustment, 0);
+
+  runs.sort((a, b) => b.elevationGain - a.elevationGain);
+
+  return {
+    runs,
+    summary: {
+      totalActivities: activities.length,
+      averageElevationGain: elevationInUnits(totalElevationGain / activities.length, units),
+      averagePaceAdjustment: Math.round(totalPaceAdjustment / runs.length),
+      adjustmentMethod: `Grade-adjusted pace from per-sample grade with an uphill/downhill energy-cost curve (${fromStreams} runs from elevation streams, ${estimated} estimated from total elevation gain${rateLimited ? ", Strava rate limit reached" : ""})`,
+      streamCoverage: { fromStreams, estimated, rateLimited },
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateTimeInZones,
+  polarization,
+  resolveHeartRateZones,
+  timeInZones,
+  zoneIndex,
+  zonesFromMaxHeartRate,
+  zonesFromStrava,
+  zonesFromThresholdHeartRate,
+} from "./hr-zones.js";
+import { buildActivity } from "./test-fixtures.js";
+
+const bounds = (zones: { min: number; max: number | null }[]) => zones.map((z) => [z.min, z.max]);
+
+describe("zone models", () => {
+  it("builds five zones from max heart rate", () => {
+    expect(bounds(zonesFromMaxHeartRate(200))).toEqual([
+      [0, 130],
+      [130, 162],
+      [162, 178],
+      [178, 194],
+      [194, null],
+    ]);
+  });
+
+  it("builds five zones from threshold heart rate", () => {
+    expect(bounds(zonesFromThresholdHeartRate(170))).toEqual([
+      [0, 145],
+      [145, 153],
+      [153, 162],
+      [162, 170],
+      [170, null],
+    ]);
+  });
+
+  it("opens Strava's top zone", () => {
+    const zones = zonesFromStrava([{ min: 0, max: 120 }, { min: 120, max: -1 }]);
+    expect(zones.map((z) => [z.name, z.min, z.max])).toEqual([
+      ["Zone 1", 0, 120],
+      ["Zone 2", 120, null],
+    ]);
+  });
+});
+
+describe("resolveHeartRateZones", () => {
+  const strava = [0, 123, 153, 169, 184].map((min, i, all) => ({ min, max: all[i + 1] ?? -1 }));
+  const activities = [buildActivity({ max_heartrate: 181 }), buildActivity({ max_heartrate: 176 })];
+
+  it("prefers threshold, then max heart rate, then Strava's zones", () => {
+    expect(resolveHeartRateZones(strava, activities, { thresholdHeartRate: 170, maxHeartRate: 195 })).toMatchObject({
+      source: "threshold_hr",
+      thresholdHeartRate: 170,
+      maxHeartRate: 195,
+    });
+    expect(resolveHeartRateZones(strava, activities, { maxHeartRate: 195 }).source).toBe("max_hr");
+    expect(resolveHeartRateZones(strava, activities).source).toBe("strava");
+  });
+
+  it("estimates from the highest recorded heart rate without Strava zones", () => {
+    const model = resolveHeartRateZones(null, activities);
+    expect(model).toMatchObject({ source: "estimated", maxHeartRate: 181 });
+    expect(model.zones).toEqual(zonesFromMaxHeartRate(181));
+    // A single range is not a zone model
+    expect(resolveHeartRateZones([{ min: 0, max: -1 }], activities).source).toBe("estimated");
+  });
+
+  it("falls back to 190 when recorded heart rates look too low to be a maximum", () => {
+    expect(resolveHeartRateZones(undefined, [buildActivity({ max_heartrate: 145 })]).maxHeartRate).toBe(190);
+    expect(resolveHeartRateZones(undefined, []).maxHeartRate).toBe(190);
+  });
+});
+
+describe("time in zones", () => {
+  const zones = zonesFromMaxHeartRate(200);
+
+  it("puts a heart rate on a bound in the zone above", () => {
+    expect(zoneIndex(129, zones)).toBe(0);
+    expect(zoneIndex(130, zones)).toBe(1);
+    expect(zoneIndex(210, zones)).toBe(4);
+  });
+
+  it("counts each sample's interval and skips pauses", () => {
+    const streams = { time: [0, 10, 20, 80, 90], heartrate: [120, 120, 140, 180, 200] };
+    expect(timeInZones(streams, zones)).toEqual([10, 10, 0, 0, 10]);
+    expect(timeInZones({ time: [0, 10] }, zones)).toBeNull();
+  });
+
+  it("uses the average heart rate without streams", () => {
+    expect(estimateTimeInZones(buildActivity({ average_heartrate: 150 }), zones)).toEqual([0, 1500, 0, 0, 0]);
+    expect(estimateTimeInZones(buildActivity(), zones)).toBeNull();
+  });
+});
+
+describe("polarization", () => {
+  it("checks for 80% of time at low intensity", () => {
+    expect(polarization([600, 200, 100, 50, 50])).toEqual({ low: 0.8, moderate: 0.1, high: 0.1, compliant: true });
+    expect(polarization([500, 200, 200, 100, 0])).toMatchObject({ low: 0.7, compliant: false });
+    expect(polarization([0, 0, 0, 0, 0]).compliant).toBe(false);
+  });
+});
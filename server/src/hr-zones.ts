@@ -0,0 +1,216 @@
+/**
+ * Heart rate zones: zone models and time-in-zone
+ *
+ * Zones come from, in order of preference: a threshold or max heart rate given
+ * by the user, the athlete's Strava zones (/athlete/zones), or an estimate
+ * from the highest heart rate recorded.
+ */
+
+import type {
+  ActivityStreams,
+  StravaActivity,
+  ZoneRange,
+} from "./strava.js";
+
+export type ZoneSource = "threshold_hr" | "max_hr" | "strava" | "estimated";
+
+export interface HeartRateZone {
+  zone: number; // 1-based
+  name: string;
+  min: number; // bpm, inclusive
+  max: number | null; // bpm, exclusive; null for the open-ended top zone
+}
+
+export interface HeartRateZoneModel {
+  zones: HeartRateZone[];
+  source: ZoneSource;
+  maxHeartRate?: number;
+  thresholdHeartRate?: number;
+}
+
+export interface ZoneOverrides {
+  maxHeartRate?: number;
+  thresholdHeartRate?: number;
+}
+
+export interface Polarization {
+  low: number; // share of time in zones 1-2
+  moderate: number; // share of time in zone 3
+  high: number; // share of time in zones 4-5
+  compliant: boolean; // at least 80% low intensity
+}
+
+const ZONE_NAMES = ["Endurance", "Moderate", "Tempo", "Threshold", "Anaerobic"];
+
+// Upper bounds of zones 1-4 as a fraction of max heart rate (Strava's defaults);
+// zone 2 tops out near the first ventilatory threshold
+const MAX_HR_ZONE_BOUNDS = [0.65, 0.81, 0.89, 0.97];
+
+// Upper bounds of zones 1-4 as a fraction of lactate threshold heart rate (Friel)
+const THRESHOLD_HR_ZONE_BOUNDS = [0.85, 0.9, 0.95, 1.0];
+
+const DEFAULT_MAX_HEART_RATE = 190;
+
+// Gaps between samples longer than this are pauses, not time spent in a zone
+const MAX_SAMPLE_GAP_SECONDS = 30;
+
+// Share of low-intensity time required for 80/20 compliance
+export const POLARIZATION_TARGET = 0.8;
+
+function zonesFromBounds(bounds: number[]): HeartRateZone[] {
+  return [0, ...bounds].map((min, i) => ({
+    zone: i + 1,
+    name: ZONE_NAMES[i] ?? `Zone ${i + 1}`,
+    min,
+    max: i < bounds.length ? bounds[i] : null,
+  }));
+}
+
+/**
+ * Five zones from max heart rate
+ */
+export function zonesFromMaxHeartRate(maxHeartRate: number): HeartRateZone[] {
+  return zonesFromBounds(MAX_HR_ZONE_BOUNDS.map((f) => Math.round(maxHeartRate * f)));
+}
+
+/**
+ * Five zones from lactate threshold heart rate
+ */
+export function zonesFromThresholdHeartRate(thresholdHeartRate: number): HeartRateZone[] {
+  return zonesFromBounds(
+    THRESHOLD_HR_ZONE_BOUNDS.map((f) => Math.round(thresholdHeartRate * f)),
+  );
+}
+
+/**
+ * Convert Strava's zone ranges (top zone max is -1)
+ */
+export function zonesFromStrava(ranges: ZoneRange[]): HeartRateZone[] {
+  return ranges.map((range, i) => ({
+    zone: i + 1,
+    name: ranges.length === ZONE_NAMES.length ? ZONE_NAMES[i] : `Zone ${i + 1}`,
+    min: range.min,
+    max: range.max > 0 ? range.max : null,
+  }));
+}
+
+/**
+ * Pick the zone model: user overrides, then Strava zones, then an estimate
+ */
+export function resolveHeartRateZones(
+  stravaZones: ZoneRange[] | null | undefined,
+  activities: StravaActivity[],
+  overrides: ZoneOverrides = {},
+): HeartRateZoneModel {
+  if (overrides.thresholdHeartRate) {
+    return {
+      zones: zonesFromThresholdHeartRate(overrides.thresholdHeartRate),
+      source: "threshold_hr",
+      thresholdHeartRate: overrides.thresholdHeartRate,
+      maxHeartRate: overrides.maxHeartRate,
+    };
+  }
+
+  if (overrides.maxHeartRate) {
+    return {
+      zones: zonesFromMaxHeartRate(overrides.maxHeartRate),
+      source: "max_hr",
+      maxHeartRate: overrides.maxHeartRate,
+    };
+  }
+
+  if (stravaZones && stravaZones.length > 1) {
+    return { zones: zonesFromStrava(stravaZones), source: "strava" };
+  }
+
+  const observedMax = activities.reduce(
+    (max, a) => Math.max(max, a.max_heartrate ?? 0),
+    0,
+  );
+  // Lower readings are more likely a short history than a real maximum
+  const maxHeartRate = observedMax >= 150 ? observedMax : DEFAULT_MAX_HEART_RATE;
+
+  return {
+    zones: zonesFromMaxHeartRate(maxHeartRate),
+    source: "estimated",
+    maxHeartRate,
+  };
+}
+
+/**
+ * Index (0-based) of the zone a heart rate falls in
+ */
+export function zoneIndex(heartRate: number, zones: HeartRateZone[]): number {
+  for (let i = zones.length - 1; i >= 0; i--) {
+    if (heartRate >= zones[i].min) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Seconds spent in each zone, from heartrate and time streams
+ * Returns null when the activity has no heart rate stream
+ */
+export function timeInZones(
+  streams: ActivityStreams,
+  zones: HeartRateZone[],
+): number[] | null {
+  const { heartrate, time } = streams;
+  if (!heartrate || !time || heartrate.length < 2) {
+    return null;
+  }
+
+  const seconds = new Array<number>(zones.length).fill(0);
+  const samples = Math.min(heartrate.length, time.length);
+  for (let i = 1; i < samples; i++) {
+    const dt = time[i] - time[i - 1];
+    if (dt <= 0 || dt > MAX_SAMPLE_GAP_SECONDS) {
+      continue;
+    }
+    seconds[zoneIndex(heartrate[i], zones)] += dt;
+  }
+
+  return seconds;
+}
+
+/**
+ * Fallback without streams: the whole moving time in the zone of the average heart rate
+ * Returns null when the activity has no heart rate
+ */
+export function estimateTimeInZones(
+  activity: StravaActivity,
+  zones: HeartRateZone[],
+): number[] | null {
+  if (!activity.average_heartrate) {
+    return null;
+  }
+
+  const seconds = new Array<number>(zones.length).fill(0);
+  seconds[zoneIndex(activity.average_heartrate, zones)] = activity.moving_time;
+  return seconds;
+}
+
+/**
+ * Collapse zone times into the three-zone polarized model
+ * Zones 1-2 are low, zone 3 moderate, zones 4+ high intensity
+ */
+export function polarization(secondsPerZone: number[]): Polarization {
+  const total = secondsPerZone.reduce((sum, s) => sum + s, 0);
+  if (total === 0) {
+    return { low: 0, moderate: 0, high: 0, compliant: false };
+  }
+
+  const low = (secondsPerZone[0] ?? 0) + (secondsPerZone[1] ?? 0);
+  const moderate = secondsPerZone[2] ?? 0;
+  const high = total - low - moderate;
+
+  const share = (value: number) => Math.round((value / total) * 1000) / 1000;
+  return {
+    low: share(low),
+    moderate: share(moderate),
+    high: share(high),
+    compliant: low / total >= POLARIZATION_TARGET,
+  };
+}
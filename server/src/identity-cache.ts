@@ -0,0 +1,83 @@
+/**
+ * Validated-token cache: remembers which athlete an access token belongs to
+ * so a conversation costs one /athlete request instead of one per tool call
+ */
+
+import type { StravaAthlete } from "./strava.js";
+import { hashToken } from "./token-store.js";
+
+export interface IdentityCacheEntry {
+  athlete: StravaAthlete;
+  validatedAt: number; // unix ms
+  expiresAt: number; // unix ms
+}
+
+// Re-validate at least this often so revoked tokens are noticed
+const IDENTITY_TTL_MS = 30 * 60 * 1000;
+
+// Bound memory; oldest entries are evicted first
+const MAX_IDENTITY_ENTRIES = 1000;
+
+/**
+ * Key: sha256 of the access token (raw tokens are never stored)
+ */
+const identityCache = new Map<string, IdentityCacheEntry>();
+
+/**
+ * Get the cached athlete for a token, if it was validated recently
+ */
+export function getCachedIdentity(accessToken: string): StravaAthlete | null {
+  const key = hashToken(accessToken);
+  const entry = identityCache.get(key);
+
+  if (!entry) {
+    return null;
+  }
+
+  if (Date.now() >= entry.expiresAt) {
+    identityCache.delete(key);
+    return null;
+  }
+
+  return entry.athlete;
+}
+
+/**
+ * Remember a validated token
+ * The entry never outlives the token itself when its expiry is known
+ */
+export function setCachedIdentity(
+  accessToken: string,
+  athlete: StravaAthlete,
+  tokenExpiresAt?: number, // unix seconds
+): void {
+  const now = Date.now();
+  const ttlExpiry = now + IDENTITY_TTL_MS;
+  const expiresAt = tokenExpiresAt
+    ? Math.min(ttlExpiry, tokenExpiresAt * 1000)
+    : ttlExpiry;
+
+  const key = hashToken(accessToken);
+  identityCache.delete(key); // re-insert so Map order tracks recency
+  identityCache.set(key, { athlete, validatedAt: now, expiresAt });
+
+  while (identityCache.size > MAX_IDENTITY_ENTRIES) {
+    const oldest = identityCache.keys().next().value;
+    if (oldest === undefined) break;
+    identityCache.delete(oldest);
+  }
+}
+
+/**
+ * Forget a token, e.g. after Strava rejected it with a 401
+ */
+export function evictCachedIdentity(accessToken: string): void {
+  identityCache.delete(hashToken(accessToken));
+}
+
+/**
+ * Clear the whole identity cache
+ */
+export function clearIdentityCache(): void {
+  identityCache.clear();
+}
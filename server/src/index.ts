@@ -2,6 +2,7 @@ import express, { type Express } from "express";
 import { mcpAuthMetadataRouter } from "@modelcontextprotocol/sdk/server/auth/router.js";
 import { widgetsDevServer } from "skybridge/server";
 import type { ViteDevServer } from "vite";
+import { storeTokenResponse } from "./auth.js";
 import { mcp } from "./middleware.js";
 import server from "./server.js";
 
@@ -54,13 +55,16 @@ app.get("/oauth/callback", async (req, res) => {
 
     const tokens = await tokenResponse.json();
 
+    // Keep the refresh token server-side so expired access tokens can be renewed
+    await storeTokenResponse(tokens);
+
     // Return tokens in OAuth standard format
     res.json({
       access_token: tokens.access_token,
       refresh_token: tokens.refresh_token,
       expires_in: tokens.expires_in,
       token_type: "Bearer",
-      scope: tokens.scope || "read,activity:read_all,activity:write",
+      scope: tokens.scope || "read,profile:read_all,activity:read_all,activity:write",
     });
   } catch (error) {
     console.error("OAuth callback error:", error);
@@ -83,7 +87,7 @@ app.use(
       response_types_supported: ["code"],
       grant_types_supported: ["authorization_code", "refresh_token"],
       code_challenge_methods_supported: ["S256"],
-      scopes_supported: ["read", "activity:read_all", "activity:write"],
+      scopes_supported: ["read", "profile:read_all", "activity:read_all", "activity:write"],
       // Redirect URI for OAuth callback
       redirect_uris: [`${serverUrl}/oauth/callback`],
     },
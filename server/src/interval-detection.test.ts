@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { analyzeIntervals } from "./interval-detection.js";
+import type { ActivityStreams, Lap } from "./strava.js";
+
+function laps(parts: Array<[meters: number, speed: number]>): Lap[] {
+  let index = 0;
+  return parts.map(([meters, speed], i) => {
+    const seconds = meters / speed;
+    const lap: Lap = {
+      lap_index: i + 1,
+      distance: meters,
+      elapsed_time: seconds,
+      moving_time: seconds,
+      average_speed: speed,
+      average_heartrate: speed > 4 ? 160 + i : 140,
+      start_index: index,
+      end_index: index + seconds - 1,
+    };
+    index += seconds;
+    return lap;
+  });
+}
+
+// 1 Hz samples at a constant speed for each part
+function streams(parts: Array<[seconds: number, speed: number]>): ActivityStreams {
+  const time = [0];
+  const distance = [0];
+  const velocity: number[] = [];
+  for (const [seconds, speed] of parts) {
+    for (let s = 0; s < seconds; s++) {
+      velocity.push(speed);
+      time.push(time[time.length - 1] + 1);
+      distance.push(distance[distance.length - 1] + speed);
+    }
+  }
+  velocity.push(velocity[velocity.length - 1]);
+  return { time, distance, velocity_smooth: velocity };
+}
+
+const warmup: [number, number] = [1800, 3];
+const rep: [number, number] = [800, 5]; // 800 m in 2:40
+const jog: [number, number] = [400, 2.5]; // 400 m in 2:40
+const cooldown: [number, number] = [1500, 3];
+
+describe("analyzeIntervals from laps", () => {
+  const analysis = analyzeIntervals(laps([warmup, rep, jog, rep, jog, rep, jog, rep, cooldown]), {});
+
+  it("splits manual laps into reps, recoveries, warm-up and cool-down", () => {
+    expect(analysis.detected).toBe(true);
+    expect(analysis.source).toBe("laps");
+    expect(analysis.structure).toBe("4 × 800 m");
+    expect(analysis.warmup).toEqual({ distance: 1.8, duration: "10:00" });
+    expect(analysis.cooldown).toEqual({ distance: 1.5, duration: "8:20" });
+  });
+
+  it("summarizes each rep and the recovery after it", () => {
+    expect(analysis.reps.map((r) => r.pace)).toEqual(["3:20", "3:20", "3:20", "3:20"]);
+    expect(analysis.reps[0]).toMatchObject({
+      rep: 1,
+      startTime: "10:00",
+      duration: "2:40",
+      distanceMeters: 800,
+      paceDelta: 0,
+      averageHeartRate: 161,
+      recovery: { duration: "2:40", durationSeconds: 160, distanceMeters: 400 },
+    });
+    // The last rep runs straight into the cool-down
+    expect(analysis.reps[3].recovery).toBeNull();
+  });
+
+  it("rates even reps as consistent", () => {
+    expect(analysis.summary).toMatchObject({
+      averagePace: "3:20",
+      consistency: { paceCv: 0, rating: "very consistent" },
+      fade: { percent: 0, secondsPerRep: 0, rating: "even" },
+      heartRateDrift: 6,
+      averageRecovery: "2:40",
+      workDistance: 3.2,
+      workTime: "10:40",
+    });
+  });
+
+  it("flags reps that slow down in the second half", () => {
+    const slower: [number, number] = [800, 4.5];
+    const faded = analyzeIntervals(laps([warmup, rep, jog, rep, jog, slower, jog, slower, cooldown]), {});
+
+    // 3:20/km for the first two, 3:42/km for the last two
+    expect(faded.summary?.fade).toMatchObject({ percent: 11.1, rating: "faded" });
+    expect(faded.summary?.fastestRep).toBe(1);
+    expect(faded.summary?.slowestRep).toBe(4);
+    expect(faded.reps.map((r) => r.paceDelta)).toEqual([-11, -11, 11, 11]);
+  });
+
+  it("reports paces per mile with imperial units", () => {
+    const imperial = analyzeIntervals(laps([warmup, rep, jog, rep, jog, rep, cooldown]), {}, "imperial");
+    expect(imperial.reps[0].pace).toBe("5:22");
+    expect(imperial.reps[0].distance).toBe(0.5);
+  });
+});
+
+describe("analyzeIntervals fallbacks", () => {
+  it("ignores auto-laps and finds nothing without streams", () => {
+    const auto = laps([[1000, 5], [1000, 2.5], [1000, 5], [1000, 2.5], [1000, 5], [600, 3]]);
+    expect(analyzeIntervals(auto, {})).toMatchObject({ detected: false, source: null, reps: [] });
+  });
+
+  it("does not treat a steady run as intervals", () => {
+    const steady = laps([[1200, 3.3], [1200, 3.2], [1200, 3.4], [1200, 3.3]]);
+    expect(analyzeIntervals(steady, streams([[1500, 3.3]])).detected).toBe(false);
+  });
+
+  it("detects reps in the velocity stream and absorbs short surges", () => {
+    const analysis = analyzeIntervals(
+      undefined,
+      streams([
+        [290, 3], [10, 5], [300, 3], // a 10 s stride in the warm-up
+        [120, 5], [90, 2.5],
+        [120, 5], [90, 2.5],
+        [120, 5], [200, 3],
+      ]),
+    );
+
+    expect(analysis.source).toBe("streams");
+    expect(analysis.reps).toHaveLength(3);
+    // Smoothing moves the edges by a second or two
+    for (const r of analysis.reps) {
+      expect(r.durationSeconds).toBeGreaterThanOrEqual(118);
+      expect(r.durationSeconds).toBeLessThanOrEqual(122);
+    }
+    expect(analysis.reps[0].startTime).toBe("10:00");
+    expect(analysis.warmup?.duration).toBe("10:00");
+    expect(analysis.reps[2].recovery).toBeNull();
+    expect(analysis.structure).toBe("3 × 600 m");
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Work/recovery interval detection for a single activity
+ *
+ * Device laps are used when they split cleanly into fast and slow groups
+ * (manual laps or a structured workout); auto-laps at a fixed distance blur
+ * the reps, so those sessions fall back to the velocity stream. Either way
+ * speeds are split into two groups with a one-dimensional 2-means, and the
+ * session only counts as intervals when the fast group is clearly faster.
+ * Slow segments before the first rep and after the last become the warm-up
+ * and cool-down.
+ */
+
+import { formatDuration, type ActivityStreams, type Lap } from "./strava.js";
+import {
+  distanceInUnits,
+  formatDistanceInUnits,
+  METERS_PER_MILE,
+  paceInUnits,
+  perKmSecondsInUnits,
+  type UnitSystem,
+} from "./units.js";
+
+export type SegmentKind = "warmup" | "work" | "recovery" | "cooldown";
+
+export interface IntervalSegment {
+  kind: SegmentKind;
+  startTime: number; // seconds from the start of the activity
+  duration: number; // seconds
+  distance: number; // meters
+  averageSpeed: number; // meters per second
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+}
+
+export interface IntervalRep {
+  rep: number; // 1-based
+  startTime: string; // h:mm:ss from the start
+  duration: string;
+  durationSeconds: number;
+  distance: number; // km, or mi with imperial units
+  distanceMeters: number;
+  pace: string; // min:sec per km (or per mile)
+  paceSeconds: number; // pace in seconds, for charting
+  paceDelta: number; // seconds per km (or mile) vs the average rep; positive is slower
+  averageHeartRate: number | null;
+  maxHeartRate: number | null;
+  recovery: { duration: string; durationSeconds: number; distanceMeters: number } | null; // after this rep
+}
+
+export interface IntervalAnalysis {
+  detected: boolean;
+  source: "laps" | "streams" | null;
+  structure: string | null; // e.g. "6 × 800 m"
+  reps: IntervalRep[];
+  summary: {
+    averagePace: string;
+    fastestRep: number;
+    slowestRep: number;
+    consistency: { paceCv: number; rating: "very consistent" | "consistent" | "variable" };
+    fade: { percent: number; secondsPerRep: number; rating: "faster" | "even" | "faded" };
+    heartRateDrift: number | null; // bpm, last rep minus first rep
+    averageRecovery: string | null;
+    workDistance: number; // km or mi
+    workTime: string;
+  } | null;
+  warmup: { distance: number; duration: string } | null;
+  cooldown: { distance: number; duration: string } | null;
+}
+
+// Fast group must average at least this much faster than the slow group
+const MIN_SPEED_SEPARATION = 1.15;
+const MIN_REPS = 2;
+const MIN_WORK_SECONDS = 30;
+const MIN_RECOVERY_SECONDS = 20;
+const SMOOTHING_SECONDS = 10;
+
+// Pace coefficient of variation bands, percent
+const VERY_CONSISTENT_CV = 2;
+const CONSISTENT_CV = 4;
+// Second-half vs first-half pace change, percent
+const FADE_PERCENT = 3;
+const FASTER_PERCENT = -2;
+
+// Auto-lap distances (1 km, 1 mi), matched within 2%
+const AUTO_LAP_DISTANCES = [1000, METERS_PER_MILE];
+const AUTO_LAP_TOLERANCE = 0.02;
+
+/**
+ * Speed threshold between the slow and fast groups, or null when the speeds
+ * don't separate into two clear groups
+ */
+function speedThreshold(speeds: number[], weights: number[]): number | null {
+  if (speeds.length < 2) return null;
+
+  let slow = Math.min(...speeds);
+  let fast = Math.max(...speeds);
+  if (slow <= 0 && fast <= 0) return null;
+
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const mid = (slow + fast) / 2;
+    let slowSum = 0, slowWeight = 0, fastSum = 0, fastWeight = 0;
+    speeds.forEach((speed, i) => {
+      if (speed >= mid) {
+        fastSum += speed * weights[i];
+        fastWeight += weights[i];
+      } else {
+        slowSum += speed * weights[i];
+        slowWeight += weights[i];
+      }
+    });
+    if (slowWeight === 0 || fastWeight === 0) return null;
+
+    const nextSlow = slowSum / slowWeight;
+    const nextFast = fastSum / fastWeight;
+    if (nextSlow === slow && nextFast === fast) break;
+    slow = nextSlow;
+    fast = nextFast;
+  }
+
+  return fast >= Math.max(slow, 0.1) * MIN_SPEED_SEPARATION ? (slow + fast) / 2 : null;
+}
+
+function isAutoLapped(laps: Lap[]): boolean {
+  // The last lap is whatever was left when the watch stopped
+  const full = laps.slice(0, -1);
+  return AUTO_LAP_DISTANCES.some((target) =>
+    full.every((lap) => Math.abs(lap.distance - target) <= target * AUTO_LAP_TOLERANCE),
+  );
+}
+
+/**
+ * Fast/slow segments from device laps
+ */
+function lapSegments(laps: Lap[]): IntervalSegment[] | null {
+  if (laps.length < MIN_REPS + 1 || isAutoLapped(laps)) return null;
+
+  const threshold = speedThreshold(
+    laps.map((lap) => lap.average_speed),
+    laps.map((lap) => lap.moving_time),
+  );
+  if (threshold === null) return null;
+
+  let startTime = 0;
+  return laps.map((lap) => {
+    const segment: IntervalSegment = {
+      kind: lap.average_speed >= threshold ? "work" : "recovery",
+      startTime,
+      duration: lap.elapsed_time,
+      distance: lap.distance,
+      averageSpeed: lap.average_speed,
+      averageHeartRate: lap.average_heartrate,
+      maxHeartRate: lap.max_heartrate,
+    };
+    startTime += lap.elapsed_time;
+    return segment;
+  });
+}
+
+/**
+ * Velocity averaged over a centered time window
+ */
+function smoothVelocity(time: number[], velocity: number[]): number[] {
+  const half = SMOOTHING_SECONDS / 2;
+  const prefix = [0];
+  for (const v of velocity) prefix.push(prefix[prefix.length - 1] + v);
+
+  let lo = 0;
+  let hi = 0;
+  return velocity.map((_, i) => {
+    while (time[lo] < time[i] - half) lo++;
+    while (hi + 1 < time.length && time[hi + 1] <= time[i] + half) hi++;
+    return (prefix[hi + 1] - prefix[lo]) / (hi - lo + 1);
+  });
+}
+
+/**
+ * Fast/slow segments from the velocity stream
+ */
+function streamSegments(streams: ActivityStreams): IntervalSegment[] | null {
+  const { time, velocity_smooth: velocity, distance, heartrate } = streams;
+  if (!time || !velocity || !distance || time.length < 2) return null;
+
+  const smoothed = smoothVelocity(time, velocity);
+  const weights = time.map((t, i) => (i + 1 < time.length ? time[i + 1] - t : 0));
+  const threshold = speedThreshold(smoothed, weights);
+  if (threshold === null) return null;
+
+  // Runs of samples on the same side of the threshold: [start, end) indices
+  let runs: Array<{ fast: boolean; start: number; end: number }> = [];
+  smoothed.forEach((speed, i) => {
+    const fast = speed >= threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.fast === fast) {
+      last.end = i + 1;
+    } else {
+      runs.push({ fast, start: i, end: i + 1 });
+    }
+  });
+
+  const seconds = (run: { start: number; end: number }) =>
+    time[Math.min(run.end, time.length - 1)] - time[run.start];
+
+  // Absorb blips (a surge in a jog, a stumble in a rep) into their neighbours,
+  // shortest first, until every run is long enough
+  for (;;) {
+    let shortest = -1;
+    runs.forEach((run, i) => {
+      const minimum = run.fast ? MIN_WORK_SECONDS : MIN_RECOVERY_SECONDS;
+      if (runs.length > 1 && seconds(run) < minimum && (shortest < 0 || seconds(run) < seconds(runs[shortest]))) {
+        shortest = i;
+      }
+    });
+    if (shortest < 0) break;
+
+    runs[shortest].fast = !runs[shortest].fast;
+    runs = runs.reduce<typeof runs>((merged, run) => {
+      const last = merged[merged.length - 1];
+      if (last && last.fast === run.fast) {
+        last.end = run.end;
+      } else {
+        merged.push({ ...run });
+      }
+      return merged;
+    }, []);
+  }
+
+  return runs.map((run) => {
+    const endIndex = Math.min(run.end, time.length - 1);
+    const duration = time[endIndex] - time[run.start];
+    const meters = distance[endIndex] - distance[run.start];
+    const hr = heartrate?.slice(run.start, run.end).filter((value) => value > 0) ?? [];
+    return {
+      kind: run.fast ? "work" : "recovery",
+      startTime: time[run.start],
+      duration,
+      distance: meters,
+      averageSpeed: duration > 0 ? meters / duration : 0,
+      averageHeartRate: hr.length > 0 ? hr.reduce((sum, value) => sum + value, 0) / hr.length : undefined,
+      maxHeartRate: hr.length > 0 ? Math.max(...hr) : undefined,
+    };
+  });
+}
+
+/**
+ * Relabel slow segments before the first and after the last rep, merging
+ * each side into a single warm-up or cool-down
+ */
+function labelSegments(segments: IntervalSegment[]): IntervalSegment[] {
+  const first = segments.findIndex((s) => s.kind === "work");
+  const last = segments.length - 1 - [...segments].reverse().findIndex((s) => s.kind === "work");
+
+  const combine = (parts: IntervalSegment[], kind: SegmentKind): IntervalSegment[] => {
+    if (parts.length === 0) return [];
+    const duration = parts.reduce((sum, s) => sum + s.duration, 0);
+    const distance = parts.reduce((sum, s) => sum + s.distance, 0);
+    return [{
+      kind,
+      startTime: parts[0].startTime,
+      duration,
+      distance,
+      averageSpeed: duration > 0 ? distance / duration : 0,
+    }];
+  };
+
+  return [
+    ...combine(segments.slice(0, first), "warmup"),
+    ...segments.slice(first, last + 1),
+    ...combine(segments.slice(last + 1), "cooldown"),
+  ];
+}
+
+/**
+ * Nominal rep length for the structure label: distance reps round to 100 m
+ * (500 m above 3 km), time reps to 15 s; whichever varies less wins
+ */
+function describeStructure(work: IntervalSegment[], units: UnitSystem): string {
+  const cv = (values: number[]) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return mean > 0 ? Math.sqrt(variance) / mean : Infinity;
+  };
+  const byDistance = cv(work.map((s) => s.distance)) <= cv(work.map((s) => s.duration));
+
+  const label = (segment: IntervalSegment) => {
+    if (!byDistance) {
+      return formatDuration(Math.max(15, Math.round(segment.duration / 15) * 15));
+    }
+    const step = segment.distance > 3000 ? 500 : 100;
+    const meters = Math.max(step, Math.round(segment.distance / step) * step);
+    // Track reps are called by meters whatever the unit system
+    return meters <= 3000 ? `${meters} m` : formatDistanceInUnits(meters, units, 1);
+  };
+
+  const groups: Array<{ label: string; count: number }> = [];
+  for (const segment of work) {
+    const text = label(segment);
+    const last = groups[groups.length - 1];
+    if (last && last.label === text) {
+      last.count++;
+    } else {
+      groups.push({ label: text, count: 1 });
+    }
+  }
+  return groups.map((g) => `${g.count} × ${g.label}`).join(" + ");
+}
+
+/**
+ * Detect intervals and summarize each rep in the athlete's units
+ */
+export function analyzeIntervals(
+  laps: Lap[] | undefined,
+  streams: ActivityStreams,
+  units: UnitSystem = "metric",
+): IntervalAnalysis {
+  let source: IntervalAnalysis["source"] = "laps";
+  let segments = laps ? lapSegments(laps) : null;
+  if (!segments || segments.filter((s) => s.kind === "work").length < MIN_REPS) {
+    source = "streams";
+    segments = streamSegments(streams);
+  }
+
+  const workCount = segments?.filter((s) => s.kind === "work").length ?? 0;
+  if (!segments || workCount < MIN_REPS) {
+    return { detected: false, source: null, structure: null, reps: [], summary: null, warmup: null, cooldown: null };
+  }
+
+  const labeled = labelSegments(segments);
+  const work = labeled.filter((s) => s.kind === "work");
+
+  const paceSeconds = (speed: number) => perKmSecondsInUnits(1000 / speed, units);
+  const repPaces = work.map((s) => paceSeconds(s.averageSpeed));
+  const meanPace = repPaces.reduce((sum, p) => sum + p, 0) / repPaces.length;
+
+  const reps = work.map((segment, i): IntervalRep => {
+    const next = labeled[labeled.indexOf(segment) + 1];
+    return {
+      rep: i + 1,
+      startTime: formatDuration(segment.startTime),
+      duration: formatDuration(segment.duration),
+      durationSeconds: Math.round(segment.duration),
+      distance: distanceInUnits(segment.distance, units, 2),
+      distanceMeters: Math.round(segment.distance),
+      pace: paceInUnits(segment.averageSpeed, units),
+      paceSeconds: Math.round(repPaces[i]),
+      paceDelta: Math.round(repPaces[i] - meanPace),
+      averageHeartRate: segment.averageHeartRate ? Math.round(segment.averageHeartRate) : null,
+      maxHeartRate: segment.maxHeartRate ? Math.round(segment.maxHeartRate) : null,
+      recovery: next?.kind === "recovery"
+        ? { duration: formatDuration(next.duration), durationSeconds: Math.round(next.duration), distanceMeters: Math.round(next.distance) }
+        : null,
+    };
+  });
+
+  // Consistency: spread of rep paces
+  const variance = repPaces.reduce((sum, p) => sum + (p - meanPace) ** 2, 0) / repPaces.length;
+  const paceCv = Math.round((Math.sqrt(variance) / meanPace) * 1000) / 10;
+
+  // Fade: second half of the reps against the first half, plus the per-rep trend
+  const half = Math.floor(repPaces.length / 2);
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const firstHalf = average(repPaces.slice(0, half));
+  const secondHalf = average(repPaces.slice(repPaces.length - half));
+  const fadePercent = Math.round(((secondHalf - firstHalf) / firstHalf) * 1000) / 10;
+  const meanIndex = (repPaces.length - 1) / 2;
+  const slope =
+    repPaces.reduce((sum, p, i) => sum + (i - meanIndex) * (p - meanPace), 0) /
+    repPaces.reduce((sum, _, i) => sum + (i - meanIndex) ** 2, 0);
+
+  const heartRates = reps.map((r) => r.averageHeartRate);
+  const recoveries = reps.map((r) => r.recovery?.durationSeconds).filter((d): d is number => d !== undefined);
+  const workDistance = work.reduce((sum, s) => sum + s.distance, 0);
+  const workSpeed = workDistance / work.reduce((sum, s) => sum + s.duration, 0);
+  const byPace = [...reps].sort((a, b) => a.paceSeconds - b.paceSeconds);
+
+  const edge = (kind: SegmentKind) => {
+    const segment = labeled.find((s) => s.kind === kind);
+    return segment
+      ? { distance: distanceInUnits(segment.distance, units, 2), duration: formatDuration(segment.duration) }
+      : null;
+  };
+
+  return {
+    detected: true,
+    source,
+    structure: describeStructure(work, units),
+    reps,
+    summary: {
+      averagePace: paceInUnits(workSpeed, units),
+      fastestRep: byPace[0].rep,
+      slowestRep: byPace[byPace.length - 1].rep,
+      consistency: {
+        paceCv,
+        rating: paceCv < VERY_CONSISTENT_CV ? "very consistent" : paceCv < CONSISTENT_CV ? "consistent" : "variable",
+      },
+      fade: {
+        percent: fadePercent,
+        secondsPerRep: Math.round(slope * 10) / 10,
+        rating: fadePercent > FADE_PERCENT ? "faded" : fadePercent < FASTER_PERCENT ? "faster" : "even",
+      },
+      heartRateDrift:
+        heartRates[0] !== null && heartRates[heartRates.length - 1] !== null
+          ? (heartRates[heartRates.length - 1] as number) - (heartRates[0] as number)
+          : null,
+      averageRecovery: recoveries.length > 0 ? formatDuration(average(recoveries)) : null,
+      workDistance: distanceInUnits(workDistance, units, 2),
+      workTime: formatDuration(work.reduce((sum, s) => sum + s.duration, 0)),
+    },
+    warmup: edge("warmup"),
+    cooldown: edge("cooldown"),
+  };
+}
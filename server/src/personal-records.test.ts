@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  bestRecords,
+  effortsFromBestEfforts,
+  effortsFromStreams,
+  findNewRecords,
+  type ActivityEfforts,
+  type RecordKey,
+} from "./personal-records.js";
+import type { ActivityStreams } from "./strava.js";
+import { buildActivity } from "./test-fixtures.js";
+
+// 1 Hz samples through segments of [meters, meters per second]
+function streams(segments: [number, number][]): ActivityStreams {
+  const distance = [0];
+  for (const [meters, speed] of segments) {
+    const end = distance[distance.length - 1] + meters;
+    while (distance[distance.length - 1] < end) {
+      distance.push(Math.min(end, distance[distance.length - 1] + speed));
+    }
+  }
+  return { distance, time: distance.map((_, i) => i) };
+}
+
+function efforts(
+  activityId: number,
+  date: string,
+  times: Partial<Record<RecordKey, number>>,
+): ActivityEfforts {
+  return { activityId, activityName: `Run ${activityId}`, date, source: "best_effort", times };
+}
+
+describe("effortsFromStreams", () => {
+  it("times every distance the run covers", () => {
+    // 6 km at 4:10/km
+    expect(effortsFromStreams(streams([[6000, 4]]))).toEqual({ "1k": 250, "1mile": 402, "5k": 1250 });
+  });
+
+  it("finds the fastest stretch anywhere in the run", () => {
+    const times = effortsFromStreams(streams([[2000, 4], [1000, 5], [2000, 4]]));
+    expect(times["1k"]).toBe(200);
+    expect(times["5k"]).toBe(1200);
+  });
+
+  it("interpolates between sparse samples", () => {
+    expect(effortsFromStreams({ distance: [0, 600, 1200], time: [0, 150, 300] })).toEqual({ "1k": 250 });
+  });
+
+  it("needs distance and time", () => {
+    expect(effortsFromStreams({ time: [0, 1] })).toEqual({});
+    expect(effortsFromStreams({ distance: [0], time: [0] })).toEqual({});
+  });
+});
+
+describe("effortsFromBestEfforts", () => {
+  it("maps Strava's names and keeps the fastest of duplicates", () => {
+    const effort = (name: string, distance: number, seconds: number) => ({
+      name,
+      distance,
+      elapsed_time: seconds,
+      moving_time: seconds,
+      start_date_local: "2024-03-01T08:00:00Z",
+    });
+    const activity = buildActivity({
+      best_efforts: [effort("1K", 1000, 240), effort("1k", 1000, 235), effort("400m", 400, 80), effort("5k", 5000, 0)],
+    });
+
+    expect(effortsFromBestEfforts(activity)).toEqual({ "1k": 235 });
+  });
+});
+
+describe("bestRecords", () => {
+  const stored = [
+    efforts(1, "2023-01-10", { "5k": 1300, "10k": 2700 }),
+    efforts(2, "2024-02-01", { "1k": 230, "5k": 1350 }),
+  ];
+
+  it("keeps the fastest time per distance in distance order", () => {
+    expect(bestRecords(stored).map((r) => [r.distance, r.time, r.activityId])).toEqual([
+      ["1k", 230, 2],
+      ["5k", 1300, 1],
+      ["10k", 2700, 1],
+    ]);
+  });
+
+  it("only looks at efforts since the cutoff for the 12-month scope", () => {
+    expect(bestRecords(stored, "2023-06-01").map((r) => [r.distance, r.time, r.activityId])).toEqual([
+      ["1k", 230, 2],
+      ["5k", 1350, 2],
+    ]);
+  });
+});
+
+describe("findNewRecords", () => {
+  const previous = [efforts(1, "2023-01-10", { "5k": 1300 }), efforts(2, "2024-02-01", { "5k": 1350, "1k": 230 })];
+  const since = "2023-06-01";
+  const detectedAt = "2024-03-01T12:00:00.000Z";
+
+  it("flags all-time records against the all-time best", () => {
+    const [record] = findNewRecords(previous, [efforts(3, "2024-03-01", { "5k": 1290 })], since, detectedAt);
+    expect(record).toMatchObject({ distance: "5k", time: 1290, previousTime: 1300, scope: "all_time", activityId: 3, detectedAt });
+  });
+
+  it("flags 12-month records when only the older best is faster", () => {
+    const [record] = findNewRecords(previous, [efforts(3, "2024-03-01", { "5k": 1320 })], since, detectedAt);
+    expect(record).toMatchObject({ distance: "5k", time: 1320, previousTime: 1350, scope: "12_months" });
+  });
+
+  it("skips ties, slower times and distances without a record", () => {
+    const scanned = [efforts(3, "2024-03-01", { "1k": 230, "5k": 1400, "10k": 2600 })];
+    expect(findNewRecords(previous, scanned, since, detectedAt)).toEqual([]);
+  });
+
+  it("never flags a first scan", () => {
+    expect(findNewRecords([], [efforts(3, "2024-03-01", { "5k": 1290 })], since, detectedAt)).toEqual([]);
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * Personal records: fastest times over standard distances
+ *
+ * Each scanned activity contributes its fastest time per distance, taken from
+ * Strava best efforts when the detailed activity has them, or computed from
+ * the distance/time streams otherwise. Times are stored per activity, so
+ * all-time and rolling 12-month records are derived on read. Activities that
+ * arrive through incremental sync are scanned immediately and any record they
+ * break is flagged as a new PR.
+ */
+
+import { readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import {
+  getDetailedActivities,
+  getActivityStreams,
+  onActivitiesSynced,
+  type ActivityStoreAuth,
+} from "./cache.js";
+import { writeJsonFile } from "./file-store.js";
+import {
+  RateLimitError,
+  formatDuration,
+  isRun,
+  type ActivityStreams,
+  type StravaActivity,
+} from "./strava.js";
+import { paceInUnits, type UnitSystem } from "./units.js";
+
+export type RecordKey = "1k" | "1mile" | "5k" | "10k" | "half" | "marathon";
+
+export interface RecordDistance {
+  key: RecordKey;
+  name: string;
+  distance: number; // meters
+  bestEffortName: string; // name Strava uses in best_efforts
+}
+
+export type EffortSource = "best_effort" | "stream" | "none";
+
+export interface PersonalRecord {
+  distance: RecordKey;
+  name: string;
+  time: number; // seconds
+  activityId: number;
+  activityName: string;
+  date: string; // YYYY-MM-DD (local)
+}
+
+export interface NewRecord extends PersonalRecord {
+  previousTime: number; // seconds, the record this effort broke
+  scope: "all_time" | "12_months";
+  detectedAt: string; // ISO 8601
+}
+
+export interface RecordSummary {
+  distance: RecordKey;
+  name: string;
+  time: string; // h:mm:ss or m:ss
+  timeSeconds: number;
+  pace: string; // min/km, or min/mi with imperial units
+  activityId: number;
+  activityName: string;
+  date: string;
+  previousTime?: string; // new records only
+  improvementSeconds?: number; // new records only
+  scope?: NewRecord["scope"]; // new records only
+}
+
+export interface RecordsScanResult {
+  scanned: number; // activities scanned in this call
+  remaining: number; // activities still unscanned
+  rateLimited: boolean; // the scan stopped early at Strava's rate limit
+}
+
+export interface PersonalRecordsResult {
+  allTime: PersonalRecord[];
+  last12Months: PersonalRecord[];
+  newRecords: NewRecord[]; // flagged by sync, newest first
+  scan: RecordsScanResult;
+  scannedActivities: number; // activities with stored efforts
+}
+
+export interface ActivityEfforts {
+  activityId: number;
+  activityName: string;
+  date: string; // YYYY-MM-DD (local)
+  source: EffortSource;
+  times: Partial<Record<RecordKey, number>>;
+}
+
+interface AthleteRecordsFile {
+  version: 1;
+  athleteId: string;
+  efforts: Record<string, ActivityEfforts>; // keyed by activity id
+  newRecords: NewRecord[]; // newest first
+}
+
+export const RECORD_DISTANCES: RecordDistance[] = [
+  { key: "1k", name: "1K", distance: 1000, bestEffortName: "1k" },
+  { key: "1mile", name: "1 Mile", distance: 1609.34, bestEffortName: "1 mile" },
+  { key: "5k", name: "5K", distance: 5000, bestEffortName: "5k" },
+  { key: "10k", name: "10K", distance: 10000, bestEffortName: "10k" },
+  { key: "half", name: "Half Marathon", distance: 21097.5, bestEffortName: "half-marathon" },
+  { key: "marathon", name: "Marathon", distance: 42195, bestEffortName: "marathon" },
+];
+
+// Activities scanned when new ones arrive through sync
+const SYNC_SCAN_BUDGET = 5;
+
+// Flagged records kept per athlete
+const MAX_NEW_RECORDS = 50;
+
+const recordsDir =
+  process.env.PERSONAL_RECORDS_DIR ||
+  path.join(process.cwd(), ".data", "records");
+
+/**
+ * Loaded records files, so each file is read from disk once per process
+ * Key: athlete id
+ */
+const loadedFiles = new Map<string, AthleteRecordsFile>();
+
+function filePath(athleteId: string): string {
+  return path.join(recordsDir, `${athleteId.replace(/[^0-9a-z_-]/gi, "")}.json`);
+}
+
+async function loadFile(athleteId: string): Promise<AthleteRecordsFile> {
+  // Unvalidated manual tokens have no athlete id; their scans are not kept
+  if (athleteId === "manual") {
+    return { version: 1, athleteId, efforts: {}, newRecords: [] };
+  }
+
+  const loaded = loadedFiles.get(athleteId);
+  if (loaded) {
+    return loaded;
+  }
+
+  let file: AthleteRecordsFile = { version: 1, athleteId, efforts: {}, newRecords: [] };
+  try {
+    const raw = await readFile(filePath(athleteId), "utf-8");
+    file = { ...file, ...(JSON.parse(raw) as AthleteRecordsFile) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to load personal records for ${athleteId}, starting empty:`, error);
+    }
+  }
+
+  loadedFiles.set(athleteId, file);
+  return file;
+}
+
+async function saveFile(file: AthleteRecordsFile): Promise<void> {
+  await writeJsonFile(filePath(file.athleteId), file);
+}
+
+/**
+ * Record times from Strava best efforts (detailed activities only)
+ */
+export function effortsFromBestEfforts(
+  activity: StravaActivity,
+): Partial<Record<RecordKey, number>> {
+  const times: Partial<Record<RecordKey, number>> = {};
+  for (const effort of activity.best_efforts ?? []) {
+    const target = RECORD_DISTANCES.find(
+      (d) => d.bestEffortName === effort.name.toLowerCase(),
+    );
+    if (target && effort.elapsed_time > 0) {
+      times[target.key] = Math.min(times[target.key] ?? Infinity, effort.elapsed_time);
+    }
+  }
+  return times;
+}
+
+/**
+ * Fastest time over each record distance from distance/time streams
+ * Two-pointer sweep, interpolating the moment each distance is reached
+ */
+export function effortsFromStreams(
+  streams: ActivityStreams,
+): Partial<Record<RecordKey, number>> {
+  const { distance, time } = streams;
+  const times: Partial<Record<RecordKey, number>> = {};
+  if (!distance || !time || distance.length < 2) {
+    return times;
+  }
+
+  const samples = Math.min(distance.length, time.length);
+  const total = distance[samples - 1] - distance[0];
+
+  for (const target of RECORD_DISTANCES) {
+    if (total < target.distance) {
+      continue;
+    }
+
+    let best = Infinity;
+    let end = 0;
+    for (let start = 0; start < samples; start++) {
+      const goal = distance[start] + target.distance;
+      while (end < samples && distance[end] < goal) {
+        end++;
+      }
+      if (end >= samples) {
+        break;
+      }
+
+      const span = distance[end] - distance[end - 1];
+      const fraction = span > 0 ? (goal - distance[end - 1]) / span : 1;
+      const reachedAt = time[end - 1] + fraction * (time[end] - time[end - 1]);
+      best = Math.min(best, reachedAt - time[start]);
+    }
+
+    if (Number.isFinite(best) && best > 0) {
+      times[target.key] = Math.round(best);
+    }
+  }
+
+  return times;
+}
+
+/**
+ * Scan one activity: best efforts first, streams as the fallback
+ */
+async function scanActivity(
+  auth: ActivityStoreAuth,
+  activity: StravaActivity,
+): Promise<ActivityEfforts> {
+  const base = {
+    activityId: activity.id,
+    activityName: activity.name,
+    date: activity.start_date_local.split("T")[0],
+  };
+
+  // Shorter than the shortest record distance
+  if (activity.distance < RECORD_DISTANCES[0].distance) {
+    return { ...base, source: "none", times: {} };
+  }
+
+  const { data: [detailed] } = await getDetailedActivities(auth, [activity]);
+  const fromBestEfforts = effortsFromBestEfforts(detailed ?? activity);
+  if (Object.keys(fromBestEfforts).length > 0) {
+    return { ...base, source: "best_effort", times: fromBestEfforts };
+  }
+
+  const { streams } = await getActivityStreams(auth, activity.id);
+  const fromStreams = effortsFromStreams(streams);
+  return {
+    ...base,
+    source: Object.keys(fromStreams).length > 0 ? "stream" : "none",
+    times: fromStreams,
+  };
+}
+
+function cutoffDate(monthsBack: number): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() - monthsBack);
+  return date.toISOString().split("T")[0];
+}
+
+function bestTimes(
+  efforts: ActivityEfforts[],
+  since?: string,
+): Map<RecordKey, PersonalRecord> {
+  const records = new Map<RecordKey, PersonalRecord>();
+  for (const effort of efforts) {
+    if (since && effort.date < since) {
+      continue;
+    }
+    for (const target of RECORD_DISTANCES) {
+      const time = effort.times[target.key];
+      const current = records.get(target.key);
+      if (time !== undefined && (!current || time < current.time)) {
+        records.set(target.key, {
+          distance: target.key,
+          name: target.name,
+          time,
+          activityId: effort.activityId,
+          activityName: effort.activityName,
+          date: effort.date,
+        });
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Scan unscanned activities, newest first, up to `budget` of them
+ * A rate limit stops the scan early; what was scanned is kept
+ */
+async function scanActivities(
+  auth: ActivityStoreAuth,
+  file: AthleteRecordsFile,
+  activities: StravaActivity[],
+  budget: number,
+): Promise<RecordsScanResult> {
+  const unscanned = activities
+    .filter((a) => !file.efforts[a.id])
+    .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime());
+
+  let scanned = 0;
+  let rateLimited = false;
+  try {
+    for (const activity of unscanned.slice(0, budget)) {
+      file.efforts[activity.id] = await scanActivity(auth, activity);
+      scanned++;
+    }
+  } catch (error) {
+    if (!(error instanceof RateLimitError) || scanned === 0) {
+      throw error;
+    }
+    rateLimited = true;
+  } finally {
+    if (scanned > 0 && auth.userId !== "manual") {
+      await saveFile(file);
+    }
+  }
+
+  return { scanned, remaining: unscanned.length - scanned, rateLimited };
+}
+
+/**
+ * Records broken by newly scanned efforts, judged against the efforts
+ * stored before them: all-time first, else those on or after `since`
+ * Only distances with an existing record are flagged, so a first scan of
+ * an athlete's history never reports every run as a PR
+ */
+export function findNewRecords(
+  previous: ActivityEfforts[],
+  scanned: ActivityEfforts[],
+  since: string,
+  detectedAt: string,
+): NewRecord[] {
+  const previousAllTime = bestTimes(previous);
+  const previousYear = bestTimes(previous, since);
+
+  const flagged: NewRecord[] = [];
+  for (const effort of scanned) {
+    for (const target of RECORD_DISTANCES) {
+      const time = effort.times[target.key];
+      if (time === undefined) continue;
+
+      const allTime = previousAllTime.get(target.key);
+      const year = previousYear.get(target.key);
+      const scope = allTime && time < allTime.time
+        ? "all_time"
+        : year && time < year.time
+          ? "12_months"
+          : null;
+      if (!scope) continue;
+
+      flagged.push({
+        distance: target.key,
+        name: target.name,
+        time,
+        activityId: effort.activityId,
+        activityName: effort.activityName,
+        date: effort.date,
+        previousTime: scope === "all_time" ? allTime!.time : year!.time,
+        scope,
+        detectedAt,
+      });
+    }
+  }
+  return flagged;
+}
+
+/**
+ * Scan newly synced activities and flag any records they break
+ */
+async function detectNewRecords(
+  auth: ActivityStoreAuth,
+  synced: StravaActivity[],
+): Promise<void> {
+  // Records are running records; rides and walks are ignored
+  const activities = synced.filter(isRun);
+  if (activities.length === 0) {
+    return;
+  }
+
+  const file = await loadFile(auth.userId);
+  const previous = Object.values(file.efforts);
+
+  try {
+    await scanActivities(auth, file, activities, SYNC_SCAN_BUDGET);
+  } catch (error) {
+    // Unscanned activities are picked up by the next get_personal_records call
+    console.error("Failed to scan synced activities for records:", error);
+    return;
+  }
+
+  const scanned = activities.flatMap((a) => (file.efforts[a.id] ? [file.efforts[a.id]] : []));
+  const flagged = findNewRecords(previous, scanned, cutoffDate(12), new Date().toISOString());
+  if (flagged.length > 0) {
+    file.newRecords = [...flagged, ...file.newRecords].slice(0, MAX_NEW_RECORDS);
+    await saveFile(file);
+  }
+}
+
+/**
+ * Fastest stored time per distance, in distance order, optionally only from
+ * efforts on or after `since` (YYYY-MM-DD)
+ */
+export function bestRecords(efforts: ActivityEfforts[], since?: string): PersonalRecord[] {
+  const records = bestTimes(efforts, since);
+  return RECORD_DISTANCES.flatMap((d) => {
+    const record = records.get(d.key);
+    return record ? [record] : [];
+  });
+}
+
+/**
+ * All-time and rolling 12-month records, scanning up to `scanBudget`
+ * not-yet-scanned activities first
+ */
+export async function getPersonalRecords(
+  auth: ActivityStoreAuth,
+  activities: StravaActivity[],
+  scanBudget: number,
+): Promise<PersonalRecordsResult> {
+  const file = await loadFile(auth.userId);
+  const scan = await scanActivities(auth, file, activities, scanBudget);
+  const efforts = Object.values(file.efforts);
+
+  return {
+    allTime: bestRecords(efforts),
+    last12Months: bestRecords(efforts, cutoffDate(12)),
+    newRecords: file.newRecords,
+    scan,
+    scannedActivities: efforts.length,
+  };
+}
+
+/**
+ * Convert a record to the display format used in tool output
+ */
+export function recordToSummary(
+  record: PersonalRecord | NewRecord,
+  units: UnitSystem = "metric",
+): RecordSummary {
+  const target = RECORD_DISTANCES.find((d) => d.key === record.distance)!;
+  const summary: RecordSummary = {
+    distance: record.distance,
+    name: record.name,
+    time: formatDuration(record.time),
+    timeSeconds: record.time,
+    pace: paceInUnits(target.distance / record.time, units),
+    activityId: record.activityId,
+    activityName: record.activityName,
+    date: record.date,
+  };
+
+  if ("previousTime" in record) {
+    summary.previousTime = formatDuration(record.previousTime);
+    summary.improvementSeconds = record.previousTime - record.time;
+    summary.scope = record.scope;
+  }
+
+  return summary;
+}
+
+/**
+ * Records flagged by sync for activities on or after `since` (YYYY-MM-DD)
+ */
+export async function getNewRecords(
+  auth: ActivityStoreAuth,
+  since: string,
+): Promise<NewRecord[]> {
+  const file = await loadFile(auth.userId);
+  return file.newRecords.filter((record) => record.date >= since);
+}
+
+/**
+ * Clear stored records for a specific user or all users
+ */
+export async function clearPersonalRecords(userId?: string): Promise<void> {
+  if (userId) {
+    loadedFiles.delete(userId);
+    await rm(filePath(userId), { force: true });
+  } else {
+    loadedFiles.clear();
+    await rm(recordsDir, { recursive: true, force: true });
+  }
+}
+
+onActivitiesSynced(detectNewRecords);
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectEfforts,
+  predictRaceTimes,
+  riegelPredict,
+  strongestEfforts,
+  timeForVdot,
+  vdotFromPerformance,
+  type RaceEffort,
+} from "./race-predictor.js";
+import type { BestEffort } from "./strava.js";
+import { buildRun } from "./test-fixtures.js";
+
+function run(id: number, km: number, seconds: number, bestEfforts?: BestEffort[]) {
+  return buildRun("2024-03-01", km, seconds / km, { id, name: `Run ${id}`, best_efforts: bestEfforts });
+}
+
+function bestEffort(name: string, distance: number, seconds: number): BestEffort {
+  return { name, distance, elapsed_time: seconds, moving_time: seconds, start_date_local: "2024-03-01T08:10:00Z" };
+}
+
+function effort(activityId: number, distance: number, time: number, source: RaceEffort["source"] = "best_effort"): RaceEffort {
+  return {
+    label: source === "activity" ? "Whole run" : "Race",
+    distance,
+    time,
+    vdot: Math.round(vdotFromPerformance(distance, time) * 10) / 10,
+    source,
+    activityId,
+    activityName: `Run ${activityId}`,
+    date: "2024-03-01",
+  };
+}
+
+describe("riegelPredict", () => {
+  it("scales time by the distance ratio to the 1.06 power", () => {
+    // 20:00 for 5K: 1200 × 2^1.06
+    expect(riegelPredict(5000, 1200, 10000)).toBeCloseTo(2501.9, 1);
+    expect(riegelPredict(5000, 1200, 5000)).toBe(1200);
+  });
+});
+
+describe("VDOT", () => {
+  it("matches Daniels' tables", () => {
+    // VDOT 50: 5K 19:57, 10K 41:21, half 1:31:35, marathon 3:10:49
+    expect(vdotFromPerformance(5000, 1197)).toBeCloseTo(50, 1);
+    expect(Math.abs(timeForVdot(50, 10000) - 2481)).toBeLessThan(15);
+    expect(Math.abs(timeForVdot(50, 21097.5) - 5495)).toBeLessThan(15);
+    expect(Math.abs(timeForVdot(50, 42195) - 11449)).toBeLessThan(15);
+  });
+
+  it("inverts vdotFromPerformance", () => {
+    expect(timeForVdot(vdotFromPerformance(10000, 2700), 10000)).toBeCloseTo(2700, 3);
+  });
+});
+
+describe("collectEfforts", () => {
+  it("takes best efforts and whole runs, skipping short and implausible ones", () => {
+    const efforts = collectEfforts([
+      run(1, 10, 2700, [bestEffort("1k", 1000, 200), bestEffort("5k", 5000, 1290)]),
+      run(2, 5, 600), // 2:00/km is a GPS glitch
+    ]);
+
+    expect(efforts.map((e) => [e.label, e.distance, e.time, e.source])).toEqual([
+      ["5k best effort", 5000, 1290, "best_effort"],
+      ["Whole run", 10000, 2700, "activity"],
+    ]);
+    expect(efforts[0]).toMatchObject({ activityId: 1, activityName: "Run 1", date: "2024-03-01" });
+  });
+});
+
+describe("strongestEfforts", () => {
+  it("keeps one effort per activity within 5% of the best VDOT", () => {
+    const efforts = [
+      effort(1, 5000, 1200), // VDOT 49.8
+      effort(1, 10000, 2520, "activity"),
+      effort(2, 10000, 2550),
+      effort(3, 5000, 1320), // VDOT 44.6, not run all-out
+    ];
+
+    expect(strongestEfforts(efforts).map((e) => [e.activityId, e.distance])).toEqual([
+      [1, 5000],
+      [2, 10000],
+    ]);
+  });
+});
+
+describe("predictRaceTimes", () => {
+  it("predicts every race distance from a single effort", () => {
+    const result = predictRaceTimes([effort(1, 5000, 1200)], 60)!;
+
+    expect(result.vdot).toBe(49.8);
+    expect(result.notes).toEqual([]);
+    expect(result.predictions.map((p) => [p.race, p.riegel, p.vdot, p.time, p.confidence])).toEqual([
+      ["5k", 1200, 1200, 1200, "high"],
+      ["10k", 2502, 2488, 2495, "high"],
+      ["half", 5520, 5510, 5515, "medium"],
+      ["marathon", 11509, 11478, 11494, "medium"],
+    ]);
+    // Base error only at the effort's own distance
+    expect(result.predictions[0]).toMatchObject({ low: 1182, high: 1218 });
+  });
+
+  it("widens only the slow end of the marathon on low volume", () => {
+    const result = predictRaceTimes([effort(1, 5000, 1200)], 30)!;
+    const marathon = result.predictions[3];
+
+    expect(marathon).toMatchObject({ time: 11494, low: 10775, high: 12787, confidence: "low" });
+    expect(result.notes).toEqual([
+      "Weekly volume (30km) is below 50km; the marathon prediction assumes marathon-specific training and is likely optimistic.",
+    ]);
+  });
+
+  it("notes when only whole runs were available", () => {
+    const result = predictRaceTimes([effort(1, 10000, 2700, "activity")], 60)!;
+    expect(result.notes).toEqual([
+      "No best efforts were available; predictions use whole-run times, which understate fitness when runs are not raced.",
+    ]);
+  });
+
+  it("returns null without efforts", () => {
+    expect(predictRaceTimes([], 60)).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Race time prediction from recent performances
+ *
+ * The strongest recent efforts (whole runs and Strava best efforts) are ranked
+ * by VDOT. Each target distance is predicted from those efforts with both
+ * Riegel's formula and Daniels' VDOT tables; efforts closer to the target
+ * distance weigh more, and the band widens with model disagreement and with
+ * how far the prediction extrapolates.
+ */
+
+import type { StravaActivity } from "./strava.js";
+import { formatDistanceInUnits, type UnitSystem } from "./units.js";
+
+export type RaceKey = "5k" | "10k" | "half" | "marathon";
+
+export type PredictionConfidence = "high" | "medium" | "low";
+
+export interface RaceTarget {
+  key: RaceKey;
+  name: string;
+  distance: number; // meters
+}
+
+export interface RaceEffort {
+  label: string; // e.g. "5k best effort", "Whole run"
+  distance: number; // meters
+  time: number; // seconds
+  vdot: number;
+  source: "best_effort" | "activity";
+  activityId: number;
+  activityName: string;
+  date: string; // YYYY-MM-DD (local)
+}
+
+export interface RacePrediction {
+  race: RaceKey;
+  name: string;
+  distance: number; // meters
+  time: number; // seconds, central estimate
+  low: number; // seconds, fast end of the band
+  high: number; // seconds, slow end of the band
+  riegel: number; // seconds, from the strongest effort
+  vdot: number; // seconds, from the strongest effort
+  confidence: PredictionConfidence;
+}
+
+export interface RacePredictionResult {
+  predictions: RacePrediction[];
+  vdot: number; // of the strongest effort
+  efforts: RaceEffort[]; // efforts the predictions are based on
+  notes: string[];
+}
+
+export const RACE_TARGETS: RaceTarget[] = [
+  { key: "5k", name: "5K", distance: 5000 },
+  { key: "10k", name: "10K", distance: 10000 },
+  { key: "half", name: "Half Marathon", distance: 21097.5 },
+  { key: "marathon", name: "Marathon", distance: 42195 },
+];
+
+export const RIEGEL_EXPONENT = 1.06;
+
+// Efforts shorter than a mile say little about endurance
+const MIN_EFFORT_DISTANCE = 1500;
+
+// Anything above this is a GPS glitch rather than a performance
+const MAX_PLAUSIBLE_VDOT = 85;
+
+// Efforts used per prediction
+const EFFORTS_PER_PREDICTION = 3;
+
+// Efforts further than this below the best VDOT were not run all-out
+const MIN_VDOT_FRACTION_OF_BEST = 0.95;
+
+// Weekly volume below which marathon predictions are likely optimistic
+const MARATHON_MIN_WEEKLY_KM = 50;
+
+/**
+ * Riegel's formula: T2 = T1 × (D2 / D1)^1.06
+ */
+export function riegelPredict(
+  distance: number,
+  time: number,
+  targetDistance: number,
+  exponent: number = RIEGEL_EXPONENT,
+): number {
+  return time * Math.pow(targetDistance / distance, exponent);
+}
+
+/**
+ * Daniels/Gilbert VDOT for a race performance
+ */
+export function vdotFromPerformance(distance: number, seconds: number): number {
+  const minutes = seconds / 60;
+  const velocity = distance / minutes; // meters per minute
+  const vo2 = -4.6 + 0.182258 * velocity + 0.000104 * velocity * velocity;
+  const fractionOfMax =
+    0.8 +
+    0.1894393 * Math.exp(-0.012778 * minutes) +
+    0.2989558 * Math.exp(-0.1932605 * minutes);
+  return vo2 / fractionOfMax;
+}
+
+/**
+ * Race time for a distance at a given VDOT (bisection; VDOT falls as time grows)
+ */
+export function timeForVdot(vdot: number, distance: number): number {
+  let fast = distance / 10; // 10 m/s
+  let slow = distance / 0.5; // 0.5 m/s
+  for (let i = 0; i < 60; i++) {
+    const mid = (fast + slow) / 2;
+    if (vdotFromPerformance(distance, mid) > vdot) {
+      fast = mid;
+    } else {
+      slow = mid;
+    }
+  }
+  return (fast + slow) / 2;
+}
+
+/**
+ * Collect candidate efforts: best efforts from detailed activities, plus each whole run
+ */
+export function collectEfforts(activities: StravaActivity[]): RaceEffort[] {
+  const efforts: RaceEffort[] = [];
+
+  const add = (effort: Omit<RaceEffort, "vdot">) => {
+    if (effort.distance < MIN_EFFORT_DISTANCE || effort.time <= 0) return;
+    const vdot = vdotFromPerformance(effort.distance, effort.time);
+    if (vdot > 0 && vdot <= MAX_PLAUSIBLE_VDOT) {
+      efforts.push({ ...effort, vdot: Math.round(vdot * 10) / 10 });
+    }
+  };
+
+  for (const activity of activities) {
+    const date = activity.start_date_local.split("T")[0];
+
+    for (const best of activity.best_efforts ?? []) {
+      add({
+        label: `${best.name} best effort`,
+        distance: best.distance,
+        time: best.elapsed_time,
+        source: "best_effort",
+        activityId: activity.id,
+        activityName: activity.name,
+        date,
+      });
+    }
+
+    add({
+      label: "Whole run",
+      distance: activity.distance,
+      time: activity.moving_time,
+      source: "activity",
+      activityId: activity.id,
+      activityName: activity.name,
+      date,
+    });
+  }
+
+  return efforts;
+}
+
+/**
+ * Strongest efforts by VDOT, at most one per activity, all close to the best
+ */
+export function strongestEfforts(
+  efforts: RaceEffort[],
+  count: number = EFFORTS_PER_PREDICTION,
+): RaceEffort[] {
+  const seen = new Set<number>();
+  const sorted = [...efforts].sort((a, b) => b.vdot - a.vdot);
+  const cutoff = (sorted[0]?.vdot ?? 0) * MIN_VDOT_FRACTION_OF_BEST;
+  return sorted
+    .filter((effort) => {
+      if (effort.vdot < cutoff || seen.has(effort.activityId)) return false;
+      seen.add(effort.activityId);
+      return true;
+    })
+    .slice(0, count);
+}
+
+function classifyConfidence(uncertainty: number): PredictionConfidence {
+  if (uncertainty < 0.04) return "high";
+  if (uncertainty < 0.08) return "medium";
+  return "low";
+}
+
+/**
+ * Predict standard race times from a set of candidate efforts
+ */
+export function predictRaceTimes(
+  candidates: RaceEffort[],
+  weeklyDistanceKm: number,
+  units: UnitSystem = "metric",
+): RacePredictionResult | null {
+  const efforts = strongestEfforts(candidates);
+  if (efforts.length === 0) {
+    return null;
+  }
+
+  const notes: string[] = [];
+  const predictions = RACE_TARGETS.map((target) => {
+    let weighted = 0;
+    let totalWeight = 0;
+    let fastest = Infinity;
+    let slowest = 0;
+    let closest = Infinity;
+
+    for (const effort of efforts) {
+      const octaves = Math.abs(Math.log2(target.distance / effort.distance));
+      const weight = 1 / (1 + octaves);
+      closest = Math.min(closest, octaves);
+
+      for (const time of [
+        riegelPredict(effort.distance, effort.time, target.distance),
+        timeForVdot(effort.vdot, target.distance),
+      ]) {
+        weighted += time * weight;
+        totalWeight += weight;
+        fastest = Math.min(fastest, time);
+        slowest = Math.max(slowest, time);
+      }
+    }
+
+    const time = weighted / totalWeight;
+
+    // Base error, plus extrapolation distance and disagreement between efforts/models
+    const spread = (slowest - fastest) / 2 / time;
+    const uncertainty = 0.015 + 0.015 * closest + spread;
+
+    // Low mileage mostly hurts the back half of a marathon, so only the slow end widens
+    const volumePenalty =
+      target.key === "marathon" && weeklyDistanceKm < MARATHON_MIN_WEEKLY_KM ? 0.05 : 0;
+
+    return {
+      race: target.key,
+      name: target.name,
+      distance: target.distance,
+      time: Math.round(time),
+      low: Math.round(time * (1 - uncertainty)),
+      high: Math.round(time * (1 + uncertainty + volumePenalty)),
+      riegel: Math.round(riegelPredict(efforts[0].distance, efforts[0].time, target.distance)),
+      vdot: Math.round(timeForVdot(efforts[0].vdot, target.distance)),
+      confidence: classifyConfidence(uncertainty + volumePenalty),
+    };
+  });
+
+  if (weeklyDistanceKm < MARATHON_MIN_WEEKLY_KM) {
+    notes.push(
+      `Weekly volume (${formatDistanceInUnits(weeklyDistanceKm * 1000, units, 0)}) is below ${formatDistanceInUnits(MARATHON_MIN_WEEKLY_KM * 1000, units, 0)}; the marathon prediction assumes marathon-specific training and is likely optimistic.`,
+    );
+  }
+  if (efforts.every((effort) => effort.source === "activity")) {
+    notes.push(
+      "No best efforts were available; predictions use whole-run times, which understate fitness when runs are not raced.",
+    );
+  }
+
+  return {
+    predictions,
+    vdot: efforts[0].vdot,
+    efforts,
+    notes,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { StravaActivity } from "../strava.js";
+import { buildRun } from "../test-fixtures.js";
+import { clusterActivitiesByRoute, nameRouteCluster, type RouteCluster } from "./clustering.js";
+import { encodePolyline } from "./mapbox.js";
+import type { LatLng } from "./matching.js";
+
+// About 1.5 km due east, `lat` degrees north of the first street
+function street(lat: number = 0): LatLng[] {
+  return Array.from({ length: 21 }, (_, i) => ({ lat: 48.85 + lat, lng: 2.3 + i * 0.001 }));
+}
+
+function run(id: number, date: string, track: LatLng[] | null, name: string = "Morning Run"): StravaActivity {
+  return buildRun(date, 1.5, 300, { id, name, map: track ? { summary_polyline: encodePolyline(track) } : undefined });
+}
+
+const clusterOf = (clusters: RouteCluster[]) => clusters.map((c) => c.activities.map((a) => a.id));
+
+describe("clusterActivitiesByRoute", () => {
+  it("groups runs of the same route, largest cluster first", () => {
+    const clusters = clusterActivitiesByRoute([
+      run(1, "2024-03-01", street()),
+      run(2, "2024-03-02", street(0.01)),
+      run(3, "2024-03-03", street().reverse()),
+      run(4, "2024-03-04", street(0.0002)),
+    ]);
+
+    expect(clusterOf(clusters)).toEqual([[4, 3, 1], [2]]);
+    expect(clusters[0].representative.id).toBe(4);
+    expect(clusters[0].confidences[0]).toBe(1);
+    expect(clusters[0].confidences.slice(1).every((c) => c > 0.8 && c < 1)).toBe(true);
+  });
+
+  it("skips activities without a track", () => {
+    const clusters = clusterActivitiesByRoute([run(1, "2024-03-01", street()), run(2, "2024-03-02", null)]);
+    expect(clusterOf(clusters)).toEqual([[1]]);
+  });
+
+  it("passes the matching tolerance through", () => {
+    const activities = [run(1, "2024-03-01", street()), run(2, "2024-03-02", street(0.0005))];
+    expect(clusterOf(clusterActivitiesByRoute(activities))).toEqual([[2, 1]]);
+    expect(clusterOf(clusterActivitiesByRoute(activities, { toleranceMeters: 30 }))).toEqual([[2], [1]]);
+  });
+});
+
+describe("nameRouteCluster", () => {
+  const cluster = (names: string[]) =>
+    clusterActivitiesByRoute(names.map((name, i) => run(i + 1, `2024-03-0${i + 1}`, street(), name)))[0];
+
+  it("prefers the most common custom name over Strava's defaults", () => {
+    expect(nameRouteCluster(cluster(["Morning Run", "Morning Run", "River loop", "Canal", "River loop"]))).toBe(
+      "River loop",
+    );
+  });
+
+  it("falls back to the most common default name", () => {
+    expect(nameRouteCluster(cluster(["Evening Run", "Morning Run", "Morning Run"]))).toBe("Morning Run");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Recurring route discovery: groups activities that follow the same route
+ */
+
+import type { StravaActivity } from "../strava.js";
+import {
+  compareRoutes,
+  decodePolyline,
+  type LatLng,
+  type RouteMatchOptions,
+} from "./matching.js";
+
+export interface RouteCluster {
+  representative: StravaActivity; // most recent run on the route
+  activities: StravaActivity[]; // newest first
+  confidences: number[]; // match confidence of each activity against the representative
+}
+
+interface ClusterCandidate {
+  cluster: RouteCluster;
+  track: LatLng[];
+}
+
+/**
+ * Cluster activities by GPS geometry
+ *
+ * Greedy leader clustering: activities are visited newest first and join the
+ * best-matching existing cluster, or start a new one. The newest run of each
+ * cluster acts as its reference track, so clusters follow how a route is run today.
+ */
+export function clusterActivitiesByRoute(
+  activities: StravaActivity[],
+  options: RouteMatchOptions = {},
+): RouteCluster[] {
+  const withTracks = activities
+    .filter((a) => a.map?.summary_polyline)
+    .sort(
+      (a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime(),
+    );
+
+  const candidates: ClusterCandidate[] = [];
+
+  for (const activity of withTracks) {
+    const track = decodePolyline(activity.map!.summary_polyline);
+    if (track.length < 2) {
+      continue;
+    }
+
+    let best: { candidate: ClusterCandidate; confidence: number } | null = null;
+    for (const candidate of candidates) {
+      const match = compareRoutes(candidate.track, track, options);
+      if (match.matched && (!best || match.confidence > best.confidence)) {
+        best = { candidate, confidence: match.confidence };
+      }
+    }
+
+    if (best) {
+      best.candidate.cluster.activities.push(activity);
+      best.candidate.cluster.confidences.push(best.confidence);
+    } else {
+      candidates.push({
+        cluster: {
+          representative: activity,
+          activities: [activity],
+          confidences: [1],
+        },
+        track,
+      });
+    }
+  }
+
+  return candidates
+    .map((c) => c.cluster)
+    .sort((a, b) => b.activities.length - a.activities.length);
+}
+
+/**
+ * Name a cluster after the most common activity name, ignoring Strava's
+ * default names ("Morning Run", "Lunch Run", ...) when a custom one exists
+ */
+export function nameRouteCluster(cluster: RouteCluster): string {
+  const counts = new Map<string, number>();
+  for (const activity of cluster.activities) {
+    const name = activity.name.trim();
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+
+  const isDefaultName = (name: string) =>
+    /^(morning|lunch|afternoon|evening|night)\s+(run|trail run|walk|hike)$/i.test(name);
+
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  const custom = ranked.find(([name]) => !isDefaultName(name));
+
+  return (custom ?? ranked[0])?.[0] ?? "Unnamed route";
+}
@@ -5,7 +5,7 @@
  * It's not a test file, but rather documentation through code.
  */
 
-import { generateGPX, type GPXTrackPoint } from "./gpx.js";
+import { generateGPX, describeRoute, type GPXTrackPoint } from "./gpx.js";
 import type { GeneratedRoute } from "./mapbox.js";
 
 /**
@@ -59,7 +59,7 @@ export function exampleRouteToGPX() {
   // Generate GPX
   const gpx = generateGPX(trackPoints, {
     name: exampleRoute.name,
-    description: `${exampleRoute.distance}km route with ${exampleRoute.elevationGain}m elevation gain. ${exampleRoute.highlights.join(", ")}.`,
+    description: `${describeRoute(exampleRoute.distance, exampleRoute.elevationGain)} ${exampleRoute.highlights.join(", ")}.`,
     author: "Strava Running Coach",
     time: new Date().toISOString(),
   });
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import type { StructuredStep, StructuredWorkout } from "../workout.js";
+import { generateFITWorkout, validateFIT } from "./fit.js";
+
+const warmup: StructuredStep = {
+  name: "Warm up",
+  intensity: "warmup",
+  length: { type: "time", seconds: 600 },
+  target: { type: "open" },
+};
+
+const workout: StructuredWorkout = {
+  name: "5x800m",
+  steps: [
+    warmup,
+    {
+      repeat: 5,
+      steps: [
+        { name: "800m", intensity: "active", length: { type: "distance", meters: 800 }, target: { type: "pace", fast: 230, slow: 240 } },
+        { name: "Recover", intensity: "recovery", length: { type: "time", seconds: 120 }, target: { type: "heart_rate", low: 120, high: 140 } },
+      ],
+    },
+    { name: "Cool down", intensity: "cooldown", length: { type: "open" }, target: { type: "open" } },
+  ],
+};
+
+const options = { time: "2024-03-01T12:00:00.000Z", serialNumber: 1234 };
+
+// CRC-16/ARC, bit by bit; the FIT SDK's nibble table computes the same checksum
+function referenceCRC(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+interface FITMessage {
+  global: number;
+  fields: Map<number, number | string>;
+}
+
+// Reads the normal-header records this encoder writes (little-endian, no compressed timestamps)
+function readMessages(bytes: Uint8Array): FITMessage[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes[0] + view.getUint32(4, true);
+  const definitions = new Map<number, { global: number; fields: Array<{ num: number; size: number; type: number }> }>();
+  const messages: FITMessage[] = [];
+
+  let offset = bytes[0];
+  while (offset < end) {
+    const header = bytes[offset++];
+    const local = header & 0x0f;
+    if (header & 0x40) {
+      const global = view.getUint16(offset + 2, true);
+      const count = bytes[offset + 4];
+      offset += 5;
+      const fields = Array.from({ length: count }, (_, i) => ({
+        num: bytes[offset + i * 3],
+        size: bytes[offset + i * 3 + 1],
+        type: bytes[offset + i * 3 + 2],
+      }));
+      offset += count * 3;
+      definitions.set(local, { global, fields });
+      continue;
+    }
+
+    const definition = definitions.get(local)!;
+    const fields = new Map<number, number | string>();
+    for (const field of definition.fields) {
+      const raw = bytes.subarray(offset, offset + field.size);
+      fields.set(
+        field.num,
+        field.type === 0x07
+          ? new TextDecoder().decode(raw).replace(/\0+$/, "")
+          : field.size === 4
+            ? view.getUint32(offset, true)
+            : field.size === 2
+              ? view.getUint16(offset, true)
+              : raw[0],
+      );
+      offset += field.size;
+    }
+    messages.push({ global: definition.global, fields });
+  }
+  return messages;
+}
+
+describe("generateFITWorkout", () => {
+  const file = generateFITWorkout(workout, options);
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+
+  it("writes a 14-byte header with its own CRC", () => {
+    expect(file[0]).toBe(14);
+    expect(String.fromCharCode(...file.subarray(8, 12))).toBe(".FIT");
+    expect(view.getUint32(4, true)).toBe(file.length - 14 - 2);
+    expect(view.getUint16(12, true)).toBe(referenceCRC(file.subarray(0, 12)));
+  });
+
+  it("ends with the CRC of everything before it", () => {
+    expect(view.getUint16(file.length - 2, true)).toBe(referenceCRC(file.subarray(0, file.length - 2)));
+    expect(validateFIT(file)).toBe(true);
+  });
+
+  it("round-trips the workout and its steps", () => {
+    const messages = readMessages(file);
+    const [fileId, header, ...steps] = messages;
+
+    expect(fileId.global).toBe(0);
+    expect(fileId.fields.get(0)).toBe(5); // workout file
+    expect(fileId.fields.get(3)).toBe(1234);
+    expect(header.global).toBe(26);
+    expect(header.fields.get(8)).toBe("5x800m");
+    expect(header.fields.get(6)).toBe(5);
+
+    expect(steps.map((s) => s.global)).toEqual([27, 27, 27, 27, 27]);
+    expect(steps.map((s) => s.fields.get(0))).toEqual(["Warm up", "800m", "Recover", "Repeat", "Cool down"]);
+
+    // Durations: ms for time, cm for distance, open until lap
+    expect(steps[0].fields.get(1)).toBe(0);
+    expect(steps[0].fields.get(2)).toBe(600_000);
+    expect(steps[1].fields.get(1)).toBe(1);
+    expect(steps[1].fields.get(2)).toBe(80_000);
+    expect(steps[4].fields.get(1)).toBe(5);
+
+    // Pace as a speed range in mm/s, slow end low; heart rate offset by 100
+    expect(steps[1].fields.get(5)).toBe(4167);
+    expect(steps[1].fields.get(6)).toBe(4348);
+    expect(steps[2].fields.get(5)).toBe(220);
+    expect(steps[2].fields.get(6)).toBe(240);
+
+    // Repeat 5 times from step 1
+    expect(steps[3].fields.get(1)).toBe(6);
+    expect(steps[3].fields.get(2)).toBe(1);
+    expect(steps[3].fields.get(4)).toBe(5);
+  });
+
+  it("cuts long step names at a character boundary", () => {
+    const named = generateFITWorkout(
+      { name: "Côte", steps: [{ ...warmup, name: "Échauffement très long" }] },
+      options,
+    );
+    const [, , step] = readMessages(named);
+
+    expect(validateFIT(named)).toBe(true);
+    expect(step.fields.get(0)).toBe("Échauffement t");
+  });
+});
+
+describe("validateFIT", () => {
+  const file = generateFITWorkout(workout, options);
+
+  it("rejects a corrupted byte", () => {
+    const corrupted = file.slice();
+    corrupted[20] ^= 0xff;
+    expect(validateFIT(corrupted)).toBe(false);
+  });
+
+  it("rejects a truncated file or a wrong signature", () => {
+    expect(validateFIT(file.subarray(0, file.length - 1))).toBe(false);
+    const unsigned = file.slice();
+    unsigned[8] = 0;
+    expect(validateFIT(unsigned)).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * FIT (Flexible and Interoperable Data Transfer) workout generation utilities
+ *
+ * Writes the three messages a watch needs to load a workout: file_id,
+ * workout and one workout_step per step. Repeat blocks become a
+ * "repeat until steps complete" step after their children, pointing back at
+ * the first child, as Garmin's own workout files do.
+ */
+
+import {
+  isRepeatBlock,
+  type StepIntensity,
+  type StructuredStep,
+  type StructuredWorkout,
+} from "../workout.js";
+
+// Profile values from the FIT SDK
+const MESG_FILE_ID = 0;
+const MESG_WORKOUT = 26;
+const MESG_WORKOUT_STEP = 27;
+const FILE_TYPE_WORKOUT = 5;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_RUNNING = 1;
+const PROFILE_VERSION = 2132;
+const PROTOCOL_VERSION = 0x10;
+
+const DURATION_TIME = 0;
+const DURATION_DISTANCE = 1;
+const DURATION_OPEN = 5;
+const DURATION_REPEAT_UNTIL_STEPS_COMPLETE = 6;
+
+const TARGET_SPEED = 0;
+const TARGET_HEART_RATE = 1;
+const TARGET_OPEN = 2;
+
+const INTENSITY: Record<StepIntensity, number> = {
+  active: 0,
+  rest: 1,
+  warmup: 2,
+  cooldown: 3,
+  recovery: 4,
+};
+
+// Custom heart-rate targets are offset by 100 so 0-100 can mean zones or % max HR
+const HEART_RATE_OFFSET = 100;
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+
+const BASE_TYPE = {
+  enum: { id: 0x00, size: 1 },
+  string: { id: 0x07, size: 1 },
+  uint16: { id: 0x84, size: 2 },
+  uint32: { id: 0x86, size: 4 },
+  uint32z: { id: 0x8c, size: 4 },
+};
+
+const INVALID_UINT32 = 0xffffffff;
+const WORKOUT_NAME_BYTES = 32;
+const STEP_NAME_BYTES = 16;
+
+type BaseType = keyof typeof BASE_TYPE;
+
+interface FieldDefinition {
+  num: number;
+  type: BaseType;
+  bytes?: number; // string fields only
+}
+
+interface FITFileOptions {
+  time?: string; // ISO timestamp for time_created, defaults to now
+  serialNumber?: number;
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 over `bytes`
+ */
+function fitCRC(bytes: Uint8Array, crc: number = 0): number {
+  for (const byte of bytes) {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+/**
+ * Little-endian record writer; one local message type per global message
+ */
+class RecordWriter {
+  private bytes: number[] = [];
+
+  define(local: number, global: number, fields: FieldDefinition[]): void {
+    this.bytes.push(0x40 | local, 0, 0); // definition header, reserved, little-endian
+    this.uint16(global);
+    this.bytes.push(fields.length);
+    for (const field of fields) {
+      this.bytes.push(field.num, field.bytes ?? BASE_TYPE[field.type].size, BASE_TYPE[field.type].id);
+    }
+  }
+
+  data(local: number, fields: FieldDefinition[], values: Array<number | string>): void {
+    this.bytes.push(local);
+    fields.forEach((field, i) => {
+      const value = values[i];
+      if (field.type === "string") {
+        this.string(String(value), field.bytes ?? 1);
+      } else if (BASE_TYPE[field.type].size === 4) {
+        this.uint32(Number(value));
+      } else if (BASE_TYPE[field.type].size === 2) {
+        this.uint16(Number(value));
+      } else {
+        this.bytes.push(Number(value) & 0xff);
+      }
+    });
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private uint16(value: number): void {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  private uint32(value: number): void {
+    this.bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+  }
+
+  // Null-terminated UTF-8, cut at a character boundary and padded to `size`
+  private string(value: string, size: number): void {
+    const encoder = new TextEncoder();
+    let encoded = encoder.encode(value);
+    let chars = Array.from(value);
+    while (encoded.length > size - 1) {
+      chars = chars.slice(0, -1);
+      encoded = encoder.encode(chars.join(""));
+    }
+    this.bytes.push(...encoded);
+    for (let i = encoded.length; i < size; i++) this.bytes.push(0);
+  }
+}
+
+const FILE_ID_FIELDS: FieldDefinition[] = [
+  { num: 0, type: "enum" }, // type
+  { num: 1, type: "uint16" }, // manufacturer
+  { num: 2, type: "uint16" }, // product
+  { num: 3, type: "uint32z" }, // serial_number
+  { num: 4, type: "uint32" }, // time_created
+];
+
+const WORKOUT_FIELDS: FieldDefinition[] = [
+  { num: 4, type: "enum" }, // sport
+  { num: 6, type: "uint16" }, // num_valid_steps
+  { num: 8, type: "string", bytes: WORKOUT_NAME_BYTES }, // wkt_name
+];
+
+const WORKOUT_STEP_FIELDS: FieldDefinition[] = [
+  { num: 254, type: "uint16" }, // message_index
+  { num: 0, type: "string", bytes: STEP_NAME_BYTES }, // wkt_step_name
+  { num: 1, type: "enum" }, // duration_type
+  { num: 2, type: "uint32" }, // duration_value
+  { num: 3, type: "enum" }, // target_type
+  { num: 4, type: "uint32" }, // target_value
+  { num: 5, type: "uint32" }, // custom_target_value_low
+  { num: 6, type: "uint32" }, // custom_target_value_high
+  { num: 7, type: "enum" }, // intensity
+];
+
+/**
+ * workout_step field values for a single step
+ */
+function stepValues(step: StructuredStep, index: number): Array<number | string> {
+  const [durationType, durationValue] =
+    step.length.type === "distance"
+      ? [DURATION_DISTANCE, Math.round(step.length.meters * 100)] // cm
+      : step.length.type === "time"
+        ? [DURATION_TIME, Math.round(step.length.seconds * 1000)] // ms
+        : [DURATION_OPEN, INVALID_UINT32];
+
+  // Custom ranges use target_value 0; speeds are in mm/s, low = slow end
+  const [targetType, low, high] =
+    step.target.type === "pace"
+      ? [TARGET_SPEED, Math.round(1_000_000 / step.target.slow), Math.round(1_000_000 / step.target.fast)]
+      : step.target.type === "heart_rate"
+        ? [TARGET_HEART_RATE, step.target.low + HEART_RATE_OFFSET, step.target.high + HEART_RATE_OFFSET]
+        : [TARGET_OPEN, INVALID_UINT32, INVALID_UINT32];
+
+  return [
+    index,
+    step.name,
+    durationType,
+    durationValue,
+    targetType,
+    0,
+    low,
+    high,
+    INTENSITY[step.intensity],
+  ];
+}
+
+/**
+ * Generate a binary FIT workout file
+ */
+export function generateFITWorkout(workout: StructuredWorkout, options: FITFileOptions = {}): Uint8Array {
+  const rows: Array<Array<number | string>> = [];
+  for (const step of workout.steps) {
+    if (!isRepeatBlock(step)) {
+      rows.push(stepValues(step, rows.length));
+      continue;
+    }
+
+    const first = rows.length;
+    for (const child of step.steps) {
+      rows.push(stepValues(child, rows.length));
+    }
+    rows.push([
+      rows.length,
+      "Repeat",
+      DURATION_REPEAT_UNTIL_STEPS_COMPLETE,
+      first,
+      TARGET_OPEN,
+      step.repeat,
+      INVALID_UINT32,
+      INVALID_UINT32,
+      INTENSITY.active,
+    ]);
+  }
+
+  const created = Math.floor(Date.parse(options.time || new Date().toISOString()) / 1000) - FIT_EPOCH_OFFSET;
+
+  const writer = new RecordWriter();
+  writer.define(0, MESG_FILE_ID, FILE_ID_FIELDS);
+  writer.data(0, FILE_ID_FIELDS, [
+    FILE_TYPE_WORKOUT,
+    MANUFACTURER_DEVELOPMENT,
+    0,
+    options.serialNumber ?? (created >>> 0),
+    created,
+  ]);
+  writer.define(1, MESG_WORKOUT, WORKOUT_FIELDS);
+  writer.data(1, WORKOUT_FIELDS, [SPORT_RUNNING, rows.length, workout.name]);
+  writer.define(2, MESG_WORKOUT_STEP, WORKOUT_STEP_FIELDS);
+  for (const row of rows) {
+    writer.data(2, WORKOUT_STEP_FIELDS, row);
+  }
+  const records = writer.toBytes();
+
+  const header = new Uint8Array(14);
+  const view = new DataView(header.buffer);
+  header[0] = 14;
+  header[1] = PROTOCOL_VERSION;
+  view.setUint16(2, PROFILE_VERSION, true);
+  view.setUint32(4, records.length, true);
+  header.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+  view.setUint16(12, fitCRC(header.subarray(0, 12)), true);
+
+  const file = new Uint8Array(header.length + records.length + 2);
+  file.set(header, 0);
+  file.set(records, header.length);
+  const crc = fitCRC(file.subarray(0, header.length + records.length));
+  file[file.length - 2] = crc & 0xff;
+  file[file.length - 1] = (crc >> 8) & 0xff;
+
+  return file;
+}
+
+/**
+ * Validate FIT format: header, signature, data size and file CRC
+ */
+export function validateFIT(bytes: Uint8Array): boolean {
+  try {
+    const headerSize = bytes[0];
+    if (headerSize !== 12 && headerSize !== 14) return false;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const signature = String.fromCharCode(...bytes.subarray(8, 12));
+    const dataSize = view.getUint32(4, true);
+    if (signature !== ".FIT" || bytes.length !== headerSize + dataSize + 2) return false;
+
+    return fitCRC(bytes) === 0;
+  } catch {
+    return false;
+  }
+}
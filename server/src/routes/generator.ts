@@ -230,7 +230,8 @@ export async function generateRoutes(
         name: generateRouteName(
           request.location,
           directions.distance,
-          request.terrain
+          request.terrain,
+          request.units
         ),
         distance: Math.round(directions.distance * 10) / 10,
         elevationGain: Math.round(elevationGain),
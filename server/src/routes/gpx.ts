@@ -2,6 +2,12 @@
  * GPX (GPS Exchange Format) generation utilities
  */
 
+import {
+  formatDistanceInUnits,
+  formatElevationInUnits,
+  type UnitSystem,
+} from "../units.js";
+
 export interface GPXTrackPoint {
   lat: number;
   lng: number;
@@ -15,6 +21,20 @@ export interface GPXMetadata {
   time?: string;
 }
 
+/**
+ * Default route description, in the athlete's units
+ *
+ * @param distanceKm - Route distance in km
+ * @param elevationGainMeters - Total climb in meters
+ */
+export function describeRoute(
+  distanceKm: number,
+  elevationGainMeters: number,
+  units: UnitSystem = "metric"
+): string {
+  return `${formatDistanceInUnits(distanceKm * 1000, units)} route with ${formatElevationInUnits(elevationGainMeters, units)} elevation gain.`;
+}
+
 /**
  * Generate GPX 1.1 format XML from route data
  */
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { generateICS, validateICS, type ICSEvent } from "./ics.js";
+
+const metadata = { name: "Training plan", time: "2024-03-01T12:00:00.000Z" };
+
+function event(overrides: Partial<ICSEvent> = {}): ICSEvent {
+  return { uid: "plan-1@test", date: "2024-03-10", summary: "Easy run", ...overrides };
+}
+
+// Undo line folding: a CRLF followed by a space continues the previous line
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("generateICS", () => {
+  it("writes all-day events with CRLF line endings", () => {
+    const ics = generateICS([event()], metadata);
+
+    expect(validateICS(ics)).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+    expect(ics).toContain("\r\nDTSTAMP:20240301T120000Z\r\n");
+    expect(ics).toContain("\r\nDTSTART;VALUE=DATE:20240310\r\n");
+    expect(ics).toContain("\r\nDTEND;VALUE=DATE:20240311\r\n");
+  });
+
+  it("ends an event on the first of the next month", () => {
+    const ics = generateICS([event({ date: "2024-02-29" })], metadata);
+    expect(ics).toContain("\r\nDTEND;VALUE=DATE:20240301\r\n");
+  });
+
+  it("escapes backslashes, semicolons, commas and newlines in text", () => {
+    const ics = generateICS(
+      [event({ summary: "Tempo; 3x2km, hard", description: "Warm up\nC:\\run", categories: ["a,b"] })],
+      metadata,
+    );
+    const lines = unfold(ics);
+
+    expect(lines).toContain("SUMMARY:Tempo\\; 3x2km\\, hard");
+    expect(lines).toContain("DESCRIPTION:Warm up\\nC:\\\\run");
+    expect(lines).toContain("CATEGORIES:a\\,b");
+  });
+
+  it("folds long lines at 75 octets", () => {
+    const description = "Steady effort. ".repeat(20).trim();
+    const ics = generateICS([event({ description })], metadata);
+
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+
+  it("never splits a multi-byte character when folding", () => {
+    const summary = "Côte à côte 🏃 ".repeat(10).trim();
+    const ics = generateICS([event({ summary })], metadata);
+
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      // A split emoji would leave a lone surrogate behind
+      expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+  });
+});
+
+describe("validateICS", () => {
+  it("rejects unbalanced events and LF line endings", () => {
+    const ics = generateICS([event()], metadata);
+
+    expect(validateICS(ics.replace("END:VEVENT\r\n", ""))).toBe(false);
+    expect(validateICS(ics.replace(/\r\n/g, "\n"))).toBe(false);
+  });
+});
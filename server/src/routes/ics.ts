@@ -0,0 +1,209 @@
+/**
+ * iCalendar (RFC 5545) generation utilities
+ *
+ * Workouts are written as all-day events so they land on the right day in any
+ * calendar app, whatever the athlete's timezone.
+ */
+
+import { addDays } from "../calendar.js";
+import { unitLabels, type UnitSystem } from "../units.js";
+
+export interface ICSEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD
+  summary: string;
+  description?: string;
+  categories?: string[];
+  url?: string; // link shown by most calendar apps
+  attachments?: ICSAttachment[];
+}
+
+export interface ICSAttachment {
+  uri: string;
+  fmtType?: string; // media type, e.g. application/gpx+xml
+}
+
+export interface ICSMetadata {
+  name: string;
+  description?: string;
+  time?: string; // ISO timestamp for DTSTAMP, defaults to now
+}
+
+export interface CalendarWorkout {
+  date: string; // YYYY-MM-DD
+  title: string;
+  type?: string;
+  distance?: number; // km, or mi with imperial units
+  targetPace?: string; // min:sec per km (or per mile)
+  description?: string;
+  routeUrl?: string; // link to the route's GPX file
+}
+
+const PRODUCT_ID = "-//Strava Running Coach//Training Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Event description for a workout, in the athlete's units
+ */
+export function describeWorkoutEvent(
+  workout: CalendarWorkout,
+  units: UnitSystem = "metric"
+): string {
+  const labels = unitLabels(units);
+  const lines: string[] = [];
+
+  if (workout.distance !== undefined) {
+    lines.push(`Distance: ${workout.distance} ${labels.distance}`);
+  }
+  if (workout.targetPace) {
+    lines.push(`Target pace: ${workout.targetPace}${labels.pace}`);
+  }
+  if (workout.description) {
+    lines.push("", workout.description);
+  }
+  if (workout.routeUrl) {
+    lines.push("", `Route (GPX): ${workout.routeUrl}`);
+  }
+
+  return lines.join("\n").trim();
+}
+
+/**
+ * Calendar event for a workout; the UID comes from the day and title, so it is stable across exports
+ */
+export function workoutToEvent(
+  workout: CalendarWorkout,
+  units: UnitSystem = "metric"
+): ICSEvent {
+  const slug = workout.title.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase();
+  const distance = workout.distance !== undefined
+    ? ` · ${workout.distance} ${unitLabels(units).distance}`
+    : "";
+
+  return {
+    uid: `${workout.date}-${slug || "workout"}@strava-running-coach`,
+    date: workout.date,
+    summary: `${workout.title}${distance}`,
+    description: describeWorkoutEvent(workout, units),
+    categories: workout.type ? ["Running", workout.type] : ["Running"],
+    url: workout.routeUrl,
+    attachments: workout.routeUrl
+      ? [{ uri: workout.routeUrl, fmtType: "application/gpx+xml" }]
+      : undefined,
+  };
+}
+
+/**
+ * Generate an iCalendar file with one all-day VEVENT per event
+ */
+export function generateICS(events: ICSEvent[], metadata: ICSMetadata): string {
+  const stamp = formatTimestamp(metadata.time || new Date().toISOString());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(metadata.name)}`,
+  ];
+  if (metadata.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(metadata.description)}`);
+  }
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    for (const attachment of event.attachments ?? []) {
+      const fmtType = attachment.fmtType ? `;FMTTYPE=${attachment.fmtType}` : "";
+      lines.push(`ATTACH${fmtType}:${attachment.uri}`);
+    }
+    // Workouts shouldn't block the athlete's free/busy time
+    lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  // RFC 5545 requires CRLF line endings, including after the last line
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Escape TEXT property values (backslash, semicolon, comma, newline)
+ */
+function escapeText(str: string): string {
+  return str
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatDate(dateKey: string): string {
+  return dateKey.replace(/-/g, "");
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Validate iCalendar format
+ */
+export function validateICS(icsString: string): boolean {
+  try {
+    // Basic validation: calendar wrapper, required properties and balanced events
+    const hasCalendar =
+      icsString.startsWith("BEGIN:VCALENDAR\r\n") &&
+      icsString.trimEnd().endsWith("END:VCALENDAR");
+    const hasVersion = icsString.includes("\r\nVERSION:2.0\r\n");
+    const hasProductId = icsString.includes("\r\nPRODID:");
+    const begins = icsString.split("BEGIN:VEVENT").length - 1;
+    const ends = icsString.split("END:VEVENT").length - 1;
+
+    return hasCalendar && hasVersion && hasProductId && begins > 0 && begins === ends;
+  } catch {
+    return false;
+  }
+}
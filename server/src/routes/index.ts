@@ -3,5 +3,38 @@
  */
 
 export { generateRoutes, enrichPOIsWithDust } from "./generator.js";
-export { generateGPX, validateGPX, type GPXTrackPoint, type GPXMetadata } from "./gpx.js";
+export {
+  generateGPX,
+  validateGPX,
+  describeRoute,
+  type GPXTrackPoint,
+  type GPXMetadata,
+} from "./gpx.js";
+export {
+  generateICS,
+  validateICS,
+  workoutToEvent,
+  describeWorkoutEvent,
+  type ICSEvent,
+  type ICSAttachment,
+  type ICSMetadata,
+  type CalendarWorkout,
+} from "./ics.js";
+export { generateTCXWorkout, validateTCXWorkout } from "./tcx.js";
+export { generateFITWorkout, validateFIT } from "./fit.js";
 export type { RouteRequest, GeneratedRoute } from "./mapbox.js";
+export {
+  decodePolyline,
+  compareRoutes,
+  comparePolylines,
+  haversineMeters,
+  pathLength,
+  type LatLng,
+  type RouteMatch,
+  type RouteMatchOptions,
+} from "./matching.js";
+export {
+  clusterActivitiesByRoute,
+  nameRouteCluster,
+  type RouteCluster,
+} from "./clustering.js";
@@ -2,6 +2,8 @@
  * Mapbox API utilities for route generation
  */
 
+import { formatDistanceInUnits, type UnitSystem } from "../units.js";
+
 export interface MapboxConfig {
   accessToken: string;
   baseUrl?: string;
@@ -22,6 +24,7 @@ export interface RouteRequest {
   trafficLevel?: "low" | "medium" | "high"; // Preferred traffic level
   elevationPreference?: "minimize" | "maximize" | "moderate"; // Hill preference
   enrichPOIs?: boolean; // Enrich POIs with web search (slower but more informative)
+  units?: UnitSystem; // Units for route names (distances stay in km)
 }
 
 export interface GeneratedRoute {
@@ -255,12 +258,12 @@ export function calculateDifficulty(
 export function generateRouteName(
   location: string,
   distance: number,
-  terrain?: string
+  terrain?: string,
+  units: UnitSystem = "metric"
 ): string {
-  const roundedDistance = Math.round(distance * 10) / 10;
   const terrainSuffix = terrain ? ` ${terrain}` : "";
 
-  return `${location} ${roundedDistance}km${terrainSuffix} Loop`;
+  return `${location} ${formatDistanceInUnits(distance * 1000, units)}${terrainSuffix} Loop`;
 }
 
 /**
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { encodePolyline } from "./mapbox.js";
+import {
+  compareRoutes,
+  decodePolyline,
+  discreteFrechet,
+  haversineMeters,
+  resamplePath,
+  type LatLng,
+} from "./matching.js";
+
+// Straight legs between corners, `steps` points per leg
+function path(corners: [number, number][], steps: number = 10): LatLng[] {
+  const points: LatLng[] = [{ lat: corners[0][0], lng: corners[0][1] }];
+  for (let c = 1; c < corners.length; c++) {
+    const [fromLat, fromLng] = corners[c - 1];
+    const [toLat, toLng] = corners[c];
+    for (let i = 1; i <= steps; i++) {
+      points.push({ lat: fromLat + ((toLat - fromLat) * i) / steps, lng: fromLng + ((toLng - fromLng) * i) / steps });
+    }
+  }
+  return points;
+}
+
+const shift = (track: LatLng[], lat: number) => track.map((p) => ({ ...p, lat: p.lat + lat }));
+
+// About 1.5 km due east
+const line = path([[48.85, 2.3], [48.85, 2.32]], 20);
+
+// A block of roughly 550 m by 510 m, run clockwise from the south-west corner
+const corners: [number, number][] = [[48.85, 2.3], [48.855, 2.3], [48.855, 2.307], [48.85, 2.307]];
+const loop = path([...corners, corners[0]]);
+
+describe("decodePolyline", () => {
+  it("decodes Google's reference polyline", () => {
+    expect(decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@")).toEqual([
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ]);
+  });
+
+  it("round-trips the encoder at five decimal places", () => {
+    expect(decodePolyline(encodePolyline(loop))).toEqual(
+      loop.map((p) => ({ lat: Math.round(p.lat * 1e5) / 1e5, lng: Math.round(p.lng * 1e5) / 1e5 })),
+    );
+    expect(decodePolyline("")).toEqual([]);
+  });
+});
+
+describe("resamplePath", () => {
+  it("spaces points evenly along the path", () => {
+    const resampled = resamplePath(path([[48.85, 2.3], [48.85, 2.301], [48.85, 2.31]], 1), 11);
+    expect(resampled).toHaveLength(11);
+    expect(resampled[1].lng).toBeCloseTo(2.301, 6);
+    expect(resampled[10].lng).toBeCloseTo(2.31, 6);
+  });
+});
+
+describe("discreteFrechet", () => {
+  it("is the worst gap between two tracks walked in step", () => {
+    expect(discreteFrechet(line, line)).toBe(0);
+    // 0.001° of latitude is about 111 m
+    expect(discreteFrechet(line, shift(line, 0.001))).toBeCloseTo(111.2, 0);
+  });
+
+  it("can't walk a track backwards", () => {
+    expect(discreteFrechet(line, line.slice().reverse())).toBeCloseTo(haversineMeters(line[0], line[20]), 0);
+  });
+});
+
+describe("compareRoutes", () => {
+  it("matches a track with itself", () => {
+    expect(compareRoutes(line, line)).toEqual({
+      matched: true,
+      confidence: 1,
+      frechetMeters: 0,
+      lengthRatio: 1,
+      reversed: false,
+    });
+  });
+
+  it("matches a point-to-point route run the other way", () => {
+    expect(compareRoutes(line, line.slice().reverse())).toMatchObject({ matched: true, frechetMeters: 0, reversed: true });
+  });
+
+  it("matches a loop started from another corner, in either direction", () => {
+    const fromNorthEast = path([corners[2], corners[3], corners[0], corners[1], corners[2]]);
+    const rotated = compareRoutes(loop, fromNorthEast);
+    expect(rotated).toMatchObject({ matched: true, reversed: false });
+    expect(rotated.frechetMeters).toBeLessThan(50);
+
+    const reversed = compareRoutes(loop, fromNorthEast.slice().reverse());
+    expect(reversed).toMatchObject({ matched: true, reversed: true });
+    expect(reversed.frechetMeters).toBeLessThan(50);
+  });
+
+  it("rejects a parallel street beyond the tolerance", () => {
+    const result = compareRoutes(line, shift(line, 0.0015));
+    expect(result).toMatchObject({ matched: false, frechetMeters: 167, lengthRatio: 1 });
+    expect(result.confidence).toBe(0.17);
+  });
+
+  it("rejects tracks whose centres are far apart without comparing them", () => {
+    expect(compareRoutes(line, shift(line, 0.01))).toEqual({
+      matched: false,
+      confidence: 0,
+      frechetMeters: Infinity,
+      lengthRatio: 1,
+      reversed: false,
+    });
+  });
+
+  it("rejects a track of a different length", () => {
+    const half = path([[48.85, 2.3], [48.85, 2.31]], 10);
+    expect(compareRoutes(line, half)).toMatchObject({ matched: false, frechetMeters: Infinity, lengthRatio: 0.5 });
+  });
+
+  it("needs two points on each track", () => {
+    expect(compareRoutes(line, line.slice(0, 1)).matched).toBe(false);
+  });
+});
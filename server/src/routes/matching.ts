@@ -0,0 +1,286 @@
+/**
+ * Route matching: decides whether two GPS tracks follow the same route
+ *
+ * Tracks are resampled to evenly spaced points, normalized for direction and
+ * (for loops) start point, then compared with the discrete Fréchet distance.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteMatchOptions {
+  toleranceMeters?: number; // max Fréchet distance still considered the same route
+  minLengthRatio?: number; // shorter/longer track length ratio required for a match
+}
+
+export interface RouteMatch {
+  matched: boolean;
+  confidence: number; // 0-1
+  frechetMeters: number;
+  lengthRatio: number;
+  reversed: boolean; // candidate was run in the opposite direction
+}
+
+const DEFAULT_TOLERANCE_METERS = 100;
+const DEFAULT_MIN_LENGTH_RATIO = 0.8;
+
+// Points per resampled track; summary polylines rarely carry more detail than this
+const RESAMPLE_POINTS = 64;
+
+// Start offsets tried when aligning two loops
+const LOOP_ROTATIONS = 16;
+
+/**
+ * Decode a Google/Strava encoded polyline (precision 5)
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    for (const axis of ["lat", "lng"] as const) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20 && index < encoded.length);
+
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === "lat") {
+        lat += delta;
+      } else {
+        lng += delta;
+      }
+    }
+
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+/**
+ * Distance between two points in meters (Haversine formula)
+ */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((a.lat * Math.PI) / 180) *
+      Math.cos((b.lat * Math.PI) / 180) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Total length of a path in meters
+ */
+export function pathLength(path: LatLng[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += haversineMeters(path[i - 1], path[i]);
+  }
+  return length;
+}
+
+/**
+ * Resample a path to `count` points evenly spaced by distance along the path
+ */
+export function resamplePath(path: LatLng[], count: number): LatLng[] {
+  if (path.length < 2) {
+    return path.slice();
+  }
+
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineMeters(path[i - 1], path[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (total === 0) {
+    return Array.from({ length: count }, () => ({ ...path[0] }));
+  }
+
+  const result: LatLng[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < path.length - 1 && cumulative[segment] < target) {
+      segment++;
+    }
+    const segStart = cumulative[segment - 1];
+    const segLength = cumulative[segment] - segStart;
+    const t = segLength > 0 ? (target - segStart) / segLength : 0;
+    const a = path[segment - 1];
+    const b = path[segment];
+    result.push({
+      lat: a.lat + (b.lat - a.lat) * t,
+      lng: a.lng + (b.lng - a.lng) * t,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Discrete Fréchet distance between two paths in meters
+ */
+export function discreteFrechet(a: LatLng[], b: LatLng[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return Infinity;
+  }
+
+  // Rolling single-row DP: row[j] holds the coupling distance for (i, j)
+  let prev = new Array<number>(b.length);
+  let curr = new Array<number>(b.length);
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      const d = haversineMeters(a[i], b[j]);
+      if (i === 0 && j === 0) {
+        curr[j] = d;
+      } else if (i === 0) {
+        curr[j] = Math.max(curr[j - 1], d);
+      } else if (j === 0) {
+        curr[j] = Math.max(prev[j], d);
+      } else {
+        curr[j] = Math.max(Math.min(prev[j], prev[j - 1], curr[j - 1]), d);
+      }
+    }
+    [prev, curr] = [curr, prev];
+  }
+
+  return prev[b.length - 1];
+}
+
+function centroid(path: LatLng[]): LatLng {
+  const sum = path.reduce(
+    (acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }),
+    { lat: 0, lng: 0 },
+  );
+  return { lat: sum.lat / path.length, lng: sum.lng / path.length };
+}
+
+/**
+ * A track is a loop when it finishes close to where it started
+ */
+function isLoop(path: LatLng[], toleranceMeters: number): boolean {
+  return (
+    path.length > 2 &&
+    haversineMeters(path[0], path[path.length - 1]) <= toleranceMeters * 2
+  );
+}
+
+/**
+ * Start a resampled loop at a different point, keeping it closed
+ */
+function rotateLoop(path: LatLng[], offset: number): LatLng[] {
+  const open = path.slice(0, -1);
+  const rotated = [...open.slice(offset), ...open.slice(0, offset)];
+  rotated.push(rotated[0]);
+  return rotated;
+}
+
+/**
+ * Compare a candidate track against a reference route
+ */
+export function compareRoutes(
+  reference: LatLng[],
+  candidate: LatLng[],
+  options: RouteMatchOptions = {},
+): RouteMatch {
+  const toleranceMeters = options.toleranceMeters ?? DEFAULT_TOLERANCE_METERS;
+  const minLengthRatio = options.minLengthRatio ?? DEFAULT_MIN_LENGTH_RATIO;
+
+  const noMatch: RouteMatch = {
+    matched: false,
+    confidence: 0,
+    frechetMeters: Infinity,
+    lengthRatio: 0,
+    reversed: false,
+  };
+
+  if (reference.length < 2 || candidate.length < 2) {
+    return noMatch;
+  }
+
+  const referenceLength = pathLength(reference);
+  const candidateLength = pathLength(candidate);
+  const lengthRatio =
+    Math.min(referenceLength, candidateLength) /
+    Math.max(referenceLength, candidateLength, 1);
+
+  // Cheap rejections before the quadratic comparison
+  if (lengthRatio < minLengthRatio * 0.75) {
+    return { ...noMatch, lengthRatio: Math.round(lengthRatio * 100) / 100 };
+  }
+
+  const ref = resamplePath(reference, RESAMPLE_POINTS);
+  const cand = resamplePath(candidate, RESAMPLE_POINTS);
+
+  // Tracks whose centres are far apart cannot be within tolerance of each other
+  if (haversineMeters(centroid(ref), centroid(cand)) > toleranceMeters * 2) {
+    return { ...noMatch, lengthRatio: Math.round(lengthRatio * 100) / 100 };
+  }
+
+  // Loops can be started anywhere; out-and-backs and point-to-points cannot
+  const loop = isLoop(ref, toleranceMeters) && isLoop(cand, toleranceMeters);
+  const offsets = loop
+    ? Array.from({ length: LOOP_ROTATIONS }, (_, i) =>
+        Math.floor((i * (RESAMPLE_POINTS - 1)) / LOOP_ROTATIONS),
+      )
+    : [0];
+
+  let best = Infinity;
+  let reversed = false;
+  for (const direction of [cand, cand.slice().reverse()]) {
+    for (const offset of offsets) {
+      const aligned = offset === 0 ? direction : rotateLoop(direction, offset);
+      const distance = discreteFrechet(ref, aligned);
+      if (distance < best) {
+        best = distance;
+        reversed = direction !== cand;
+      }
+    }
+  }
+
+  // 1.0 for identical tracks, 0.5 at the tolerance, 0 at twice the tolerance;
+  // scaled down by any difference in length
+  const shapeScore = Math.max(0, 1 - best / (2 * toleranceMeters));
+  const confidence = Math.round(shapeScore * lengthRatio * 100) / 100;
+
+  return {
+    matched: best <= toleranceMeters && lengthRatio >= minLengthRatio,
+    confidence,
+    frechetMeters: Math.round(best),
+    lengthRatio: Math.round(lengthRatio * 100) / 100,
+    reversed,
+  };
+}
+
+/**
+ * Compare two encoded polylines
+ */
+export function comparePolylines(
+  referencePolyline: string,
+  candidatePolyline: string,
+  options: RouteMatchOptions = {},
+): RouteMatch {
+  return compareRoutes(
+    decodePolyline(referencePolyline),
+    decodePolyline(candidatePolyline),
+    options,
+  );
+}
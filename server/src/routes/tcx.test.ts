@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { validateWorkout, WorkoutValidationError, type StructuredStep, type StructuredWorkout } from "../workout.js";
+import { generateTCXWorkout, validateTCXWorkout } from "./tcx.js";
+
+const rep: StructuredStep = {
+  name: "800m",
+  intensity: "active",
+  length: { type: "distance", meters: 800 },
+  target: { type: "pace", fast: 230, slow: 240 },
+};
+
+const workout: StructuredWorkout = {
+  name: "Track <5x800>",
+  notes: "Keep reps \"even\" & relaxed",
+  steps: [
+    { name: "Warm up", intensity: "warmup", length: { type: "time", seconds: 600 }, target: { type: "open" } },
+    {
+      repeat: 5,
+      steps: [
+        rep,
+        { name: "Jog", intensity: "recovery", length: { type: "open" }, target: { type: "heart_rate", low: 120, high: 140 } },
+      ],
+    },
+  ],
+};
+
+describe("generateTCXWorkout", () => {
+  const tcx = generateTCXWorkout(workout);
+
+  it("produces a valid TCX workout", () => {
+    expect(validateTCXWorkout(tcx)).toBe(true);
+  });
+
+  it("escapes XML special characters and trims names to 15 characters", () => {
+    expect(tcx).toContain("<Name>Track &lt;5x800&gt;</Name>");
+    expect(tcx).toContain("<Notes>Keep reps &quot;even&quot; &amp; relaxed</Notes>");
+    expect(generateTCXWorkout({ ...workout, name: "Tuesday's tempo run" })).toContain(
+      "<Name>Tuesday&apos;s tempo</Name>",
+    );
+  });
+
+  it("numbers repeat blocks before their children", () => {
+    const ids = Array.from(tcx.matchAll(/<StepId>(\d+)<\/StepId>/g), (m) => Number(m[1]));
+    expect(ids).toEqual([1, 2, 3, 4]);
+    expect(tcx).toMatch(/<Step xsi:type="Repeat_t">\s*<StepId>2<\/StepId>\s*<Repetitions>5<\/Repetitions>/);
+  });
+
+  it("writes durations and targets", () => {
+    expect(tcx).toContain('<Duration xsi:type="Time_t"><Seconds>600</Seconds></Duration>');
+    expect(tcx).toContain('<Duration xsi:type="Distance_t"><Meters>800</Meters></Duration>');
+    expect(tcx).toContain('<Duration xsi:type="UserInitiated_t"/>');
+    // 4:00-3:50 per km as m/s, slow end low
+    expect(tcx).toContain("<LowInMetersPerSecond>4.167</LowInMetersPerSecond>");
+    expect(tcx).toContain("<HighInMetersPerSecond>4.348</HighInMetersPerSecond>");
+    expect(tcx).toContain('<Low xsi:type="HeartRateInBeatsPerMinute_t"><Value>120</Value></Low>');
+  });
+});
+
+describe("step distance limit", () => {
+  it("accepts steps up to 65 km, which fit TCX's 16-bit meters", () => {
+    const long = { name: "Long", steps: [{ ...rep, length: { type: "distance" as const, meters: 65_000 } }] };
+    expect(() => validateWorkout(long)).not.toThrow();
+  });
+
+  it("rejects longer steps", () => {
+    const tooLong = { name: "Ultra", steps: [{ ...rep, length: { type: "distance" as const, meters: 66_000 } }] };
+    expect(() => validateWorkout(tooLong)).toThrow(WorkoutValidationError);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * TCX (Training Center XML) workout generation utilities
+ */
+
+import {
+  isRepeatBlock,
+  type StepTarget,
+  type StructuredStep,
+  type StructuredWorkout,
+} from "../workout.js";
+
+// Garmin limits workout names to 15 characters (RestrictedToken_t)
+const MAX_NAME_LENGTH = 15;
+
+/**
+ * Generate a TCX v2 workout file
+ */
+export function generateTCXWorkout(workout: StructuredWorkout): string {
+  let stepId = 0;
+
+  const step = (s: StructuredStep, indent: string, type: "Step" | "Child") => {
+    stepId += 1;
+    let xml = `${indent}<${type} xsi:type="Step_t">\n`;
+    xml += `${indent}  <StepId>${stepId}</StepId>\n`;
+    xml += `${indent}  <Name>${escapeXML(s.name.slice(0, MAX_NAME_LENGTH))}</Name>\n`;
+    xml += durationXML(s, `${indent}  `);
+    xml += `${indent}  <Intensity>${s.intensity === "rest" || s.intensity === "recovery" ? "Resting" : "Active"}</Intensity>\n`;
+    xml += targetXML(s.target, `${indent}  `);
+    xml += `${indent}</${type}>\n`;
+    return xml;
+  };
+
+  let tcx = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  tcx += '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" ';
+  tcx += 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ';
+  tcx +=
+    'xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">\n';
+  tcx += "  <Workouts>\n";
+  tcx += '    <Workout Sport="Running">\n';
+  tcx += `      <Name>${escapeXML(workout.name.slice(0, MAX_NAME_LENGTH))}</Name>\n`;
+
+  for (const s of workout.steps) {
+    if (!isRepeatBlock(s)) {
+      tcx += step(s, "      ", "Step");
+      continue;
+    }
+
+    // Repeat blocks take their id before their children
+    stepId += 1;
+    tcx += '      <Step xsi:type="Repeat_t">\n';
+    tcx += `        <StepId>${stepId}</StepId>\n`;
+    tcx += `        <Repetitions>${s.repeat}</Repetitions>\n`;
+    for (const child of s.steps) {
+      tcx += step(child, "        ", "Child");
+    }
+    tcx += "      </Step>\n";
+  }
+
+  if (workout.notes) {
+    tcx += `      <Notes>${escapeXML(workout.notes)}</Notes>\n`;
+  }
+  tcx += "    </Workout>\n";
+  tcx += "  </Workouts>\n";
+  tcx += "</TrainingCenterDatabase>\n";
+
+  return tcx;
+}
+
+function durationXML(step: StructuredStep, indent: string): string {
+  switch (step.length.type) {
+    case "distance":
+      return `${indent}<Duration xsi:type="Distance_t"><Meters>${Math.round(step.length.meters)}</Meters></Duration>\n`;
+    case "time":
+      return `${indent}<Duration xsi:type="Time_t"><Seconds>${Math.round(step.length.seconds)}</Seconds></Duration>\n`;
+    default:
+      return `${indent}<Duration xsi:type="UserInitiated_t"/>\n`;
+  }
+}
+
+function targetXML(target: StepTarget, indent: string): string {
+  switch (target.type) {
+    case "pace": {
+      // Speeds: the slow end of the pace range is the low speed
+      let xml = `${indent}<Target xsi:type="Speed_t">\n`;
+      xml += `${indent}  <SpeedZone xsi:type="CustomSpeedZone_t">\n`;
+      xml += `${indent}    <ViewAs>Pace</ViewAs>\n`;
+      xml += `${indent}    <LowInMetersPerSecond>${(1000 / target.slow).toFixed(3)}</LowInMetersPerSecond>\n`;
+      xml += `${indent}    <HighInMetersPerSecond>${(1000 / target.fast).toFixed(3)}</HighInMetersPerSecond>\n`;
+      xml += `${indent}  </SpeedZone>\n`;
+      xml += `${indent}</Target>\n`;
+      return xml;
+    }
+    case "heart_rate": {
+      let xml = `${indent}<Target xsi:type="HeartRate_t">\n`;
+      xml += `${indent}  <HeartRateZone xsi:type="CustomHeartRateZone_t">\n`;
+      xml += `${indent}    <Low xsi:type="HeartRateInBeatsPerMinute_t"><Value>${target.low}</Value></Low>\n`;
+      xml += `${indent}    <High xsi:type="HeartRateInBeatsPerMinute_t"><Value>${target.high}</Value></High>\n`;
+      xml += `${indent}  </HeartRateZone>\n`;
+      xml += `${indent}</Target>\n`;
+      return xml;
+    }
+    default:
+      return `${indent}<Target xsi:type="None_t"/>\n`;
+  }
+}
+
+/**
+ * Escape XML special characters
+ */
+function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Validate TCX workout format
+ */
+export function validateTCXWorkout(tcxString: string): boolean {
+  try {
+    // Basic validation: check for required elements
+    const hasXMLDeclaration = tcxString.includes('<?xml version="1.0"');
+    const hasRoot = tcxString.includes("<TrainingCenterDatabase");
+    const hasWorkout = tcxString.includes('<Workout Sport="Running">');
+    const hasSteps = tcxString.includes('xsi:type="Step_t"');
+
+    return hasXMLDeclaration && hasRoot && hasWorkout && hasSteps;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { zonesFromMaxHeartRate } from "./hr-zones.js";
+import { classificationContext, classifyRun, type ClassificationContext } from "./run-classification.js";
+import type { Lap, StravaActivity } from "./strava.js";
+import { buildRun } from "./test-fixtures.js";
+
+// Zone 1 below 130 bpm, zone 2 to 162, zone 3 from 162
+const context: ClassificationContext = {
+  typicalLongRun: 16000,
+  medianDistance: 8000,
+  averageSpeed: 1000 / 300,
+  zones: zonesFromMaxHeartRate(200),
+};
+const withoutHeartRate = { ...context, zones: null };
+
+function run(km: number, overrides: Partial<StravaActivity> = {}, paceSeconds: number = 300) {
+  return buildRun("2024-03-01", km, paceSeconds, { name: "Morning Run", ...overrides });
+}
+
+// Warm-up, 4 × 800 m with 400 m jogs, cool-down
+function intervalLaps(): Lap[] {
+  const parts: Array<[number, number]> = [[1800, 3], [800, 5], [400, 2.5], [800, 5], [400, 2.5], [800, 5], [400, 2.5], [800, 5], [1500, 3]];
+  let index = 0;
+  return parts.map(([meters, speed], i) => {
+    const seconds = meters / speed;
+    const lap = {
+      lap_index: i + 1,
+      distance: meters,
+      elapsed_time: seconds,
+      moving_time: seconds,
+      average_speed: speed,
+      start_index: index,
+      end_index: index + seconds - 1,
+    };
+    index += seconds;
+    return lap;
+  });
+}
+
+describe("classifyRun", () => {
+  it("reads easy, recovery and long runs from distance and heart rate", () => {
+    expect(classifyRun(run(8, { average_heartrate: 140 }), context)).toEqual({
+      type: "easy",
+      confidence: 0.5,
+      reasons: ["average heart rate in zone 2 (Moderate)"],
+    });
+    expect(classifyRun(run(5, { average_heartrate: 120 }), context)).toMatchObject({
+      type: "recovery",
+      reasons: ["average heart rate in zone 1 (Endurance), shorter than usual"],
+    });
+    expect(classifyRun(run(18, { average_heartrate: 140 }), context)).toEqual({
+      type: "long",
+      confidence: 1,
+      reasons: ["1.1× the usual long run", "average heart rate in zone 2 (Moderate)"],
+    });
+  });
+
+  it("calls a hard heart rate tempo", () => {
+    expect(classifyRun(run(10, { average_heartrate: 170 }), context).type).toBe("tempo");
+  });
+
+  it("falls back to pace against the average without heart rate", () => {
+    expect(classifyRun(run(5, {}, 360), context)).toEqual({
+      type: "recovery",
+      confidence: 0.25,
+      reasons: ["much slower than average pace"],
+    });
+    expect(classifyRun(run(5, {}, 270), context).type).toBe("tempo");
+    expect(classifyRun(run(8), context).type).toBe("easy");
+    expect(classifyRun(run(18, {}, 360), context).type).toBe("long");
+  });
+
+  it("lets the name and Strava's workout type outweigh heart rate", () => {
+    const parkrun = classifyRun(run(5, { name: "Saturday parkrun", average_heartrate: 185 }, 240), context);
+    expect(parkrun).toEqual({ type: "race", confidence: 0.6, reasons: ['name mentions "parkrun"'] });
+
+    expect(classifyRun(run(5, { workout_type: 1, average_heartrate: 185 }, 240), context).type).toBe("race");
+    expect(classifyRun(run(10, { workout_type: 3, average_heartrate: 150 }), context)).toMatchObject({
+      type: "tempo",
+      reasons: ["marked as a workout in Strava"],
+    });
+  });
+
+  it("finds intervals in the laps of a workout", () => {
+    const workout = run(7.7, { workout_type: 3, laps: intervalLaps(), average_heartrate: 165 });
+    expect(classifyRun(workout, context)).toMatchObject({
+      type: "intervals",
+      reasons: ["4 × 800 m detected in the laps"],
+    });
+  });
+
+  it("lets distance and heart rate together outweigh a name", () => {
+    expect(classifyRun(run(18, { name: "Easy Sunday", average_heartrate: 140 }), context).type).toBe("long");
+  });
+
+  it("breaks ties toward the more specific type", () => {
+    const result = classifyRun(run(8, { name: "Tempo long run" }), { ...withoutHeartRate, averageSpeed: 0 });
+    expect(result).toEqual({ type: "long", confidence: 0.5, reasons: ['name mentions "long run"'] });
+  });
+
+  it("defaults to easy with no confidence when nothing votes", () => {
+    expect(classifyRun(run(8), { ...withoutHeartRate, averageSpeed: 0 })).toEqual({
+      type: "easy",
+      confidence: 0,
+      reasons: [],
+    });
+  });
+});
+
+describe("classificationContext", () => {
+  it("takes the median weekly longest run once there are three weeks", () => {
+    const runs = [
+      buildRun("2024-03-04", 8),
+      buildRun("2024-03-10", 14),
+      buildRun("2024-03-12", 6),
+      buildRun("2024-03-17", 18),
+      buildRun("2024-03-24", 16),
+    ];
+
+    expect(classificationContext(runs)).toMatchObject({
+      typicalLongRun: 16000,
+      medianDistance: 14000,
+      averageSpeed: 1000 / 300,
+      zones: null,
+    });
+    expect(classificationContext(runs.slice(0, 3)).typicalLongRun).toBe(15000);
+  });
+});
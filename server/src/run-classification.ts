@@ -0,0 +1,235 @@
+/**
+ * Run-type classification: recovery, easy, long, tempo, intervals or race
+ *
+ * Each signal votes for a type with a weight: keywords in the activity name,
+ * the workout type set in Strava, intervals detected in the laps, distance
+ * against the athlete's typical long run, and the zone of the average heart
+ * rate. Pace against the athlete's average only votes when there is no heart
+ * rate. The type with the most weight wins; confidence is its share of the
+ * votes, scaled down when the evidence is thin.
+ *
+ * Synced summaries carry no laps, so the few runs whose laps could change the
+ * verdict have their detail fetched deliberately (see withCandidateLaps).
+ */
+
+import { getDetailedActivities, type ActivityStoreAuth } from "./cache.js";
+import { activityDateKey, weekStartKey } from "./calendar.js";
+import { zoneIndex, type HeartRateZone } from "./hr-zones.js";
+import { analyzeIntervals, type IntervalAnalysis } from "./interval-detection.js";
+import type { StravaActivity } from "./strava.js";
+
+export type RunType = "recovery" | "easy" | "long" | "tempo" | "intervals" | "race";
+
+// Display order, easiest first
+export const RUN_TYPES: RunType[] = ["recovery", "easy", "long", "tempo", "intervals", "race"];
+
+export interface RunClassification {
+  type: RunType;
+  confidence: number; // 0-1
+  reasons: string[]; // signals that voted for the winning type
+}
+
+export interface ClassificationContext {
+  typicalLongRun: number; // meters
+  medianDistance: number; // meters
+  averageSpeed: number; // meters per second
+  zones: HeartRateZone[] | null;
+}
+
+// Days of history the context should be built from, so a short analysis
+// window still knows what a long run is for this athlete
+export const CLASSIFICATION_HISTORY_DAYS = 56;
+
+// Without enough weeks of history the long-run bar falls back to 15 km
+const MIN_CONTEXT_WEEKS = 3;
+const FALLBACK_LONG_RUN = 15000;
+
+// Long: close to the usual weekly long run and clearly longer than a typical run
+const LONG_RUN_SHARE = 0.9;
+const LONG_RUN_OVER_MEDIAN = 1.25;
+// Recovery: zone 1 and shorter than a typical run
+const RECOVERY_DISTANCE_SHARE = 0.8;
+// Pace fallback, as in the old average-pace rule
+const RECOVERY_PACE_FACTOR = 1.15;
+const HARD_PACE_FACTOR = 0.95;
+
+// Runs per call whose laps are fetched; each one is a Strava request the first time
+const MAX_LAP_CANDIDATES = 8;
+
+// Total vote weight at which confidence is no longer scaled down
+const FULL_EVIDENCE_WEIGHT = 4;
+
+const WEIGHTS = {
+  keyword: 3,
+  workoutType: 3,
+  intervals: 3,
+  distance: 2,
+  heartRate: 2,
+  pace: 1,
+};
+
+// Activity name keywords; a name can vote for more than one type
+const NAME_KEYWORDS: Array<{ type: RunType; pattern: RegExp }> = [
+  { type: "race", pattern: /\b(race|parkrun|time trial|tt)\b/i },
+  { type: "intervals", pattern: /\b(intervals?|repeats?|reps|fartlek|track|vo2( ?max)?|hill sprints?|\d+ ?[x×] ?\d+)/i },
+  { type: "tempo", pattern: /\b(tempo|threshold|cruise|progression|steady state|marathon pace)\b/i },
+  { type: "long", pattern: /\b(long run|lsd)\b/i },
+  { type: "recovery", pattern: /\b(recovery|shake ?out|regen)\b/i },
+  { type: "easy", pattern: /\b(easy|zone ?2|z2|aerobic|base)\b/i },
+];
+
+// Strava's workout_type for runs
+const WORKOUT_TYPE_RACE = 1;
+const WORKOUT_TYPE_LONG = 2;
+const WORKOUT_TYPE_WORKOUT = 3;
+
+// Break ties toward the more specific label
+const TIE_ORDER: RunType[] = ["race", "intervals", "long", "tempo", "easy", "recovery"];
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * What "typical" means for this athlete: the median weekly longest run, the
+ * median run distance and the average speed over the given runs
+ */
+export function classificationContext(
+  runs: StravaActivity[],
+  zones: HeartRateZone[] | null = null,
+): ClassificationContext {
+  const longestByWeek = new Map<string, number>();
+  for (const run of runs) {
+    const week = weekStartKey(activityDateKey(run));
+    longestByWeek.set(week, Math.max(longestByWeek.get(week) ?? 0, run.distance));
+  }
+
+  const totalTime = runs.reduce((sum, r) => sum + r.moving_time, 0);
+  return {
+    typicalLongRun: longestByWeek.size >= MIN_CONTEXT_WEEKS
+      ? median(Array.from(longestByWeek.values()))
+      : FALLBACK_LONG_RUN,
+    medianDistance: median(runs.map((r) => r.distance)),
+    averageSpeed: totalTime > 0 ? runs.reduce((sum, r) => sum + r.distance, 0) / totalTime : 0,
+    zones,
+  };
+}
+
+/**
+ * Classify a run; intervals can be passed in when laps or streams were
+ * already analyzed, otherwise the activity's own laps are used when present
+ * (detailed activities only)
+ */
+export function classifyRun(
+  activity: StravaActivity,
+  context: ClassificationContext,
+  intervals?: IntervalAnalysis | null,
+): RunClassification {
+  const votes = new Map<RunType, { weight: number; reasons: string[] }>();
+  const vote = (type: RunType, weight: number, reason: string) => {
+    const entry = votes.get(type) ?? { weight: 0, reasons: [] };
+    entry.weight += weight;
+    entry.reasons.push(reason);
+    votes.set(type, entry);
+  };
+
+  for (const { type, pattern } of NAME_KEYWORDS) {
+    const match = activity.name.match(pattern);
+    if (match) vote(type, WEIGHTS.keyword, `name mentions "${match[0]}"`);
+  }
+
+  if (activity.workout_type === WORKOUT_TYPE_RACE) {
+    vote("race", WEIGHTS.workoutType, "marked as a race in Strava");
+  } else if (activity.workout_type === WORKOUT_TYPE_LONG) {
+    vote("long", WEIGHTS.workoutType, "marked as a long run in Strava");
+  }
+
+  const detected = intervals ?? (activity.laps ? analyzeIntervals(activity.laps, {}) : null);
+  if (detected?.detected) {
+    vote("intervals", WEIGHTS.intervals, `${detected.structure} detected in the laps`);
+  } else if (activity.workout_type === WORKOUT_TYPE_WORKOUT) {
+    // A workout without reps is most likely a continuous tempo
+    vote("tempo", WEIGHTS.workoutType - 1, "marked as a workout in Strava");
+  }
+
+  const isLong =
+    activity.distance >= context.typicalLongRun * LONG_RUN_SHARE &&
+    activity.distance >= context.medianDistance * LONG_RUN_OVER_MEDIAN;
+  if (isLong) {
+    const share = Math.round((activity.distance / context.typicalLongRun) * 10) / 10;
+    vote("long", WEIGHTS.distance, `${share}× the usual long run`);
+  }
+
+  if (context.zones && activity.average_heartrate) {
+    const index = zoneIndex(activity.average_heartrate, context.zones);
+    const zone = context.zones[index];
+    const reason = `average heart rate in zone ${zone.zone} (${zone.name})`;
+    if (index >= 2) {
+      vote("tempo", WEIGHTS.heartRate, reason);
+    } else if (isLong) {
+      // Long runs are run easy; an easy heart rate confirms rather than contradicts
+      vote("long", WEIGHTS.heartRate, reason);
+    } else if (index === 0 && activity.distance < context.medianDistance * RECOVERY_DISTANCE_SHARE) {
+      vote("recovery", WEIGHTS.heartRate, `${reason}, shorter than usual`);
+    } else {
+      vote("easy", WEIGHTS.heartRate, reason);
+    }
+  } else if (context.averageSpeed > 0 && activity.average_speed > 0) {
+    const relative = context.averageSpeed / activity.average_speed; // pace vs average pace
+    if (relative > RECOVERY_PACE_FACTOR) {
+      vote(isLong ? "long" : "recovery", WEIGHTS.pace, "much slower than average pace");
+    } else if (relative < HARD_PACE_FACTOR) {
+      vote("tempo", WEIGHTS.pace, "faster than average pace");
+    } else {
+      vote(isLong ? "long" : "easy", WEIGHTS.pace, "around average pace");
+    }
+  }
+
+  if (votes.size === 0) {
+    return { type: "easy", confidence: 0, reasons: [] };
+  }
+
+  const ranked = Array.from(votes.entries()).sort(
+    ([typeA, a], [typeB, b]) => b.weight - a.weight || TIE_ORDER.indexOf(typeA) - TIE_ORDER.indexOf(typeB),
+  );
+  const [type, winner] = ranked[0];
+  const total = ranked.reduce((sum, [, v]) => sum + v.weight, 0);
+  const confidence = (winner.weight / total) * Math.min(1, total / FULL_EVIDENCE_WEIGHT);
+
+  return {
+    type,
+    confidence: Math.round(confidence * 100) / 100,
+    reasons: winner.reasons,
+  };
+}
+
+/**
+ * Swap in detailed activities, with laps, for the runs whose laps could turn
+ * them into an interval session: marked as a workout in Strava, or tempo
+ * without laps. Newest first and capped per call; the rest keep their summary.
+ */
+export async function withCandidateLaps(
+  auth: ActivityStoreAuth,
+  runs: StravaActivity[],
+  context: ClassificationContext,
+): Promise<StravaActivity[]> {
+  const candidates = runs
+    .filter((run) =>
+      !run.laps &&
+      (run.workout_type === WORKOUT_TYPE_WORKOUT || classifyRun(run, context).type === "tempo"),
+    )
+    .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime())
+    .slice(0, MAX_LAP_CANDIDATES);
+
+  if (candidates.length === 0) {
+    return runs;
+  }
+
+  const detailed = new Map(
+    (await getDetailedActivities(auth, candidates)).data.map((a) => [a.id, a]),
+  );
+  return runs.map((run) => detailed.get(run.id) ?? run);
+}
@@ -1,31 +1,148 @@
 import { McpServer } from "skybridge/server";
 import { z } from "zod";
-import { getAuth, authErrorResponse } from "./auth.js";
+import { getAuth, getManualAuth, getAthleteProfile, authErrorResponse, storeTokenResponse } from "./auth.js";
 import {
-  fetchRecentActivities,
-  fetchActivitiesWithDetails,
   fetchDetailedActivity,
   activityToSummary,
   calculateAveragePace,
   filterActivitiesByDateRange,
-  metersPerSecondToPace,
+  paceToSecondsPerKm,
+  formatDuration,
+  parseDuration,
+  downsampleStreams,
+  pickStreams,
+  streamLength,
+  STREAM_KEYS,
+  isRun,
+  summarizeBySport,
+  ALL_SPORT_TYPES,
+  RUN_SPORT_TYPES,
   UnauthorizedError,
   RateLimitError,
   type StravaActivity,
+  type StreamKey,
 } from "./strava.js";
 import {
-  getCachedActivities,
-  setCachedActivities,
-  type CacheKey,
+  getActivities,
+  getActivitiesForDays,
+  getActivityStreams,
+  getAthleteZonesIfAvailable,
+  getDetailedActivities,
 } from "./cache.js";
 import { rateLimitErrorResponse } from "./errors.js";
+import {
+  buildFitnessModel,
+  resolveModelParams,
+  MODEL_WARMUP_DAYS,
+  CTL_TIME_CONSTANT,
+  ATL_TIME_CONSTANT,
+} from "./training-load.js";
+import {
+  resolveHeartRateZones,
+  timeInZones,
+  estimateTimeInZones,
+  polarization,
+  POLARIZATION_TARGET,
+} from "./hr-zones.js";
+import {
+  collectEfforts,
+  predictRaceTimes,
+  strongestEfforts,
+  vdotFromPerformance,
+} from "./race-predictor.js";
+import { analyzeElevationImpact } from "./grade-adjusted-pace.js";
+import {
+  getPersonalRecords,
+  getNewRecords,
+  recordToSummary,
+  RECORD_DISTANCES,
+} from "./personal-records.js";
+import {
+  resolveUnits,
+  unitLabels,
+  distanceInUnits,
+  distanceToMeters,
+  elevationInUnits,
+  paceInUnits,
+  perKmSecondsInUnits,
+  formatPaceSeconds,
+  formatDistanceInUnits,
+  formatElevationInUnits,
+  formatTemperatureInUnits,
+  formatSpeedInUnits,
+  formatPrecipitationInUnits,
+} from "./units.js";
+import {
+  DEFAULT_WEEK_START,
+  activityDateKey,
+  addDays,
+  afterTimestampForDateKey,
+  filterActivitiesByLocalDate,
+  monthRanges,
+  resolveTimezone,
+  todayKey,
+  weekRanges,
+  weekStartKey,
+} from "./calendar.js";
+import {
+  buildTrainingTrends,
+  DEFAULT_RAMP_THRESHOLD,
+  DEFAULT_ROLLING_WINDOW,
+} from "./training-trends.js";
+import { buildTrainingPlan, planToSummary } from "./training-plan.js";
+import { analyzeIntervals } from "./interval-detection.js";
+import {
+  computeDecoupling,
+  decouplingTrend,
+  type EfficiencySegment,
+} from "./aerobic-decoupling.js";
+import { analyzeSplits, strategyCounts, type SplitAnalysis } from "./split-analysis.js";
+import {
+  classificationContext,
+  classifyRun,
+  CLASSIFICATION_HISTORY_DAYS,
+  RUN_TYPES,
+  withCandidateLaps,
+  type RunClassification,
+  type RunType,
+} from "./run-classification.js";
+import {
+  evaluateTrainingRisks,
+  DEFAULT_RISK_RAMP_THRESHOLD,
+  RISK_HISTORY_DAYS,
+} from "./training-risks.js";
+import {
+  buildGearStatus,
+  findShoe,
+  getAthleteShoes,
+  getGearSettings,
+  setRetirementDistance,
+  DEFAULT_RETIREMENT_DISTANCE,
+} from "./gear.js";
+import {
+  buildWorkout,
+  countSteps,
+  describeStructuredWorkout,
+  MAX_WORKOUT_STEPS,
+  workoutTotals,
+  WorkoutValidationError,
+} from "./workout.js";
 import {
   createDustClient,
   callWeatherAgent,
   dustErrorResponse,
   type WeatherAgentInput,
 } from "./dust/index.js";
-import { generateRoutes, enrichPOIsWithDust, type RouteRequest } from "./routes/index.js";
+import {
+  generateRoutes,
+  enrichPOIsWithDust,
+  decodePolyline,
+  compareRoutes,
+  clusterActivitiesByRoute,
+  nameRouteCluster,
+  type RouteRequest,
+  type RouteMatch,
+} from "./routes/index.js";
 
 const server = new McpServer(
   {
@@ -70,18 +187,14 @@ This eliminates repeated auth prompts by checking status first.`,
   },
   async ({ token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
-    // If we have auth, verify it's valid
+    // If we have auth, verify it's valid (served from the identity cache when possible)
     if (auth) {
       try {
-        const res = await fetch("https://www.strava.com/api/v3/athlete", {
-          headers: { Authorization: `Bearer ${auth.accessToken}` },
-        });
+        const athlete = auth.athlete ?? await getAthleteProfile(auth.accessToken);
 
-        if (res.ok) {
-          const athlete = await res.json();
-          
+        if (athlete) {
           // Already connected - return success status
           return {
             structuredContent: {
@@ -125,7 +238,7 @@ This eliminates repeated auth prompts by checking status first.`,
     
     // Create authorization URL with callback to our server
     // Scopes: read (basic profile), activity:read_all (read activities), activity:write (upload activities)
-    const authUrl = `https://www.strava.com/oauth/authorize?client_id=${clientId}&response_type=code&redirect_uri=${encodeURIComponent(serverUrl + "/oauth/callback")}&approval_prompt=force&scope=read,activity:read_all,activity:write`;
+    const authUrl = `https://www.strava.com/oauth/authorize?client_id=${clientId}&response_type=code&redirect_uri=${encodeURIComponent(serverUrl + "/oauth/callback")}&approval_prompt=force&scope=read,profile:read_all,activity:read_all,activity:write`;
     
     return {
       structuredContent: {
@@ -150,7 +263,7 @@ server.registerTool(
   {
     description: `Exchange a Strava authorization code for an access token. Use this after the user authorizes via the connect_strava widget.
 
-⚠️ IMPORTANT: After receiving the access token, REMEMBER IT for the rest of this conversation. Store it in your context and use it for all subsequent Strava tool calls by passing it as the 'token' parameter. The token is valid for 6 hours.
+⚠️ IMPORTANT: After receiving the access token, REMEMBER IT for the rest of this conversation. Store it in your context and use it for all subsequent Strava tool calls by passing it as the 'token' parameter. The server refreshes it automatically when it expires, so the same token keeps working.
 
 WORKFLOW:
 1. User authorizes via connect_strava
@@ -205,6 +318,9 @@ WORKFLOW:
 
       const tokens = await tokenResponse.json();
 
+      // Keep the refresh token server-side so the access token can be renewed automatically
+      await storeTokenResponse(tokens);
+
       return {
         structuredContent: {
           accessToken: tokens.access_token,
@@ -215,7 +331,7 @@ WORKFLOW:
         content: [
           {
             type: "text",
-            text: `✅ Successfully connected to Strava!\n\n**Athlete:** ${tokens.athlete?.firstname} ${tokens.athlete?.lastname}\n**Token expires in:** ${Math.floor(tokens.expires_in / 3600)} hours\n\n🔑 **Access Token (SAVE THIS):**\n\`\`\`\n${tokens.access_token}\n\`\`\`\n\n⚠️ IMPORTANT: Remember this token for the rest of our conversation. Use it with all Strava tools by passing token="${tokens.access_token}" as a parameter.`,
+            text: `✅ Successfully connected to Strava!\n\n**Athlete:** ${tokens.athlete?.firstname} ${tokens.athlete?.lastname}\n**Token renewal:** automatic (no need to reconnect when it expires)\n\n🔑 **Access Token (SAVE THIS):**\n\`\`\`\n${tokens.access_token}\n\`\`\`\n\n⚠️ IMPORTANT: Remember this token for the rest of our conversation. Use it with all Strava tools by passing token="${tokens.access_token}" as a parameter.`,
           },
         ],
       };
@@ -260,7 +376,7 @@ This helps avoid repeatedly prompting for authentication when the user is alread
   },
   async ({ token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return {
@@ -275,12 +391,10 @@ This helps avoid repeatedly prompting for authentication when the user is alread
     }
 
     try {
-      // Validate token by fetching athlete info
-      const res = await fetch("https://www.strava.com/api/v3/athlete", {
-        headers: { Authorization: `Bearer ${auth.accessToken}` },
-      });
+      // Validate token (served from the identity cache when possible)
+      const athlete = auth.athlete ?? await getAthleteProfile(auth.accessToken);
 
-      if (!res.ok) {
+      if (!athlete) {
         return {
           content: [
             {
@@ -292,8 +406,6 @@ This helps avoid repeatedly prompting for authentication when the user is alread
         };
       }
 
-      const athlete = await res.json();
-
       return {
         structuredContent: {
           authenticated: true,
@@ -301,6 +413,9 @@ This helps avoid repeatedly prompting for authentication when the user is alread
             id: athlete.id,
             name: `${athlete.firstname} ${athlete.lastname}`,
             username: athlete.username,
+            sex: athlete.sex ?? undefined,
+            weight: athlete.weight ?? undefined,
+            measurementPreference: athlete.measurement_preference,
           },
         },
         content: [
@@ -330,7 +445,7 @@ This helps avoid repeatedly prompting for authentication when the user is alread
 server.registerTool(
   "fetch_activities",
   {
-    description: `Fetch raw Strava running activities with configurable detail level. This is a DATA-ONLY tool (no UI) that returns structured JSON for GPT reasoning or visualization.
+    description: `Fetch raw Strava activities (runs by default, any sport via sportTypes) with configurable detail level. This is a DATA-ONLY tool (no UI) that returns structured JSON for GPT reasoning or visualization.
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
@@ -352,6 +467,7 @@ FILTERING TIPS:
 - Use 'limit' to cap results: "Find my 4 longest runs" → limit=4, sortBy="distance"
 - Use 'minDistance' to filter: "Runs over 10km" → minDistance=10
 - Combine filters: "My 3 fastest long runs" → minDistance=10, limit=3, sortBy="pace"
+- Other sports: "Show my rides and hikes" → sportTypes=["Ride", "Hike"]; everything → sportTypes=["All"]
 
 WORKFLOW:
 1. Call this tool to fetch activities
@@ -381,62 +497,56 @@ EXAMPLE QUERIES:
       minDistance: z
         .number()
         .optional()
-        .describe("Minimum distance in kilometers (optional - filter out shorter runs)"),
+        .describe("Minimum distance in kilometers, or miles with imperial units (optional - filter out shorter runs)"),
       includeDetails: z
         .boolean()
         .optional()
         .default(false)
-        .describe("Whether to fetch detailed data including splits, heart rate, and GPS (default: false)"),
+        .describe("Whether to fetch detailed data including splits, heart rate, and GPS (default: false). At most 30 activities are detailed per call; metadata.detailedCount says how many were"),
+      sportTypes: z
+        .array(z.string())
+        .optional()
+        .describe('Strava sport types to include, e.g. ["Run", "TrailRun", "Ride", "Walk", "Hike"]. Use ["All"] for every sport (default: running types: Run, TrailRun, VirtualRun)'),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, limit, sortBy, minDistance, includeDetails, token }, extra) => {
+  async ({ days, limit, sortBy, minDistance, includeDetails, sportTypes, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
-    try {
-      // Generate cache key (without filters - we filter after caching)
-      const cacheKey: CacheKey = {
-        userId: auth.userId,
-        days,
-        includeDetails,
-      };
+    const unitSystem = resolveUnits(units, auth.athlete);
 
-      // Check cache first
-      let activities: StravaActivity[];
-      let cached = false;
-      
-      const cachedEntry = getCachedActivities(cacheKey);
-      
-      if (cachedEntry) {
-        activities = cachedEntry.data;
-        cached = true;
-      } else {
-        // Cache miss - fetch from Strava
-        activities = await fetchActivitiesWithDetails(
-          auth.accessToken,
-          days,
-          includeDetails
-        );
-        
-        // Store in cache
-        setCachedActivities(cacheKey, activities);
-      }
+    try {
+      // Read through the activity store (filters are applied afterwards)
+      const {
+        data: activities,
+        fetchedAt,
+        cached,
+        truncated,
+        detailsMissing = 0,
+      } = await getActivitiesForDays(auth, days, includeDetails, sportTypes);
+      // Details are fetched a limited number per call; the rest stay summaries until later calls
+      const detailedCount = includeDetails ? activities.length - detailsMissing : 0;
 
       // Apply filters
       let filteredActivities = [...activities];
       
       // Filter by minimum distance
       if (minDistance) {
+        const minMeters = distanceToMeters(minDistance, unitSystem);
         filteredActivities = filteredActivities.filter(
-          a => (a.distance / 1000) >= minDistance
+          a => a.distance >= minMeters
         );
       }
       
@@ -462,11 +572,12 @@ EXAMPLE QUERIES:
         structuredContent: {
           data: filteredActivities,
           metadata: {
-            fetchedAt: cachedEntry?.fetchedAt ?? new Date().toISOString(),
+            fetchedAt,
             source: "strava",
             cached,
             count: filteredActivities.length,
             totalBeforeFiltering: activities.length,
+            truncated,
             dateRange: {
               days,
               from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
@@ -476,14 +587,21 @@ EXAMPLE QUERIES:
               limit,
               sortBy,
               minDistance,
+              sportTypes: sportTypes ?? RUN_SPORT_TYPES,
             },
+            bySport: summarizeBySport(filteredActivities, unitSystem),
             includeDetails,
+            detailedCount,
+            detailsTruncated: detailsMissing > 0,
+            // Activity fields stay in Strava's SI units (meters, m/s); this is the
+            // athlete's display preference for anything derived from them
+            units: unitSystem,
           },
         },
         content: [
           {
             type: "text",
-            text: `${cached ? 'Retrieved' : 'Fetched'} ${filteredActivities.length} running activities${activities.length !== filteredActivities.length ? ` (filtered from ${activities.length})` : ''} from the last ${days} days${includeDetails ? ' with detailed data' : ''}${sortBy ? `, sorted by ${sortBy}` : ''}${minDistance ? `, minimum ${minDistance}km` : ''}${limit ? `, limited to ${limit}` : ''}.`,
+            text: `${cached ? 'Retrieved' : 'Fetched'} ${filteredActivities.length} ${sportTypes ? 'activities' : 'running activities'}${activities.length !== filteredActivities.length ? ` (filtered from ${activities.length})` : ''} from the last ${days} days${includeDetails ? (detailsMissing > 0 ? ` with detailed data for ${detailedCount} of ${activities.length} (the rest are summaries; call again to load more)` : ' with detailed data') : ''}${sortBy ? `, sorted by ${sortBy}` : ''}${minDistance ? `, minimum ${minDistance}${unitLabels(unitSystem).distance}` : ''}${limit ? `, limited to ${limit}` : ''}.${truncated ? ' ⚠️ Results were truncated - the date range contains more activities than can be fetched at once.' : ''}`,
           },
         ],
         isError: false,
@@ -521,14 +639,14 @@ EXAMPLE QUERIES:
 server.registerWidget(
   "analyze_pace_patterns",
   {
-    description: `Analyze pace distribution across running activities. Groups activities by run type (easy, long, hard, recovery) or distance range, then calculates statistics (mean, median, std dev) for each group. This is an INTEGRATED widget (combines data fetching + visualization).
+    description: `Analyze pace distribution across running activities. Groups activities by run type (recovery, easy, long, tempo, intervals, race) or distance range, then calculates statistics (mean, median, std dev) for each group. This is an INTEGRATED widget (combines data fetching + visualization).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
 WHEN TO USE (PREFER THIS):
 - Analyzing pace patterns across different run types
 - Understanding pace variability and consistency
-- Comparing easy vs hard vs long run paces
+- Comparing easy vs tempo vs long run paces
 - Queries like: "How does my pace vary by run type?", "What's my average pace for long runs?", "Show me pace distribution"
 
 WHEN NOT TO USE:
@@ -541,12 +659,12 @@ WORKFLOW:
 
 EXAMPLE QUERIES:
 - "What's my pace distribution across different run types?"
-- "Compare my easy run pace to my hard run pace"
+- "Compare my easy run pace to my tempo pace"
 - "Show me how my pace varies by distance"
 - "Analyze my pace consistency over the last month"`,
   },
   {
-    description: "Analyze how pace varies across different run types or distance ranges. Fetches activities, classifies them into groups (easy/long/hard/recovery or short/medium/long), calculates statistics for each group, and displays results with example runs. Use this to understand pace patterns and consistency. The widget renders all statistics and examples visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
+    description: "Analyze how pace varies across different run types or distance ranges. Fetches activities, classifies them into groups (recovery/easy/long/tempo/intervals/race or short/medium/long), calculates statistics for each group, and displays results with example runs. Use this to understand pace patterns and consistency. The widget renders all statistics and examples visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
     inputSchema: {
       days: z
         .number()
@@ -555,25 +673,35 @@ EXAMPLE QUERIES:
         .describe("Number of days to analyze (default: 30)"),
       groupBy: z
         .enum(["runType", "distanceRange"])
-        .describe("Grouping criteria: 'runType' (easy/long/hard/recovery) or 'distanceRange' (short/medium/long)"),
+        .describe("Grouping criteria: 'runType' (recovery/easy/long/tempo/intervals/race, classified from heart rate zone, distance vs the usual long run, name keywords and the laps of likely workouts) or 'distanceRange' (short/medium/long)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, groupBy, token }, extra) => {
+  async ({ days, groupBy, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+
     try {
-      // Fetch activities
+      // Fetch activities, plus enough history to know what a typical run looks like
       const afterTimestamp = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
-      const activities = await fetchRecentActivities(auth.accessToken, afterTimestamp);
+      const historyAfter = Math.floor(Date.now() / 1000 - Math.max(days, CLASSIFICATION_HISTORY_DAYS) * 24 * 60 * 60);
+      const { data: history } = await getActivities(auth, {
+        after: groupBy === "runType" ? historyAfter : afterTimestamp,
+      });
+      const activities = history.filter(a => new Date(a.start_date).getTime() / 1000 >= afterTimestamp);
 
       if (activities.length === 0) {
         return {
@@ -581,6 +709,7 @@ EXAMPLE QUERIES:
             groups: [],
             groupBy,
             totalActivities: 0,
+            units: unitSystem,
           },
           content: [
             {
@@ -592,35 +721,24 @@ EXAMPLE QUERIES:
         };
       }
 
-      // Calculate average pace for all activities to determine thresholds
-      const allPaces = activities.map(a => 1000 / a.average_speed); // seconds per km
-      const avgPace = allPaces.reduce((sum, p) => sum + p, 0) / allPaces.length;
-
       // Group activities based on criteria
       const groups: Map<string, StravaActivity[]> = new Map();
+      const classifications: Map<number, RunClassification> = new Map();
 
       if (groupBy === "runType") {
-        // Classify by run type: easy, long, hard, recovery
-        for (const activity of activities) {
-          const pace = 1000 / activity.average_speed; // seconds per km
-          const distanceKm = activity.distance / 1000;
-          
-          let runType: string;
-          
-          if (distanceKm >= 15) {
-            runType = "long";
-          } else if (pace > avgPace * 1.15) {
-            runType = "recovery";
-          } else if (pace < avgPace * 0.95) {
-            runType = "hard";
-          } else {
-            runType = "easy";
-          }
-          
-          if (!groups.has(runType)) {
-            groups.set(runType, []);
+        // Classify by name, workout type, laps, distance vs the usual long run and heart rate zone
+        const { zones: athleteZones } = await getAthleteZonesIfAvailable(auth);
+        const { zones } = resolveHeartRateZones(athleteZones?.heart_rate?.zones, history);
+        const context = classificationContext(history, zones);
+
+        for (const activity of await withCandidateLaps(auth, activities, context)) {
+          const classification = classifyRun(activity, context);
+          classifications.set(activity.id, classification);
+
+          if (!groups.has(classification.type)) {
+            groups.set(classification.type, []);
           }
-          groups.get(runType)!.push(activity);
+          groups.get(classification.type)!.push(activity);
         }
       } else {
         // Group by distance range: short (<5km), medium (5-15km), long (>=15km)
@@ -645,7 +763,7 @@ EXAMPLE QUERIES:
 
       // Calculate statistics for each group
       const groupStats = Array.from(groups.entries()).map(([groupName, groupActivities]) => {
-        const paces = groupActivities.map(a => 1000 / a.average_speed); // seconds per km
+        const paces = groupActivities.map(a => perKmSecondsInUnits(1000 / a.average_speed, unitSystem)); // seconds per km or mile
         
         // Calculate mean
         const mean = paces.reduce((sum, p) => sum + p, 0) / paces.length;
@@ -660,13 +778,6 @@ EXAMPLE QUERIES:
         const variance = paces.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / paces.length;
         const stdDev = Math.sqrt(variance);
         
-        // Convert to pace format
-        const formatPace = (seconds: number) => {
-          const minutes = Math.floor(seconds / 60);
-          const secs = Math.round(seconds % 60);
-          return `${minutes}:${secs.toString().padStart(2, "0")}`;
-        };
-        
         // Return only top 3 example runs (not all activities)
         const exampleRuns = groupActivities
           .slice(0, 3)
@@ -674,16 +785,26 @@ EXAMPLE QUERIES:
             id: a.id,
             name: a.name,
             date: a.start_date_local.split("T")[0],
-            distance: Math.round((a.distance / 1000) * 10) / 10,
-            pace: metersPerSecondToPace(a.average_speed),
+            distance: distanceInUnits(a.distance, unitSystem),
+            pace: paceInUnits(a.average_speed, unitSystem),
+            confidence: classifications.get(a.id)?.confidence ?? null,
           }));
         
+        // How sure the classifier was, on average, for runs in this group
+        const confidences = groupActivities
+          .map(a => classifications.get(a.id)?.confidence)
+          .filter((c): c is number => c !== undefined);
+        const averageConfidence = confidences.length > 0
+          ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 100) / 100
+          : null;
+
         return {
           group: groupName,
           count: groupActivities.length,
+          averageConfidence,
           statistics: {
-            mean: formatPace(mean),
-            median: formatPace(median),
+            mean: formatPaceSeconds(mean),
+            median: formatPaceSeconds(median),
             stdDev: Math.round(stdDev),
             meanSeconds: Math.round(mean),
             medianSeconds: Math.round(median),
@@ -693,8 +814,8 @@ EXAMPLE QUERIES:
       });
 
       // Sort groups by logical order
-      const groupOrder = groupBy === "runType" 
-        ? ["recovery", "easy", "hard", "long"]
+      const groupOrder: string[] = groupBy === "runType"
+        ? RUN_TYPES
         : ["short", "medium", "long"];
       
       groupStats.sort((a, b) => {
@@ -708,6 +829,7 @@ EXAMPLE QUERIES:
           groups: groupStats,
           groupBy,
           totalActivities: activities.length,
+          units: unitSystem,
         },
         content: [
           {
@@ -750,14 +872,14 @@ EXAMPLE QUERIES:
 server.registerTool(
   "calculate_pace_distribution",
   {
-    description: `Analyze pace distribution across running activities. Groups activities by run type (easy, long, hard, recovery) or distance range, then calculates statistics (mean, median, std dev) for each group. This is a DATA-ONLY tool (no UI).
+    description: `Analyze pace distribution across running activities. Groups activities by run type (recovery, easy, long, tempo, intervals, race) or distance range, then calculates statistics (mean, median, std dev) for each group. This is a DATA-ONLY tool (no UI).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
 WHEN TO USE:
 - Analyzing pace patterns across different run types
 - Understanding pace variability and consistency
-- Comparing easy vs hard vs long run paces
+- Comparing easy vs tempo vs long run paces
 - Queries like: "How does my pace vary by run type?", "What's my average pace for long runs?", "Show me pace distribution by distance"
 
 WORKFLOW:
@@ -767,7 +889,7 @@ WORKFLOW:
 
 EXAMPLE QUERIES:
 - "What's my pace distribution across different run types?"
-- "Compare my easy run pace to my hard run pace"
+- "Compare my easy run pace to my tempo pace"
 - "Show me how my pace varies by distance"
 - "Analyze my pace consistency over the last month"`,
     inputSchema: {
@@ -778,25 +900,35 @@ EXAMPLE QUERIES:
         .describe("Number of days to analyze (default: 30)"),
       groupBy: z
         .enum(["runType", "distanceRange"])
-        .describe("Grouping criteria: 'runType' (easy/long/hard/recovery) or 'distanceRange' (short/medium/long)"),
+        .describe("Grouping criteria: 'runType' (recovery/easy/long/tempo/intervals/race, classified from heart rate zone, distance vs the usual long run, name keywords and the laps of likely workouts) or 'distanceRange' (short/medium/long)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, groupBy, token }, extra) => {
+  async ({ days, groupBy, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+
     try {
-      // Fetch activities
+      // Fetch activities, plus enough history to know what a typical run looks like
       const afterTimestamp = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
-      const activities = await fetchRecentActivities(auth.accessToken, afterTimestamp);
+      const historyAfter = Math.floor(Date.now() / 1000 - Math.max(days, CLASSIFICATION_HISTORY_DAYS) * 24 * 60 * 60);
+      const { data: history, cached } = await getActivities(auth, {
+        after: groupBy === "runType" ? historyAfter : afterTimestamp,
+      });
+      const activities = history.filter(a => new Date(a.start_date).getTime() / 1000 >= afterTimestamp);
 
       if (activities.length === 0) {
         return {
@@ -808,8 +940,9 @@ EXAMPLE QUERIES:
             metadata: {
               fetchedAt: new Date().toISOString(),
               source: "strava",
-              cached: false,
+              cached,
               totalActivities: 0,
+              units: unitSystem,
             },
           },
           content: [
@@ -822,40 +955,24 @@ EXAMPLE QUERIES:
         };
       }
 
-      // Calculate average pace for all activities to determine thresholds
-      const allPaces = activities.map(a => 1000 / a.average_speed); // seconds per km
-      const avgPace = allPaces.reduce((sum, p) => sum + p, 0) / allPaces.length;
-
       // Group activities based on criteria
       const groups: Map<string, StravaActivity[]> = new Map();
+      const classifications: Map<number, RunClassification> = new Map();
 
       if (groupBy === "runType") {
-        // Classify by run type: easy, long, hard, recovery
-        // Easy: pace slower than average, distance < 15km
-        // Long: distance >= 15km
-        // Hard: pace faster than average, distance < 15km
-        // Recovery: very slow pace (>15% slower than average), short distance
-        
-        for (const activity of activities) {
-          const pace = 1000 / activity.average_speed; // seconds per km
-          const distanceKm = activity.distance / 1000;
-          
-          let runType: string;
-          
-          if (distanceKm >= 15) {
-            runType = "long";
-          } else if (pace > avgPace * 1.15) {
-            runType = "recovery";
-          } else if (pace < avgPace * 0.95) {
-            runType = "hard";
-          } else {
-            runType = "easy";
-          }
-          
-          if (!groups.has(runType)) {
-            groups.set(runType, []);
+        // Classify by name, workout type, laps, distance vs the usual long run and heart rate zone
+        const { zones: athleteZones } = await getAthleteZonesIfAvailable(auth);
+        const { zones } = resolveHeartRateZones(athleteZones?.heart_rate?.zones, history);
+        const context = classificationContext(history, zones);
+
+        for (const activity of await withCandidateLaps(auth, activities, context)) {
+          const classification = classifyRun(activity, context);
+          classifications.set(activity.id, classification);
+
+          if (!groups.has(classification.type)) {
+            groups.set(classification.type, []);
           }
-          groups.get(runType)!.push(activity);
+          groups.get(classification.type)!.push(activity);
         }
       } else {
         // Group by distance range: short (<5km), medium (5-15km), long (>=15km)
@@ -880,7 +997,7 @@ EXAMPLE QUERIES:
 
       // Calculate statistics for each group
       const groupStats = Array.from(groups.entries()).map(([groupName, groupActivities]) => {
-        const paces = groupActivities.map(a => 1000 / a.average_speed); // seconds per km
+        const paces = groupActivities.map(a => perKmSecondsInUnits(1000 / a.average_speed, unitSystem)); // seconds per km or mile
         
         // Calculate mean
         const mean = paces.reduce((sum, p) => sum + p, 0) / paces.length;
@@ -895,19 +1012,21 @@ EXAMPLE QUERIES:
         const variance = paces.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / paces.length;
         const stdDev = Math.sqrt(variance);
         
-        // Convert to pace format
-        const formatPace = (seconds: number) => {
-          const minutes = Math.floor(seconds / 60);
-          const secs = Math.round(seconds % 60);
-          return `${minutes}:${secs.toString().padStart(2, "0")}`;
-        };
-        
+        // How sure the classifier was, on average, for runs in this group
+        const confidences = groupActivities
+          .map(a => classifications.get(a.id)?.confidence)
+          .filter((c): c is number => c !== undefined);
+        const averageConfidence = confidences.length > 0
+          ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 100) / 100
+          : null;
+
         return {
           group: groupName,
           count: groupActivities.length,
+          averageConfidence,
           statistics: {
-            mean: formatPace(mean),
-            median: formatPace(median),
+            mean: formatPaceSeconds(mean),
+            median: formatPaceSeconds(median),
             stdDev: Math.round(stdDev),
             meanSeconds: Math.round(mean),
             medianSeconds: Math.round(median),
@@ -916,15 +1035,19 @@ EXAMPLE QUERIES:
             id: a.id,
             name: a.name,
             date: a.start_date_local.split("T")[0],
-            distance: Math.round((a.distance / 1000) * 10) / 10,
-            pace: metersPerSecondToPace(a.average_speed),
+            distance: distanceInUnits(a.distance, unitSystem),
+            pace: paceInUnits(a.average_speed, unitSystem),
+            ...(classifications.has(a.id) && {
+              confidence: classifications.get(a.id)!.confidence,
+              reasons: classifications.get(a.id)!.reasons,
+            }),
           })),
         };
       });
 
       // Sort groups by logical order
-      const groupOrder = groupBy === "runType" 
-        ? ["recovery", "easy", "hard", "long"]
+      const groupOrder: string[] = groupBy === "runType"
+        ? RUN_TYPES
         : ["short", "medium", "long"];
       
       groupStats.sort((a, b) => {
@@ -943,7 +1066,8 @@ EXAMPLE QUERIES:
           metadata: {
             fetchedAt: new Date().toISOString(),
             source: "strava",
-            cached: false,
+            cached,
+            units: unitSystem,
             dateRange: {
               days,
               from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
@@ -992,7 +1116,7 @@ EXAMPLE QUERIES:
 server.registerWidget(
   "analyze_elevation_trends",
   {
-    description: `Analyze how elevation gain impacts running pace. Calculates pace adjustments based on elevation gain and shows the hilliest runs with flat-equivalent paces. This is an INTEGRATED widget (combines data fetching + visualization).
+    description: `Analyze how elevation impacts running pace. Calculates grade-adjusted pace (GAP) from per-sample grade, crediting climbs and accounting for descents, and shows the hilliest runs with flat-equivalent paces. This is an INTEGRATED widget (combines data fetching + visualization).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
@@ -1017,31 +1141,45 @@ EXAMPLE QUERIES:
 - "Compare my performance on flat vs hilly routes"`,
   },
   {
-    description: "Analyze how elevation gain impacts running pace. Fetches activities, calculates pace adjustments based on elevation (using ~12 seconds per 100m rule), and displays summary statistics with the top 5 hilliest runs showing actual vs flat-equivalent pace. Use this to understand terrain impact on performance. The widget renders all statistics and run data visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
+    description: "Analyze how elevation impacts running pace. Fetches activities, calculates grade-adjusted (flat-equivalent) pace from elevation streams, and displays summary statistics with the top 5 hilliest runs showing actual vs flat-equivalent pace. Use this to understand terrain impact on performance. The widget renders all statistics and run data visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
     inputSchema: {
       days: z
         .number()
         .optional()
         .default(30)
         .describe("Number of days to analyze (default: 30)"),
+      maxStreamActivities: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .default(20)
+        .describe("Maximum number of runs (hilliest first) to fetch elevation streams for; the rest are estimated from total elevation gain (default: 20)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, token }, extra) => {
+  async ({ days, maxStreamActivities, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
+
     try {
       // Fetch activities
       const afterTimestamp = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
-      const activities = await fetchRecentActivities(auth.accessToken, afterTimestamp);
+      const { data: activities } = await getActivities(auth, { after: afterTimestamp });
 
       if (activities.length === 0) {
         return {
@@ -1052,6 +1190,7 @@ EXAMPLE QUERIES:
               averagePaceAdjustment: 0,
             },
             topHillyRuns: [],
+            units: unitSystem,
           },
           content: [
             {
@@ -1063,64 +1202,23 @@ EXAMPLE QUERIES:
         };
       }
 
-      // Calculate elevation impact for each activity
-      const SECONDS_PER_100M_ELEVATION = 12;
-
-      const analysisResults = activities.map(activity => {
-        const distanceKm = activity.distance / 1000;
-        const elevationGainM = activity.total_elevation_gain;
-        const actualPaceSecondsPerKm = 1000 / activity.average_speed;
-        
-        const paceAdjustmentSecondsPerKm = distanceKm > 0
-          ? (elevationGainM / 100) * SECONDS_PER_100M_ELEVATION / distanceKm
-          : 0;
-        
-        const adjustedPaceSecondsPerKm = actualPaceSecondsPerKm - paceAdjustmentSecondsPerKm;
-        
-        const formatPace = (seconds: number) => {
-          const minutes = Math.floor(seconds / 60);
-          const secs = Math.round(seconds % 60);
-          return `${minutes}:${secs.toString().padStart(2, "0")}`;
-        };
-        
-        return {
-          id: activity.id,
-          name: activity.name,
-          date: activity.start_date_local.split("T")[0],
-          distance: Math.round(distanceKm * 10) / 10,
-          elevationGain: Math.round(elevationGainM),
-          actualPace: formatPace(actualPaceSecondsPerKm),
-          adjustedPace: formatPace(adjustedPaceSecondsPerKm),
-          paceAdjustment: Math.round(paceAdjustmentSecondsPerKm),
-          elevationPerKm: distanceKm > 0 ? Math.round(elevationGainM / distanceKm) : 0,
-        };
-      });
-
-      // Calculate summary statistics
-      const totalElevationGain = activities.reduce((sum, a) => sum + a.total_elevation_gain, 0);
-      const averageElevationGain = Math.round(totalElevationGain / activities.length);
-      
-      const totalPaceAdjustment = analysisResults.reduce((sum, r) => sum + r.paceAdjustment, 0);
-      const averagePaceAdjustment = Math.round(totalPaceAdjustment / analysisResults.length);
+      // Grade-adjusted pace from streams for the hilliest runs, estimated for the rest
+      const { runs, summary } = await analyzeElevationImpact(auth, activities, maxStreamActivities, unitSystem);
+      const { averageElevationGain, averagePaceAdjustment } = summary;
 
-      // Sort by elevation gain and return only top 5 (not all activities)
-      analysisResults.sort((a, b) => b.elevationGain - a.elevationGain);
-      const topHillyRuns = analysisResults.slice(0, 5);
+      // Return only the top 5 (not all activities), without splits
+      const topHillyRuns = runs.slice(0, 5).map(({ splits: _splits, ...run }) => run);
 
       return {
         structuredContent: {
-          summary: {
-            totalActivities: activities.length,
-            averageElevationGain,
-            averagePaceAdjustment,
-            adjustmentMethod: `${SECONDS_PER_100M_ELEVATION} seconds per 100m elevation gain`,
-          },
+          summary,
           topHillyRuns, // Only top 5, not all activities
+          units: unitSystem,
         },
         content: [
           {
             type: "text",
-            text: `Analyzed elevation impact for ${activities.length} activities. Average elevation gain: ${averageElevationGain}m, Average pace adjustment: ${averagePaceAdjustment}s/km. Showing top 5 hilliest runs.`,
+            text: `Analyzed elevation impact for ${activities.length} activities. Average elevation gain: ${averageElevationGain}${labels.elevation}, Average pace adjustment: ${averagePaceAdjustment}s${labels.pace}. Showing top 5 hilliest runs.`,
           },
         ],
         isError: false,
@@ -1156,7 +1254,7 @@ EXAMPLE QUERIES:
 server.registerTool(
   "analyze_elevation_impact",
   {
-    description: `Analyze how elevation gain impacts running pace. Calculates pace adjustments based on elevation gain and computes climb-adjusted pace for each run. This is a DATA-ONLY tool (no UI).
+    description: `Analyze how elevation impacts running pace. Calculates grade-adjusted pace (GAP) for each run and each 1km split (1mi with imperial units) from per-sample grade, crediting climbs and accounting for descents. This is a DATA-ONLY tool (no UI).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
@@ -1175,31 +1273,47 @@ EXAMPLE QUERIES:
 - "How much does elevation slow me down?"
 - "What's my adjusted pace accounting for hills?"
 - "Compare my performance on flat vs hilly routes"
-- "Show me which runs had the most elevation gain"`,
+- "Show me which runs had the most elevation gain"
+
+NOTE: paceAdjustment is actual pace minus grade-adjusted pace in s/km (s/mi with imperial units); it is negative when the terrain helped (net-downhill courses). Runs beyond maxStreamActivities (gapMethod "estimate") assume the climb is descended again and have no splits.`,
     inputSchema: {
       days: z
         .number()
         .optional()
         .default(30)
         .describe("Number of days to analyze (default: 30)"),
+      maxStreamActivities: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .default(20)
+        .describe("Maximum number of runs (hilliest first) to fetch elevation streams for; the rest are estimated from total elevation gain (default: 20)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, token }, extra) => {
+  async ({ days, maxStreamActivities, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
+
     try {
       // Fetch activities
       const afterTimestamp = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
-      const activities = await fetchRecentActivities(auth.accessToken, afterTimestamp);
+      const { data: activities, cached } = await getActivities(auth, { after: afterTimestamp });
 
       if (activities.length === 0) {
         return {
@@ -1215,7 +1329,8 @@ EXAMPLE QUERIES:
             metadata: {
               fetchedAt: new Date().toISOString(),
               source: "strava",
-              cached: false,
+              cached,
+              units: unitSystem,
             },
           },
           content: [
@@ -1228,70 +1343,27 @@ EXAMPLE QUERIES:
         };
       }
 
-      // Calculate elevation impact for each activity
-      // Rule of thumb: ~10-15 seconds per 100m of elevation gain
-      // We'll use 12 seconds per 100m as a standard adjustment
-      const SECONDS_PER_100M_ELEVATION = 12;
-
-      const analysisResults = activities.map(activity => {
-        const distanceKm = activity.distance / 1000;
-        const elevationGainM = activity.total_elevation_gain;
-        const actualPaceSecondsPerKm = 1000 / activity.average_speed;
-        
-        // Calculate pace adjustment based on elevation
-        // Adjustment = (elevation gain / 100) * seconds per 100m / distance in km
-        const paceAdjustmentSecondsPerKm = distanceKm > 0
-          ? (elevationGainM / 100) * SECONDS_PER_100M_ELEVATION / distanceKm
-          : 0;
-        
-        // Climb-adjusted pace (what pace would be on flat ground)
-        const adjustedPaceSecondsPerKm = actualPaceSecondsPerKm - paceAdjustmentSecondsPerKm;
-        
-        // Format paces
-        const formatPace = (seconds: number) => {
-          const minutes = Math.floor(seconds / 60);
-          const secs = Math.round(seconds % 60);
-          return `${minutes}:${secs.toString().padStart(2, "0")}`;
-        };
-        
-        return {
-          id: activity.id,
-          name: activity.name,
-          date: activity.start_date_local.split("T")[0],
-          distance: Math.round(distanceKm * 10) / 10,
-          elevationGain: Math.round(elevationGainM),
-          actualPace: formatPace(actualPaceSecondsPerKm),
-          adjustedPace: formatPace(adjustedPaceSecondsPerKm),
-          paceAdjustment: Math.round(paceAdjustmentSecondsPerKm),
-          elevationPerKm: distanceKm > 0 ? Math.round(elevationGainM / distanceKm) : 0,
-        };
-      });
-
-      // Calculate summary statistics
-      const totalElevationGain = activities.reduce((sum, a) => sum + a.total_elevation_gain, 0);
-      const averageElevationGain = Math.round(totalElevationGain / activities.length);
-      
-      const totalPaceAdjustment = analysisResults.reduce((sum, r) => sum + r.paceAdjustment, 0);
-      const averagePaceAdjustment = Math.round(totalPaceAdjustment / analysisResults.length);
-
-      // Sort by elevation gain (highest first) for easier analysis
-      analysisResults.sort((a, b) => b.elevationGain - a.elevationGain);
+      // Grade-adjusted pace from streams for the hilliest runs, estimated for the rest
+      // Sorted by elevation gain (highest first) for easier analysis
+      const { runs: analysisResults, summary } = await analyzeElevationImpact(
+        auth,
+        activities,
+        maxStreamActivities,
+        unitSystem,
+      );
+      const { averageElevationGain, averagePaceAdjustment } = summary;
 
       return {
         structuredContent: {
           data: {
             activities: analysisResults,
-            summary: {
-              totalActivities: activities.length,
-              averageElevationGain,
-              averagePaceAdjustment,
-              adjustmentMethod: `${SECONDS_PER_100M_ELEVATION} seconds per 100m elevation gain`,
-            },
+            summary,
           },
           metadata: {
             fetchedAt: new Date().toISOString(),
             source: "strava",
-            cached: false,
+            cached,
+            units: unitSystem,
             dateRange: {
               days,
               from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
@@ -1302,7 +1374,7 @@ EXAMPLE QUERIES:
         content: [
           {
             type: "text",
-            text: `Analyzed elevation impact for ${activities.length} activities. Average elevation gain: ${averageElevationGain}m, Average pace adjustment: ${averagePaceAdjustment}s/km`,
+            text: `Analyzed elevation impact for ${activities.length} activities. Average elevation gain: ${averageElevationGain}${labels.elevation}, Average pace adjustment: ${averagePaceAdjustment}s${labels.pace}`,
           },
         ],
         isError: false,
@@ -1371,20 +1443,26 @@ NOTE: You need activity IDs. If user doesn't provide them, first call fetch_acti
       run2Id: z
         .number()
         .describe("Strava activity ID of the NEWER run (compared against run1)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ run1Id, run2Id, token }, extra) => {
+  async ({ run1Id, run2Id, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+
     try {
       // Fetch both activities with detailed data
       const [run1, run2] = await Promise.all([
@@ -1393,8 +1471,8 @@ NOTE: You need activity IDs. If user doesn't provide them, first call fetch_acti
       ]);
 
       // Convert to activity summaries
-      const run1Summary = activityToSummary(run1);
-      const run2Summary = activityToSummary(run2);
+      const run1Summary = activityToSummary(run1, unitSystem);
+      const run2Summary = activityToSummary(run2, unitSystem);
 
       // Calculate deltas
       const distanceDelta = run2.distance - run1.distance;
@@ -1437,7 +1515,7 @@ NOTE: You need activity IDs. If user doesn't provide them, first call fetch_acti
           distance: run1Summary.distance,
           pace: run1Summary.pace,
           duration: run1Summary.duration,
-          elevation: Math.round(run1.total_elevation_gain),
+          elevation: elevationInUnits(run1.total_elevation_gain, unitSystem),
           heartRate: run1.average_heartrate,
         },
         run2: {
@@ -1447,16 +1525,17 @@ NOTE: You need activity IDs. If user doesn't provide them, first call fetch_acti
           distance: run2Summary.distance,
           pace: run2Summary.pace,
           duration: run2Summary.duration,
-          elevation: Math.round(run2.total_elevation_gain),
+          elevation: elevationInUnits(run2.total_elevation_gain, unitSystem),
           heartRate: run2.average_heartrate,
         },
         deltas: {
           distance: distancePercentage,
-          pace: Math.round(paceDelta),
-          elevation: Math.round(elevationDelta),
+          pace: Math.round(perKmSecondsInUnits(paceDelta, unitSystem)),
+          elevation: elevationInUnits(elevationDelta, unitSystem),
           heartRate: heartRateDelta ? Math.round(heartRateDelta) : undefined,
         },
         trend,
+        units: unitSystem,
       };
 
       return {
@@ -1466,12 +1545,13 @@ NOTE: You need activity IDs. If user doesn't provide them, first call fetch_acti
             fetchedAt: new Date().toISOString(),
             source: "strava",
             cached: false,
+            units: unitSystem,
           },
         },
         content: [
           {
             type: "text",
-            text: `Compared runs: ${run1.name} vs ${run2.name}. Trend: ${trend}. Distance: ${distancePercentage > 0 ? "+" : ""}${distancePercentage}%, Pace: ${paceDelta > 0 ? "+" : ""}${Math.round(paceDelta)}s/km`,
+            text: `Compared runs: ${run1.name} vs ${run2.name}. Trend: ${trend}. Distance: ${distancePercentage > 0 ? "+" : ""}${distancePercentage}%, Pace: ${paceDelta > 0 ? "+" : ""}${comparison.deltas.pace}s${unitLabels(unitSystem).pace}`,
           },
         ],
         isError: false,
@@ -1505,99 +1585,550 @@ NOTE: You need activity IDs. If user doesn't provide them, first call fetch_acti
   },
 );
 
-// Data Tool: Compute Training Load
+// Data Tool: Get Activity Streams
 server.registerTool(
-  "compute_training_load",
+  "get_activity_streams",
   {
-    description: `Calculate training load metrics including acute load (7 days), chronic load (28 days), and acute:chronic ratio. This is a DATA-ONLY tool (no UI).
+    description: `Fetch second-by-second streams for a single activity: time, distance, GPS (latlng), altitude, heart rate, cadence, smoothed velocity and grade. This is a DATA-ONLY tool (no UI).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
 WHEN TO USE:
-- Assessing training volume and intensity
-- Calculating injury risk based on acute:chronic ratio
-- Understanding training load trends
-- Queries like: "What's my training load?", "Am I at risk of injury?", "Calculate my acute:chronic ratio", "Is my training load too high?"
+- Analysis that needs more than activity averages or per-km splits
+- Heart rate drift, grade-adjusted pace, cadence changes, best efforts within a run
+- Queries like: "How did my heart rate change during yesterday's run?", "Show my pace on the hills of my last run", "What was my cadence in the second half?"
 
 WORKFLOW:
-1. Call this tool to get load metrics
-2. Reason about training state and injury risk in GPT
-3. Optionally visualize with render_line_chart (load over time) or provide coaching advice
+1. Get the activity ID (from fetch_activities if the user didn't provide it)
+2. Call this tool, requesting only the streams you need
+3. Reason about the samples in GPT
+4. Optionally visualize with render_line_chart (stream over time/distance) or render_scatter_plot
+
+NOTES:
+- Streams are downsampled to maxPoints evenly spaced samples (default 500) to keep responses small
+- All returned arrays are aligned by index
+- Streams the device did not record (e.g. heartrate without a monitor) are omitted
+- Streams are cached, so repeated calls for the same activity are free`,
+    inputSchema: {
+      activityId: z
+        .number()
+        .describe("Strava activity ID"),
+      keys: z
+        .array(z.enum(["time", "distance", "latlng", "altitude", "heartrate", "cadence", "velocity_smooth", "grade_smooth"]))
+        .optional()
+        .describe("Streams to return (default: all available)"),
+      maxPoints: z
+        .number()
+        .min(10)
+        .max(5000)
+        .optional()
+        .default(500)
+        .describe("Maximum number of samples to return per stream (default: 500)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ activityId, keys, maxPoints, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+    
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
 
-EXAMPLE QUERIES:
-- "What's my current training load?"
-- "Am I training too hard? Check my acute:chronic ratio"
-- "Calculate my weekly vs monthly training volume"
-- "Is my training load in the safe zone?"
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    try {
+      const { streams: allStreams, cached } = await getActivityStreams(auth, activityId);
+
+      // Keep only the requested streams
+      const requested: StreamKey[] = keys ?? STREAM_KEYS;
+      const selected = pickStreams(allStreams, requested);
+
+      const sampleCount = streamLength(selected);
+      const streams = downsampleStreams(selected, maxPoints);
+      const availableStreams = STREAM_KEYS.filter((key) => allStreams[key]);
+      const missingStreams = requested.filter((key) => !allStreams[key]);
+
+      const durationSeconds = allStreams.time?.[allStreams.time.length - 1];
+      const distanceMeters = allStreams.distance?.[allStreams.distance.length - 1];
+
+      return {
+        structuredContent: {
+          data: {
+            activityId,
+            streams,
+            sampleCount,
+            returnedPoints: streamLength(streams),
+            availableStreams,
+            missingStreams,
+          },
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "strava",
+            cached,
+            // Streams stay in Strava's SI units (meters, m/s); this is the display preference
+            units: unitSystem,
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: `Streams for activity ${activityId}: ${availableStreams.length > 0 ? availableStreams.join(", ") : "none"} (${sampleCount} samples${sampleCount > streamLength(streams) ? `, downsampled to ${streamLength(streams)}` : ""}${durationSeconds !== undefined ? `, ${Math.round(durationSeconds / 60)} min` : ""}${distanceMeters !== undefined ? `, ${formatDistanceInUnits(distanceMeters, unitSystem)}` : ""}).${missingStreams.length > 0 ? ` Not recorded: ${missingStreams.join(", ")}.` : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+      
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+      
+      console.error("Error fetching activity streams:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching activity streams: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Data Tool: Analyze Aerobic Decoupling
+server.registerTool(
+  "analyze_aerobic_decoupling",
+  {
+    description: `Measure aerobic decoupling (Pa:HR) on long steady runs: how much the pace-to-heart-rate efficiency factor drops from the first half of a run to the second, and how that changes across recent long runs. This is a DATA-ONLY tool (no UI).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE:
+- Judging aerobic base / endurance fitness, especially for marathon training
+- Checking cardiac drift on a long easy run
+- Queries like: "Is my aerobic base good enough?", "How much did my heart rate drift on Sunday's long run?", "Is my endurance improving?", "Am I ready to add intensity?"
+
+WHEN NOT TO USE:
+- Pace consistency without heart rate → use analyze_pace_patterns
+- Interval sessions → use analyze_workout (decoupling is only meaningful on steady runs)
+
+MODES:
+- activityId given: one run, split into halves, plus an EF series over sliding windows (windowMinutes)
+- No activityId: every run of at least minDuration minutes with heart rate in the last N days (most recent maxRuns), with the trend from older to newer runs
 
 INTERPRETATION:
-- Ratio < 0.8: Undertraining (may need more volume)
-- Ratio 0.8-1.3: Optimal training zone (sweet spot)
-- Ratio > 1.5: High injury risk (reduce load)`,
+- Decoupling < 5%: coupled - solid aerobic base for this duration and pace
+- 5-10%: moderate drift - keep building easy volume
+- > 10%: decoupled - the run was beyond current aerobic endurance (or affected by heat, dehydration or fatigue)
+- Falling decoupling on comparable long runs means the aerobic base is improving
+- Efficiency factor (EF) is meters per minute per heartbeat; higher is better. Speeds are grade-adjusted when elevation data is available, and the warm-up (warmupMinutes) and pauses are excluded`,
     inputSchema: {
+      activityId: z
+        .number()
+        .optional()
+        .describe("Strava activity ID of a single run to analyze (omit to analyze recent long runs)"),
       days: z
         .number()
+        .min(7)
+        .max(365)
         .optional()
-        .default(28)
-        .describe("Number of days to analyze (default: 28, minimum 28 for chronic load calculation)"),
+        .default(90)
+        .describe("Days of history to search for long runs (default: 90)"),
+      minDuration: z
+        .number()
+        .min(30)
+        .max(300)
+        .optional()
+        .default(60)
+        .describe("Minimum moving time in minutes for a run to count as a long run (default: 60)"),
+      maxRuns: z
+        .number()
+        .int()
+        .min(2)
+        .max(20)
+        .optional()
+        .default(8)
+        .describe("Maximum number of recent long runs to analyze (default: 8)"),
+      windowMinutes: z
+        .number()
+        .min(2)
+        .max(30)
+        .optional()
+        .default(10)
+        .describe("Sliding window length in minutes for the single-run EF series (default: 10)"),
+      warmupMinutes: z
+        .number()
+        .min(0)
+        .max(30)
+        .optional()
+        .default(10)
+        .describe("Minutes at the start excluded as warm-up (default: 10)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, token }, extra) => {
+  async ({ activityId, days, minDuration, maxRuns, windowMinutes, warmupMinutes, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
-    
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
+    const options = { warmupSeconds: warmupMinutes * 60 };
+
+    const describeRun = (activity: StravaActivity) => ({
+      id: activity.id,
+      name: activity.name,
+      date: activityDateKey(activity),
+      distance: distanceInUnits(activity.distance, unitSystem),
+      duration: formatDuration(activity.moving_time),
+      pace: activity.average_speed > 0 ? paceInUnits(activity.average_speed, unitSystem) : null,
+      averageHeartRate: activity.average_heartrate ? Math.round(activity.average_heartrate) : null,
+    });
+    const describeHalf = (half: EfficiencySegment) => ({
+      duration: formatDuration(half.duration),
+      pace: paceInUnits(half.speed, unitSystem),
+      heartRate: half.heartRate,
+      efficiency: half.efficiency,
+    });
+
     try {
-      // Ensure we have at least 28 days for chronic load calculation
-      const analyzeDays = Math.max(days, 28);
-      
-      // Fetch activities
-      const afterTimestamp = Math.floor(Date.now() / 1000 - analyzeDays * 24 * 60 * 60);
-      const activities = await fetchRecentActivities(auth.accessToken, afterTimestamp);
+      // Single run: halves plus the sliding-window series
+      if (activityId !== undefined) {
+        const [activity, { streams, cached }] = await Promise.all([
+          fetchDetailedActivity(auth.accessToken, activityId),
+          getActivityStreams(auth, activityId),
+        ]);
+
+        const result = computeDecoupling(streams, { ...options, windowSeconds: windowMinutes * 60 });
+        if (!result) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Can't measure decoupling for ${activity.name}: it needs heart rate data and at least 20 minutes of running after the ${warmupMinutes}-minute warm-up.`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-      if (activities.length === 0) {
         return {
           structuredContent: {
             data: {
-              period: {
-                start: new Date(Date.now() - analyzeDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-                end: new Date().toISOString().split('T')[0],
-              },
-              totalDistance: 0,
-              totalTime: 0,
-              runCount: 0,
-              averagePace: "0:00",
-              loadScore: 0,
-              acuteLoad: 0,
-              chronicLoad: 0,
-              ratio: 0,
+              activity: describeRun(activity),
+              decoupling: result.decoupling,
+              rating: result.rating,
+              cardiacDrift: result.cardiacDrift,
+              gradeAdjusted: result.gradeAdjusted,
+              firstHalf: describeHalf(result.firstHalf),
+              secondHalf: describeHalf(result.secondHalf),
+              windows: result.windows.map((w) => ({
+                start: formatDuration(w.start + warmupMinutes * 60),
+                pace: paceInUnits(w.speed, unitSystem),
+                heartRate: w.heartRate,
+                efficiency: w.efficiency,
+              })),
+              driftPerHour: result.driftPerHour,
+              warmupMinutes,
             },
             metadata: {
               fetchedAt: new Date().toISOString(),
               source: "strava",
-              cached: false,
+              cached,
+              units: unitSystem,
             },
           },
           content: [
             {
               type: "text",
-              text: `No running activities found in the last ${analyzeDays} days.`,
+              text: `${activity.name} (${activityDateKey(activity)}): decoupling ${result.decoupling}% (${result.rating}). First half ${paceInUnits(result.firstHalf.speed, unitSystem)}${labels.pace} at ${Math.round(result.firstHalf.heartRate)} bpm, second half ${paceInUnits(result.secondHalf.speed, unitSystem)}${labels.pace} at ${Math.round(result.secondHalf.heartRate)} bpm (cardiac drift ${result.cardiacDrift >= 0 ? "+" : ""}${result.cardiacDrift} bpm)${result.gradeAdjusted ? ", grade-adjusted" : ""}.`,
             },
           ],
           isError: false,
         };
       }
 
-      // Calculate date boundaries
-      const now = new Date();
-      const sevenDaysAgo = new Date(now);
+      // Recent long runs with heart rate, newest first up to maxRuns
+      const { data: activities, cached, truncated } = await getActivitiesForDays(auth, days);
+      const longRuns = activities
+        .filter((a) => isRun(a) && a.average_heartrate && a.moving_time >= minDuration * 60)
+        .sort((a, b) => b.start_date.localeCompare(a.start_date))
+        .slice(0, maxRuns);
+
+      let rateLimited = false;
+      const runs = [];
+      for (const activity of longRuns) {
+        if (rateLimited) break;
+        try {
+          const { streams } = await getActivityStreams(auth, activity.id);
+          const result = computeDecoupling(streams, options);
+          if (result) {
+            runs.push({
+              ...describeRun(activity),
+              decoupling: result.decoupling,
+              rating: result.rating,
+              cardiacDrift: result.cardiacDrift,
+              efficiency: result.firstHalf.efficiency,
+              gradeAdjusted: result.gradeAdjusted,
+            });
+          }
+        } catch (error) {
+          if (error instanceof UnauthorizedError) throw error;
+          // Report the runs analyzed so far rather than failing the whole analysis
+          if (error instanceof RateLimitError) {
+            rateLimited = true;
+          } else {
+            console.error(`Failed to fetch streams for activity ${activity.id}:`, error);
+          }
+        }
+      }
+
+      // Oldest first for the trend
+      runs.reverse();
+      const trend = decouplingTrend(runs.map((r) => r.decoupling));
+
+      const trendText = trend
+        ? ` Average decoupling ${trend.averageDecoupling}%; ${trend.earlierDecoupling}% on older runs vs ${trend.recentDecoupling}% on recent ones (${trend.direction}).`
+        : "";
+      const latest = runs[runs.length - 1];
+
+      return {
+        structuredContent: {
+          data: {
+            period: { days, minDuration },
+            runs,
+            trend,
+            skipped: longRuns.length - runs.length,
+            rateLimited,
+            warmupMinutes,
+          },
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "strava",
+            cached,
+            truncated,
+            units: unitSystem,
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: runs.length === 0
+              ? `No runs of at least ${minDuration} minutes with heart rate data in the last ${days} days.`
+              : `Analyzed ${runs.length} long run${runs.length > 1 ? "s" : ""} from the last ${days} days. Latest: ${latest.name} (${latest.date}) decoupled ${latest.decoupling}% (${latest.rating}).${trendText}${rateLimited ? " ⚠️ Strava rate limit reached - some runs were skipped." : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error analyzing aerobic decoupling:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error analyzing aerobic decoupling: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Data Tool: Compute Training Load
+server.registerTool(
+  "compute_training_load",
+  {
+    description: `Calculate training load metrics: acute load (7 days), chronic load (28 days), acute:chronic ratio, and a fitness / fatigue / form model (CTL, ATL, TSB) with a daily series. This is a DATA-ONLY tool (no UI).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE:
+- Assessing training volume and intensity
+- Calculating injury risk based on acute:chronic ratio
+- Understanding training load trends
+- Planning a taper from the fitness / form curve
+- Queries like: "What's my training load?", "Am I at risk of injury?", "Calculate my acute:chronic ratio", "Is my training load too high?"
+
+WHEN NOT TO USE:
+- The user wants to see the fitness / fatigue / form chart → use analyze_fitness_form
+
+WORKFLOW:
+1. Call this tool to get load metrics and the daily CTL/ATL/TSB series
+2. Reason about training state and injury risk in GPT
+3. Optionally visualize with analyze_fitness_form or provide coaching advice
+
+EXAMPLE QUERIES:
+- "What's my current training load?"
+- "Am I training too hard? Check my acute:chronic ratio"
+- "Calculate my weekly vs monthly training volume"
+- "Is my training load in the safe zone?"
+
+INTERPRETATION:
+- Ratio < 0.8: Undertraining (may need more volume)
+- Ratio 0.8-1.3: Optimal training zone (sweet spot)
+- Ratio > 1.5: High injury risk (reduce load)
+- CTL (fitness): 42-day weighted average of daily training stress (1 hour at threshold = 100)
+- ATL (fatigue): 7-day weighted average of daily training stress
+- TSB (form) = CTL - ATL: > 25 detraining, 5 to 25 fresh (race-ready), -10 to 5 neutral, -30 to -10 productive training, < -30 overreaching
+- Stress uses heart-rate TRIMP when a run has heart rate data, pace relative to threshold otherwise`,
+    inputSchema: {
+      days: z
+        .number()
+        .optional()
+        .default(28)
+        .describe("Number of days to analyze (default: 28, minimum 28 for chronic load calculation). Also the length of the CTL/ATL/TSB series (up to 365)"),
+      maxHeartRate: z
+        .number()
+        .min(120)
+        .max(230)
+        .optional()
+        .describe("Maximum heart rate in bpm (default: highest recorded, or 190)"),
+      restingHeartRate: z
+        .number()
+        .min(30)
+        .max(100)
+        .optional()
+        .describe("Resting heart rate in bpm (default: 60)"),
+      thresholdPace: z
+        .string()
+        .optional()
+        .describe("Threshold pace as 'm:ss' per km (per mile with imperial units), used for runs without heart rate (default: estimated from recent runs)"),
+      sportTypes: z
+        .array(z.string())
+        .optional()
+        .describe('Strava sport types to include, e.g. ["Run", "TrailRun", "Ride", "Walk", "Hike"]. Use ["All"] for every sport (default: "All")'),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ days, maxHeartRate, restingHeartRate, thresholdPace, sportTypes, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+    
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    // The pace is given per km or per mile; the model works in seconds per km
+    const thresholdPaceInput = thresholdPace ? paceToSecondsPerKm(thresholdPace) : undefined;
+    const thresholdPaceSeconds = thresholdPaceInput
+      ? Math.round((thresholdPaceInput * 1000) / distanceToMeters(1, unitSystem))
+      : thresholdPaceInput;
+    if (thresholdPaceSeconds === null) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Invalid thresholdPace "${thresholdPace}". Use minutes:seconds per ${unitSystem === "imperial" ? "mile" : "km"}, e.g. "${unitSystem === "imperial" ? "7:15" : "4:30"}".`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      // Ensure we have at least 28 days for chronic load calculation
+      const analyzeDays = Math.min(Math.max(days, 28), 365);
+      
+      // Fetch activities, plus warm-up history so CTL has settled by the first day shown
+      const afterTimestamp = Math.floor(Date.now() / 1000 - (analyzeDays + MODEL_WARMUP_DAYS) * 24 * 60 * 60);
+      // Cross-training counts towards stress, so every sport is included unless narrowed
+      const { data: allActivities, cached, truncated } = await getActivities(auth, {
+        after: afterTimestamp,
+        sportTypes: sportTypes ?? [ALL_SPORT_TYPES],
+      });
+      // Distance-based metrics only make sense for runs
+      const activities = allActivities.filter(isRun);
+
+      if (allActivities.length === 0) {
+        return {
+          structuredContent: {
+            data: {
+              period: {
+                start: new Date(Date.now() - analyzeDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+                end: new Date().toISOString().split('T')[0],
+              },
+              totalDistance: 0,
+              totalTime: 0,
+              runCount: 0,
+              averagePace: "0:00",
+              loadScore: 0,
+              acuteLoad: 0,
+              chronicLoad: 0,
+              ratio: 0,
+            },
+            metadata: {
+              fetchedAt: new Date().toISOString(),
+              source: "strava",
+              cached,
+              units: unitSystem,
+            },
+          },
+          content: [
+            {
+              type: "text",
+              text: `No activities found in the last ${analyzeDays} days.`,
+            },
+          ],
+          isError: false,
+        };
+      }
+
+      // Calculate date boundaries
+      const now = new Date();
+      const sevenDaysAgo = new Date(now);
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
       const twentyEightDaysAgo = new Date(now);
       twentyEightDaysAgo.setDate(twentyEightDaysAgo.getDate() - 28);
@@ -1612,9 +2143,10 @@ INTERPRETATION:
       const startDate = new Date(Date.now() - analyzeDays * 24 * 60 * 60 * 1000);
       const periodActivities = filterActivitiesByDateRange(activities, startDate, now);
 
-      const totalDistance = Math.round(
-        periodActivities.reduce((sum, a) => sum + a.distance / 1000, 0) * 10
-      ) / 10;
+      const totalDistance = distanceInUnits(
+        periodActivities.reduce((sum, a) => sum + a.distance, 0),
+        unitSystem,
+      );
       
       const totalTime = Math.round(
         periodActivities.reduce((sum, a) => sum + a.moving_time / 60, 0)
@@ -1622,10 +2154,10 @@ INTERPRETATION:
       
       const runCount = periodActivities.length;
       
-      const averagePace = calculateAveragePace(periodActivities);
+      const averagePace = calculateAveragePace(periodActivities, unitSystem);
 
       // Calculate acute load (7 days)
-      // Load = distance * intensity factor
+      // Load = distance (km, whatever the display units) * intensity factor
       // Intensity factor based on pace relative to average
       const avgSpeed = periodActivities.length > 0
         ? periodActivities.reduce((sum, a) => sum + a.average_speed, 0) / periodActivities.length
@@ -1656,6 +2188,16 @@ INTERPRETATION:
       const weeklyDistance = acuteLoad / 1; // Already weighted by intensity
       const loadScore = Math.min(100, Math.round(weeklyDistance * 2));
 
+      // Fitness / fatigue / form (impulse-response model over the full history),
+      // over local calendar days so today's runs land on today
+      const today = todayKey(resolveTimezone(undefined, allActivities));
+      const fitness = buildFitnessModel(allActivities, addDays(today, -analyzeDays), today, {
+        maxHeartRate,
+        restingHeartRate,
+        thresholdPaceSeconds,
+        sex: auth.athlete?.sex,
+      });
+
       // Build training load data model
       const trainingLoad = {
         period: {
@@ -1670,6 +2212,22 @@ INTERPRETATION:
         acuteLoad,
         chronicLoad,
         ratio,
+        fitness: fitness.current,
+        series: fitness.series,
+        model: {
+          ctlTimeConstant: CTL_TIME_CONSTANT,
+          atlTimeConstant: ATL_TIME_CONSTANT,
+          maxHeartRate: fitness.params.maxHeartRate,
+          maxHeartRateSource: fitness.params.maxHeartRateSource,
+          restingHeartRate: fitness.params.restingHeartRate,
+          thresholdHeartRate: fitness.params.thresholdHeartRate,
+          thresholdPace: paceInUnits(1000 / fitness.params.thresholdPaceSeconds, unitSystem),
+          thresholdPaceSource: fitness.params.thresholdPaceSource,
+          stressMethods: fitness.stressMethods,
+        },
+        loadBySport: fitness.loadBySport,
+        bySport: summarizeBySport(filterActivitiesByDateRange(allActivities, startDate, now), unitSystem),
+        units: unitSystem,
       };
 
       return {
@@ -1678,7 +2236,9 @@ INTERPRETATION:
           metadata: {
             fetchedAt: new Date().toISOString(),
             source: "strava",
-            cached: false,
+            cached,
+            truncated,
+            units: unitSystem,
             dateRange: {
               days: analyzeDays,
               from: startDate.toISOString().split('T')[0],
@@ -1693,7 +2253,7 @@ INTERPRETATION:
               ratio < 0.8 ? "Consider increasing training volume." :
               ratio > 1.5 ? "⚠️ High injury risk - consider reducing load." :
               "Optimal training load range."
-            }`,
+            } Fitness (CTL): ${fitness.current.ctl}, Fatigue (ATL): ${fitness.current.atl}, Form (TSB): ${fitness.current.tsb} (${fitness.current.form}), CTL ramp: ${fitness.current.rampRate}/week.${fitness.loadBySport.length > 1 ? ` Stress by sport: ${fitness.loadBySport.map(l => `${l.sportType} ${Math.round(l.share * 100)}%`).join(", ")}.` : ""}${truncated ? " ⚠️ Activity history was truncated - totals may be understated." : ""}`,
           },
         ],
         isError: false,
@@ -1727,344 +2287,330 @@ INTERPRETATION:
   },
 );
 
-// Tool: Get Weather Recommendation
+// Data Tool: Check Training Risks
 server.registerTool(
-  "get_weather_recommendation",
+  "check_training_risks",
   {
-    description: `Get weather-aware coaching recommendations using AI. Fetches current weather conditions and provides intelligent running advice based on temperature, precipitation, wind, humidity, and air quality.
+    description: `Check recent training for injury-risk patterns and return prioritized alerts with explanations and recommendations. Rules: weekly mileage ramp, acute:chronic training load ratio, long-run share of weekly volume, consecutive days without rest, and sudden intensity spikes (more hard sessions than usual, or one session far bigger than recent ones). This is a DATA-ONLY tool (no UI).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
 WHEN TO USE:
-- Planning today's run based on weather
-- Getting gear and timing recommendations
-- Understanding if conditions are safe for running
-- Queries like: "Should I run today?", "What's the weather like for running?", "Is it safe to run now?"
+- PROACTIVELY at the start of a coaching conversation, before giving training advice
+- Before suggesting a harder week, a long run or a race effort
+- Queries like: "Am I doing too much?", "Am I at risk of injury?", "Is it OK to add another run?", "Should I take a rest day?"
+
+WHEN NOT TO USE:
+- The user wants load numbers or the fitness curve → use compute_training_load or analyze_fitness_form
+- The user wants week-by-week volume → use analyze_training_trends
 
 WORKFLOW:
-1. Call this tool with location (or use Strava token to infer location)
-2. AI agent analyzes weather conditions
-3. Returns structured weather data + coaching recommendations
+1. Call this tool first in a coaching conversation
+2. If alerts is empty, carry on; don't mention the check unless asked
+3. Otherwise raise high-severity alerts first, in your own words, using the explanation and recommendation of each alert
 
-EXAMPLE QUERIES:
-- "Should I run today in Paris?"
-- "What's the weather like for running?"
-- "Is it safe to run now?"
-- "What gear should I wear for today's run?"
+WINDOWS: The last 7 days (by the athlete's local day) are compared with the three weeks before. Load counts every sport; distance, long runs and hard sessions count runs only. Hard sessions are runs classified as tempo, intervals or race.
 
-OUTPUT:
-- Current weather conditions (temperature, precipitation, wind, humidity, air quality)
-- Suitability rating (excellent/good/moderate/caution/not_recommended)
-- Recommendations (best time, gear, hydration, pace adjustment)
-- Warnings for unsafe conditions`,
+SEVERITY:
+- high: act now (e.g. acute:chronic ratio above 1.5, mileage up more than 2.5× the ramp threshold, 14+ days without rest)
+- medium: adjust the next few days
+- low: worth a mention (e.g. load dropping below 0.8 of the usual, 7+ days in a row)`,
     inputSchema: {
-      location: z
-        .string()
+      rampThreshold: z
+        .number()
+        .min(1)
+        .max(100)
         .optional()
-        .describe("Location for weather check (city name or coordinates). If not provided, will try to infer from recent Strava activities."),
-      query: z
+        .describe(`Percent increase over the previous weeks' average that raises a mileage ramp alert (default: ${DEFAULT_RISK_RAMP_THRESHOLD})`),
+      maxHeartRate: z
+        .number()
+        .min(120)
+        .max(230)
+        .optional()
+        .describe("Maximum heart rate in bpm, used for training stress (default: highest recorded, or 190)"),
+      restingHeartRate: z
+        .number()
+        .min(30)
+        .max(100)
+        .optional()
+        .describe("Resting heart rate in bpm, used for training stress (default: 60)"),
+      timezone: z
         .string()
         .optional()
-        .describe("Natural language query about running conditions (e.g., 'Should I run today?', 'What should I wear?')"),
-      timeframe: z
-        .enum(["now", "today", "week"])
+        .describe('IANA timezone used to determine today, e.g. "America/New_York" (default: timezone of the athlete\'s most recent activity)'),
+      units: z
+        .enum(["metric", "imperial"])
         .optional()
-        .default("now")
-        .describe("Timeframe for weather check: 'now' for current conditions, 'today' for today's forecast, 'week' for weekly forecast"),
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
-        .describe("Strava access token (optional - used to infer location from recent activities if location not provided)"),
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ location, query, timeframe }) => {
-    try {
-      // If no location provided, use a default
-      const weatherLocation = location || "Paris, France";
+  async ({ rampThreshold, maxHeartRate, restingHeartRate, timezone, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
 
-      // Create Dust client
-      const dustClient = createDustClient();
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
 
-      // Prepare input for weather agent
-      const weatherInput: WeatherAgentInput = {
-        location: weatherLocation,
-        query: query || `What are the running conditions ${timeframe === "now" ? "right now" : timeframe === "today" ? "today" : "this week"}?`,
-        timeframe,
-      };
+    const unitSystem = resolveUnits(units, auth.athlete);
 
-      // Call weather agent
-      const weatherData = await callWeatherAgent(dustClient, weatherInput);
+    try {
+      // The rules need four weeks; run classification looks further back for what's typical
+      const { data: history, cached, truncated } = await getActivities(auth, {
+        after: afterTimestampForDateKey(addDays(todayKey("UTC"), -Math.max(RISK_HISTORY_DAYS, CLASSIFICATION_HISTORY_DAYS))),
+        sportTypes: [ALL_SPORT_TYPES],
+      });
+      const zone = resolveTimezone(timezone, history);
+      const today = todayKey(zone);
+
+      const runs = history.filter(isRun);
+      const { zones: athleteZones } = await getAthleteZonesIfAvailable(auth);
+      const { zones } = resolveHeartRateZones(athleteZones?.heart_rate?.zones, runs);
+
+      const report = evaluateTrainingRisks(history, today, {
+        params: resolveModelParams(history, { maxHeartRate, restingHeartRate }),
+        sex: auth.athlete?.sex,
+        classification: classificationContext(runs, zones),
+        units: unitSystem,
+        rampThreshold,
+      });
 
-      // Format response
-      const suitabilityEmoji = weatherData.suitability.emoji;
-      const suitabilityText = weatherData.suitability.rating.toUpperCase();
-      
-      let responseText = `${suitabilityEmoji} **Weather for Running in ${weatherData.location}**\n\n`;
-      responseText += `**Conditions:** ${weatherData.current.conditions}\n`;
-      responseText += `**Temperature:** ${weatherData.current.temperature_c}°C (feels like ${weatherData.current.feels_like_c}°C)\n`;
-      responseText += `**Wind:** ${weatherData.current.wind_speed_kmh} km/h\n`;
-      responseText += `**Humidity:** ${weatherData.current.humidity_percent}%\n`;
-      
-      if (weatherData.current.precipitation_mm > 0) {
-        responseText += `**Precipitation:** ${weatherData.current.precipitation_mm}mm\n`;
+      const severityIcon = { high: "🔴", medium: "🟠", low: "🟡" };
+      return {
+        structuredContent: {
+          data: report,
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "strava",
+            cached,
+            truncated,
+            units: unitSystem,
+            timezone: zone,
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: report.alerts.length === 0
+              ? `No training risks found for ${report.from} to ${report.to}: ${report.metrics.weekDistance}${unitLabels(unitSystem).distance} this week${report.metrics.acuteChronicRatio !== null ? `, acute:chronic ratio ${report.metrics.acuteChronicRatio}` : ""}.`
+              : `${report.alerts.length} training risk alert${report.alerts.length > 1 ? "s" : ""} for ${report.from} to ${report.to}:\n${report.alerts.map(a => `${severityIcon[a.severity]} ${a.title} - ${a.explanation} ${a.recommendation}`).join("\n")}${truncated ? "\n⚠️ Activity history was truncated - totals may be understated." : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
       }
-      
-      if (weatherData.current.air_quality_index) {
-        responseText += `**Air Quality:** ${weatherData.current.air_quality_index} (${weatherData.current.air_quality_index < 50 ? "Good" : weatherData.current.air_quality_index < 100 ? "Moderate" : "Poor"})\n`;
-      }
-      
-      responseText += `\n**Suitability:** ${suitabilityText} (${weatherData.suitability.score}/100)\n\n`;
-      responseText += `**Recommendations:**\n`;
-      responseText += `- **Best Time:** ${weatherData.recommendations.best_time}\n`;
-      responseText += `- **Gear:** ${weatherData.recommendations.gear.join(", ")}\n`;
-      responseText += `- **Hydration:** ${weatherData.recommendations.hydration}\n`;
-      
-      if (weatherData.recommendations.pace_adjustment !== 0) {
-        const adjustment = weatherData.recommendations.pace_adjustment > 0 ? "slower" : "faster";
-        responseText += `- **Pace Adjustment:** ${Math.abs(weatherData.recommendations.pace_adjustment)}% ${adjustment}\n`;
-      }
-      
-      if (weatherData.warnings.length > 0) {
-        responseText += `\n⚠️ **Warnings:**\n`;
-        weatherData.warnings.forEach(warning => {
-          responseText += `- ${warning}\n`;
-        });
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
       }
-      
-      responseText += `\n**Analysis:** ${weatherData.reasoning}`;
 
+      console.error("Error checking training risks:", error);
       return {
-        structuredContent: {
-          weather: weatherData,
-          metadata: {
-            fetchedAt: new Date().toISOString(),
-            source: "dust-weather-agent",
-            location: weatherData.location,
-            timeframe,
-          },
-        },
         content: [
           {
             type: "text",
-            text: responseText,
+            text: `Error checking training risks: ${error instanceof Error ? error.message : "Unknown error"}`,
           },
         ],
-        isError: false,
+        isError: true,
       };
-    } catch (error) {
-      console.error("Error getting weather recommendation:", error);
-      return dustErrorResponse(error);
     }
   },
 );
 
-// Tool: Generate Running Route
-server.registerTool(
-  "generate_running_route",
+// Integrated Widget: Analyze Fitness / Fatigue / Form
+server.registerWidget(
+  "analyze_fitness_form",
   {
-    description: `Generate custom running routes with LLM-controlled parameters. Creates 2-3 route variations based on distance, location, and preferences.
+    description: `Chart fitness (CTL), fatigue (ATL) and form (TSB) day by day from an impulse-response training load model. This is an INTEGRATED widget (combines data fetching + visualization).
 
-⚠️ IMPORTANT: After calling this tool, ALWAYS visualize ALL generated routes using render_route_map for EACH route. The user needs to see the routes on a map to choose which one to export.
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
-WHEN TO USE:
-- User wants a custom route for a specific distance
-- User wants to include specific landmarks ("along the Seine")
-- User wants to avoid certain areas ("avoid busy streets")
-- User wants scenic or safe routes
-- Queries like: "Generate a 10k route", "Create a route through Central Park", "Find a scenic 15k"
+WHEN TO USE (PREFER THIS):
+- Showing how fitness and fatigue have built up over weeks or months
+- Planning or checking a taper before a race
+- Queries like: "Show my fitness and fatigue", "Am I fresh for my race?", "Plot my CTL/ATL/TSB", "How is my taper going?"
+
+WHEN NOT TO USE:
+- Need the numbers for reasoning only → use compute_training_load
+- Week-over-week volume comparison → use compare_training_weeks
 
 WORKFLOW:
-1. Call this tool to generate 2-3 route options
-2. For EACH route returned, call render_route_map to display it visually
-3. User can then choose which route to export to Strava
+- Single call fetches activities, scores each run, runs the model and displays the chart
+- No additional visualization needed (integrated chart + current values)
 
-LLM CONTROL:
-ChatGPT can extract semantic parameters from natural language:
-- "10k along the Seine" → mustInclude: ["Seine River"]
-- "avoiding busy streets" → trafficLevel: "low"
-- "make it more scenic" → scenicPriority: 90
-- "with some hills" → elevationPreference: "moderate"
+EXAMPLE QUERIES:
+- "Show me my fitness, fatigue and form for the last 3 months"
+- "Is my form positive going into Sunday's race?"
+- "How fast is my fitness ramping up?"
 
-OUTPUT:
-- 2-3 route variations with different characteristics
-- Each route includes: distance, elevation, difficulty, highlights
-- GPS path, polyline (for Strava), turn-by-turn directions
-- Points of interest, safety score, scenic score`,
+INTERPRETATION:
+- CTL (fitness): 42-day weighted average of daily training stress (1 hour at threshold = 100)
+- ATL (fatigue): 7-day weighted average of daily training stress
+- TSB (form) = CTL - ATL: > 25 detraining, 5 to 25 fresh (race-ready), -10 to 5 neutral, -30 to -10 productive training, < -30 overreaching`,
+  },
+  {
+    description: "Display daily fitness (CTL), fatigue (ATL), form (TSB) and training stress as a chart with current values. Stress uses heart-rate TRIMP when an activity has heart rate data, pace relative to threshold for runs without it, and a typical intensity for other sports; cross-training is included by default. The widget renders the full series visually - DO NOT create markdown tables or list daily values in your response. Provide commentary about fitness trends, fatigue and race readiness only.",
     inputSchema: {
-      distance: z
+      days: z
         .number()
-        .min(1)
-        .max(50)
-        .describe("Distance in kilometers (1-50km)"),
-      location: z
-        .string()
-        .describe("Starting location (city, neighborhood, or landmark)"),
-      terrain: z
-        .enum(["flat", "hilly", "mixed"])
-        .optional()
-        .describe("Preferred terrain type"),
-      preferences: z
-        .enum(["park", "waterfront", "urban", "trail"])
-        .optional()
-        .describe("Route environment preference"),
-      intensity: z
-        .enum(["easy", "moderate", "challenging"])
-        .optional()
-        .describe("Desired intensity level"),
-      mustInclude: z
-        .array(z.string())
-        .optional()
-        .describe("Landmark names that must be included in the route (e.g., ['Eiffel Tower', 'Seine River'])"),
-      avoidAreas: z
-        .array(z.string())
+        .min(14)
+        .max(365)
         .optional()
-        .describe("Area names to avoid (e.g., ['Champs-Élysées', 'busy downtown'])"),
-      scenicPriority: z
+        .default(90)
+        .describe("Number of days to chart (default: 90, max: 365)"),
+      maxHeartRate: z
         .number()
-        .min(0)
-        .max(100)
+        .min(120)
+        .max(230)
         .optional()
-        .describe("Scenic optimization priority (0-100, higher = more scenic)"),
-      safetyPriority: z
+        .describe("Maximum heart rate in bpm (default: highest recorded, or 190)"),
+      restingHeartRate: z
         .number()
-        .min(0)
+        .min(30)
         .max(100)
         .optional()
-        .describe("Safety optimization priority (0-100, higher = safer)"),
-      trafficLevel: z
-        .enum(["low", "medium", "high"])
+        .describe("Resting heart rate in bpm (default: 60)"),
+      thresholdPace: z
+        .string()
         .optional()
-        .describe("Preferred traffic level (low = pedestrian paths, parks)"),
-      elevationPreference: z
-        .enum(["minimize", "maximize", "moderate"])
+        .describe("Threshold pace as 'm:ss' per km (per mile with imperial units), used for runs without heart rate (default: estimated from recent runs)"),
+      sportTypes: z
+        .array(z.string())
         .optional()
-        .describe("Hill preference (minimize = flat, maximize = hilly)"),
-      enrichPOIs: z
-        .boolean()
+        .describe('Strava sport types to include, e.g. ["Run", "TrailRun", "Ride", "Walk", "Hike"]. Use ["All"] for every sport (default: "All")'),
+      units: z
+        .enum(["metric", "imperial"])
         .optional()
-        .default(false)
-        .describe("Enrich POIs with web search for runner amenities, safety info, tips (slower but more informative)"),
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({
-    distance,
-    location,
-    terrain,
-    preferences,
-    intensity,
-    mustInclude,
-    avoidAreas,
-    scenicPriority,
-    safetyPriority,
-    trafficLevel,
-    elevationPreference,
-    enrichPOIs,
-  }) => {
-    try {
-      const mapboxToken = process.env.MAPBOX_API_KEY;
-
-      if (!mapboxToken) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "❌ Mapbox API key not configured. Please set MAPBOX_API_KEY in your environment variables.",
-            },
-          ],
-          isError: true,
-        };
-      }
-
-      // Build route request
-      const request: RouteRequest = {
-        distance,
-        location,
-        terrain,
-        preferences,
-        intensity,
-        mustInclude,
-        avoidAreas,
-        scenicPriority,
-        safetyPriority,
-        trafficLevel,
-        elevationPreference,
-        enrichPOIs,
-      };
-
-      // Generate routes
-      let routes = await generateRoutes(request, mapboxToken);
-
-      // Optional: Enrich POIs with Dust agent web search
-      if (enrichPOIs) {
-        try {
-          const dustClient = createDustClient();
-          routes = await enrichPOIsWithDust(routes, location, dustClient);
-        } catch (error) {
-          console.warn("POI enrichment failed, continuing with basic POIs:", error);
-          // Continue with non-enriched routes
-        }
-      }
+  async ({ days, maxHeartRate, restingHeartRate, thresholdPace, sportTypes, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
 
-      // Format response
-      let responseText = `🗺️ **Generated ${routes.length} Route Options for ${location}**\n\n`;
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
 
-      routes.forEach((route, index) => {
-        responseText += `**Option ${index + 1}: ${route.name}**\n`;
-        responseText += `- Distance: ${route.distance}km\n`;
-        responseText += `- Elevation Gain: ${route.elevationGain}m\n`;
-        responseText += `- Difficulty: ${route.difficulty}\n`;
-        responseText += `- Safety Score: ${route.safetyScore}/100\n`;
-        responseText += `- Scenic Score: ${route.scenicScore}/100\n`;
-        responseText += `- Traffic Level: ${route.trafficLevel}\n`;
+    const unitSystem = resolveUnits(units, auth.athlete);
 
-        if (route.highlights.length > 0) {
-          responseText += `- Highlights:\n`;
-          route.highlights.forEach((highlight) => {
-            responseText += `  • ${highlight}\n`;
-          });
-        }
+    // The pace is given per km or per mile; the model works in seconds per km
+    const thresholdPaceInput = thresholdPace ? paceToSecondsPerKm(thresholdPace) : undefined;
+    const thresholdPaceSeconds = thresholdPaceInput
+      ? Math.round((thresholdPaceInput * 1000) / distanceToMeters(1, unitSystem))
+      : thresholdPaceInput;
+    if (thresholdPaceSeconds === null) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Invalid thresholdPace "${thresholdPace}". Use minutes:seconds per ${unitSystem === "imperial" ? "mile" : "km"}, e.g. "${unitSystem === "imperial" ? "7:15" : "4:30"}".`,
+          },
+        ],
+        isError: true,
+      };
+    }
 
-        if (route.pointsOfInterest.length > 0) {
-          responseText += `- Points of Interest:\n`;
-          route.pointsOfInterest.forEach((poi) => {
-            responseText += `  • ${poi.name}`;
-            if (poi.runnerInfo) {
-              responseText += ` - ${poi.runnerInfo}`;
-            }
-            if (poi.tips) {
-              responseText += ` (${poi.tips})`;
-            }
-            responseText += `\n`;
-          });
-        }
+    try {
+      // Fetch the window plus warm-up history so CTL has settled by the first day shown
+      // Cross-training counts towards stress, so every sport is included unless narrowed
+      const { data: activities, truncated } = await getActivitiesForDays(
+        auth,
+        days + MODEL_WARMUP_DAYS,
+        false,
+        sportTypes ?? [ALL_SPORT_TYPES],
+      );
 
-        responseText += `\n`;
+      const now = new Date();
+      const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+      // Daily load is keyed by local day, so the window is too
+      const today = todayKey(resolveTimezone(undefined, activities), now);
+      const fitness = buildFitnessModel(activities, addDays(today, -days), today, {
+        maxHeartRate,
+        restingHeartRate,
+        thresholdPaceSeconds,
+        sex: auth.athlete?.sex,
       });
 
-      responseText += `\n💡 **Tip:** Use \`download_route_gpx\` to download the route as a GPX file for your GPS device or Strava.`;
+      const inWindow = filterActivitiesByDateRange(activities, startDate, now);
+      const runsInWindow = inWindow.filter(isRun).length;
+      const peak = fitness.series.reduce(
+        (best, day) => (day.ctl > best.ctl ? day : best),
+        fitness.series[0],
+      );
 
       return {
         structuredContent: {
-          routes,
-          metadata: {
-            generatedAt: new Date().toISOString(),
-            source: "mapbox",
-            request,
+          period: {
+            days,
+            start: startDate.toISOString().split('T')[0],
+            end: now.toISOString().split('T')[0],
           },
+          current: fitness.current,
+          peakFitness: peak ? { ctl: peak.ctl, date: peak.date } : null,
+          series: fitness.series,
+          model: {
+            maxHeartRate: fitness.params.maxHeartRate,
+            maxHeartRateSource: fitness.params.maxHeartRateSource,
+            restingHeartRate: fitness.params.restingHeartRate,
+            thresholdHeartRate: fitness.params.thresholdHeartRate,
+            thresholdPace: paceInUnits(1000 / fitness.params.thresholdPaceSeconds, unitSystem),
+            thresholdPaceSource: fitness.params.thresholdPaceSource,
+            stressMethods: fitness.stressMethods,
+          },
+          totalRuns: runsInWindow,
+          totalActivities: inWindow.length,
+          loadBySport: fitness.loadBySport,
+          truncated,
+          units: unitSystem,
         },
         content: [
           {
             type: "text",
-            text: responseText,
+            text: `Fitness (CTL): ${fitness.current.ctl}, Fatigue (ATL): ${fitness.current.atl}, Form (TSB): ${fitness.current.tsb} (${fitness.current.form}), CTL ramp: ${fitness.current.rampRate}/week over ${inWindow.length} activities (${runsInWindow} runs) in the last ${days} days.${fitness.loadBySport.length > 1 ? ` Stress by sport: ${fitness.loadBySport.map(l => `${l.sportType} ${Math.round(l.share * 100)}%`).join(", ")}.` : ""}${truncated ? " ⚠️ Activity history was truncated - early fitness values may be understated." : ""}`,
           },
         ],
         isError: false,
       };
     } catch (error) {
-      console.error("Error generating routes:", error);
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error analyzing fitness and form:", error);
       return {
         content: [
           {
             type: "text",
-            text: `❌ Error generating routes: ${error instanceof Error ? error.message : "Unknown error"}. Please try a different location or parameters.`,
+            text: `Error analyzing fitness and form: ${error instanceof Error ? error.message : "Unknown error"}`,
           },
         ],
         isError: true,
@@ -2073,275 +2619,2409 @@ OUTPUT:
   },
 );
 
-// Tool: Export Route to Strava
-// Tool: Download Route as GPX
-server.registerTool(
-  "download_route_gpx",
+// Integrated Widget: Analyze Heart Rate Zones
+server.registerWidget(
+  "analyze_heart_rate_zones",
   {
-    description: `Download a generated route as a GPX file. Creates a GPX file from route data that can be imported into Strava, Garmin, or any GPS device.
+    description: `Analyze time spent in each heart rate zone, week by week, and check polarized (80/20) training compliance. This is an INTEGRATED widget (combines data fetching + visualization).
 
-WHEN TO USE:
-- User wants to download a route for their GPS device
-- User wants to import a route into Strava manually
-- User wants to save a route for later use
-- Queries like: "Download this route", "Save as GPX", "Export route file", "Give me the GPX"
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Checking whether easy runs are really easy
+- Checking the 80/20 (polarized) intensity balance
+- Queries like: "How much time do I spend in each HR zone?", "Am I following 80/20?", "Am I running my easy runs too hard?"
+
+WHEN NOT TO USE:
+- Pace-based run classification → use analyze_pace_patterns
+- Heart rate of a single run over time → use get_activity_streams
 
 WORKFLOW:
-1. User generates routes with generate_running_route
-2. User selects a route they like
-3. Call this tool with the route data
-4. Tool creates GPX file and provides download link
+- Single call fetches activities, heart rate streams and zones, computes time in zone and displays results
+- No additional visualization needed (integrated weekly chart + compliance)
 
-REQUIREMENTS:
-- Route data (from generate_running_route output)
+EXAMPLE QUERIES:
+- "Show my heart rate zone distribution for the last 8 weeks"
+- "Am I doing enough easy running?"
+- "Use a max heart rate of 188 and show my zones"
 
-OUTPUT:
-- GPX file content (can be saved directly)
-- Download instructions
-- File name suggestion`,
+ZONES: Uses a threshold or max heart rate when given, otherwise the athlete's Strava zones, otherwise zones estimated from the highest recorded heart rate. Zones 1-2 count as low intensity, zone 3 moderate, zones 4-5 high. 80/20 compliance means at least 80% of time at low intensity.`,
+  },
+  {
+    description: "Analyze heart rate zone distribution per week with polarized (80/20) compliance. Time in zone is computed from heart rate streams (recent runs) or estimated from average heart rate. The widget renders the weekly distribution and compliance visually - DO NOT create markdown tables or list weekly values in your response. Provide commentary about intensity balance and recommendations only.",
     inputSchema: {
-      routeData: z
-        .object({
-          name: z.string(),
-          distance: z.number(),
-          elevationGain: z.number(),
-          path: z.array(
-            z.object({
-              lat: z.number(),
-              lng: z.number(),
-            })
-          ),
-          elevationProfile: z
-            .array(
-              z.object({
-                distance: z.number(),
-                elevation: z.number(),
-              })
-            )
-            .optional(),
-        })
-        .describe("Route data object from generate_running_route"),
-      fileName: z
+      weeks: z
+        .number()
+        .min(1)
+        .max(26)
+        .optional()
+        .default(8)
+        .describe("Number of weeks to analyze (default: 8, max: 26)"),
+      maxHeartRate: z
+        .number()
+        .min(120)
+        .max(230)
+        .optional()
+        .describe("Override: maximum heart rate in bpm (zones at 65/81/89/97% of max)"),
+      thresholdHeartRate: z
+        .number()
+        .min(100)
+        .max(220)
+        .optional()
+        .describe("Override: lactate threshold heart rate in bpm (takes precedence over maxHeartRate)"),
+      maxStreamActivities: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .default(30)
+        .describe("Most recent runs to analyze from second-by-second heart rate streams; older runs use average heart rate (default: 30)"),
+      weekStart: z
+        .enum(["monday", "sunday"])
+        .optional()
+        .default(DEFAULT_WEEK_START)
+        .describe('First day of the week: "monday" (default) or "sunday"'),
+      timezone: z
         .string()
         .optional()
-        .describe("Custom file name (defaults to route name)"),
-      description: z
+        .describe('IANA timezone used to determine the current week, e.g. "America/New_York" (default: timezone of the athlete\'s most recent activity)'),
+      token: z
         .string()
         .optional()
-        .describe("Description for the route"),
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ routeData, fileName, description }) => {
+  async ({ weeks, maxHeartRate, thresholdHeartRate, maxStreamActivities, weekStart, timezone, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
     try {
-      // Import GPX utilities
-      const { generateGPX, validateGPX } = await import("./routes/gpx.js");
+      // The current week depends on the athlete's timezone, so fetch one
+      // extra week and bucket by local day afterwards
+      const utcWeekStart = weekStartKey(todayKey("UTC"), weekStart);
+      const { data: fetched, truncated } = await getActivities(auth, {
+        after: afterTimestampForDateKey(addDays(utcWeekStart, -7 * weeks)),
+      });
+      const zone = resolveTimezone(timezone, fetched);
+      const ranges = weekRanges(todayKey(zone), weeks, weekStart);
+      const weekKeys = ranges.map(range => range.start);
+      const activities = filterActivitiesByLocalDate(fetched, ranges[0].start, ranges[ranges.length - 1].end);
+
+      const overrides = { maxHeartRate, thresholdHeartRate };
+      const stravaZones = maxHeartRate || thresholdHeartRate
+        ? null
+        : (await getAthleteZonesIfAvailable(auth)).zones?.heart_rate?.zones;
+      const zoneModel = resolveHeartRateZones(stravaZones, activities, overrides);
+      const { zones } = zoneModel;
+
+      // Newest runs first so the stream budget goes to the most relevant weeks
+      const withHeartRate = activities
+        .filter(a => a.average_heartrate)
+        .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime());
+
+      let streamBudget = maxStreamActivities;
+      let rateLimited = false;
+      const perActivity: Array<{
+        id: number;
+        name: string;
+        date: string;
+        week: string;
+        seconds: number[];
+        method: "stream" | "average";
+      }> = [];
+
+      for (const activity of withHeartRate) {
+        let seconds: number[] | null = null;
+        let method: "stream" | "average" = "average";
+
+        if (streamBudget > 0 && !rateLimited) {
+          streamBudget--;
+          try {
+            const { streams } = await getActivityStreams(auth, activity.id);
+            seconds = timeInZones(streams, zones);
+            if (seconds) method = "stream";
+          } catch (error) {
+            if (error instanceof UnauthorizedError) throw error;
+            // Keep going on averages rather than failing the whole analysis
+            if (error instanceof RateLimitError) {
+              rateLimited = true;
+            } else {
+              console.error(`Failed to fetch streams for activity ${activity.id}:`, error);
+            }
+          }
+        }
 
-      // Validate input
-      if (!routeData) {
+        seconds ??= estimateTimeInZones(activity, zones);
+        if (!seconds) continue;
+
+        const date = activityDateKey(activity);
+        perActivity.push({ id: activity.id, name: activity.name, date, week: weekStartKey(date, weekStart), seconds, method });
+      }
+
+      const sumZones = (rows: Array<{ seconds: number[] }>) =>
+        rows.reduce(
+          (totals, row) => totals.map((total, i) => total + (row.seconds[i] ?? 0)),
+          new Array<number>(zones.length).fill(0),
+        );
+      const toMinutes = (seconds: number[]) => seconds.map(s => Math.round(s / 60));
+
+      const weekly = weekKeys.map(week => {
+        const rows = perActivity.filter(row => row.week === week);
+        const seconds = sumZones(rows);
+        return {
+          weekStart: week,
+          runs: rows.length,
+          minutesPerZone: toMinutes(seconds),
+          totalMinutes: Math.round(seconds.reduce((sum, s) => sum + s, 0) / 60),
+          polarization: polarization(seconds),
+        };
+      });
+
+      const totalSeconds = sumZones(perActivity);
+      const overall = polarization(totalSeconds);
+      const weeksWithData = weekly.filter(w => w.totalMinutes > 0);
+      const compliantWeeks = weeksWithData.filter(w => w.polarization.compliant).length;
+      const streamRuns = perActivity.filter(row => row.method === "stream").length;
+
+      return {
+        structuredContent: {
+          zones: zoneModel.zones,
+          zoneSource: zoneModel.source,
+          maxHeartRate: zoneModel.maxHeartRate,
+          thresholdHeartRate: zoneModel.thresholdHeartRate,
+          weekly,
+          overall: {
+            minutesPerZone: toMinutes(totalSeconds),
+            totalMinutes: Math.round(totalSeconds.reduce((sum, s) => sum + s, 0) / 60),
+            polarization: overall,
+            target: POLARIZATION_TARGET,
+            compliantWeeks,
+            weeksWithData: weeksWithData.length,
+          },
+          coverage: {
+            totalRuns: activities.length,
+            runsWithHeartRate: perActivity.length,
+            fromStreams: streamRuns,
+            fromAverages: perActivity.length - streamRuns,
+            rateLimited,
+          },
+          truncated,
+          weekStart,
+          timezone: zone,
+        },
+        content: [
+          {
+            type: "text",
+            text: perActivity.length === 0
+              ? `No runs with heart rate data found in the last ${weeks} weeks.`
+              : `Heart rate zones (${zoneModel.source}) over ${weeks} weeks, ${perActivity.length} runs with heart rate (${streamRuns} from streams). Low/moderate/high intensity: ${Math.round(overall.low * 100)}% / ${Math.round(overall.moderate * 100)}% / ${Math.round(overall.high * 100)}%. ${overall.compliant ? "✅ Meets" : "⚠️ Below"} the 80/20 target; ${compliantWeeks} of ${weeksWithData.length} weeks compliant.${rateLimited ? " ⚠️ Strava rate limit reached - some runs were estimated from average heart rate." : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error analyzing heart rate zones:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error analyzing heart rate zones: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Integrated Widget: Predict Race Times
+server.registerWidget(
+  "predict_race_times",
+  {
+    description: `Predict 5K, 10K, half marathon and marathon times from the athlete's strongest recent efforts, with a confidence band. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Estimating race potential or choosing a goal time
+- Queries like: "What could I run a half marathon in?", "Predict my marathon time", "What's my 10K potential?"
+
+WHEN NOT TO USE:
+- Past race results or personal records → use fetch_activities
+- Fitness trend over time → use analyze_fitness_form
+
+WORKFLOW:
+- Single call fetches recent runs, reads Strava best efforts of the strongest ones, and displays predictions
+- No additional visualization needed (integrated prediction cards + source efforts)
+
+EXAMPLE QUERIES:
+- "What could I run a half marathon in?"
+- "Am I in shape for a sub-45 10K?"
+- "Predict my race times based on the last 3 months"
+
+METHOD: Each prediction blends Riegel's formula (T2 = T1 × (D2/D1)^1.06) and Daniels' VDOT from up to 3 of the strongest efforts, weighting efforts closer to the race distance more. The band widens with disagreement between efforts and with extrapolation; marathon predictions also widen when weekly volume is low.`,
+  },
+  {
+    description: "Predict 5K/10K/half marathon/marathon times from the athlete's strongest recent efforts using Riegel and VDOT models. Returns a central prediction, a confidence band and the source efforts used. The widget renders all predictions visually - DO NOT create markdown tables or list the predictions in your response. Provide commentary about race readiness and pacing advice only.",
+    inputSchema: {
+      days: z
+        .number()
+        .min(14)
+        .max(365)
+        .optional()
+        .default(90)
+        .describe("Number of days of recent runs to consider (default: 90)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ days, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    try {
+      const { data: activities, truncated } = await getActivitiesForDays(auth, days, false);
+
+      const weeklyDistanceKm = activities.reduce((sum, a) => sum + a.distance, 0) / 1000 / (days / 7);
+
+      // Best efforts need detailed activities; only fetch them for the strongest runs
+      const DETAIL_CANDIDATES = 8;
+      const candidates = activities
+        .filter(a => a.distance >= 1500 && a.moving_time > 0)
+        .sort((a, b) => vdotFromPerformance(b.distance, b.moving_time) - vdotFromPerformance(a.distance, a.moving_time))
+        .slice(0, DETAIL_CANDIDATES);
+      const { data: detailed, missingIds } = await getDetailedActivities(auth, candidates);
+
+      const result = predictRaceTimes(collectEfforts(detailed), weeklyDistanceKm, unitSystem);
+
+      if (!result) {
         return {
+          structuredContent: {
+            predictions: [],
+            sourceEfforts: [],
+            notes: [],
+            period: { days },
+            units: unitSystem,
+          },
           content: [
             {
               type: "text",
-              text: "❌ Error: Route data is required. Please provide the route data from generate_running_route.",
+              text: `No runs of at least ${formatDistanceInUnits(1500, unitSystem)} found in the last ${days} days to base predictions on.`,
             },
           ],
-          isError: true,
+          isError: false,
         };
       }
 
-      // Prepare GPX track points
-      const trackPoints = routeData.path.map((point, index) => {
-        // Try to get elevation from elevation profile
-        let elevation: number | undefined;
-        if (routeData.elevationProfile && routeData.elevationProfile.length > 0) {
-          // Find closest elevation point
-          const progress = index / routeData.path.length;
-          const elevIndex = Math.floor(
-            progress * routeData.elevationProfile.length
-          );
-          elevation = routeData.elevationProfile[elevIndex]?.elevation;
-        }
+      const predictions = result.predictions.map(p => ({
+        race: p.race,
+        name: p.name,
+        distance: distanceInUnits(p.distance, unitSystem, 2),
+        time: formatDuration(p.time),
+        timeSeconds: p.time,
+        range: { fast: formatDuration(p.low), slow: formatDuration(p.high) },
+        pace: paceInUnits(p.distance / p.time, unitSystem),
+        models: { riegel: formatDuration(p.riegel), vdot: formatDuration(p.vdot) },
+        confidence: p.confidence,
+      }));
+
+      const sourceEfforts = result.efforts.map(e => ({
+        label: e.label,
+        distance: distanceInUnits(e.distance, unitSystem, 2),
+        time: formatDuration(e.time),
+        pace: paceInUnits(e.distance / e.time, unitSystem),
+        vdot: e.vdot,
+        source: e.source,
+        activityId: e.activityId,
+        activityName: e.activityName,
+        date: e.date,
+      }));
 
-        return {
-          lat: point.lat,
-          lng: point.lng,
-          elevation,
-        };
-      });
+      return {
+        structuredContent: {
+          predictions,
+          vdot: result.vdot,
+          sourceEfforts,
+          notes: result.notes,
+          // Candidates still without best efforts count only as whole runs
+          detailsMissing: missingIds.length,
+          weeklyDistance: distanceInUnits(weeklyDistanceKm * 1000, unitSystem),
+          period: {
+            days,
+            from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+            to: new Date().toISOString().split('T')[0],
+          },
+          truncated,
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: `Race predictions (VDOT ${result.vdot}, from ${sourceEfforts.length} efforts): ${predictions.map(p => `${p.name} ${p.time} (${p.range.fast}-${p.range.slow}, ${p.confidence} confidence)`).join(", ")}.${result.notes.length > 0 ? ` Note: ${result.notes.join(" ")}` : ""}${missingIds.length > 0 ? ` Best efforts could not be loaded yet for ${missingIds.length} of ${candidates.length} candidate runs; those count as whole runs.` : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error predicting race times:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error predicting race times: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Tool: Get Weather Recommendation
+server.registerTool(
+  "get_weather_recommendation",
+  {
+    description: `Get weather-aware coaching recommendations using AI. Fetches current weather conditions and provides intelligent running advice based on temperature, precipitation, wind, humidity, and air quality.
+
+WHEN TO USE:
+- Planning today's run based on weather
+- Getting gear and timing recommendations
+- Understanding if conditions are safe for running
+- Queries like: "Should I run today?", "What's the weather like for running?", "Is it safe to run now?"
+
+WORKFLOW:
+1. Call this tool with location (or use Strava token to infer location)
+2. AI agent analyzes weather conditions
+3. Returns structured weather data + coaching recommendations
+
+EXAMPLE QUERIES:
+- "Should I run today in Paris?"
+- "What's the weather like for running?"
+- "Is it safe to run now?"
+- "What gear should I wear for today's run?"
+
+OUTPUT:
+- Current weather conditions (temperature, precipitation, wind, humidity, air quality)
+- Suitability rating (excellent/good/moderate/caution/not_recommended)
+- Recommendations (best time, gear, hydration, pace adjustment)
+- Warnings for unsafe conditions`,
+    inputSchema: {
+      location: z
+        .string()
+        .optional()
+        .describe("Location for weather check (city name or coordinates). If not provided, will try to infer from recent Strava activities."),
+      query: z
+        .string()
+        .optional()
+        .describe("Natural language query about running conditions (e.g., 'Should I run today?', 'What should I wear?')"),
+      timeframe: z
+        .enum(["now", "today", "week"])
+        .optional()
+        .default("now")
+        .describe("Timeframe for weather check: 'now' for current conditions, 'today' for today's forecast, 'week' for weekly forecast"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - used to infer location from recent activities if location not provided)"),
+    },
+  },
+  async ({ location, query, timeframe, units, token }, extra) => {
+    try {
+      // The athlete's profile only matters for the unit preference; no auth is required
+      const auth = units ? null : token ? await getManualAuth(token) : await getAuth(extra);
+      const unitSystem = resolveUnits(units, auth?.athlete);
+
+      // If no location provided, use a default
+      const weatherLocation = location || "Paris, France";
+
+      // Create Dust client
+      const dustClient = createDustClient();
+
+      // Prepare input for weather agent
+      const weatherInput: WeatherAgentInput = {
+        location: weatherLocation,
+        query: query || `What are the running conditions ${timeframe === "now" ? "right now" : timeframe === "today" ? "today" : "this week"}?`,
+        timeframe,
+      };
+
+      // Call weather agent
+      const weatherData = await callWeatherAgent(dustClient, weatherInput);
+
+      // Format response
+      const suitabilityEmoji = weatherData.suitability.emoji;
+      const suitabilityText = weatherData.suitability.rating.toUpperCase();
+      
+      let responseText = `${suitabilityEmoji} **Weather for Running in ${weatherData.location}**\n\n`;
+      responseText += `**Conditions:** ${weatherData.current.conditions}\n`;
+      responseText += `**Temperature:** ${formatTemperatureInUnits(weatherData.current.temperature_c, unitSystem)} (feels like ${formatTemperatureInUnits(weatherData.current.feels_like_c, unitSystem)})\n`;
+      responseText += `**Wind:** ${formatSpeedInUnits(weatherData.current.wind_speed_kmh, unitSystem)}\n`;
+      responseText += `**Humidity:** ${weatherData.current.humidity_percent}%\n`;
+      
+      if (weatherData.current.precipitation_mm > 0) {
+        responseText += `**Precipitation:** ${formatPrecipitationInUnits(weatherData.current.precipitation_mm, unitSystem)}\n`;
+      }
+      
+      if (weatherData.current.air_quality_index) {
+        responseText += `**Air Quality:** ${weatherData.current.air_quality_index} (${weatherData.current.air_quality_index < 50 ? "Good" : weatherData.current.air_quality_index < 100 ? "Moderate" : "Poor"})\n`;
+      }
+      
+      responseText += `\n**Suitability:** ${suitabilityText} (${weatherData.suitability.score}/100)\n\n`;
+      responseText += `**Recommendations:**\n`;
+      responseText += `- **Best Time:** ${weatherData.recommendations.best_time}\n`;
+      responseText += `- **Gear:** ${weatherData.recommendations.gear.join(", ")}\n`;
+      responseText += `- **Hydration:** ${weatherData.recommendations.hydration}\n`;
+      
+      if (weatherData.recommendations.pace_adjustment !== 0) {
+        const adjustment = weatherData.recommendations.pace_adjustment > 0 ? "slower" : "faster";
+        responseText += `- **Pace Adjustment:** ${Math.abs(weatherData.recommendations.pace_adjustment)}% ${adjustment}\n`;
+      }
+      
+      if (weatherData.warnings.length > 0) {
+        responseText += `\n⚠️ **Warnings:**\n`;
+        weatherData.warnings.forEach(warning => {
+          responseText += `- ${warning}\n`;
+        });
+      }
+      
+      responseText += `\n**Analysis:** ${weatherData.reasoning}`;
+
+      return {
+        structuredContent: {
+          weather: weatherData,
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "dust-weather-agent",
+            location: weatherData.location,
+            timeframe,
+            // Weather fields keep their metric suffixes (_c, _kmh, _mm); the text uses these units
+            units: unitSystem,
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error("Error getting weather recommendation:", error);
+      return dustErrorResponse(error);
+    }
+  },
+);
+
+// Tool: Generate Running Route
+server.registerTool(
+  "generate_running_route",
+  {
+    description: `Generate custom running routes with LLM-controlled parameters. Creates 2-3 route variations based on distance, location, and preferences.
+
+⚠️ IMPORTANT: After calling this tool, ALWAYS visualize ALL generated routes using render_route_map for EACH route. The user needs to see the routes on a map to choose which one to export.
+
+WHEN TO USE:
+- User wants a custom route for a specific distance
+- User wants to include specific landmarks ("along the Seine")
+- User wants to avoid certain areas ("avoid busy streets")
+- User wants scenic or safe routes
+- Queries like: "Generate a 10k route", "Create a route through Central Park", "Find a scenic 15k"
+
+WORKFLOW:
+1. Call this tool to generate 2-3 route options
+2. For EACH route returned, call render_route_map to display it visually
+3. User can then choose which route to export to Strava
+
+LLM CONTROL:
+ChatGPT can extract semantic parameters from natural language:
+- "10k along the Seine" → mustInclude: ["Seine River"]
+- "avoiding busy streets" → trafficLevel: "low"
+- "make it more scenic" → scenicPriority: 90
+- "with some hills" → elevationPreference: "moderate"
+
+OUTPUT:
+- 2-3 route variations with different characteristics
+- Each route includes: distance, elevation, difficulty, highlights
+- GPS path, polyline (for Strava), turn-by-turn directions
+- Points of interest, safety score, scenic score`,
+    inputSchema: {
+      distance: z
+        .number()
+        .min(1)
+        .max(50)
+        .describe("Distance in kilometers (1-50km), or miles with imperial units (up to 31mi)"),
+      location: z
+        .string()
+        .describe("Starting location (city, neighborhood, or landmark)"),
+      terrain: z
+        .enum(["flat", "hilly", "mixed"])
+        .optional()
+        .describe("Preferred terrain type"),
+      preferences: z
+        .enum(["park", "waterfront", "urban", "trail"])
+        .optional()
+        .describe("Route environment preference"),
+      intensity: z
+        .enum(["easy", "moderate", "challenging"])
+        .optional()
+        .describe("Desired intensity level"),
+      mustInclude: z
+        .array(z.string())
+        .optional()
+        .describe("Landmark names that must be included in the route (e.g., ['Eiffel Tower', 'Seine River'])"),
+      avoidAreas: z
+        .array(z.string())
+        .optional()
+        .describe("Area names to avoid (e.g., ['Champs-Élysées', 'busy downtown'])"),
+      scenicPriority: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Scenic optimization priority (0-100, higher = more scenic)"),
+      safetyPriority: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe("Safety optimization priority (0-100, higher = safer)"),
+      trafficLevel: z
+        .enum(["low", "medium", "high"])
+        .optional()
+        .describe("Preferred traffic level (low = pedestrian paths, parks)"),
+      elevationPreference: z
+        .enum(["minimize", "maximize", "moderate"])
+        .optional()
+        .describe("Hill preference (minimize = flat, maximize = hilly)"),
+      enrichPOIs: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Enrich POIs with web search for runner amenities, safety info, tips (slower but more informative)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - only used to read the athlete's unit preference)"),
+    },
+  },
+  async ({
+    distance,
+    location,
+    terrain,
+    preferences,
+    intensity,
+    mustInclude,
+    avoidAreas,
+    scenicPriority,
+    safetyPriority,
+    trafficLevel,
+    elevationPreference,
+    enrichPOIs,
+    units,
+    token,
+  }, extra) => {
+    try {
+      // The athlete's profile only matters for the unit preference; no auth is required
+      const auth = units ? null : token ? await getManualAuth(token) : await getAuth(extra);
+      const unitSystem = resolveUnits(units, auth?.athlete);
+      const distanceKm = distanceToMeters(distance, unitSystem) / 1000;
+
+      if (distanceKm > 50) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Routes are limited to ${formatDistanceInUnits(50000, unitSystem)}. Please request a shorter distance.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const mapboxToken = process.env.MAPBOX_API_KEY;
+
+      if (!mapboxToken) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "❌ Mapbox API key not configured. Please set MAPBOX_API_KEY in your environment variables.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Build route request
+      const request: RouteRequest = {
+        distance: distanceKm,
+        location,
+        terrain,
+        preferences,
+        intensity,
+        mustInclude,
+        avoidAreas,
+        scenicPriority,
+        safetyPriority,
+        trafficLevel,
+        elevationPreference,
+        enrichPOIs,
+        units: unitSystem,
+      };
+
+      // Generate routes
+      let routes = await generateRoutes(request, mapboxToken);
+
+      // Optional: Enrich POIs with Dust agent web search
+      if (enrichPOIs) {
+        try {
+          const dustClient = createDustClient();
+          routes = await enrichPOIsWithDust(routes, location, dustClient);
+        } catch (error) {
+          console.warn("POI enrichment failed, continuing with basic POIs:", error);
+          // Continue with non-enriched routes
+        }
+      }
+
+      // Format response
+      let responseText = `🗺️ **Generated ${routes.length} Route Options for ${location}**\n\n`;
+
+      routes.forEach((route, index) => {
+        responseText += `**Option ${index + 1}: ${route.name}**\n`;
+        responseText += `- Distance: ${formatDistanceInUnits(route.distance * 1000, unitSystem)}\n`;
+        responseText += `- Elevation Gain: ${formatElevationInUnits(route.elevationGain, unitSystem)}\n`;
+        responseText += `- Difficulty: ${route.difficulty}\n`;
+        responseText += `- Safety Score: ${route.safetyScore}/100\n`;
+        responseText += `- Scenic Score: ${route.scenicScore}/100\n`;
+        responseText += `- Traffic Level: ${route.trafficLevel}\n`;
+
+        if (route.highlights.length > 0) {
+          responseText += `- Highlights:\n`;
+          route.highlights.forEach((highlight) => {
+            responseText += `  • ${highlight}\n`;
+          });
+        }
+
+        if (route.pointsOfInterest.length > 0) {
+          responseText += `- Points of Interest:\n`;
+          route.pointsOfInterest.forEach((poi) => {
+            responseText += `  • ${poi.name}`;
+            if (poi.runnerInfo) {
+              responseText += ` - ${poi.runnerInfo}`;
+            }
+            if (poi.tips) {
+              responseText += ` (${poi.tips})`;
+            }
+            responseText += `\n`;
+          });
+        }
+
+        responseText += `\n`;
+      });
+
+      responseText += `\n💡 **Tip:** Use \`download_route_gpx\` to download the route as a GPX file for your GPS device or Strava.`;
+
+      return {
+        structuredContent: {
+          routes,
+          metadata: {
+            generatedAt: new Date().toISOString(),
+            source: "mapbox",
+            request,
+            // Route distances stay in km and elevations in m (render_route_map and
+            // download_route_gpx take them as-is); pass units on to display them
+            units: unitSystem,
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error("Error generating routes:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Error generating routes: ${error instanceof Error ? error.message : "Unknown error"}. Please try a different location or parameters.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Tool: Export Route to Strava
+// Tool: Download Route as GPX
+server.registerTool(
+  "download_route_gpx",
+  {
+    description: `Download a generated route as a GPX file. Creates a GPX file from route data that can be imported into Strava, Garmin, or any GPS device.
+
+WHEN TO USE:
+- User wants to download a route for their GPS device
+- User wants to import a route into Strava manually
+- User wants to save a route for later use
+- Queries like: "Download this route", "Save as GPX", "Export route file", "Give me the GPX"
+
+WORKFLOW:
+1. User generates routes with generate_running_route
+2. User selects a route they like
+3. Call this tool with the route data
+4. Tool creates GPX file and provides download link
+
+REQUIREMENTS:
+- Route data (from generate_running_route output)
+
+OUTPUT:
+- GPX file content (can be saved directly)
+- Download instructions
+- File name suggestion`,
+    inputSchema: {
+      routeData: z
+        .object({
+          name: z.string(),
+          distance: z.number(),
+          elevationGain: z.number(),
+          path: z.array(
+            z.object({
+              lat: z.number(),
+              lng: z.number(),
+            })
+          ),
+          elevationProfile: z
+            .array(
+              z.object({
+                distance: z.number(),
+                elevation: z.number(),
+              })
+            )
+            .optional(),
+        })
+        .describe("Route data object from generate_running_route"),
+      fileName: z
+        .string()
+        .optional()
+        .describe("Custom file name (defaults to route name)"),
+      description: z
+        .string()
+        .optional()
+        .describe("Description for the route"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - only used to read the athlete's unit preference)"),
+    },
+  },
+  async ({ routeData, fileName, description, units, token }, extra) => {
+    try {
+      // The athlete's profile only matters for the unit preference; no auth is required
+      const auth = units ? null : token ? await getManualAuth(token) : await getAuth(extra);
+      const unitSystem = resolveUnits(units, auth?.athlete);
+
+      // Import GPX utilities
+      const { generateGPX, validateGPX, describeRoute } = await import("./routes/gpx.js");
+
+      // Validate input
+      if (!routeData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "❌ Error: Route data is required. Please provide the route data from generate_running_route.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Prepare GPX track points
+      const trackPoints = routeData.path.map((point, index) => {
+        // Try to get elevation from elevation profile
+        let elevation: number | undefined;
+        if (routeData.elevationProfile && routeData.elevationProfile.length > 0) {
+          // Find closest elevation point
+          const progress = index / routeData.path.length;
+          const elevIndex = Math.floor(
+            progress * routeData.elevationProfile.length
+          );
+          elevation = routeData.elevationProfile[elevIndex]?.elevation;
+        }
+
+        return {
+          lat: point.lat,
+          lng: point.lng,
+          elevation,
+        };
+      });
+
+      // Generate GPX
+      const gpxName = fileName || routeData.name;
+      const gpxDescription =
+        description ||
+        `${describeRoute(routeData.distance, routeData.elevationGain, unitSystem)} Generated by Strava Running Coach.`;
+
+      const gpxContent = generateGPX(trackPoints, {
+        name: gpxName,
+        description: gpxDescription,
+        author: "Strava Running Coach",
+        time: new Date().toISOString(),
+      });
+
+      // Validate GPX
+      if (!validateGPX(gpxContent)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "❌ Error: Generated GPX file is invalid. Please try again.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Create safe filename
+      const safeFileName = gpxName
+        .replace(/[^a-z0-9]/gi, "_")
+        .toLowerCase();
+      const suggestedFileName = `${safeFileName}.gpx`;
+
+      return {
+        structuredContent: {
+          success: true,
+          gpxContent,
+          fileName: suggestedFileName,
+          routeName: gpxName,
+          distance: routeData.distance,
+          elevationGain: routeData.elevationGain,
+          fileSize: new Blob([gpxContent]).size,
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: `✅ **GPX File Ready!**\n\n**Route:** ${gpxName}\n**Distance:** ${formatDistanceInUnits(routeData.distance * 1000, unitSystem)}\n**Elevation Gain:** ${formatElevationInUnits(routeData.elevationGain, unitSystem)}\n**File Size:** ${Math.round(new Blob([gpxContent]).size / 1024)}KB\n\n📥 **Download Instructions:**\n1. Copy the GPX content below\n2. Save it as \`${suggestedFileName}\`\n3. Import into Strava, Garmin Connect, or your GPS device\n\n**GPX Content:**\n\`\`\`xml\n${gpxContent}\n\`\`\`\n\n💡 **Tip:** You can also upload this file directly to Strava by going to strava.com → Upload → Manual Upload`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error("Error generating GPX:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Error generating GPX file: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool: Download Workouts as iCalendar
+server.registerTool(
+  "download_training_calendar",
+  {
+    description: `Download planned workouts as an iCalendar (.ics) file. Each workout becomes an all-day event with its description, target pace and an optional link to the route's GPX file, ready to import into Google Calendar, Apple Calendar or Outlook.
+
+WHEN TO USE:
+- User wants their training plan or workouts in their calendar
+- Queries like: "Add my plan to my calendar", "Export these workouts", "Give me an .ics file", "Put this workout on Thursday"
+
+WORKFLOW:
+1. User creates workouts with generate_training_plan
+2. Pass every workout from the plan's weeks (or just the ones the user wants)
+3. Optionally attach a route GPX link to a workout (routeUrl)
+4. Tool creates the ICS file and provides import instructions
+
+REQUIREMENTS:
+- At least one workout with a date (YYYY-MM-DD) and title
+
+OUTPUT:
+- ICS file content (can be saved directly)
+- Import instructions
+- File name suggestion`,
+    inputSchema: {
+      workouts: z
+        .array(
+          z.object({
+            date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe("Workout day (YYYY-MM-DD)"),
+            title: z.string(),
+            type: z.string().optional(),
+            distance: z.number().optional().describe("Distance in km, or mi with imperial units"),
+            targetPace: z.string().optional().describe("Target pace as min:sec per km (or per mile)"),
+            description: z.string().optional(),
+            routeUrl: z.string().url().optional().describe("Link to the route's GPX file"),
+          })
+        )
+        .min(1)
+        .describe("Workouts to export, e.g. the workouts from generate_training_plan weeks"),
+      calendarName: z
+        .string()
+        .optional()
+        .describe('Calendar name (default: "Training Plan")'),
+      fileName: z
+        .string()
+        .optional()
+        .describe("Custom file name (defaults to the calendar name)"),
+      routeUrl: z
+        .string()
+        .url()
+        .optional()
+        .describe("GPX link attached to every workout that doesn't have its own routeUrl"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system of the workout distances and paces: "metric" (km, min/km) or "imperial" (mi, min/mi). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - only used to read the athlete's unit preference)"),
+    },
+  },
+  async ({ workouts, calendarName, fileName, routeUrl, units, token }, extra) => {
+    try {
+      // The athlete's profile only matters for the unit preference; no auth is required
+      const auth = units ? null : token ? await getManualAuth(token) : await getAuth(extra);
+      const unitSystem = resolveUnits(units, auth?.athlete);
+
+      // Import ICS utilities
+      const { generateICS, validateICS, workoutToEvent } = await import("./routes/ics.js");
+
+      const sorted = [...workouts].sort((a, b) => a.date.localeCompare(b.date));
+      const events = sorted.map((workout) =>
+        workoutToEvent({ ...workout, routeUrl: workout.routeUrl ?? routeUrl }, unitSystem)
+      );
+
+      // Generate ICS
+      const name = calendarName || "Training Plan";
+      const icsContent = generateICS(events, {
+        name,
+        description: `${events.length} workouts from ${sorted[0].date} to ${sorted[sorted.length - 1].date}. Generated by Strava Running Coach.`,
+        time: new Date().toISOString(),
+      });
+
+      // Validate ICS
+      if (!validateICS(icsContent)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "❌ Error: Generated calendar file is invalid. Please try again.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Create safe filename
+      const safeFileName = (fileName || name)
+        .replace(/[^a-z0-9]/gi, "_")
+        .toLowerCase();
+      const suggestedFileName = `${safeFileName}.ics`;
+      const withRoutes = events.filter((event) => event.url).length;
+
+      return {
+        structuredContent: {
+          success: true,
+          icsContent,
+          fileName: suggestedFileName,
+          mimeType: "text/calendar",
+          calendarName: name,
+          events: events.length,
+          firstDate: sorted[0].date,
+          lastDate: sorted[sorted.length - 1].date,
+          withRoutes,
+          fileSize: new Blob([icsContent]).size,
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: `✅ **Calendar File Ready!**\n\n**Calendar:** ${name}\n**Workouts:** ${events.length} (${sorted[0].date} → ${sorted[sorted.length - 1].date})${withRoutes > 0 ? `\n**With route links:** ${withRoutes}` : ""}\n**File Size:** ${Math.max(1, Math.round(new Blob([icsContent]).size / 1024))}KB\n\n📥 **Import Instructions:**\n1. Copy the calendar content below\n2. Save it as \`${suggestedFileName}\`\n3. Import it: Google Calendar → Settings → Import, Apple Calendar → File → Import, or open it in Outlook\n\n**ICS Content:**\n\`\`\`\n${icsContent}\n\`\`\`\n\n💡 **Tip:** Import into a separate calendar so you can hide or remove the whole plan at once.`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error("Error generating calendar:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Error generating calendar file: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+
+// Tool: Build Structured Workout
+server.registerTool(
+  "build_workout",
+  {
+    description: `Build a structured workout (warm-up, interval sets with repeats, recovery, cool-down) with pace or heart-rate targets and export it as TCX and FIT workout files that can be loaded onto a Garmin, Coros, Wahoo or other GPS watch.
+
+WHEN TO USE:
+- User wants a session on their watch, with the watch guiding each rep
+- Queries like: "Put 6x800 at 3:50 on my watch", "Build me a tempo workout file", "Export this workout to Garmin", "Make a FIT file for my intervals"
+- Exporting a workout from generate_training_plan to a device
+
+WHEN NOT TO USE:
+- Routes to follow → use download_route_gpx
+- Putting workouts in a calendar → use download_training_calendar
+
+PARAMETERS (short text, read in the athlete's units):
+- Lengths: "800m", "2 km", "1 mi", bare numbers in km (or mi), times "10:00", "90s", "12 min", or "lap" (until the lap button)
+- Targets: pace "4:05" (±5 s), "4:00-4:10", "7:30/mi"; heart rate "150-160 bpm", "145 bpm" (±5)
+- Each interval set has repeats, a length, an optional target and an optional recovery length between repeats
+
+VALIDATION:
+- At most ${MAX_WORKOUT_STEPS} steps (a repeat block counts as one step plus the steps inside it)
+- Paces between 2:00 and 15:00 per km, heart rates between 60 and 230 bpm
+
+OUTPUT:
+- TCX workout content and FIT workout file (base64)
+- Step-by-step description, planned distance and time
+- File name suggestions`,
+    inputSchema: {
+      name: z.string().describe('Workout name, e.g. "6x800m" (devices may shorten it to 15 characters)'),
+      warmup: z
+        .object({
+          length: z.string(),
+          target: z.string().optional(),
+        })
+        .optional()
+        .describe('Warm-up, e.g. { length: "2 km" } or { length: "10:00", target: "130-145 bpm" }'),
+      intervals: z
+        .array(
+          z.object({
+            repeats: z.number().int().min(1).describe("Number of repeats (1 for a single continuous block)"),
+            length: z.string().describe('Length of each repeat: "800m", "1 mi", "3:00", "20 min"'),
+            target: z.string().optional().describe('Pace or heart rate: "3:50-4:00", "6:15/mi", "165-172 bpm"'),
+            recovery: z.string().optional().describe('Recovery between repeats: "400m", "90s", "lap"'),
+            recoveryTarget: z.string().optional().describe("Pace or heart rate for the recovery"),
+          })
+        )
+        .min(1)
+        .describe("Main set(s), in order"),
+      cooldown: z
+        .object({
+          length: z.string(),
+          target: z.string().optional(),
+        })
+        .optional()
+        .describe('Cool-down, e.g. { length: "2 km" } or { length: "lap" }'),
+      notes: z.string().optional().describe("Notes stored with the workout"),
+      format: z
+        .enum(["tcx", "fit", "both"])
+        .optional()
+        .default("both")
+        .describe('File format: "tcx", "fit" or "both" (default)'),
+      fileName: z
+        .string()
+        .optional()
+        .describe("Custom file name without extension (defaults to the workout name)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system for lengths and paces without a unit: "metric" (km, min/km) or "imperial" (mi, min/mi). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - only used to read the athlete's unit preference)"),
+    },
+  },
+  async ({ name, warmup, intervals, cooldown, notes, format, fileName, units, token }, extra) => {
+    try {
+      // The athlete's profile only matters for the unit preference; no auth is required
+      const auth = units ? null : token ? await getManualAuth(token) : await getAuth(extra);
+      const unitSystem = resolveUnits(units, auth?.athlete);
+
+      // Import workout file utilities
+      const { generateTCXWorkout, validateTCXWorkout } = await import("./routes/tcx.js");
+      const { generateFITWorkout, validateFIT } = await import("./routes/fit.js");
+
+      const workout = buildWorkout({ name, warmup, intervals, cooldown, notes }, unitSystem);
+      const description = describeStructuredWorkout(workout, unitSystem);
+      const totals = workoutTotals(workout);
+
+      const tcxContent = format !== "fit" ? generateTCXWorkout(workout) : undefined;
+      const fitBytes = format !== "tcx" ? generateFITWorkout(workout) : undefined;
+
+      // Validate files
+      if ((tcxContent && !validateTCXWorkout(tcxContent)) || (fitBytes && !validateFIT(fitBytes))) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "❌ Error: Generated workout file is invalid. Please try again.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Create safe filename
+      const safeFileName = (fileName || workout.name)
+        .replace(/[^a-z0-9]/gi, "_")
+        .toLowerCase();
+      const fitBase64 = fitBytes ? Buffer.from(fitBytes).toString("base64") : undefined;
+
+      let responseText = `✅ **Workout Ready!**\n\n**Workout:** ${workout.name}\n**Steps:** ${description}\n`;
+      if (totals.distance > 0) {
+        responseText += `**Planned Distance:** ${formatDistanceInUnits(totals.distance, unitSystem)}${totals.duration > 0 ? ` (~${formatDuration(totals.duration)})` : ""}\n`;
+      }
+      responseText += `\n📥 **Download Instructions:**\n`;
+      if (tcxContent) {
+        responseText += `- **TCX:** save the content below as \`${safeFileName}.tcx\` and import it in Garmin Connect (Training → Workouts → Import)\n`;
+      }
+      if (fitBase64) {
+        responseText += `- **FIT:** decode the base64 below into \`${safeFileName}.fit\` and copy it to the watch's NewFiles folder (Garmin) or import it in your watch app\n`;
+      }
+      if (tcxContent) {
+        responseText += `\n**TCX Content:**\n\`\`\`xml\n${tcxContent}\`\`\`\n`;
+      }
+      if (fitBase64) {
+        responseText += `\n**FIT File (base64):**\n\`\`\`\n${fitBase64}\n\`\`\`\n`;
+      }
+
+      return {
+        structuredContent: {
+          success: true,
+          workout,
+          description,
+          stepCount: countSteps(workout),
+          plannedDistance: distanceInUnits(totals.distance, unitSystem, 2),
+          plannedDuration: totals.duration > 0 ? formatDuration(totals.duration) : null,
+          tcxContent,
+          fitBase64,
+          files: [
+            ...(tcxContent
+              ? [{ format: "tcx", fileName: `${safeFileName}.tcx`, mimeType: "application/vnd.garmin.tcx+xml", fileSize: new Blob([tcxContent]).size }]
+              : []),
+            ...(fitBytes
+              ? [{ format: "fit", fileName: `${safeFileName}.fit`, mimeType: "application/vnd.ant.fit", fileSize: fitBytes.length }]
+              : []),
+          ],
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      if (error instanceof WorkoutValidationError) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Invalid workout: ${error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      console.error("Error building workout:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Error building workout: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+
+// Widget 1: Training Summary
+server.registerWidget(
+  "get_training_summary",
+  {
+    description: `Analyze recent running activities. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Quick training overview for recent period
+- Queries like: "How's my training?", "Summarize my week", "Show me my recent runs", "What did I do this week?"
+- This is FASTER than fetch_activities + manual analysis
+
+WHEN NOT TO USE:
+- Custom date ranges beyond simple "last N days"
+- Need raw data for complex analysis → use fetch_activities
+- Comparing specific runs → use get_run_comparison
+- Need specific visualizations → use data tools + render_* widgets
+
+WORKFLOW:
+- Single call returns complete summary with stats, runs list, and insights
+- No additional visualization needed (integrated UI)
+
+EXAMPLE QUERIES:
+- "How's my training looking this week?"
+- "Summarize my last 7 days of running"
+- "Show me my recent training"
+- "What have I been doing lately?"
+- "Summarize my week including rides and hikes" → sportTypes=["All"]
+
+PERSONAL RECORDS: newPersonalRecords lists PRs set during the period. When it is not empty, celebrate them in your reply and offer show_pr_board.
+
+RUN TYPES: each run has a runType (recovery, easy, long, tempo, intervals, race) with a 0-1 runTypeConfidence, and byRunType counts them. Use them to comment on the mix of easy and hard days; hedge on low-confidence labels.`,
+  },
+  {
+    description: "Analyze recent running activities from Strava. ALWAYS fetch data from Strava API - NEVER ask user to provide training data manually. All data comes from their connected Strava account. The widget renders all data visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
+    inputSchema: {
+      days: z
+        .number()
+        .optional()
+        .default(7)
+        .describe("Number of days to analyze (default: 7)"),
+      sportTypes: z
+        .array(z.string())
+        .optional()
+        .describe('Strava sport types to include, e.g. ["Run", "TrailRun", "Ride", "Walk", "Hike"]. Use ["All"] for every sport (default: running types: Run, TrailRun, VirtualRun)'),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ days, sportTypes, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+    
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
+
+    try {
+      // Calculate date range
+      const endDate = new Date();
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      // Fetch the requested date range, plus enough history to classify run types
+      const historyStart = new Date();
+      historyStart.setDate(historyStart.getDate() - Math.max(days, CLASSIFICATION_HISTORY_DAYS));
+      const afterTimestamp = Math.floor(historyStart.getTime() / 1000);
+      const { data: allActivities } = await getActivities(auth, {
+        after: afterTimestamp,
+        sportTypes,
+      });
+
+      // Filter to requested date range
+      const activities = filterActivitiesByDateRange(
+        allActivities,
+        startDate,
+        endDate,
+      );
+
+      // Calculate stats
+      const totalDistance = distanceInUnits(
+        activities.reduce((sum, a) => sum + a.distance, 0),
+        unitSystem,
+      );
+      const totalRuns = activities.length;
+      // Pace is only comparable between runs
+      const avgPace = calculateAveragePace(activities.filter(isRun), unitSystem);
+      const totalTime = Math.round(
+        activities.reduce((sum, a) => sum + a.moving_time / 60, 0),
+      );
+
+      // Classify runs against the athlete's usual runs and heart rate zones
+      const history = allActivities.filter(isRun);
+      const { zones: athleteZones } = await getAthleteZonesIfAvailable(auth);
+      const { zones } = resolveHeartRateZones(athleteZones?.heart_rate?.zones, history);
+      const context = classificationContext(history, zones);
+
+      const withLaps = new Map(
+        (await withCandidateLaps(auth, activities.filter(isRun), context)).map(a => [a.id, a]),
+      );
+
+      // Convert activities to summary format
+      const byRunType: Partial<Record<RunType, number>> = {};
+      const runs = activities.map(a => {
+        if (!isRun(a)) return activityToSummary(a, unitSystem);
+        const { type, confidence } = classifyRun(withLaps.get(a.id) ?? a, context);
+        byRunType[type] = (byRunType[type] ?? 0) + 1;
+        return { ...activityToSummary(a, unitSystem), runType: type, runTypeConfidence: confidence };
+      });
+
+      // PRs flagged when these runs synced, so the coach can celebrate them unprompted
+      const newPersonalRecords = (
+        await getNewRecords(auth, startDate.toISOString().split("T")[0])
+      ).map(r => recordToSummary(r, unitSystem));
+
+      return {
+        structuredContent: {
+          period: {
+            start: startDate.toISOString().split("T")[0],
+            end: endDate.toISOString().split("T")[0],
+          },
+          stats: {
+            totalDistance,
+            totalRuns,
+            avgPace,
+            totalTime,
+          },
+          runs,
+          byRunType,
+          bySport: summarizeBySport(activities, unitSystem),
+          newPersonalRecords,
+          units: unitSystem,
+          // LLM will generate these based on the data
+          insight: "",
+          encouragement: "",
+        },
+        content: [
+          {
+            type: "text",
+            text: `Training summary for last ${days} days: ${totalRuns} ${sportTypes ? "activities" : "runs"}, ${totalDistance}${labels.distance} total, ${avgPace}${labels.pace} average pace.${Object.keys(byRunType).length > 0 ? ` Run types: ${RUN_TYPES.filter(type => byRunType[type]).map(type => `${byRunType[type]} ${type}`).join(", ")}.` : ""}${newPersonalRecords.length > 0 ? ` 🎉 New PR${newPersonalRecords.length > 1 ? "s" : ""}: ${newPersonalRecords.map(r => `${r.name} ${r.time} (${r.improvementSeconds}s faster${r.scope === "12_months" ? ", best in 12 months" : ""}) on ${r.date}`).join(", ")} - congratulate the athlete!` : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+      
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+      
+      console.error("Error fetching training summary:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching training data: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Integrated Widget: Personal Records Board
+server.registerWidget(
+  "show_pr_board",
+  {
+    description: `Show the athlete's personal records board: fastest 1K, mile, 5K, 10K, half marathon and marathon, all-time and for the last 12 months, with recently set PRs highlighted. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Showing or celebrating the athlete's PRs
+- After get_training_summary reports newPersonalRecords - show the board to celebrate them
+- Queries like: "Show me my PRs", "What are my personal bests?", "Show my records board"
+
+WHEN NOT TO USE:
+- Need records as raw data → use get_personal_records
+- Predicting race times → use predict_race_times
+
+WORKFLOW:
+- Single call scans activities for records and displays the board
+- No additional visualization needed (integrated record cards)
+
+EXAMPLE QUERIES:
+- "Show me my personal records"
+- "What are my best times at each distance?"
+- "Did I PR recently?"`,
+  },
+  {
+    description: "Show the athlete's personal records board (all-time and last 12 months) with recent PRs highlighted. The widget renders all records visually - DO NOT create markdown tables or list the records in your response. Provide congratulations and commentary only.",
+    inputSchema: {
+      days: z
+        .number()
+        .min(30)
+        .max(3650)
+        .optional()
+        .default(1825)
+        .describe("How far back (in days) to look for records (default: 1825, about 5 years)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ days, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    try {
+      const { data: activities, truncated } = await getActivitiesForDays(auth, days, false);
+
+      const SCAN_BUDGET = 30;
+      const records = await getPersonalRecords(auth, activities, SCAN_BUDGET);
+
+      // Highlight PRs set in the last 30 days
+      const recentSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const recentRecords = records.newRecords
+        .filter(r => r.date >= recentSince)
+        .map(r => recordToSummary(r, unitSystem));
+
+      const board = RECORD_DISTANCES.map(d => {
+        const allTime = records.allTime.find(r => r.distance === d.key);
+        const last12Months = records.last12Months.find(r => r.distance === d.key);
+        return {
+          distance: d.key,
+          name: d.name,
+          allTime: allTime ? recordToSummary(allTime, unitSystem) : null,
+          last12Months: last12Months ? recordToSummary(last12Months, unitSystem) : null,
+          isNew: recentRecords.some(r => r.distance === d.key && r.scope === "all_time"),
+        };
+      });
+
+      return {
+        structuredContent: {
+          board,
+          recentRecords,
+          coverage: {
+            scannedActivities: records.scannedActivities,
+            remainingActivities: records.scan.remaining,
+            rateLimited: records.scan.rateLimited,
+          },
+          period: {
+            days,
+            from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+            to: new Date().toISOString().split('T')[0],
+          },
+          truncated,
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: records.allTime.length > 0
+              ? `PR board: ${board.filter(b => b.allTime).map(b => `${b.name} ${b.allTime!.time}${b.last12Months && b.last12Months.timeSeconds !== b.allTime!.timeSeconds ? ` (12 months: ${b.last12Months.time})` : ""}`).join(", ")}.${recentRecords.length > 0 ? ` 🎉 Recent PRs: ${recentRecords.map(r => `${r.name} ${r.time} on ${r.date}`).join(", ")}.` : ""}${records.scan.remaining > 0 ? ` ${records.scan.remaining} older activities not scanned yet.` : ""}`
+              : `No personal records found yet among ${activities.length} activities in the last ${days} days.`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error building PR board:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error loading personal records: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Widget 2: Compare Training Weeks
+server.registerWidget(
+  "compare_training_weeks",
+  {
+    description: `Compare training weeks. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Week-over-week training comparison
+- Queries like: "Am I improving?", "How does this week compare?", "Show me my progress", "Compare this week to last week"
+- Trends over several weeks: "Compare my last 6 weeks" → weeks=6
+- This is FASTER than fetch_activities + manual comparison
+
+WHEN NOT TO USE:
+- Comparing specific runs (not weeks) → use get_run_comparison
+- Need custom date ranges → use fetch_activities
+- Need detailed pace analysis → use calculate_pace_distribution
+
+WORKFLOW:
+- Single call returns complete comparison with deltas, trends, and analysis
+- No additional visualization needed (integrated UI)
+
+WEEKS: Activities are bucketed by the athlete's local calendar day. Weeks start on Monday by default (weekStart="sunday" for Sunday-start weeks). "This week" is determined in the timezone of the athlete's most recent activity unless timezone is given. Changes and trend compare the last two weeks; with weeks > 2 every week is listed with its change from the week before.
+
+EXAMPLE QUERIES:
+- "Am I improving week over week?"
+- "How does this week compare to last week?"
+- "Show me my training progress"
+- "Compare my current week to previous week"
+- "How has my mileage changed over the last 8 weeks?" → weeks=8
+- "Did my cross-training go up this week?" → sportTypes=["All"]`,
+  },
+  {
+    description: "Show week-over-week training progress from Strava. ALWAYS fetch data from Strava API - NEVER ask user to provide training data manually. All data comes from their connected Strava account. The widget renders all comparison data visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
+    inputSchema: {
+      currentWeekStart: z
+        .string()
+        .optional()
+        .describe("Any date (YYYY-MM-DD) in the most recent week to compare (defaults to the current week)"),
+      weeks: z
+        .number()
+        .int()
+        .min(2)
+        .max(12)
+        .optional()
+        .default(2)
+        .describe("Number of consecutive weeks to compare, ending with the current week (default: 2, max: 12)"),
+      weekStart: z
+        .enum(["monday", "sunday"])
+        .optional()
+        .default(DEFAULT_WEEK_START)
+        .describe('First day of the week: "monday" (default) or "sunday"'),
+      timezone: z
+        .string()
+        .optional()
+        .describe('IANA timezone used to determine the current week, e.g. "America/New_York" (default: timezone of the athlete\'s most recent activity)'),
+      sportTypes: z
+        .array(z.string())
+        .optional()
+        .describe('Strava sport types to include, e.g. ["Run", "TrailRun", "Ride", "Walk", "Hike"]. Use ["All"] for every sport (default: running types: Run, TrailRun, VirtualRun)'),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ currentWeekStart, weeks, weekStart, timezone, sportTypes, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+    
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    try {
+      if (currentWeekStart && !/^\d{4}-\d{2}-\d{2}$/.test(currentWeekStart)) {
+        throw new Error(`Invalid currentWeekStart "${currentWeekStart}". Use YYYY-MM-DD.`);
+      }
+
+      // The current week can only be placed once the timezone is known, so
+      // fetch a day beyond the widest possible window and bucket afterwards
+      const utcToday = todayKey("UTC");
+      const latestKey = currentWeekStart && currentWeekStart < utcToday ? currentWeekStart : utcToday;
+      const { data: allActivities } = await getActivities(auth, {
+        after: afterTimestampForDateKey(addDays(weekStartKey(latestKey, weekStart), -7 * weeks)),
+        sportTypes,
+      });
+
+      const zone = resolveTimezone(timezone, allActivities);
+      const ranges = weekRanges(currentWeekStart ?? todayKey(zone), weeks, weekStart);
+
+      // Pace is only comparable between runs
+      const paceToSeconds = (pace: string) => {
+        const [min, sec] = pace.split(":").map(Number);
+        return min * 60 + sec;
+      };
+
+      const weekly = ranges.map(({ start, end }) => {
+        const weekActivities = filterActivitiesByLocalDate(allActivities, start, end);
+        return {
+          weekStart: start,
+          weekEnd: end,
+          totalDistance: distanceInUnits(
+            weekActivities.reduce((sum, a) => sum + a.distance, 0),
+            unitSystem,
+          ),
+          totalRuns: weekActivities.length,
+          avgPace: calculateAveragePace(weekActivities.filter(isRun), unitSystem),
+          bySport: summarizeBySport(weekActivities, unitSystem),
+        };
+      });
+
+      const percentChange = (current: number, previous: number) =>
+        previous > 0 ? Math.round(((current - previous) / previous) * 100) : 0;
+
+      const weeksWithChanges = weekly.map((week, i) => ({
+        ...week,
+        distanceChange: i > 0 ? percentChange(week.totalDistance, weekly[i - 1].totalDistance) : null,
+      }));
+
+      const currentWeek = weekly[weekly.length - 1];
+      const previousWeek = weekly[weekly.length - 2];
+
+      // Calculate changes
+      const distanceChange = percentChange(currentWeek.totalDistance, previousWeek.totalDistance);
+
+      const runsChange = currentWeek.totalRuns - previousWeek.totalRuns;
+
+      const currentPaceSeconds = paceToSeconds(currentWeek.avgPace);
+      const previousPaceSeconds = paceToSeconds(previousWeek.avgPace);
+      const paceChange = currentPaceSeconds - previousPaceSeconds;
+
+      // Determine trend (a 10s/km pace change, whatever the display units)
+      const paceThreshold = perKmSecondsInUnits(10, unitSystem);
+      let trend: "improving" | "stable" | "declining" = "stable";
+      if (distanceChange > 10 || paceChange < -paceThreshold) {
+        trend = "improving";
+      } else if (distanceChange < -10 || paceChange > paceThreshold) {
+        trend = "declining";
+      }
+
+      const labels = unitLabels(unitSystem);
+      const weeklyDistances = weekly
+        .map(w => `${w.weekStart}: ${w.totalDistance}${labels.distance}`)
+        .join(", ");
+
+      return {
+        structuredContent: {
+          currentWeek,
+          previousWeek,
+          weeks: weeksWithChanges,
+          changes: {
+            distanceChange,
+            runsChange,
+            paceChange,
+          },
+          trend,
+          analysis: "", // LLM will generate this
+          units: unitSystem,
+          weekStart,
+          timezone: zone,
+        },
+        content: [
+          {
+            type: "text",
+            text: `Week comparison: Distance ${distanceChange > 0 ? "+" : ""}${distanceChange}%, Runs ${runsChange > 0 ? "+" : ""}${runsChange}, Pace ${paceChange > 0 ? "+" : ""}${paceChange}s${labels.pace}` +
+              (weeks > 2 ? `. Weekly distance (${weekStart} start, ${zone}): ${weeklyDistances}` : ""),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+      
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+      
+      console.error("Error comparing weeks:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error comparing training weeks: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Integrated Widget: Analyze Training Trends
+server.registerWidget(
+  "analyze_training_trends",
+  {
+    description: `Chart training trends week by week or month by month over up to a year: volume, run count, long run, average pace and elevation, with rolling averages and ramp-rate warnings. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Longer-term volume and pace trends (more than a couple of weeks)
+- Checking how quickly mileage has been built up
+- Queries like: "How has my mileage trended this year?", "Show my monthly volume", "Am I increasing my long run?", "Am I ramping up too fast?"
+
+WHEN NOT TO USE:
+- Just this week vs last week → use compare_training_weeks
+- Fitness/fatigue/form from training stress → use analyze_fitness_form
+- A single route over time → use analyze_run_progression
+
+WORKFLOW:
+- Single call fetches activities, aggregates each period and displays the charts
+- No additional visualization needed (integrated charts + ramp warnings)
+
+EXAMPLE QUERIES:
+- "Show my weekly mileage for the last 16 weeks" → period="week", count=16
+- "How has my running changed month by month this year?" → period="month", count=12
+- "Am I increasing my volume too quickly?"
+
+PERIODS: Activities are bucketed by the athlete's local day. Weeks start on Monday by default (weekStart="sunday" to change). The current period is still in progress. A ramp warning is raised when volume rises more than rampThreshold percent (default 10%) over the previous period.`,
+  },
+  {
+    description: "Display weekly or monthly training volume, run count, long run, average pace and elevation with rolling averages and ramp-rate warnings. The widget renders every period visually - DO NOT create markdown tables or list period values in your response. Provide commentary about trends, consistency and injury risk only.",
+    inputSchema: {
+      period: z
+        .enum(["week", "month"])
+        .optional()
+        .default("week")
+        .describe('Aggregation period: "week" (default) or "month"'),
+      count: z
+        .number()
+        .int()
+        .min(2)
+        .max(52)
+        .optional()
+        .describe("Number of periods to show, ending with the current one (default: 12 weeks or 6 months; max: 52 weeks or 12 months)"),
+      rollingWindow: z
+        .number()
+        .int()
+        .min(1)
+        .max(12)
+        .optional()
+        .describe("Periods in the rolling average (default: 4 weeks or 3 months)"),
+      rampThreshold: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(DEFAULT_RAMP_THRESHOLD)
+        .describe("Volume increase over the previous period, in percent, that triggers a ramp warning (default: 10)"),
+      weekStart: z
+        .enum(["monday", "sunday"])
+        .optional()
+        .default(DEFAULT_WEEK_START)
+        .describe('First day of the week: "monday" (default) or "sunday"'),
+      timezone: z
+        .string()
+        .optional()
+        .describe('IANA timezone used to determine the current period, e.g. "America/New_York" (default: timezone of the athlete\'s most recent activity)'),
+      sportTypes: z
+        .array(z.string())
+        .optional()
+        .describe('Strava sport types to include, e.g. ["Run", "TrailRun", "Ride", "Walk", "Hike"]. Use ["All"] for every sport (default: running types: Run, TrailRun, VirtualRun)'),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ period, count, rollingWindow, rampThreshold, weekStart, timezone, sportTypes, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const periods = count ?? (period === "week" ? 12 : 6);
+
+    if (period === "month" && periods > 12) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: count ${periods} is too large for monthly trends. Use at most 12 months.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const rangesEndingOn = (dateKey: string, n: number) =>
+      period === "week" ? weekRanges(dateKey, n, weekStart) : monthRanges(dateKey, n);
+
+    try {
+      // The current period depends on the athlete's timezone, so fetch one
+      // extra period and bucket by local day afterwards
+      const { data: activities, truncated } = await getActivities(auth, {
+        after: afterTimestampForDateKey(rangesEndingOn(todayKey("UTC"), periods + 1)[0].start),
+        sportTypes,
+      });
+
+      const zone = resolveTimezone(timezone, activities);
+      const ranges = rangesEndingOn(todayKey(zone), periods);
+      const trends = buildTrainingTrends(activities, ranges, {
+        units: unitSystem,
+        rollingWindow: rollingWindow ?? DEFAULT_ROLLING_WINDOW[period],
+        rampThreshold,
+      });
+
+      const labels = unitLabels(unitSystem);
+      const first = trends.periods[0];
+      const last = trends.periods[trends.periods.length - 1];
+      const warningText = trends.rampWarnings.length > 0
+        ? ` ⚠️ Volume rose more than ${rampThreshold}% in ${trends.rampWarnings.length} ${period === "week" ? "week" : "month"}(s): ${trends.rampWarnings.map(w => `${w.start} (+${w.distanceChange}%)`).join(", ")}.`
+        : ` No ${period}-over-${period} increase above ${rampThreshold}%.`;
+
+      return {
+        structuredContent: {
+          period,
+          count: periods,
+          range: { start: first.start, end: last.end },
+          periods: trends.periods,
+          rampWarnings: trends.rampWarnings,
+          totals: trends.totals,
+          rollingWindow: rollingWindow ?? DEFAULT_ROLLING_WINDOW[period],
+          rampThreshold,
+          weekStart,
+          timezone: zone,
+          truncated,
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: `Training trends by ${period}, ${first.start} to ${last.end}: ${trends.totals.distance}${labels.distance} over ${trends.totals.runs} runs${trends.totals.avgPace ? ` at ${trends.totals.avgPace}${labels.pace}` : ""}. Current ${period}: ${last.distance}${labels.distance} (rolling average ${last.rollingDistance}${labels.distance}), long run ${last.longRun}${labels.distance}.${warningText}${truncated ? " ⚠️ Activity history was truncated - early periods may be understated." : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error analyzing training trends:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error analyzing training trends: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Integrated Widget: Generate Training Plan
+server.registerWidget(
+  "generate_training_plan",
+  {
+    description: `Generate a periodized week-by-week training plan (base, build, peak, taper) for a target race, with structured workouts and target paces, shown as a calendar. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- The user has a race coming up and wants a plan
+- Queries like: "Make me a plan for a half marathon on April 12", "I want to run a sub-50 10K in 12 weeks", "Build a marathon plan with 4 runs a week"
+
+WHEN NOT TO USE:
+- Predicting a race time only → use predict_race_times
+- Reviewing past training → use analyze_training_trends or compare_training_weeks
+
+WORKFLOW:
+- Single call looks at recent training (volume, long run, fitness from the strongest recent runs) and builds the plan
+- The widget renders the calendar; discuss the structure, key sessions and paces rather than listing every workout
+
+EXAMPLE QUERIES:
+- "Plan my marathon on 2027-03-07, goal 3:30, 5 days a week" → race="marathon", raceDate="2027-03-07", goalTime="3:30:00", daysPerWeek=5
+- "Get me ready for a 5K in 8 weeks"
+
+METHOD: Volume starts at the recent weekly average and rises at most 10% a week, with a lighter week every fourth week; no week may push the acute:chronic ratio (week distance over the previous four weeks' average) above 1.3, the top of the optimal band in compute_training_load. Training paces come from current fitness (VDOT); race-pace sessions use the goal pace. Without goalTime the goal is the predicted time from current fitness. Workout steps are in meters and seconds; distances and paces elsewhere follow the unit system.`,
+  },
+  {
+    description: "Generate a periodized training plan for a race and display it as a calendar. The widget renders every week and workout visually - DO NOT create markdown tables or list every workout in your response. Explain the phases, key sessions, paces and any notes instead.",
+    inputSchema: {
+      race: z
+        .enum(["5k", "10k", "half", "marathon"])
+        .describe("Race distance"),
+      raceDate: z
+        .string()
+        .describe("Race date (YYYY-MM-DD)"),
+      goalTime: z
+        .string()
+        .optional()
+        .describe('Goal finish time as "h:mm:ss" or "mm:ss" (default: predicted from current fitness)'),
+      daysPerWeek: z
+        .number()
+        .int()
+        .min(3)
+        .max(7)
+        .optional()
+        .default(5)
+        .describe("Running days available per week (default: 5, 3-7)"),
+      weekStart: z
+        .enum(["monday", "sunday"])
+        .optional()
+        .default(DEFAULT_WEEK_START)
+        .describe('First day of the week: "monday" (default) or "sunday". The long run falls on the last day of the week'),
+      timezone: z
+        .string()
+        .optional()
+        .describe('IANA timezone used to determine today, e.g. "America/New_York" (default: timezone of the athlete\'s most recent activity)'),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ race, raceDate, goalTime, daysPerWeek, weekStart, timezone, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    const goalSeconds = goalTime ? parseDuration(goalTime) : undefined;
+    if (goalSeconds === null || !/^\d{4}-\d{2}-\d{2}$/.test(raceDate) || isNaN(Date.parse(raceDate))) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: goalSeconds === null
+              ? `Error: Invalid goalTime "${goalTime}". Use hours:minutes:seconds or minutes:seconds, e.g. "1:45:00" or "24:30".`
+              : `Error: Invalid raceDate "${raceDate}". Use YYYY-MM-DD.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      // Twelve weeks of runs: four full weeks for current volume, the rest for fitness
+      const { data: activities, truncated } = await getActivitiesForDays(auth, 12 * 7 + 7);
+
+      const zone = resolveTimezone(timezone, activities);
+      const today = todayKey(zone);
+      const recentWeeks = weekRanges(addDays(weekStartKey(today, weekStart), -1), 4, weekStart);
+      const weeklyDistances = recentWeeks.map(({ start, end }) =>
+        filterActivitiesByLocalDate(activities, start, end).reduce((sum, a) => sum + a.distance, 0),
+      );
+
+      // Best efforts need detailed activities; only fetch them for the strongest runs
+      const DETAIL_CANDIDATES = 8;
+      const candidates = activities
+        .filter(a => a.distance >= 1500 && a.moving_time > 0)
+        .sort((a, b) => vdotFromPerformance(b.distance, b.moving_time) - vdotFromPerformance(a.distance, a.moving_time))
+        .slice(0, DETAIL_CANDIDATES);
+      const { data: detailed, missingIds } = await getDetailedActivities(auth, candidates);
+      const vdot = strongestEfforts(collectEfforts(detailed))[0]?.vdot ?? null;
+
+      const plan = buildTrainingPlan({
+        race,
+        raceDate,
+        goalTime: goalSeconds,
+        daysPerWeek,
+        today,
+        weekStart,
+        units: unitSystem,
+        history: {
+          weeklyDistances,
+          longestRun: activities.reduce((max, a) => Math.max(max, a.distance), 0),
+          vdot,
+        },
+      });
+      const summary = planToSummary(plan, unitSystem);
+
+      const labels = unitLabels(unitSystem);
+      const phaseText = summary.phases.map(p => `${p.phase} ${p.weeks}`).join(", ");
+
+      return {
+        structuredContent: {
+          ...summary,
+          daysPerWeek,
+          weekStart,
+          timezone: zone,
+          truncated,
+          // Fitness comes from best efforts; runs not yet detailed only count as whole runs
+          detailsMissing: missingIds.length,
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: `${summary.weeks.length}-week ${summary.race.name} plan to ${raceDate} (weeks: ${phaseText}). Goal ${summary.race.goalTime} (${summary.race.goalPace}${labels.pace}, ${summary.race.goalSource === "input" ? "given" : "predicted from current fitness"}). Weekly volume ${summary.fitness.currentWeeklyDistance}${labels.distance} now, peaking at ${summary.fitness.peakWeeklyDistance}${labels.distance}. Paces${labels.pace}: easy ${summary.paces.easy}, threshold ${summary.paces.threshold}, interval ${summary.paces.interval}.${summary.notes.length > 0 ? ` Notes: ${summary.notes.join(" ")}` : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error generating training plan:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error generating training plan: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Integrated Widget: Analyze Workout
+server.registerWidget(
+  "analyze_workout",
+  {
+    description: `Break a single interval session into its reps: detects work and recovery intervals from the activity's laps or velocity stream and reports per-rep pace, heart rate, recovery, consistency and fade, with a rep-by-rep bar chart. This is an INTEGRATED widget (combines data fetching + visualization).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE (PREFER THIS):
+- Reviewing a track session, intervals, repeats or a fartlek
+- Queries like: "How did my intervals go?", "Analyze my 800s from Tuesday", "Did I fade in my reps?", "How consistent were my repeats?"
+
+WHEN NOT TO USE:
+- Comparing two whole runs → use get_run_comparison
+- Steady runs and pace distribution across many runs → use analyze_pace_patterns
+- Raw second-by-second data → use get_activity_streams
+
+WORKFLOW:
+- Needs an activity id: find the session with fetch_activities first if the user didn't give one
+- Single call fetches the activity's laps and streams, detects the reps and displays the chart
+
+DETECTION: Device laps are used when they split cleanly into fast and slow laps (manual laps or a structured watch workout); auto-laps (every 1 km or 1 mi) fall back to the velocity stream. Sessions without a clear fast/slow pattern are reported as steady runs. Consistency is the spread of rep paces (coefficient of variation); fade compares the second half of the reps with the first.`,
+  },
+  {
+    description: "Display a rep-by-rep breakdown of an interval session: pace bars, heart rate, recoveries, consistency and fade. The widget renders every rep visually - DO NOT create markdown tables or list rep values in your response. Provide coaching commentary about pacing, consistency, fade and recovery only.",
+    inputSchema: {
+      activityId: z
+        .number()
+        .describe("Strava activity ID of the session"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ activityId, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
 
-      // Generate GPX
-      const gpxName = fileName || routeData.name;
-      const gpxDescription =
-        description ||
-        `${routeData.distance}km route with ${routeData.elevationGain}m elevation gain. Generated by Strava Running Coach.`;
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
 
-      const gpxContent = generateGPX(trackPoints, {
-        name: gpxName,
-        description: gpxDescription,
-        author: "Strava Running Coach",
-        time: new Date().toISOString(),
-      });
+    const unitSystem = resolveUnits(units, auth.athlete);
 
-      // Validate GPX
-      if (!validateGPX(gpxContent)) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "❌ Error: Generated GPX file is invalid. Please try again.",
-            },
-          ],
-          isError: true,
-        };
-      }
+    try {
+      const [activity, { streams }] = await Promise.all([
+        fetchDetailedActivity(auth.accessToken, activityId),
+        getActivityStreams(auth, activityId),
+      ]);
 
-      // Create safe filename
-      const safeFileName = gpxName
-        .replace(/[^a-z0-9]/gi, "_")
-        .toLowerCase();
-      const suggestedFileName = `${safeFileName}.gpx`;
+      const analysis = analyzeIntervals(activity.laps, streams, unitSystem);
+      const labels = unitLabels(unitSystem);
+
+      const summaryText = analysis.detected && analysis.summary
+        ? `${analysis.structure} detected from ${analysis.source}: average ${analysis.summary.averagePace}${labels.pace}, pace spread ${analysis.summary.consistency.paceCv}% (${analysis.summary.consistency.rating}), second half ${analysis.summary.fade.percent >= 0 ? "+" : ""}${analysis.summary.fade.percent}% vs first half (${analysis.summary.fade.rating})${analysis.summary.heartRateDrift !== null ? `, heart rate ${analysis.summary.heartRateDrift >= 0 ? "+" : ""}${analysis.summary.heartRateDrift} bpm first to last rep` : ""}${analysis.summary.averageRecovery ? `, average recovery ${analysis.summary.averageRecovery}` : ""}.`
+        : "No intervals detected - pace was steady, with no clear fast and slow segments.";
 
       return {
         structuredContent: {
-          success: true,
-          gpxContent,
-          fileName: suggestedFileName,
-          routeName: gpxName,
-          distance: routeData.distance,
-          elevationGain: routeData.elevationGain,
-          fileSize: new Blob([gpxContent]).size,
+          activity: {
+            id: activity.id,
+            name: activity.name,
+            date: activityDateKey(activity),
+            distance: distanceInUnits(activity.distance, unitSystem, 2),
+            duration: formatDuration(activity.moving_time),
+            pace: activity.average_speed > 0 ? paceInUnits(activity.average_speed, unitSystem) : null,
+            averageHeartRate: activity.average_heartrate ? Math.round(activity.average_heartrate) : null,
+          },
+          ...analysis,
+          units: unitSystem,
         },
         content: [
           {
             type: "text",
-            text: `✅ **GPX File Ready!**\n\n**Route:** ${gpxName}\n**Distance:** ${routeData.distance}km\n**Elevation Gain:** ${routeData.elevationGain}m\n**File Size:** ${Math.round(new Blob([gpxContent]).size / 1024)}KB\n\n📥 **Download Instructions:**\n1. Copy the GPX content below\n2. Save it as \`${suggestedFileName}\`\n3. Import into Strava, Garmin Connect, or your GPS device\n\n**GPX Content:**\n\`\`\`xml\n${gpxContent}\n\`\`\`\n\n💡 **Tip:** You can also upload this file directly to Strava by going to strava.com → Upload → Manual Upload`,
+            text: `${activity.name} (${activityDateKey(activity)}): ${summaryText}`,
           },
         ],
         isError: false,
       };
     } catch (error) {
-      console.error("Error generating GPX:", error);
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error analyzing workout:", error);
       return {
         content: [
           {
             type: "text",
-            text: `❌ Error generating GPX file: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`,
+            text: `Error analyzing workout: ${error instanceof Error ? error.message : "Unknown error"}`,
           },
         ],
         isError: true,
       };
     }
-  }
+  },
 );
 
-
-
-// Widget 1: Training Summary
+// Integrated Widget: Analyze Splits
 server.registerWidget(
-  "get_training_summary",
+  "analyze_splits",
   {
-    description: `Analyze recent running activities. This is an INTEGRATED widget (combines data fetching + visualization).
+    description: `Review pacing from per-km (or per-mile) splits for one or several runs: classifies the pacing strategy (even, negative, positive or fade), measures split variability and highlights the fastest and slowest splits with elevation context. This is an INTEGRATED widget (combines data fetching + visualization).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
 WHEN TO USE (PREFER THIS):
-- Quick training overview for recent period
-- Queries like: "How's my training?", "Summarize my week", "Show me my recent runs", "What did I do this week?"
-- This is FASTER than fetch_activities + manual analysis
+- Race-day pacing reviews and steady-run pacing
+- Queries like: "Did I negative split my half?", "How was my pacing in Sunday's race?", "Do I usually go out too fast?", "Which km was my slowest?"
 
 WHEN NOT TO USE:
-- Custom date ranges beyond simple "last N days"
-- Need raw data for complex analysis → use fetch_activities
-- Comparing specific runs → use get_run_comparison
-- Need specific visualizations → use data tools + render_* widgets
+- Interval sessions → use analyze_workout
+- Pace spread across many runs without splits → use analyze_pace_patterns
+- Heart-rate drift on long runs → use analyze_aerobic_decoupling
 
 WORKFLOW:
-- Single call returns complete summary with stats, runs list, and insights
-- No additional visualization needed (integrated UI)
+- Pass activityIds for specific runs (find them with fetch_activities first), or omit them to review the most recent runs
+- Single call fetches split detail and displays the split chart for each run
 
-EXAMPLE QUERIES:
-- "How's my training looking this week?"
-- "Summarize my last 7 days of running"
-- "Show me my recent training"
-- "What have I been doing lately?"`,
+STRATEGIES: The run is halved by distance. Negative: second half at least 1.5% faster. Even: within 1.5%. Positive: second half at least 1.5% slower. Fade: the last quarter at least 5% slower than the first three quarters (a late collapse), whatever the halves say. When Strava provides grade-adjusted split paces, gapStrategy repeats the classification on those, so hills can be told apart from slowing down. Variability is the spread of full-split paces (coefficient of variation).`,
   },
   {
-    description: "Analyze recent running activities from Strava. ALWAYS fetch data from Strava API - NEVER ask user to provide training data manually. All data comes from their connected Strava account. The widget renders all data visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
+    description: "Display split-by-split pace bars with elevation for one or several runs, with the pacing strategy, half-to-half difference and split variability. The widget renders every split visually - DO NOT create markdown tables or list split values in your response. Provide commentary about pacing strategy, where time was lost and how elevation played in only.",
     inputSchema: {
+      activityIds: z
+        .array(z.number())
+        .min(1)
+        .max(10)
+        .optional()
+        .describe("Strava activity IDs to analyze (omit to analyze the most recent runs)"),
       days: z
         .number()
+        .min(1)
+        .max(365)
         .optional()
-        .default(7)
-        .describe("Number of days to analyze (default: 7)"),
+        .default(30)
+        .describe("Days of history to search when activityIds is omitted (default: 30)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .default(5)
+        .describe("Number of recent runs to analyze when activityIds is omitted (default: 5)"),
+      minDistance: z
+        .number()
+        .optional()
+        .describe("Minimum distance in kilometers, or miles with imperial units, when activityIds is omitted (e.g. 21 to review half marathons and longer)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km splits, min/km, m) or "imperial" (mile splits, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ days, token }, extra) => {
+  async ({ activityIds, days, limit, minDistance, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
-    
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
-    try {
-      // Calculate date range
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - days);
-
-      // Fetch activities only for the requested date range
-      const afterTimestamp = Math.floor(startDate.getTime() / 1000);
-      const allActivities = await fetchRecentActivities(
-        auth.accessToken,
-        afterTimestamp,
-      );
+    const unitSystem = resolveUnits(units, auth.athlete);
 
-      // Filter to requested date range
-      const activities = filterActivitiesByDateRange(
-        allActivities,
-        startDate,
-        endDate,
-      );
+    try {
+      let detailed: StravaActivity[];
+      let missingIds: number[] = [];
+      if (activityIds) {
+        detailed = await Promise.all(activityIds.map((id) => fetchDetailedActivity(auth.accessToken, id)));
+      } else {
+        const { data: activities } = await getActivitiesForDays(auth, days);
+        const minMeters = minDistance ? distanceToMeters(minDistance, unitSystem) : 0;
+        const recent = activities
+          .filter((a) => isRun(a) && a.distance >= minMeters)
+          .sort((a, b) => b.start_date.localeCompare(a.start_date))
+          .slice(0, limit);
+        ({ data: detailed, missingIds } = await getDetailedActivities(auth, recent));
+      }
 
-      // Calculate stats
-      const totalDistance =
-        Math.round(
-          activities.reduce((sum, a) => sum + a.distance / 1000, 0) * 10,
-        ) / 10;
-      const totalRuns = activities.length;
-      const avgPace = calculateAveragePace(activities);
-      const totalTime = Math.round(
-        activities.reduce((sum, a) => sum + a.moving_time / 60, 0),
-      );
+      const analyses = detailed
+        .map((activity) => analyzeSplits(activity, unitSystem))
+        .filter((analysis): analysis is SplitAnalysis => analysis !== null);
+      // Runs still without detail have no splits yet, which is not the same as having none
+      const unanalyzed = detailed.filter((activity) => !analyses.some((analysis) => analysis.id === activity.id));
+      const pending = unanalyzed.filter((activity) => missingIds.includes(activity.id)).map((activity) => activity.name);
+      const skipped = unanalyzed.filter((activity) => !missingIds.includes(activity.id)).map((activity) => activity.name);
 
-      // Convert activities to summary format
-      const runs = activities.map(activityToSummary);
+      const labels = unitLabels(unitSystem);
+      const counts = strategyCounts(analyses);
+      const runText = analyses
+        .map((a) => `${a.name} (${a.date}): ${a.strategy} split, second half ${a.halfDifference >= 0 ? "+" : ""}${a.halfDifference}% (${a.firstHalfPace} → ${a.secondHalfPace}${labels.pace}), variability ${a.variability.paceCv}% (${a.variability.rating})${a.gapStrategy && a.gapStrategy !== a.strategy ? `, ${a.gapStrategy} on grade-adjusted pace` : ""}`)
+        .join("; ");
 
       return {
         structuredContent: {
-          period: {
-            start: startDate.toISOString().split("T")[0],
-            end: endDate.toISOString().split("T")[0],
-          },
-          stats: {
-            totalDistance,
-            totalRuns,
-            avgPace,
-            totalTime,
-          },
-          runs,
-          // LLM will generate these based on the data
-          insight: "",
-          encouragement: "",
+          activities: analyses,
+          strategyCounts: counts,
+          skipped,
+          pending,
+          units: unitSystem,
         },
         content: [
           {
             type: "text",
-            text: `Training summary for last ${days} days: ${totalRuns} runs, ${totalDistance}km total, ${avgPace}/km average pace.`,
+            text: (analyses.length === 0
+              ? `No splits available${activityIds ? " for these activities" : ` for runs in the last ${days} days`}. Splits need GPS or a footpod and at least two ${labels.distance === "km" ? "kilometers" : "miles"}.`
+              : `${runText}.${skipped.length > 0 ? ` No splits for: ${skipped.join(", ")}.` : ""}`)
+              + (pending.length > 0 ? ` Details not loaded yet for: ${pending.join(", ")}; try again shortly.` : ""),
           },
         ],
         isError: false,
@@ -2351,7 +5031,7 @@ EXAMPLE QUERIES:
       if (error instanceof UnauthorizedError) {
         return authErrorResponse("unauthorized");
       }
-      
+
       // Handle 429 Rate Limit errors
       if (error instanceof RateLimitError) {
         return rateLimitErrorResponse(
@@ -2360,13 +5040,13 @@ EXAMPLE QUERIES:
           error.usage
         );
       }
-      
-      console.error("Error fetching training summary:", error);
+
+      console.error("Error analyzing splits:", error);
       return {
         content: [
           {
             type: "text",
-            text: `Error fetching training data: ${error instanceof Error ? error.message : "Unknown error"}`,
+            text: `Error analyzing splits: ${error instanceof Error ? error.message : "Unknown error"}`,
           },
         ],
         isError: true,
@@ -2375,156 +5055,229 @@ EXAMPLE QUERIES:
   },
 );
 
-// Widget 2: Compare Training Weeks
+// Integrated Widget: Gear Status
 server.registerWidget(
-  "compare_training_weeks",
+  "get_gear_status",
   {
-    description: `Compare training weeks. This is an INTEGRATED widget (combines data fetching + visualization).
+    description: `Show mileage on each pair of running shoes, how close each is to its retirement distance, and when it will get there at the current rate of use. This is an INTEGRATED widget (combines data fetching + visualization).
 
 AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
 WHEN TO USE (PREFER THIS):
-- Week-over-week training comparison
-- Queries like: "Am I improving?", "How does this week compare?", "Show me my progress", "Compare this week to last week"
-- This is FASTER than fetch_activities + manual comparison
+- Questions about shoe mileage or replacing shoes
+- Queries like: "How many km are on my shoes?", "Do I need new shoes?", "When should I replace my Pegasus?", "Which shoes have I been running in?"
 
 WHEN NOT TO USE:
-- Comparing specific runs (not weeks) → use get_run_comparison
-- Need custom date ranges → use fetch_activities
-- Need detailed pace analysis → use calculate_pace_distribution
+- The user wants to change a retirement distance → use set_gear_retirement, then call this again
 
-WORKFLOW:
-- Single call returns complete comparison with deltas, trends, and analysis
-- No additional visualization needed (integrated UI)
+STATES:
+- ok: under 85% of the retirement distance
+- approaching: 85-100% - start looking for a replacement
+- retire: past the retirement distance - cushioning is likely worn; recommend replacing
+- retired: marked as retired in Strava
 
-EXAMPLE QUERIES:
-- "Am I improving week over week?"
-- "How does this week compare to last week?"
-- "Show me my training progress"
-- "Compare my current week to previous week"`,
+DISTANCES: distance is Strava's total for the pair (including any starting distance the athlete entered); syncedDistance is what the synced activities add up to. The retirement distance defaults to 700 km (435 mi) unless the athlete set their own.`,
   },
   {
-    description: "Show week-over-week training progress from Strava. ALWAYS fetch data from Strava API - NEVER ask user to provide training data manually. All data comes from their connected Strava account. The widget renders all comparison data visually - DO NOT create markdown tables or duplicate the data in your response. Provide commentary and insights only.",
+    description: "Display each pair of shoes with its mileage, a progress bar toward its retirement distance, last use and projected retirement date. The widget renders every pair visually - DO NOT create markdown tables or list shoe values in your response. Provide commentary only: call out pairs that are approaching or past retirement first.",
     inputSchema: {
-      currentWeekStart: z
-        .string()
+      days: z
+        .number()
+        .min(28)
+        .max(1095)
+        .optional()
+        .default(365)
+        .describe("Days of activities to sync for last-used dates and the rate of wear (default: 365)"),
+      includeRetired: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Include shoes marked as retired in Strava (default: false)"),
+      units: z
+        .enum(["metric", "imperial"])
         .optional()
-        .describe("Start date of current week (ISO format, defaults to current week)"),
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ currentWeekStart, token }, extra) => {
+  async ({ days, includeRetired, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
-    
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
-    try {
-      // Calculate week boundaries
-      const now = new Date();
-      const currentStart = currentWeekStart
-        ? new Date(currentWeekStart)
-        : new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
 
-      const currentEnd = new Date(currentStart);
-      currentEnd.setDate(currentEnd.getDate() + 7);
+    try {
+      const { data: activities } = await getActivitiesForDays(auth, days);
+      // Only retired pairs are missing from the athlete's gear list; skip looking them up unless shown
+      const shoes = await getAthleteShoes(auth, includeRetired ? activities : []);
+      const settings = await getGearSettings(auth.userId);
+      const today = todayKey(resolveTimezone(undefined, activities));
 
-      const previousStart = new Date(currentStart);
-      previousStart.setDate(previousStart.getDate() - 7);
+      const gear = buildGearStatus(shoes, activities, settings, today, unitSystem)
+        .filter(g => includeRetired || g.state !== "retired");
+      const warnings = gear.filter(g => g.state === "retire" || g.state === "approaching");
 
-      const previousEnd = new Date(currentStart);
+      if (gear.length === 0) {
+        return {
+          structuredContent: {
+            gear: [],
+            warnings: [],
+            units: unitSystem,
+          },
+          content: [
+            {
+              type: "text",
+              text: "No shoes found on this Strava account. Shoes can be added under Settings → My Gear in Strava, then picked on each run.",
+            },
+          ],
+          isError: false,
+        };
+      }
 
-      // Fetch activities only for the 14 days needed (current + previous week)
-      const fourteenDaysAgo = Math.floor(
-        previousStart.getTime() / 1000,
-      );
-      const allActivities = await fetchRecentActivities(
-        auth.accessToken,
-        fourteenDaysAgo,
-      );
+      return {
+        structuredContent: {
+          gear,
+          warnings: warnings.map(g => g.id),
+          units: unitSystem,
+        },
+        content: [
+          {
+            type: "text",
+            text: `${gear.length} pair${gear.length > 1 ? "s" : ""} of shoes: ${gear.map(g => `${g.name} ${g.distance}/${g.retirementDistance}${labels.distance} (${g.state})`).join(", ")}.${warnings.length > 0 ? ` ⚠️ ${warnings.map(g => g.state === "retire" ? `${g.name} is ${Math.abs(g.remaining)}${labels.distance} past retirement` : `${g.name} has ${g.remaining}${labels.distance} left${g.projectedRetirement ? ` (around ${g.projectedRetirement})` : ""}`).join("; ")}.` : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
 
-      // Split into weeks
-      const currentWeekActivities = filterActivitiesByDateRange(
-        allActivities,
-        currentStart,
-        currentEnd,
-      );
-      const previousWeekActivities = filterActivitiesByDateRange(
-        allActivities,
-        previousStart,
-        previousEnd,
-      );
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
 
-      // Calculate stats for each week
-      const currentWeek = {
-        totalDistance:
-          Math.round(
-            currentWeekActivities.reduce((sum, a) => sum + a.distance / 1000, 0) * 10,
-          ) / 10,
-        totalRuns: currentWeekActivities.length,
-        avgPace: calculateAveragePace(currentWeekActivities),
+      console.error("Error fetching gear status:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching gear status: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
       };
+    }
+  },
+);
 
-      const previousWeek = {
-        totalDistance:
-          Math.round(
-            previousWeekActivities.reduce((sum, a) => sum + a.distance / 1000, 0) * 10,
-          ) / 10,
-        totalRuns: previousWeekActivities.length,
-        avgPace: calculateAveragePace(previousWeekActivities),
-      };
+// Tool: Set Gear Retirement Distance
+server.registerTool(
+  "set_gear_retirement",
+  {
+    description: `Set the distance at which a pair of shoes should be retired, or the default for every pair without its own. Saved for the athlete and used by get_gear_status.
 
-      // Calculate changes
-      const distanceChange =
-        previousWeek.totalDistance > 0
-          ? Math.round(
-              ((currentWeek.totalDistance - previousWeek.totalDistance) /
-                previousWeek.totalDistance) *
-                100,
-            )
-          : 0;
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
 
-      const runsChange = currentWeek.totalRuns - previousWeek.totalRuns;
+WHEN TO USE:
+- "Retire my Pegasus at 600 km", "I replace shoes every 400 miles", "Reset my Vaporfly to the default"
 
-      // Convert pace to seconds for comparison
-      const paceToSeconds = (pace: string) => {
-        const [min, sec] = pace.split(":").map(Number);
-        return min * 60 + sec;
-      };
+WORKFLOW:
+1. Call with the shoe (name or gear id) and the distance in the athlete's units; omit shoe to set the default
+2. Call get_gear_status to show the updated status`,
+    inputSchema: {
+      shoe: z
+        .string()
+        .optional()
+        .describe("Shoe name (or part of it) or Strava gear id. Omit to set the default for all shoes"),
+      distance: z
+        .number()
+        .min(50)
+        .max(5000)
+        .nullable()
+        .describe("Retirement distance in km (mi with imperial units), or null to go back to the default"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system of the distance: "metric" (km) or "imperial" (mi). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ shoe, distance, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
 
-      const currentPaceSeconds = paceToSeconds(currentWeek.avgPace);
-      const previousPaceSeconds = paceToSeconds(previousWeek.avgPace);
-      const paceChange = currentPaceSeconds - previousPaceSeconds;
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
+
+    try {
+      let gear: { id: string; name: string } | null = null;
+      if (shoe) {
+        const shoes = await getAthleteShoes(auth, []);
+        gear = findShoe(shoes, shoe);
+        if (!gear) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `❌ No single shoe matches "${shoe}". Shoes on this account: ${shoes.map(s => s.name).join(", ") || "none"}.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
 
-      // Determine trend
-      let trend: "improving" | "stable" | "declining" = "stable";
-      if (distanceChange > 10 || paceChange < -10) {
-        trend = "improving";
-      } else if (distanceChange < -10 || paceChange > 10) {
-        trend = "declining";
+      const meters = distance === null ? null : distanceToMeters(distance, unitSystem);
+      const saved = await setRetirementDistance(auth.userId, meters, gear?.id);
+      if (!saved) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "❌ Retirement distances can only be saved for a connected Strava account. Connect with OAuth and try again.",
+            },
+          ],
+          isError: true,
+        };
       }
 
+      const target = gear ? gear.name : "all shoes without their own distance";
+      const value = distance === null
+        ? `the default (${distanceInUnits(DEFAULT_RETIREMENT_DISTANCE, unitSystem, 0)}${labels.distance} unless a default is set)`
+        : `${distance}${labels.distance}`;
       return {
         structuredContent: {
-          currentWeek,
-          previousWeek,
-          changes: {
-            distanceChange,
-            runsChange,
-            paceChange,
-          },
-          trend,
-          analysis: "", // LLM will generate this
+          gearId: gear?.id ?? null,
+          name: gear?.name ?? null,
+          retirementDistance: distance,
+          units: unitSystem,
         },
         content: [
           {
             type: "text",
-            text: `Week comparison: Distance ${distanceChange > 0 ? "+" : ""}${distanceChange}%, Runs ${runsChange > 0 ? "+" : ""}${runsChange}, Pace ${paceChange > 0 ? "+" : ""}${paceChange}s/km`,
+            text: `Retirement distance for ${target} set to ${value}.`,
           },
         ],
         isError: false,
@@ -2534,7 +5287,7 @@ EXAMPLE QUERIES:
       if (error instanceof UnauthorizedError) {
         return authErrorResponse("unauthorized");
       }
-      
+
       // Handle 429 Rate Limit errors
       if (error instanceof RateLimitError) {
         return rateLimitErrorResponse(
@@ -2543,13 +5296,13 @@ EXAMPLE QUERIES:
           error.usage
         );
       }
-      
-      console.error("Error comparing weeks:", error);
+
+      console.error("Error setting gear retirement distance:", error);
       return {
         content: [
           {
             type: "text",
-            text: `Error comparing training weeks: ${error instanceof Error ? error.message : "Unknown error"}`,
+            text: `Error setting retirement distance: ${error instanceof Error ? error.message : "Unknown error"}`,
           },
         ],
         isError: true,
@@ -2610,11 +5363,12 @@ DATA SOURCE: get_run_comparison tool`,
         }),
         deltas: z.object({
           distance: z.number().describe("Percentage change in distance"),
-          pace: z.number().describe("Change in pace (seconds per km)"),
-          elevation: z.number().describe("Change in elevation (meters)"),
+          pace: z.number().describe("Change in pace (seconds per km, or per mile with imperial units)"),
+          elevation: z.number().describe("Change in elevation (meters, or feet with imperial units)"),
           heartRate: z.number().optional().describe("Change in heart rate (bpm)"),
         }),
         trend: z.enum(["improving", "declining", "stable"]),
+        units: z.enum(["metric", "imperial"]).optional().describe("Unit system of the distances, paces and elevations (pass through from get_run_comparison; default: metric)"),
       }).describe("Run comparison data from get_run_comparison tool"),
       config: z.object({
         title: z.string().optional().describe("Custom title for the comparison card"),
@@ -2676,11 +5430,11 @@ DATA SOURCES: fetch_activities, compute_training_load, analyze_elevation_impact,
         title: z.string().optional().describe("Chart title"),
         xAxis: z.object({
           label: z.string().describe("X-axis label"),
-          unit: z.string().optional().describe("X-axis unit (e.g., 'date', 'km')"),
+          unit: z.string().optional().describe("X-axis unit (e.g., 'date', 'km', 'mi')"),
         }).optional().describe("X-axis configuration"),
         yAxis: z.object({
           label: z.string().describe("Y-axis label"),
-          unit: z.string().optional().describe("Y-axis unit (e.g., 'min/km', 'm', 'bpm')"),
+          unit: z.string().optional().describe("Y-axis unit (e.g., 'min/km', 'min/mi', 'm', 'ft', 'bpm'). Match the units of the data tool output"),
         }).optional().describe("Y-axis configuration"),
         colors: z.array(z.string()).optional().describe("Array of colors for series (uses design system gradients by default)"),
         showLegend: z.boolean().optional().describe("Whether to show legend (default: true)"),
@@ -2742,11 +5496,11 @@ DATA SOURCES: fetch_activities, analyze_elevation_impact, calculate_pace_distrib
         title: z.string().optional().describe("Chart title"),
         xAxis: z.object({
           label: z.string().describe("X-axis label"),
-          unit: z.string().optional().describe("X-axis unit (e.g., 'km', 'm', 'bpm')"),
+          unit: z.string().optional().describe("X-axis unit (e.g., 'km', 'mi', 'm', 'ft', 'bpm')"),
         }).optional().describe("X-axis configuration"),
         yAxis: z.object({
           label: z.string().describe("Y-axis label"),
-          unit: z.string().optional().describe("Y-axis unit (e.g., 'min/km', 'm', 'bpm')"),
+          unit: z.string().optional().describe("Y-axis unit (e.g., 'min/km', 'min/mi', 'm', 'ft', 'bpm'). Match the units of the data tool output"),
         }).optional().describe("Y-axis configuration"),
         colors: z.record(z.string(), z.string()).optional().describe("Color mapping for categories (uses design system gradients by default)"),
         showTrendLine: z.boolean().optional().describe("Whether to show linear regression trend line (default: false)"),
@@ -2803,9 +5557,9 @@ DATA SOURCES: fetch_activities (transform to date + intensity pairs)`,
         date: z.string().describe("ISO date string (YYYY-MM-DD)"),
         intensity: z.number().min(0).max(1).describe("Activity intensity on 0-1 scale (0 = no activity, 1 = max intensity)"),
         details: z.object({
-          distance: z.number().optional().describe("Distance in kilometers"),
+          distance: z.number().optional().describe("Distance in kilometers (miles with imperial units)"),
           duration: z.number().optional().describe("Duration in minutes"),
-          pace: z.string().optional().describe("Pace in min:sec format"),
+          pace: z.string().optional().describe("Pace in min:sec format, per km (per mile with imperial units)"),
           activityName: z.string().optional().describe("Name of the activity"),
         }).optional().describe("Optional activity details for tooltip"),
       })).describe("Array of date + intensity pairs with optional activity details"),
@@ -2816,6 +5570,7 @@ DATA SOURCES: fetch_activities (transform to date + intensity pairs)`,
         showTooltips: z.boolean().optional().describe("Whether to show tooltips on hover (default: true)"),
         showMonthLabels: z.boolean().optional().describe("Whether to show month labels (default: true)"),
         showDayLabels: z.boolean().optional().describe("Whether to show day of week labels (default: true)"),
+        units: z.enum(["metric", "imperial"]).optional().describe("Unit system of the details' distance and pace (default: metric)"),
       }).optional().describe("Optional heatmap configuration"),
     },
   },
@@ -2869,7 +5624,7 @@ DATA SOURCES: fetch_activities, calculate_pace_distribution, or any data tool th
         title: z.string().optional().describe("Chart title"),
         type: z.enum(["box", "histogram"]).describe("Visualization type: 'box' for box plot or 'histogram' for histogram"),
         metricLabel: z.string().optional().describe("Label for the metric being visualized (e.g., 'Pace', 'Heart Rate')"),
-        unit: z.string().optional().describe("Unit of measurement (e.g., 'min/km', 'bpm', 'km')"),
+        unit: z.string().optional().describe("Unit of measurement (e.g., 'min/km', 'min/mi', 'bpm', 'km', 'mi')"),
         binCount: z.number().optional().describe("Number of bins for histogram (default: 10, only used for histogram type)"),
         showOutliers: z.boolean().optional().describe("Whether to show outliers in box plot (default: true, only used for box type)"),
         color: z.string().optional().describe("Primary color for the visualization (uses design system gradient by default)"),
@@ -2893,6 +5648,322 @@ DATA SOURCES: fetch_activities, calculate_pace_distribution, or any data tool th
   },
 );
 
+// Data Tool: Discover Recurring Routes
+server.registerTool(
+  "discover_recurring_routes",
+  {
+    description: `Discover the athlete's recurring routes by clustering runs with the same GPS geometry. Returns each route with a name, run count, typical distance, best/median times and a reference polyline. This is a DATA-ONLY tool (no UI).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE:
+- The user asks about their "usual" or "favorite" routes without naming one
+- Finding the polyline to pass to analyze_run_progression
+- Queries like: "What are my regular routes?", "Which routes do I run most?", "What's my best time on my usual loop?"
+
+WHEN NOT TO USE:
+- The route is already known → use analyze_run_progression directly
+- Comparing two specific runs → use get_run_comparison
+
+WORKFLOW:
+1. Call this tool to list recurring routes
+2. Pass a route's polyline to analyze_run_progression to show its progression
+3. Optionally display a route with render_route_map
+
+EXAMPLE QUERIES:
+- "What are my most common running routes?"
+- "How am I improving on my usual route?" (discover first, then analyze_run_progression)
+- "What's my fastest time on each of my regular loops?"
+
+NOTE: Routes are matched on GPS geometry (direction and loop start point do not matter). Treadmill and manual activities have no GPS track and are ignored.`,
+    inputSchema: {
+      days: z
+        .number()
+        .optional()
+        .default(180)
+        .describe("Number of days to analyze (default: 180)"),
+      minRuns: z
+        .number()
+        .min(2)
+        .optional()
+        .default(3)
+        .describe("Minimum number of runs for a route to count as recurring (default: 3)"),
+      toleranceMeters: z
+        .number()
+        .min(10)
+        .max(1000)
+        .optional()
+        .default(100)
+        .describe("How far (in meters) runs may differ and still count as the same route (default: 100)"),
+      limit: z
+        .number()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Maximum number of routes to return (default: 10)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ days, minRuns, toleranceMeters, limit, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    try {
+      const { data: activities, cached, truncated } = await getActivitiesForDays(auth, days, false);
+
+      const clusters = clusterActivitiesByRoute(activities, { toleranceMeters })
+        .filter(cluster => cluster.activities.length >= minRuns);
+
+      const median = (values: number[]) => {
+        const sorted = [...values].sort((a, b) => a - b);
+        return sorted.length % 2 === 0
+          ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+          : sorted[Math.floor(sorted.length / 2)];
+      };
+
+      const routes = clusters.slice(0, limit).map(cluster => {
+        const runs = cluster.activities;
+        const times = runs.map(a => a.moving_time);
+        const best = runs.reduce((fastest, a) => (a.moving_time < fastest.moving_time ? a : fastest));
+        const typicalDistance = median(runs.map(a => a.distance));
+        const medianTime = median(times);
+
+        return {
+          name: nameRouteCluster(cluster),
+          runCount: runs.length,
+          typicalDistance: distanceInUnits(typicalDistance, unitSystem),
+          bestTime: formatDuration(best.moving_time),
+          bestTimeSeconds: best.moving_time,
+          bestPace: paceInUnits(best.average_speed, unitSystem),
+          bestRun: {
+            id: best.id,
+            name: best.name,
+            date: best.start_date_local.split("T")[0],
+          },
+          medianTime: formatDuration(medianTime),
+          medianTimeSeconds: Math.round(medianTime),
+          medianPace: paceInUnits(typicalDistance / medianTime, unitSystem),
+          averageElevation: elevationInUnits(runs.reduce((sum, a) => sum + a.total_elevation_gain, 0) / runs.length, unitSystem),
+          firstRun: runs[runs.length - 1].start_date_local.split("T")[0],
+          lastRun: runs[0].start_date_local.split("T")[0],
+          polyline: cluster.representative.map!.summary_polyline, // Feed to analyze_run_progression
+          activityIds: runs.map(a => a.id),
+        };
+      });
+
+      const withTracks = activities.filter(a => a.map?.summary_polyline).length;
+
+      return {
+        structuredContent: {
+          data: {
+            routes,
+            totalRoutes: clusters.length,
+          },
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "strava",
+            cached,
+            truncated,
+            scannedActivities: activities.length,
+            activitiesWithGps: withTracks,
+            minRuns,
+            toleranceMeters,
+            units: unitSystem,
+            dateRange: {
+              days,
+              from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+              to: new Date().toISOString().split('T')[0],
+            },
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: routes.length > 0
+              ? `Found ${clusters.length} recurring routes (${minRuns}+ runs) among ${withTracks} GPS runs in the last ${days} days: ${routes.map(r => `${r.name} (${r.runCount} runs, ${r.typicalDistance}${unitLabels(unitSystem).distance}, best ${r.bestTime})`).join(", ")}. Pass a route's polyline to analyze_run_progression to track progress on it.${truncated ? " ⚠️ Only part of the date range could be fetched - older runs may be missing." : ""}`
+              : `No routes run at least ${minRuns} times found among ${withTracks} GPS runs in the last ${days} days.`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error discovering recurring routes:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error discovering recurring routes: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+// Data Tool: Get Personal Records
+server.registerTool(
+  "get_personal_records",
+  {
+    description: `Get the athlete's personal records (fastest 1K, mile, 5K, 10K, half marathon and marathon), all-time and for the last 12 months, plus PRs set recently. This is a DATA-ONLY tool (no UI).
+
+AUTHENTICATION: OAuth handles authentication automatically. If the user has already connected their Strava account in this conversation, the token is available - just call the tool. Only prompt for authentication if you receive an authentication error.
+
+WHEN TO USE:
+- The user asks about their PRs or fastest times over a standard distance
+- Checking whether a recent run was a PR before commenting on it
+- Queries like: "What's my 5K PR?", "What are my best times?", "Did I set any PRs this year?"
+
+WHEN NOT TO USE:
+- Showing the PRs visually → use show_pr_board
+- Predicting what the athlete could run now → use predict_race_times
+- Best times on a specific route → use discover_recurring_routes
+
+WORKFLOW:
+1. Call this tool to get records as data
+2. Optionally visualize with render_comparison_card (e.g. all-time vs last 12 months)
+
+EXAMPLE QUERIES:
+- "What's my fastest 10K ever?"
+- "Have I set any PRs lately?"
+- "How does my best 5K this year compare to my all-time best?"
+
+NOTE: Records come from Strava best efforts, or from distance/time streams for activities without them. Activities are scanned once and remembered; a long history is scanned over several calls (see metadata.remainingActivities). New runs are scanned as they sync, and any record they break is listed in recentRecords.`,
+    inputSchema: {
+      days: z
+        .number()
+        .min(30)
+        .max(3650)
+        .optional()
+        .default(1825)
+        .describe("How far back (in days) to look for records (default: 1825, about 5 years)"),
+      scanBudget: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .default(30)
+        .describe("Maximum number of not-yet-scanned activities to scan in this call (default: 30)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
+      token: z
+        .string()
+        .optional()
+        .describe("Strava access token (optional - OAuth handles authentication automatically)"),
+    },
+  },
+  async ({ days, scanBudget, units, token }, extra) => {
+    // Try manual token first, then OAuth
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
+
+    if (!auth) {
+      return authErrorResponse("missing_token");
+    }
+
+    const unitSystem = resolveUnits(units, auth.athlete);
+
+    try {
+      const { data: activities, cached, truncated } = await getActivitiesForDays(auth, days, false);
+
+      const records = await getPersonalRecords(auth, activities, scanBudget);
+      const allTime = records.allTime.map(r => recordToSummary(r, unitSystem));
+      const last12Months = records.last12Months.map(r => recordToSummary(r, unitSystem));
+      const recentRecords = records.newRecords.map(r => recordToSummary(r, unitSystem));
+
+      return {
+        structuredContent: {
+          data: {
+            allTime,
+            last12Months,
+            recentRecords,
+          },
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "strava",
+            cached,
+            truncated,
+            units: unitSystem,
+            distances: RECORD_DISTANCES.map(d => d.name),
+            scannedActivities: records.scannedActivities,
+            scannedThisCall: records.scan.scanned,
+            remainingActivities: records.scan.remaining,
+            rateLimited: records.scan.rateLimited,
+            dateRange: {
+              days,
+              from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+              to: new Date().toISOString().split('T')[0],
+            },
+          },
+        },
+        content: [
+          {
+            type: "text",
+            text: allTime.length > 0
+              ? `Personal records (all-time): ${allTime.map(r => `${r.name} ${r.time} (${r.date})`).join(", ")}.${recentRecords.length > 0 ? ` Recent PRs: ${recentRecords.map(r => `${r.name} ${r.time} on ${r.date}, ${r.improvementSeconds}s faster`).join(", ")}.` : ""}${records.scan.remaining > 0 ? ` ⚠️ ${records.scan.remaining} older activities not scanned yet - call again to include them.` : ""}`
+              : `No personal records found yet among ${activities.length} activities in the last ${days} days.${records.scan.remaining > 0 ? ` ${records.scan.remaining} activities not scanned yet - call again to include them.` : ""}`,
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle 401 Unauthorized errors specifically
+      if (error instanceof UnauthorizedError) {
+        return authErrorResponse("unauthorized");
+      }
+
+      // Handle 429 Rate Limit errors
+      if (error instanceof RateLimitError) {
+        return rateLimitErrorResponse(
+          error.retryAfter,
+          error.limit,
+          error.usage
+        );
+      }
+
+      console.error("Error fetching personal records:", error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching personal records: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
 // Integrated Widget: Analyze Run Progression
 server.registerWidget(
   "analyze_run_progression",
@@ -2920,10 +5991,10 @@ EXAMPLE QUERIES:
 - "Track my performance on my regular running route"
 - "Am I getting faster on my favorite route?"
 
-NOTE: Requires either a route name (searches activity names) or a polyline (for precise matching)`,
+NOTE: Requires either a route name (searches activity names) or a polyline (for precise matching). Polyline matching compares GPS geometry and returns a matchConfidence (0-1) per run; pass the map.summary_polyline of one run on the route (from fetch_activities or discover_recurring_routes).`,
   },
   {
-    description: "Analyze how performance on a specific route has changed over time. Fetches activities matching the route (by polyline similarity or route ID), calculates performance metrics, and displays progression with trend analysis. Shows best/worst/average performances. Use this to track improvement on favorite routes or regular training loops. The widget renders all progression data and statistics visually - DO NOT create markdown tables or list individual runs in your response. Provide commentary about improvement trends and insights only.",
+    description: "Analyze how performance on a specific route has changed over time. Fetches activities matching the route (by polyline geometry similarity, in either direction and from any start point on a loop, or by activity name), calculates performance metrics, and displays progression with trend analysis. Shows best/worst/average performances. Use this to track improvement on favorite routes or regular training loops. The widget renders all progression data and statistics visually - DO NOT create markdown tables or list individual runs in your response. Provide commentary about improvement trends and insights only.",
     inputSchema: {
       polyline: z
         .string()
@@ -2933,29 +6004,43 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
         .string()
         .optional()
         .describe("Route name to search for in activity names (alternative to polyline)"),
+      toleranceMeters: z
+        .number()
+        .min(10)
+        .max(1000)
+        .optional()
+        .default(100)
+        .describe("How far (in meters) a run may stray from the reference polyline and still count as the same route (default: 100)"),
       days: z
         .number()
         .optional()
         .default(90)
         .describe("Number of days to analyze (default: 90)"),
+      units: z
+        .enum(["metric", "imperial"])
+        .optional()
+        .describe('Unit system: "metric" (km, min/km, m) or "imperial" (mi, min/mi, ft). Default: the athlete\'s Strava measurement preference'),
       token: z
         .string()
         .optional()
         .describe("Strava access token (optional - OAuth handles authentication automatically)"),
     },
   },
-  async ({ polyline, routeName, days, token }, extra) => {
+  async ({ polyline, routeName, toleranceMeters, days, units, token }, extra) => {
     // Try manual token first, then OAuth
-    let auth = token ? { userId: "manual", accessToken: token } : await getAuth(extra);
+    let auth = token ? await getManualAuth(token) : await getAuth(extra);
     
     if (!auth) {
       return authErrorResponse("missing_token");
     }
 
+    const unitSystem = resolveUnits(units, auth.athlete);
+    const labels = unitLabels(unitSystem);
+
     try {
       // Fetch activities from the specified time range
       const afterTimestamp = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
-      const allActivities = await fetchRecentActivities(auth.accessToken, afterTimestamp);
+      const { data: allActivities, truncated } = await getActivities(auth, { after: afterTimestamp });
 
       if (allActivities.length === 0) {
         return {
@@ -2985,6 +6070,8 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
 
       // Match activities to the route
       let matchedActivities: StravaActivity[] = [];
+      // Match confidence per activity id (polyline matching only)
+      const matches = new Map<number, RouteMatch>();
 
       if (routeName) {
         // Simple name-based matching
@@ -2993,39 +6080,33 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
           activity.name.toLowerCase().includes(normalizedRouteName)
         );
       } else if (polyline) {
-        // For polyline matching, we'll use a simplified approach:
-        // Match activities with similar distance and that have polylines
-        // In a production system, you'd decode polylines and calculate Hausdorff distance
-        
-        // For now, we'll fetch detailed data for activities and match by polyline presence
-        // This is a simplified implementation - a full implementation would decode and compare polylines
-        const detailedActivities = await Promise.all(
-          allActivities.slice(0, 20).map(async (activity) => {
-            try {
-              return await fetchDetailedActivity(auth.accessToken, activity.id);
-            } catch (error) {
-              console.error(`Failed to fetch details for activity ${activity.id}:`, error);
-              return activity;
-            }
-          })
-        );
+        // Geometry matching: decode both tracks, align direction and start point,
+        // and accept runs within toleranceMeters (discrete Fréchet distance)
+        const reference = decodePolyline(polyline);
 
-        // Match activities that have the same polyline or very similar distance
-        // This is a placeholder - real implementation would decode and compare polylines
-        matchedActivities = detailedActivities.filter(activity => 
-          activity.map?.summary_polyline === polyline ||
-          (activity.map?.summary_polyline && activity.map.summary_polyline.length > 0)
-        );
+        if (reference.length < 2) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: The provided polyline could not be decoded into a route. Pass the encoded map.summary_polyline of a Strava activity.",
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        // If no exact polyline match, fall back to distance-based matching
-        if (matchedActivities.length === 0) {
-          // Use the first activity's distance as reference
-          const referenceDistance = allActivities[0].distance;
-          const distanceTolerance = referenceDistance * 0.1; // 10% tolerance
-          
-          matchedActivities = allActivities.filter(activity =>
-            Math.abs(activity.distance - referenceDistance) <= distanceTolerance
-          );
+        for (const activity of allActivities) {
+          if (!activity.map?.summary_polyline) {
+            continue; // Treadmill and manual activities have no GPS track
+          }
+          const match = compareRoutes(reference, decodePolyline(activity.map.summary_polyline), {
+            toleranceMeters,
+          });
+          if (match.matched) {
+            matches.set(activity.id, match);
+            matchedActivities.push(activity);
+          }
         }
       } else {
         // No route identifier provided - return error
@@ -3073,23 +6154,19 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
 
       // Calculate performance metrics for each activity
       const progression = matchedActivities.map(activity => {
-        const paceSecondsPerKm = 1000 / activity.average_speed;
-        const formatPace = (seconds: number) => {
-          const minutes = Math.floor(seconds / 60);
-          const secs = Math.round(seconds % 60);
-          return `${minutes}:${secs.toString().padStart(2, "0")}`;
-        };
-
+        const paceSeconds = perKmSecondsInUnits(1000 / activity.average_speed, unitSystem); // per km or mile
         return {
           id: activity.id,
           name: activity.name,
           date: activity.start_date_local.split("T")[0],
-          distance: Math.round((activity.distance / 1000) * 10) / 10,
-          pace: formatPace(paceSecondsPerKm),
-          paceSeconds: Math.round(paceSecondsPerKm),
+          distance: distanceInUnits(activity.distance, unitSystem),
+          pace: formatPaceSeconds(paceSeconds),
+          paceSeconds: Math.round(paceSeconds),
           duration: Math.round(activity.moving_time / 60),
-          elevation: Math.round(activity.total_elevation_gain),
+          elevation: elevationInUnits(activity.total_elevation_gain, unitSystem),
           heartRate: activity.average_heartrate,
+          matchConfidence: matches.get(activity.id)?.confidence,
+          reversed: matches.get(activity.id)?.reversed,
         };
       });
 
@@ -3099,12 +6176,6 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
       const worstPaceSeconds = Math.max(...paceSeconds);
       const avgPaceSeconds = Math.round(paceSeconds.reduce((sum, p) => sum + p, 0) / paceSeconds.length);
 
-      const formatPace = (seconds: number) => {
-        const minutes = Math.floor(seconds / 60);
-        const secs = Math.round(seconds % 60);
-        return `${minutes}:${secs.toString().padStart(2, "0")}`;
-      };
-
       // Calculate improvement (compare first and last run)
       const firstRunPace = progression[0].paceSeconds;
       const lastRunPace = progression[progression.length - 1].paceSeconds;
@@ -3113,11 +6184,12 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
         ? Math.round((improvementSeconds / firstRunPace) * 100 * 10) / 10
         : 0;
 
-      // Determine trend
+      // Determine trend (a 10s/km pace change, whatever the display units)
+      const paceThreshold = perKmSecondsInUnits(10, unitSystem);
       let trend: "improving" | "declining" | "stable" = "stable";
-      if (improvementSeconds > 10) {
+      if (improvementSeconds > paceThreshold) {
         trend = "improving"; // Getting faster
-      } else if (improvementSeconds < -10) {
+      } else if (improvementSeconds < -paceThreshold) {
         trend = "declining"; // Getting slower
       }
 
@@ -3125,15 +6197,17 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
         structuredContent: {
           route: {
             identifier: polyline || routeName || "unknown",
+            matchMethod: polyline && !routeName ? "polyline" : "name",
+            toleranceMeters: polyline && !routeName ? toleranceMeters : undefined,
             matchedActivities: matchedActivities.length,
-            averageDistance: Math.round((matchedActivities.reduce((sum, a) => sum + a.distance, 0) / matchedActivities.length / 1000) * 10) / 10,
+            averageDistance: distanceInUnits(matchedActivities.reduce((sum, a) => sum + a.distance, 0) / matchedActivities.length, unitSystem),
           },
           progression,
           summary: {
             totalRuns: matchedActivities.length,
-            bestPace: formatPace(bestPaceSeconds),
-            worstPace: formatPace(worstPaceSeconds),
-            averagePace: formatPace(avgPaceSeconds),
+            bestPace: formatPaceSeconds(bestPaceSeconds),
+            worstPace: formatPaceSeconds(worstPaceSeconds),
+            averagePace: formatPaceSeconds(avgPaceSeconds),
             improvement: improvementPercentage,
             improvementSeconds,
             trend,
@@ -3142,11 +6216,18 @@ NOTE: Requires either a route name (searches activity names) or a polyline (for
               last: progression[progression.length - 1].date,
             },
           },
+          metadata: {
+            fetchedAt: new Date().toISOString(),
+            source: "strava",
+            scannedActivities: allActivities.length,
+            truncated,
+            units: unitSystem,
+          },
         },
         content: [
           {
             type: "text",
-            text: `Route progression: ${matchedActivities.length} runs found. Best: ${formatPace(bestPaceSeconds)}/km, Average: ${formatPace(avgPaceSeconds)}/km. ${trend === "improving" ? `Improved by ${improvementPercentage}%` : trend === "declining" ? `Declined by ${Math.abs(improvementPercentage)}%` : "Stable performance"}.`,
+            text: `Route progression: ${matchedActivities.length} runs found. Best: ${formatPaceSeconds(bestPaceSeconds)}${labels.pace}, Average: ${formatPaceSeconds(avgPaceSeconds)}${labels.pace}. ${trend === "improving" ? `Improved by ${improvementPercentage}%` : trend === "declining" ? `Declined by ${Math.abs(improvementPercentage)}%` : "Stable performance"}.${truncated ? " ⚠️ Only part of the date range could be fetched - older runs may be missing." : ""}`,
           },
         ],
         isError: false,
@@ -3221,6 +6302,7 @@ server.registerWidget(
         showPOIs: z.boolean().optional().describe("Show points of interest (default: true)"),
         showWaypoints: z.boolean().optional().describe("Show turn-by-turn directions (default: true)"),
         mapStyle: z.enum(["standard", "satellite", "terrain"]).optional().describe("Map style"),
+        units: z.enum(["metric", "imperial"]).optional().describe("Units to display distances and elevations in; route data itself stays in km and meters (default: metric, or metadata.units from generate_running_route)"),
       }).optional().describe("Display configuration"),
     },
   },
@@ -3233,7 +6315,7 @@ server.registerWidget(
       content: [
         {
           type: "text",
-          text: `Route map: ${route.name || "Running route"} - ${route.distance?.toFixed(1) || "N/A"} km${route.elevationGain ? `, ${Math.round(route.elevationGain)}m elevation gain` : ""}`,
+          text: `Route map: ${route.name || "Running route"} - ${route.distance !== undefined ? formatDistanceInUnits(route.distance * 1000, config?.units ?? "metric") : "N/A"}${route.elevationGain ? `, ${formatElevationInUnits(route.elevationGain, config?.units ?? "metric")} elevation gain` : ""}`,
         },
       ],
       isError: false,
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSplits, strategyCounts } from "./split-analysis.js";
+import type { Split, StravaActivity } from "./strava.js";
+import { buildActivity } from "./test-fixtures.js";
+
+// Full kilometre splits at the given paces, seconds per km
+function splits(paces: number[], overrides: Partial<Split> = {}): Split[] {
+  return paces.map((pace, i) => ({
+    split: i + 1,
+    distance: 1000,
+    elapsed_time: pace,
+    moving_time: pace,
+    average_speed: 1000 / pace,
+    ...overrides,
+  }));
+}
+
+function activity(splitsMetric: Split[], overrides: Partial<StravaActivity> = {}) {
+  const distance = splitsMetric.reduce((sum, s) => sum + s.distance, 0);
+  const seconds = splitsMetric.reduce((sum, s) => sum + s.moving_time, 0);
+  return buildActivity({
+    id: 1,
+    distance,
+    moving_time: seconds,
+    elapsed_time: seconds,
+    average_speed: seconds > 0 ? distance / seconds : 0,
+    splits_metric: splitsMetric,
+    ...overrides,
+  });
+}
+
+const strategyOf = (paces: number[]) => analyzeSplits(activity(splits(paces)))?.strategy;
+
+describe("analyzeSplits", () => {
+  it("classifies the halves", () => {
+    expect(strategyOf([300, 300, 300, 300])).toBe("even");
+    expect(strategyOf([300, 300, 290, 290])).toBe("negative");
+    expect(strategyOf([290, 290, 300, 300])).toBe("positive");
+  });
+
+  it("calls a slow last quarter a fade whatever the halves say", () => {
+    const analysis = analyzeSplits(activity(splits([290, 290, 290, 320])))!;
+    expect(analysis.strategy).toBe("fade");
+    expect(analysis.halfDifference).toBe(5.2);
+    expect(analysis.lastQuarterSlowdown).toBe(10.3);
+  });
+
+  it("apportions the split that straddles the middle", () => {
+    const analysis = analyzeSplits(activity(splits([300, 310, 300])))!;
+    expect(analysis.firstHalfPace).toBe("5:03");
+    expect(analysis.secondHalfPace).toBe("5:03");
+    expect(analysis.strategy).toBe("even");
+  });
+
+  it("summarizes the run and each split", () => {
+    const analysis = analyzeSplits(activity(splits([290, 290, 310, 310])))!;
+
+    expect(analysis).toMatchObject({
+      date: "2024-03-01",
+      distance: 4,
+      duration: "20:00",
+      averagePace: "5:00",
+      firstHalfPace: "4:50",
+      secondHalfPace: "5:10",
+      variability: { paceCv: 3.3, rating: "steady" },
+      fastestSplit: 1,
+      slowestSplit: 4,
+    });
+    expect(analysis.splits.map((s) => s.paceDelta)).toEqual([-10, -10, 10, 10]);
+    expect(analysis.splits[0]).toMatchObject({ pace: "4:50", time: "4:50", fastest: true, slowest: false, gap: null });
+  });
+
+  it("tells a hilly second half from slowing down with grade-adjusted pace", () => {
+    const hilly = splits([290, 290, 310, 310]).map((s) => ({ ...s, average_grade_adjusted_speed: 1000 / 300 }));
+    const analysis = analyzeSplits(activity(hilly))!;
+
+    expect(analysis.strategy).toBe("positive");
+    expect(analysis.gapStrategy).toBe("even");
+    expect(analysis.gapHalfDifference).toBe(0);
+    expect(analysis.splits[2].gap).toBe("5:00");
+  });
+
+  it("leaves a short last split out of variability and highlights", () => {
+    const finish: Split = { split: 4, distance: 400, elapsed_time: 80, moving_time: 80, average_speed: 5 };
+    const analysis = analyzeSplits(activity([...splits([300, 300, 300]), finish]))!;
+
+    expect(analysis.variability.paceCv).toBe(0);
+    expect(analysis.fastestSplit).toBe(1);
+    expect(analysis.splits[3]).toMatchObject({ distance: 0.4, pace: "3:20", fastest: false });
+  });
+
+  it("uses per-mile splits with imperial units", () => {
+    const mile = 1609.344;
+    const standard = [480, 500].map((seconds) => ({
+      distance: mile,
+      elapsed_time: seconds,
+      moving_time: seconds,
+      average_speed: mile / seconds,
+    }));
+    const analysis = analyzeSplits(activity(splits([300, 300]), { splits_standard: standard }), "imperial")!;
+
+    expect(analysis.distance).toBe(2);
+    expect(analysis.splits.map((s) => s.pace)).toEqual(["8:00", "8:20"]);
+    expect(analysis.strategy).toBe("positive");
+  });
+
+  it("needs at least two splits", () => {
+    expect(analyzeSplits(activity(splits([300])))).toBeNull();
+    expect(analyzeSplits(activity([]))).toBeNull();
+  });
+});
+
+describe("strategyCounts", () => {
+  it("counts every strategy", () => {
+    const analyses = [[300, 300], [300, 280], [300, 300]].map((paces) => analyzeSplits(activity(splits(paces)))!);
+    expect(strategyCounts(analyses)).toEqual({ negative: 1, even: 2, positive: 0, fade: 0 });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Pacing strategy from an activity's splits
+ *
+ * Splits are Strava's per-km (splits_metric) or per-mile (splits_standard)
+ * splits, picked to match the unit system. The run is cut in half by
+ * distance, apportioning the split that straddles the middle, and the
+ * second half's pace is compared with the first's. A late collapse - the
+ * last quarter clearly slower than the rest - is a fade, whatever the halves
+ * say. When Strava provides grade-adjusted split speeds the same comparison
+ * runs on those, so a hilly second half can be told apart from slowing down.
+ */
+
+import { activityDateKey } from "./calendar.js";
+import { formatDuration, type Split, type StravaActivity } from "./strava.js";
+import {
+  distanceInUnits,
+  elevationInUnits,
+  paceInUnits,
+  perKmSecondsInUnits,
+  type UnitSystem,
+} from "./units.js";
+
+export type PacingStrategy = "negative" | "even" | "positive" | "fade";
+
+export interface SplitStats {
+  split: number; // 1-based
+  distance: number; // km or mi; below 1 for the last partial split
+  time: string; // moving time, m:ss
+  pace: string; // min:sec per km (or per mile)
+  paceSeconds: number; // pace in seconds, for charting
+  paceDelta: number; // seconds vs the run's average pace; positive is slower
+  gap: string | null; // grade-adjusted pace
+  elevationChange: number | null; // m or ft, net
+  heartRate: number | null;
+  fastest: boolean;
+  slowest: boolean;
+}
+
+export interface SplitAnalysis {
+  id: number;
+  name: string;
+  date: string;
+  distance: number; // km or mi
+  duration: string;
+  averagePace: string;
+  strategy: PacingStrategy;
+  halfDifference: number; // % second half vs first half pace; positive is slower
+  firstHalfPace: string;
+  secondHalfPace: string;
+  lastQuarterSlowdown: number; // % last quarter vs the first three quarters
+  gapStrategy: PacingStrategy | null; // on grade-adjusted pace, when available
+  gapHalfDifference: number | null;
+  variability: { paceCv: number; rating: "very even" | "steady" | "variable" };
+  fastestSplit: number;
+  slowestSplit: number;
+  splits: SplitStats[];
+}
+
+// Second half vs first half, percent
+const EVEN_PERCENT = 1.5;
+// Last quarter vs the first three quarters, percent
+const FADE_PERCENT = 5;
+// Pace coefficient of variation bands over full splits, percent
+const VERY_EVEN_CV = 3;
+const STEADY_CV = 6;
+// Splits shorter than this share of a full split are left out of variability and highlights
+const MIN_FULL_SPLIT = 0.9;
+
+/**
+ * Splits in the athlete's unit system, or null for activities without detail
+ */
+export function activitySplits(activity: StravaActivity, units: UnitSystem): Split[] | null {
+  const splits = units === "imperial" ? activity.splits_standard : activity.splits_metric;
+  return splits && splits.length > 0 ? splits.filter((s) => s.distance > 0 && s.moving_time > 0) : null;
+}
+
+/**
+ * Pace in seconds per meter between two distances along the run, apportioning
+ * straddling splits by distance
+ */
+function sectionPace(splits: Split[], from: number, to: number, speed: (s: Split) => number): number {
+  let start = 0;
+  let meters = 0;
+  let seconds = 0;
+  for (const split of splits) {
+    const end = start + split.distance;
+    const overlap = Math.min(end, to) - Math.max(start, from);
+    if (overlap > 0) {
+      meters += overlap;
+      seconds += overlap / speed(split);
+    }
+    start = end;
+  }
+  return meters > 0 ? seconds / meters : 0;
+}
+
+function classify(halfDifference: number, lastQuarterSlowdown: number): PacingStrategy {
+  if (lastQuarterSlowdown >= FADE_PERCENT) return "fade";
+  if (halfDifference <= -EVEN_PERCENT) return "negative";
+  return halfDifference >= EVEN_PERCENT ? "positive" : "even";
+}
+
+function percentChange(from: number, to: number): number {
+  return Math.round(((to - from) / from) * 1000) / 10;
+}
+
+/**
+ * Classify pacing and summarize each split; null without at least two splits
+ */
+export function analyzeSplits(activity: StravaActivity, units: UnitSystem = "metric"): SplitAnalysis | null {
+  const splits = activitySplits(activity, units);
+  if (!splits || splits.length < 2) return null;
+
+  const total = splits.reduce((sum, s) => sum + s.distance, 0);
+  const speed = (s: Split) => s.average_speed > 0 ? s.average_speed : s.distance / s.moving_time;
+  const halves = (speedOf: (s: Split) => number) => {
+    const first = sectionPace(splits, 0, total / 2, speedOf);
+    const second = sectionPace(splits, total / 2, total, speedOf);
+    const early = sectionPace(splits, 0, total * 0.75, speedOf);
+    const late = sectionPace(splits, total * 0.75, total, speedOf);
+    return {
+      first,
+      second,
+      halfDifference: percentChange(first, second),
+      lastQuarterSlowdown: percentChange(early, late),
+    };
+  };
+
+  const pace = halves(speed);
+  const hasGap = splits.every((s) => s.average_grade_adjusted_speed && s.average_grade_adjusted_speed > 0);
+  const gap = hasGap ? halves((s) => s.average_grade_adjusted_speed!) : null;
+
+  // Variability and highlights over full splits only
+  const fullLength = Math.max(...splits.map((s) => s.distance));
+  const paceSeconds = splits.map((s) => perKmSecondsInUnits(1000 / speed(s), units));
+  const full = paceSeconds
+    .map((pace, index) => ({ index, pace }))
+    .filter(({ index }) => splits[index].distance >= fullLength * MIN_FULL_SPLIT);
+  const meanPace = full.reduce((sum, f) => sum + f.pace, 0) / full.length;
+  const variance = full.reduce((sum, f) => sum + (f.pace - meanPace) ** 2, 0) / full.length;
+  const paceCv = Math.round((Math.sqrt(variance) / meanPace) * 1000) / 10;
+  const byPace = [...full].sort((a, b) => a.pace - b.pace);
+  const fastest = byPace[0].index;
+  const slowest = byPace[byPace.length - 1].index;
+
+  const movingTime = splits.reduce((sum, s) => sum + s.moving_time, 0);
+  const averageSeconds = perKmSecondsInUnits(movingTime / (total / 1000), units);
+  const toPace = (secondsPerMeter: number) => paceInUnits(1 / secondsPerMeter, units);
+
+  return {
+    id: activity.id,
+    name: activity.name,
+    date: activityDateKey(activity),
+    distance: distanceInUnits(total, units, 2),
+    duration: formatDuration(movingTime),
+    averagePace: paceInUnits(total / movingTime, units),
+    strategy: classify(pace.halfDifference, pace.lastQuarterSlowdown),
+    halfDifference: pace.halfDifference,
+    firstHalfPace: toPace(pace.first),
+    secondHalfPace: toPace(pace.second),
+    lastQuarterSlowdown: pace.lastQuarterSlowdown,
+    gapStrategy: gap ? classify(gap.halfDifference, gap.lastQuarterSlowdown) : null,
+    gapHalfDifference: gap ? gap.halfDifference : null,
+    variability: {
+      paceCv,
+      rating: paceCv < VERY_EVEN_CV ? "very even" : paceCv < STEADY_CV ? "steady" : "variable",
+    },
+    fastestSplit: fastest + 1,
+    slowestSplit: slowest + 1,
+    splits: splits.map((s, i) => ({
+      split: i + 1,
+      distance: distanceInUnits(s.distance, units, 2),
+      time: formatDuration(s.moving_time),
+      pace: paceInUnits(speed(s), units),
+      paceSeconds: Math.round(paceSeconds[i]),
+      paceDelta: Math.round(paceSeconds[i] - averageSeconds),
+      gap: s.average_grade_adjusted_speed ? paceInUnits(s.average_grade_adjusted_speed, units) : null,
+      elevationChange: s.elevation_difference !== undefined ? elevationInUnits(s.elevation_difference, units) : null,
+      heartRate: s.average_heartrate ? Math.round(s.average_heartrate) : null,
+      fastest: i === fastest,
+      slowest: i === slowest,
+    })),
+  };
+}
+
+/**
+ * How often each strategy shows up across several runs
+ */
+export function strategyCounts(analyses: SplitAnalysis[]): Record<PacingStrategy, number> {
+  const counts: Record<PacingStrategy, number> = { negative: 0, even: 0, positive: 0, fade: 0 };
+  for (const analysis of analyses) counts[analysis.strategy]++;
+  return counts;
+}
@@ -2,6 +2,9 @@
  * Strava API client utilities
  */
 
+import { evictCachedIdentity } from "./identity-cache.js";
+import { distanceInUnits, paceInUnits, type UnitSystem } from "./units.js";
+
 export interface StravaActivity {
   id: number;
   name: string;
@@ -9,33 +12,161 @@ export interface StravaActivity {
   moving_time: number; // seconds
   elapsed_time: number; // seconds
   total_elevation_gain: number; // meters
-  type: string;
+  type: string; // legacy activity type; trail and virtual runs report "Run"
+  sport_type?: string; // e.g. "Run", "TrailRun", "VirtualRun", "Ride", "Walk"
   start_date: string; // ISO 8601
-  start_date_local: string;
+  start_date_local: string; // local wall-clock time, written with a "Z" suffix
+  timezone?: string; // e.g. "(GMT-08:00) America/Los_Angeles"
   average_speed: number; // meters per second
   average_heartrate?: number;
   max_heartrate?: number;
-  splits_metric?: Split[];
+  workout_type?: number | null; // runs: 0 default, 1 race, 2 long run, 3 workout
+  gear_id?: string | null; // shoes start with "g", bikes with "b"
+  splits_metric?: Split[]; // per km, detailed activities only
+  splits_standard?: Split[]; // per mile, detailed activities only
+  laps?: Lap[]; // detailed activities only
+  best_efforts?: BestEffort[]; // detailed activities only
   map?: {
     summary_polyline: string;
   };
 }
 
+export interface StravaAthlete {
+  id: number;
+  username?: string | null;
+  firstname?: string;
+  lastname?: string;
+  city?: string | null;
+  country?: string | null;
+  sex?: "M" | "F" | null;
+  weight?: number | null; // kg
+  measurement_preference?: "meters" | "feet";
+  shoes?: StravaGear[]; // authenticated athlete only
+}
+
+/**
+ * Shoes or bike; the athlete's gear list carries the summary fields only
+ */
+export interface StravaGear {
+  id: string;
+  name: string;
+  primary: boolean;
+  distance: number; // meters, everything logged with this gear in Strava
+  retired?: boolean;
+  brand_name?: string; // detailed gear only
+  model_name?: string; // detailed gear only
+  description?: string | null; // detailed gear only
+}
+
 export interface Split {
+  split?: number; // 1-based
+  distance: number; // meters
+  elapsed_time: number; // seconds
+  moving_time: number; // seconds
+  average_speed: number; // meters per second
+  average_grade_adjusted_speed?: number; // meters per second
+  average_heartrate?: number;
+  elevation_difference?: number; // meters, net over the split
+}
+
+/**
+ * Lap recorded by the device: manual lap presses, auto-laps or workout steps
+ * (detailed activities only)
+ */
+export interface Lap {
+  lap_index: number; // 1-based
+  name?: string;
   distance: number; // meters
   elapsed_time: number; // seconds
   moving_time: number; // seconds
   average_speed: number; // meters per second
   average_heartrate?: number;
+  max_heartrate?: number;
+  start_index: number; // first stream sample of the lap
+  end_index: number; // last stream sample of the lap
+}
+
+/**
+ * Fastest segment of a standard distance within an activity (detailed activities only)
+ */
+export interface BestEffort {
+  name: string; // e.g. "5k", "Half-Marathon"
+  distance: number; // meters
+  elapsed_time: number; // seconds
+  moving_time: number; // seconds
+  start_date_local: string;
+  pr_rank?: number | null; // 1-3 when this was an all-time top-3 effort at the time
+}
+
+export type StreamKey =
+  | "time"
+  | "distance"
+  | "latlng"
+  | "altitude"
+  | "heartrate"
+  | "cadence"
+  | "velocity_smooth"
+  | "grade_smooth";
+
+export const STREAM_KEYS: StreamKey[] = [
+  "time",
+  "distance",
+  "latlng",
+  "altitude",
+  "heartrate",
+  "cadence",
+  "velocity_smooth",
+  "grade_smooth",
+];
+
+/**
+ * Per-sample activity streams, all arrays aligned by index
+ * Streams the device did not record are absent
+ */
+export interface ActivityStreams {
+  time?: number[]; // seconds from start
+  distance?: number[]; // meters from start
+  latlng?: [number, number][];
+  altitude?: number[]; // meters
+  heartrate?: number[]; // bpm
+  cadence?: number[]; // steps per minute per leg (Strava convention for runs)
+  velocity_smooth?: number[]; // meters per second
+  grade_smooth?: number[]; // percent
+}
+
+export interface ZoneRange {
+  min: number;
+  max: number; // -1 for the open-ended top zone
+}
+
+export interface AthleteZones {
+  heart_rate?: {
+    custom_zones: boolean;
+    zones: ZoneRange[];
+  };
 }
 
 export interface ActivitySummary {
   date: string;
-  distance: number; // km
-  pace: string; // min:sec per km
+  distance: number; // km, or mi with imperial units
+  pace: string; // min:sec per km (or per mile)
   duration: number; // minutes
+  sportType: string;
 }
 
+export interface SportSummary {
+  sportType: string;
+  count: number;
+  distance: number; // km, or mi with imperial units
+  movingTime: number; // minutes
+}
+
+// Default sport filter: every kind of run, but no other sports
+export const RUN_SPORT_TYPES = ["Run", "TrailRun", "VirtualRun"];
+
+// Pass as a sport type to include every sport
+export const ALL_SPORT_TYPES = "All";
+
 /**
  * Custom error class for 401 Unauthorized responses
  */
@@ -68,24 +199,180 @@ export class RateLimitError extends Error {
   }
 }
 
+/**
+ * Result of a paginated activity fetch
+ */
+export interface ActivityFetchResult {
+  activities: StravaActivity[];
+  pagesFetched: number;
+  truncated: boolean; // true when MAX_ACTIVITY_PAGES was reached before the window was exhausted
+  detailedCount?: number; // with details requested: activities that are detailed, the rest are summaries
+  detailsTruncated?: boolean; // true when MAX_DETAIL_FETCHES or failed fetches left summaries
+}
+
+// Strava caps per_page at 200
+const ACTIVITIES_PER_PAGE = 200;
+
+// Safety cap so a multi-year window cannot exhaust the 100-per-15-minute rate limit
+const MAX_ACTIVITY_PAGES = 10;
+
+/**
+ * Fetch every activity in the after/before window, walking all pages
+ * Strava pages oldest first when `after` is sent; with `newestFirst` only
+ * `before` is sent, so a truncated fetch still covers the newest end of the window
+ */
+export async function fetchAllActivities(
+  accessToken: string,
+  afterTimestamp?: number,
+  beforeTimestamp?: number,
+  newestFirst: boolean = false,
+): Promise<ActivityFetchResult> {
+  const activities: StravaActivity[] = [];
+  let pagesFetched = 0;
+  let truncated = false;
+
+  for (let page = 1; ; page++) {
+    if (page > MAX_ACTIVITY_PAGES) {
+      truncated = true;
+      break;
+    }
+
+    const params = new URLSearchParams({
+      per_page: ACTIVITIES_PER_PAGE.toString(),
+      page: page.toString(),
+    });
+
+    if (afterTimestamp && !newestFirst) {
+      params.append("after", afterTimestamp.toString());
+    }
+    if (beforeTimestamp) {
+      params.append("before", beforeTimestamp.toString());
+    }
+
+    const res = await fetch(
+      `https://www.strava.com/api/v3/athlete/activities?${params}`,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+    );
+
+    // Detect 401 Unauthorized errors
+    if (res.status === 401) {
+      evictCachedIdentity(accessToken);
+      throw new UnauthorizedError("Strava API returned 401 Unauthorized - token is invalid or expired");
+    }
+
+    // Detect 429 Rate Limit errors
+    if (res.status === 429) {
+      const retryAfter = res.headers.get("Retry-After");
+      const limit = res.headers.get("X-RateLimit-Limit");
+      const usage = res.headers.get("X-RateLimit-Usage");
+      
+      throw new RateLimitError(
+        "Strava API rate limit exceeded",
+        retryAfter ? parseInt(retryAfter, 10) : undefined,
+        limit ? parseInt(limit, 10) : undefined,
+        usage ? parseInt(usage, 10) : undefined
+      );
+    }
+
+    if (!res.ok) {
+      throw new Error(`Strava API error: ${res.status} ${res.statusText}`);
+    }
+
+    const pageActivities: StravaActivity[] = await res.json();
+    pagesFetched++;
+
+    // Strava already applies after/before, but guard against anything outside the window
+    const inWindow = pageActivities.filter((a) => {
+      const startSeconds = new Date(a.start_date).getTime() / 1000;
+      return (
+        (!afterTimestamp || startSeconds >= afterTimestamp) &&
+        (!beforeTimestamp || startSeconds <= beforeTimestamp)
+      );
+    });
+    activities.push(...inWindow);
+
+    // A short page means the window is exhausted
+    if (pageActivities.length < ACTIVITIES_PER_PAGE) {
+      break;
+    }
+
+    // Newest first, a page that reaches past `after` means the window is exhausted
+    if (newestFirst && inWindow.length < pageActivities.length) {
+      break;
+    }
+  }
+
+  return {
+    // Every sport; callers filter with matchesSportTypes
+    activities,
+    pagesFetched,
+    truncated,
+  };
+}
+
 /**
  * Fetch recent activities from Strava
  */
 export async function fetchRecentActivities(
   accessToken: string,
   afterTimestamp?: number,
-  perPage: number = 30,
+  beforeTimestamp?: number,
+  sportTypes: string[] = RUN_SPORT_TYPES,
 ): Promise<StravaActivity[]> {
-  const params = new URLSearchParams({
-    per_page: perPage.toString(),
+  const { activities } = await fetchAllActivities(
+    accessToken,
+    afterTimestamp,
+    beforeTimestamp,
+  );
+  return activities.filter((a) => matchesSportTypes(a, sportTypes));
+}
+
+/**
+ * Fetch the authenticated athlete's profile
+ */
+export async function fetchAthlete(accessToken: string): Promise<StravaAthlete> {
+  const res = await fetch("https://www.strava.com/api/v3/athlete", {
+    headers: { Authorization: `Bearer ${accessToken}` },
   });
 
-  if (afterTimestamp) {
-    params.append("after", afterTimestamp.toString());
+  // Detect 401 Unauthorized errors
+  if (res.status === 401) {
+    evictCachedIdentity(accessToken);
+    throw new UnauthorizedError("Strava API returned 401 Unauthorized - token is invalid or expired");
+  }
+
+  // Detect 429 Rate Limit errors
+  if (res.status === 429) {
+    const retryAfter = res.headers.get("Retry-After");
+    const limit = res.headers.get("X-RateLimit-Limit");
+    const usage = res.headers.get("X-RateLimit-Usage");
+    
+    throw new RateLimitError(
+      "Strava API rate limit exceeded",
+      retryAfter ? parseInt(retryAfter, 10) : undefined,
+      limit ? parseInt(limit, 10) : undefined,
+      usage ? parseInt(usage, 10) : undefined
+    );
+  }
+
+  if (!res.ok) {
+    throw new Error(`Strava API error: ${res.status} ${res.statusText}`);
   }
 
+  return await res.json();
+}
+
+/**
+ * Fetch detailed activity data including splits, HR, and GPS
+ */
+export async function fetchDetailedActivity(
+  accessToken: string,
+  activityId: number,
+): Promise<StravaActivity> {
   const res = await fetch(
-    `https://www.strava.com/api/v3/athlete/activities?${params}`,
+    `https://www.strava.com/api/v3/activities/${activityId}`,
     {
       headers: { Authorization: `Bearer ${accessToken}` },
     },
@@ -93,6 +380,7 @@ export async function fetchRecentActivities(
 
   // Detect 401 Unauthorized errors
   if (res.status === 401) {
+    evictCachedIdentity(accessToken);
     throw new UnauthorizedError("Strava API returned 401 Unauthorized - token is invalid or expired");
   }
 
@@ -114,21 +402,151 @@ export async function fetchRecentActivities(
     throw new Error(`Strava API error: ${res.status} ${res.statusText}`);
   }
 
-  const activities = await res.json();
+  return await res.json();
+}
+
+// Detail requests in flight at once, and at most this many per call; the
+// rest keep their summaries until a later call
+const DETAIL_CONCURRENCY = 4;
+const MAX_DETAIL_FETCHES = 30;
+
+/**
+ * Fetch detailed activities a few at a time, in the order given
+ * A failed fetch keeps the summary, except auth and rate-limit errors, which
+ * stop the batch and are rethrown once the requests in flight settle
+ */
+export async function fetchDetailedActivities(
+  accessToken: string,
+  activities: StravaActivity[],
+  onDetailed?: (activity: StravaActivity) => void,
+): Promise<StravaActivity[]> {
+  const results = [...activities];
+  const budget = Math.min(activities.length, MAX_DETAIL_FETCHES);
+  let next = 0;
+  let stopError: Error | null = null;
+
+  const worker = async () => {
+    while (!stopError && next < budget) {
+      const index = next++;
+      const activity = activities[index];
+      try {
+        results[index] = await fetchDetailedActivity(accessToken, activity.id);
+        onDetailed?.(results[index]);
+      } catch (error) {
+        if (error instanceof UnauthorizedError || error instanceof RateLimitError) {
+          stopError = stopError ?? error;
+          return;
+        }
+        console.error(`Failed to fetch details for activity ${activity.id}:`, error);
+      }
+    }
+  };
 
-  // Filter for running activities only
-  return activities.filter((a: StravaActivity) => a.type === "Run");
+  await Promise.all(
+    Array.from({ length: Math.min(DETAIL_CONCURRENCY, budget) }, worker),
+  );
+  if (stopError) {
+    throw stopError;
+  }
+  return results;
 }
 
 /**
- * Fetch detailed activity data including splits, HR, and GPS
+ * Fetch the athlete's heart rate zones
+ * Returns null when the token lacks the profile:read_all scope the endpoint requires
  */
-export async function fetchDetailedActivity(
+export async function fetchAthleteZones(accessToken: string): Promise<AthleteZones | null> {
+  const res = await fetch("https://www.strava.com/api/v3/athlete/zones", {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  // A missing scope is reported as 401/403 with a "missing" permission error;
+  // the token itself is still valid
+  if (res.status === 401 || res.status === 403) {
+    const body = await res.json().catch(() => null);
+    const errors: Array<{ field?: string; code?: string }> = body?.errors ?? [];
+    if (errors.some((e) => e.code === "missing" && e.field?.includes("permission"))) {
+      return null;
+    }
+  }
+
+  // Detect 401 Unauthorized errors
+  if (res.status === 401) {
+    evictCachedIdentity(accessToken);
+    throw new UnauthorizedError("Strava API returned 401 Unauthorized - token is invalid or expired");
+  }
+
+  // Detect 429 Rate Limit errors
+  if (res.status === 429) {
+    const retryAfter = res.headers.get("Retry-After");
+    const limit = res.headers.get("X-RateLimit-Limit");
+    const usage = res.headers.get("X-RateLimit-Usage");
+    
+    throw new RateLimitError(
+      "Strava API rate limit exceeded",
+      retryAfter ? parseInt(retryAfter, 10) : undefined,
+      limit ? parseInt(limit, 10) : undefined,
+      usage ? parseInt(usage, 10) : undefined
+    );
+  }
+
+  if (!res.ok) {
+    throw new Error(`Strava API error: ${res.status} ${res.statusText}`);
+  }
+
+  return await res.json();
+}
+
+/**
+ * Fetch a single piece of gear, including retired gear the athlete's list leaves out
+ */
+export async function fetchGear(accessToken: string, gearId: string): Promise<StravaGear> {
+  const res = await fetch(`https://www.strava.com/api/v3/gear/${encodeURIComponent(gearId)}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  // Detect 401 Unauthorized errors
+  if (res.status === 401) {
+    evictCachedIdentity(accessToken);
+    throw new UnauthorizedError("Strava API returned 401 Unauthorized - token is invalid or expired");
+  }
+
+  // Detect 429 Rate Limit errors
+  if (res.status === 429) {
+    const retryAfter = res.headers.get("Retry-After");
+    const limit = res.headers.get("X-RateLimit-Limit");
+    const usage = res.headers.get("X-RateLimit-Usage");
+    
+    throw new RateLimitError(
+      "Strava API rate limit exceeded",
+      retryAfter ? parseInt(retryAfter, 10) : undefined,
+      limit ? parseInt(limit, 10) : undefined,
+      usage ? parseInt(usage, 10) : undefined
+    );
+  }
+
+  if (!res.ok) {
+    throw new Error(`Strava API error: ${res.status} ${res.statusText}`);
+  }
+
+  return await res.json();
+}
+
+/**
+ * Fetch second-by-second streams for an activity
+ */
+export async function fetchActivityStreams(
   accessToken: string,
   activityId: number,
-): Promise<StravaActivity> {
+  keys: StreamKey[] = STREAM_KEYS,
+): Promise<ActivityStreams> {
+  const params = new URLSearchParams({
+    keys: keys.join(","),
+    key_by_type: "true",
+  });
+
   const res = await fetch(
-    `https://www.strava.com/api/v3/activities/${activityId}`,
+    `https://www.strava.com/api/v3/activities/${activityId}/streams?${params}`,
     {
       headers: { Authorization: `Bearer ${accessToken}` },
     },
@@ -136,6 +554,7 @@ export async function fetchDetailedActivity(
 
   // Detect 401 Unauthorized errors
   if (res.status === 401) {
+    evictCachedIdentity(accessToken);
     throw new UnauthorizedError("Strava API returned 401 Unauthorized - token is invalid or expired");
   }
 
@@ -157,7 +576,65 @@ export async function fetchDetailedActivity(
     throw new Error(`Strava API error: ${res.status} ${res.statusText}`);
   }
 
-  return await res.json();
+  // key_by_type=true returns { time: { data: [...] }, heartrate: { data: [...] }, ... }
+  const raw: Record<string, { data: unknown[] }> = await res.json();
+  const streams: ActivityStreams = {};
+  for (const key of keys) {
+    const data = raw[key]?.data;
+    if (Array.isArray(data) && data.length > 0) {
+      (streams as Record<StreamKey, unknown[]>)[key] = data;
+    }
+  }
+
+  return streams;
+}
+
+/**
+ * Number of samples in a set of streams
+ */
+export function streamLength(streams: ActivityStreams): number {
+  return Math.max(0, ...STREAM_KEYS.map((key) => streams[key]?.length ?? 0));
+}
+
+/**
+ * Keep only the given streams
+ */
+export function pickStreams(
+  streams: ActivityStreams,
+  keys: StreamKey[],
+): ActivityStreams {
+  const result: ActivityStreams = {};
+  for (const key of keys) {
+    if (streams[key]) {
+      (result as Record<StreamKey, unknown[]>)[key] = streams[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Reduce streams to at most maxPoints evenly spaced samples
+ */
+export function downsampleStreams(
+  streams: ActivityStreams,
+  maxPoints: number,
+): ActivityStreams {
+  const length = streamLength(streams);
+  if (length <= maxPoints || maxPoints < 2) {
+    return streams;
+  }
+
+  const step = (length - 1) / (maxPoints - 1);
+  const indices = Array.from({ length: maxPoints }, (_, i) => Math.round(i * step));
+
+  const result: ActivityStreams = {};
+  for (const key of STREAM_KEYS) {
+    const data = streams[key] as unknown[] | undefined;
+    if (data) {
+      (result as Record<StreamKey, unknown[]>)[key] = indices.map((i) => data[i]);
+    }
+  }
+  return result;
 }
 
 /**
@@ -167,30 +644,30 @@ export async function fetchActivitiesWithDetails(
   accessToken: string,
   days: number,
   includeDetails: boolean = false,
-): Promise<StravaActivity[]> {
+  sportTypes: string[] = RUN_SPORT_TYPES,
+): Promise<ActivityFetchResult> {
   // Calculate timestamp for date range
   const afterTimestamp = Math.floor(Date.now() / 1000 - days * 24 * 60 * 60);
 
   // Fetch basic activities
-  const activities = await fetchRecentActivities(accessToken, afterTimestamp);
+  const result = await fetchAllActivities(accessToken, afterTimestamp);
+  const activities = result.activities.filter((a) => matchesSportTypes(a, sportTypes));
 
-  // If details requested, fetch full data for each activity
+  // If details requested, fetch full data for as many activities as the budget allows
   if (includeDetails) {
-    const detailedActivities = await Promise.all(
-      activities.map(async (activity) => {
-        try {
-          return await fetchDetailedActivity(accessToken, activity.id);
-        } catch (error) {
-          // If detailed fetch fails, return basic activity
-          console.error(`Failed to fetch details for activity ${activity.id}:`, error);
-          return activity;
-        }
-      })
-    );
-    return detailedActivities;
+    let detailedCount = 0;
+    const detailedActivities = await fetchDetailedActivities(accessToken, activities, () => {
+      detailedCount++;
+    });
+    return {
+      ...result,
+      activities: detailedActivities,
+      detailedCount,
+      detailsTruncated: detailedCount < activities.length,
+    };
   }
 
-  return activities;
+  return { ...result, activities };
 }
 
 /**
@@ -199,29 +676,134 @@ export async function fetchActivitiesWithDetails(
 export function metersPerSecondToPace(mps: number): string {
   if (mps === 0) return "0:00";
 
-  const secondsPerKm = 1000 / mps;
+  const secondsPerKm = Math.round(1000 / mps);
   const minutes = Math.floor(secondsPerKm / 60);
-  const seconds = Math.round(secondsPerKm % 60);
+  const seconds = secondsPerKm % 60;
 
   return `${minutes}:${seconds.toString().padStart(2, "0")}`;
 }
 
+/**
+ * Format a duration in seconds as "h:mm:ss", or "m:ss" under an hour
+ */
+export function formatDuration(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`
+    : `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Parse a "h:mm:ss" or "m:ss" duration into seconds
+ * Returns null for malformed input
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(?:(\d{1,2}):)?(\d{1,3}):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  if (match[1] && minutes > 59) return null;
+
+  const seconds = hours * 3600 + minutes * 60 + parseInt(match[3], 10);
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Parse a "m:ss" pace (per km) into seconds per km
+ * Returns null for malformed input
+ */
+export function paceToSecondsPerKm(pace: string): number | null {
+  const match = /^(\d{1,2}):([0-5]\d)$/.exec(pace.trim());
+  if (!match) return null;
+
+  const seconds = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Sport type of an activity, preferring Strava's newer sport_type field
+ */
+export function activitySportType(activity: StravaActivity): string {
+  return activity.sport_type || activity.type;
+}
+
+/**
+ * Whether an activity is one of the given sport types (case-insensitive)
+ * ALL_SPORT_TYPES in the list matches every sport
+ */
+export function matchesSportTypes(
+  activity: StravaActivity,
+  sportTypes: string[],
+): boolean {
+  const wanted = sportTypes.map((t) => t.toLowerCase());
+  return (
+    wanted.includes(ALL_SPORT_TYPES.toLowerCase()) ||
+    wanted.includes(activitySportType(activity).toLowerCase())
+  );
+}
+
+/**
+ * Whether an activity is a run of any kind (road, trail, treadmill)
+ */
+export function isRun(activity: StravaActivity): boolean {
+  return matchesSportTypes(activity, RUN_SPORT_TYPES);
+}
+
 /**
  * Convert Strava activity to summary format
  */
-export function activityToSummary(activity: StravaActivity): ActivitySummary {
+export function activityToSummary(
+  activity: StravaActivity,
+  units: UnitSystem = "metric",
+): ActivitySummary {
   return {
     date: activity.start_date_local.split("T")[0],
-    distance: Math.round((activity.distance / 1000) * 10) / 10, // km, 1 decimal
-    pace: metersPerSecondToPace(activity.average_speed),
+    distance: distanceInUnits(activity.distance, units), // km or mi, 1 decimal
+    pace: paceInUnits(activity.average_speed, units),
     duration: Math.round(activity.moving_time / 60), // minutes
+    sportType: activitySportType(activity),
   };
 }
 
+/**
+ * Count, distance and time per sport type, most time first
+ */
+export function summarizeBySport(
+  activities: StravaActivity[],
+  units: UnitSystem = "metric",
+): SportSummary[] {
+  const bySport = new Map<string, { count: number; distance: number; movingTime: number }>();
+  for (const activity of activities) {
+    const sport = activitySportType(activity);
+    const totals = bySport.get(sport) ?? { count: 0, distance: 0, movingTime: 0 };
+    totals.count++;
+    totals.distance += activity.distance;
+    totals.movingTime += activity.moving_time;
+    bySport.set(sport, totals);
+  }
+
+  return [...bySport.entries()]
+    .map(([sportType, totals]) => ({
+      sportType,
+      count: totals.count,
+      distance: distanceInUnits(totals.distance, units),
+      movingTime: Math.round(totals.movingTime / 60),
+    }))
+    .sort((a, b) => b.movingTime - a.movingTime);
+}
+
 /**
  * Calculate average pace from multiple activities
  */
-export function calculateAveragePace(activities: StravaActivity[]): string {
+export function calculateAveragePace(
+  activities: StravaActivity[],
+  units: UnitSystem = "metric",
+): string {
   if (activities.length === 0) return "0:00";
 
   const totalDistance = activities.reduce((sum, a) => sum + a.distance, 0);
@@ -230,11 +812,14 @@ export function calculateAveragePace(activities: StravaActivity[]): string {
   if (totalDistance === 0) return "0:00";
 
   const avgSpeed = totalDistance / totalTime; // meters per second
-  return metersPerSecondToPace(avgSpeed);
+  return paceInUnits(avgSpeed, units);
 }
 
 /**
- * Get activities within a date range
+ * Get activities that started between two instants
+ *
+ * Compares the UTC start time; use filterActivitiesByLocalDate (calendar.ts)
+ * to select by the athlete's calendar days.
  */
 export function filterActivitiesByDateRange(
   activities: StravaActivity[],
@@ -242,7 +827,7 @@ export function filterActivitiesByDateRange(
   endDate: Date,
 ): StravaActivity[] {
   return activities.filter((a) => {
-    const activityDate = new Date(a.start_date_local);
+    const activityDate = new Date(a.start_date);
     return activityDate >= startDate && activityDate <= endDate;
   });
 }
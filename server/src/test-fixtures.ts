@@ -0,0 +1,51 @@
+/**
+ * Activity fixtures for specs
+ *
+ * Everything is a run on 2024-03-01 at 07:00 UTC (08:00 local) unless
+ * overridden; ids count up so activities never collide.
+ */
+
+import type { StravaActivity } from "./strava.js";
+
+let nextId = 1;
+
+/**
+ * A 5 km run at 5:00/km, with any field overridden
+ */
+export function buildActivity(overrides: Partial<StravaActivity> = {}): StravaActivity {
+  const activity: StravaActivity = {
+    id: nextId++,
+    name: "Run",
+    distance: 5000,
+    moving_time: 1500,
+    elapsed_time: 1500,
+    total_elevation_gain: 0,
+    type: "Run",
+    sport_type: "Run",
+    start_date: "2024-03-01T07:00:00Z",
+    start_date_local: "2024-03-01T08:00:00Z",
+    average_speed: 5000 / 1500,
+  };
+  return { ...activity, ...overrides };
+}
+
+/**
+ * A run of `km` at `paceSeconds` per km on a local date (YYYY-MM-DD)
+ */
+export function buildRun(
+  date: string,
+  km: number,
+  paceSeconds: number = 300,
+  overrides: Partial<StravaActivity> = {},
+): StravaActivity {
+  const seconds = km * paceSeconds;
+  return buildActivity({
+    distance: km * 1000,
+    moving_time: seconds,
+    elapsed_time: seconds,
+    start_date: `${date}T07:00:00Z`,
+    start_date_local: `${date}T08:00:00Z`,
+    average_speed: seconds > 0 ? (km * 1000) / seconds : 0,
+    ...overrides,
+  });
+}
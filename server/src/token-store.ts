@@ -0,0 +1,200 @@
+/**
+ * Server-side Strava token store
+ *
+ * Persists access/refresh tokens per athlete so expired access tokens can be
+ * refreshed without asking the user to reconnect.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { writeJsonFile } from "./file-store.js";
+
+export interface StoredToken {
+  athleteId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // unix seconds
+  scope?: string;
+  updatedAt: string; // ISO 8601
+  // Access tokens issued to this athlete, by hash, with their original expiry.
+  // Clients keep sending the token they received at connect time, so it still
+  // resolves to the athlete after a refresh - but only until it would have
+  // expired anyway; after that the client has to refresh it itself.
+  knownTokens: KnownToken[];
+}
+
+export interface KnownToken {
+  hash: string;
+  expiresAt: number; // unix seconds
+}
+
+interface TokenStoreFile {
+  version: 1;
+  tokens: Record<string, StoredToken>;
+}
+
+// Previous access tokens remembered per athlete
+const MAX_KNOWN_TOKENS = 10;
+
+const storePath =
+  process.env.TOKEN_STORE_PATH ||
+  path.join(process.cwd(), ".data", "strava-tokens.json");
+
+/**
+ * In-memory view of the store file, loaded lazily on first access
+ * Key: athlete id
+ */
+let tokens: Map<string, StoredToken> | null = null;
+
+/**
+ * Index from access token hash to athlete id
+ */
+const tokenIndex = new Map<string, string>();
+
+/**
+ * Hash an access token so raw tokens are never used as index keys
+ */
+export function hashToken(accessToken: string): string {
+  return createHash("sha256").update(accessToken).digest("hex");
+}
+
+async function loadTokens(): Promise<Map<string, StoredToken>> {
+  if (tokens) {
+    return tokens;
+  }
+
+  const loaded = new Map<string, StoredToken>();
+
+  try {
+    const raw = await readFile(storePath, "utf-8");
+    const file = JSON.parse(raw) as TokenStoreFile;
+    for (const [athleteId, stored] of Object.entries(file.tokens ?? {})) {
+      // Older files kept bare hashes without an expiry; only the current token survives
+      const entry: StoredToken = {
+        ...stored,
+        knownTokens: stored.knownTokens ?? [
+          { hash: hashToken(stored.accessToken), expiresAt: stored.expiresAt },
+        ],
+      };
+      delete (entry as { knownTokenHashes?: string[] }).knownTokenHashes;
+      loaded.set(athleteId, entry);
+      for (const { hash } of entry.knownTokens) {
+        tokenIndex.set(hash, athleteId);
+      }
+    }
+  } catch (error) {
+    // A missing file just means nobody has connected yet
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Failed to load token store, starting empty:", error);
+    }
+  }
+
+  tokens = loaded;
+  return loaded;
+}
+
+async function persistTokens(): Promise<void> {
+  const current = await loadTokens();
+  const file: TokenStoreFile = {
+    version: 1,
+    tokens: Object.fromEntries(current),
+  };
+
+  await writeJsonFile(storePath, file, { pretty: true, mode: 0o600 });
+}
+
+/**
+ * Save tokens returned by the Strava token endpoint
+ */
+export async function saveToken(
+  athleteId: string,
+  tokenData: {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: number;
+    scope?: string;
+  },
+): Promise<StoredToken> {
+  const current = await loadTokens();
+  const existing = current.get(athleteId);
+
+  const hash = hashToken(tokenData.accessToken);
+  const now = Math.floor(Date.now() / 1000);
+  const knownTokens = [
+    { hash, expiresAt: tokenData.expiresAt },
+    ...(existing?.knownTokens ?? []).filter((t) => t.hash !== hash && t.expiresAt > now),
+  ].slice(0, MAX_KNOWN_TOKENS);
+
+  // Drop index entries for tokens that expired or fell off the end of the list
+  for (const old of existing?.knownTokens ?? []) {
+    if (!knownTokens.some((t) => t.hash === old.hash)) {
+      tokenIndex.delete(old.hash);
+    }
+  }
+
+  const entry: StoredToken = {
+    athleteId,
+    accessToken: tokenData.accessToken,
+    refreshToken: tokenData.refreshToken,
+    expiresAt: tokenData.expiresAt,
+    scope: tokenData.scope ?? existing?.scope,
+    updatedAt: new Date().toISOString(),
+    knownTokens,
+  };
+
+  current.set(athleteId, entry);
+  tokenIndex.set(hash, athleteId);
+  await persistTokens();
+
+  return entry;
+}
+
+/**
+ * Get stored tokens for an athlete
+ */
+export async function getTokenByAthlete(
+  athleteId: string,
+): Promise<StoredToken | null> {
+  const current = await loadTokens();
+  return current.get(athleteId) ?? null;
+}
+
+/**
+ * Find stored tokens by the athlete's current access token, or by an earlier
+ * one that has not reached its original expiry
+ */
+export async function findTokenByAccessToken(
+  accessToken: string,
+): Promise<StoredToken | null> {
+  const current = await loadTokens();
+  const hash = hashToken(accessToken);
+  const athleteId = tokenIndex.get(hash);
+  const stored = athleteId ? current.get(athleteId) : undefined;
+  if (!stored) {
+    return null;
+  }
+
+  if (stored.accessToken === accessToken) {
+    return stored;
+  }
+  const known = stored.knownTokens.find((t) => t.hash === hash);
+  return known && known.expiresAt > Math.floor(Date.now() / 1000) ? stored : null;
+}
+
+/**
+ * Remove stored tokens for an athlete (e.g. after the refresh token is revoked)
+ */
+export async function deleteToken(athleteId: string): Promise<void> {
+  const current = await loadTokens();
+  const existing = current.get(athleteId);
+  if (!existing) {
+    return;
+  }
+
+  for (const { hash } of existing.knownTokens) {
+    tokenIndex.delete(hash);
+  }
+  current.delete(athleteId);
+  await persistTokens();
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { StravaActivity } from "./strava.js";
+import { buildRun } from "./test-fixtures.js";
+import {
+  activityStress,
+  buildFitnessModel,
+  classifyForm,
+  resolveModelParams,
+} from "./training-load.js";
+
+// `minutes` at 5:00/km, the threshold pace used below
+function activity(date: string, minutes: number, overrides: Partial<StravaActivity> = {}) {
+  return buildRun(date, minutes / 5, 300, overrides);
+}
+
+const options = { maxHeartRate: 190, restingHeartRate: 60, thresholdPaceSeconds: 300 };
+const params = resolveModelParams([], options);
+
+describe("activityStress", () => {
+  it("scores an hour at threshold pace as 100", () => {
+    const scored = activityStress(activity("2024-03-01", 60), params);
+    expect(scored.method).toBe("pace");
+    expect(scored.stress).toBeCloseTo(100, 6);
+  });
+
+  it("scores an hour at threshold heart rate as 100", () => {
+    // 85% of heart rate reserve: 60 + 0.85 × 130
+    const scored = activityStress(activity("2024-03-01", 60, { average_heartrate: 170.5 }), params);
+    expect(scored.method).toBe("trimp");
+    expect(scored.stress).toBeCloseTo(100, 6);
+  });
+
+  it("estimates other sports without heart rate from duration", () => {
+    const ride = activity("2024-03-01", 60, { type: "Ride", sport_type: "Ride" });
+    const scored = activityStress(ride, params);
+    expect(scored.method).toBe("duration");
+    expect(scored.stress).toBeCloseTo(49, 6); // 0.7² × 100
+  });
+});
+
+describe("buildFitnessModel", () => {
+  it("matches a hand-computed CTL / ATL / TSB series", () => {
+    // 100 on day one, rest, then 50 on day four
+    const model = buildFitnessModel(
+      [activity("2024-03-01", 60), activity("2024-03-04", 30)],
+      "2024-03-01",
+      "2024-03-04",
+      options,
+    );
+
+    // ctl += (load - ctl)(1 - e^(-1/42)), atl += (load - atl)(1 - e^(-1/7)),
+    // tsb is the day before's ctl - atl
+    expect(model.series).toEqual([
+      { date: "2024-03-01", load: 100, ctl: 2.4, atl: 13.3, tsb: 0 },
+      { date: "2024-03-02", load: 0, ctl: 2.3, atl: 11.5, tsb: -11 },
+      { date: "2024-03-03", load: 0, ctl: 2.2, atl: 10, tsb: -9.2 },
+      { date: "2024-03-04", load: 50, ctl: 3.4, atl: 15.3, tsb: -7.8 },
+    ]);
+    expect(model.current).toMatchObject({ ctl: 3.4, atl: 15.3, tsb: -7.8, form: "neutral" });
+    expect(model.stressMethods).toEqual({ trimp: 0, pace: 2, duration: 0 });
+  });
+
+  it("runs the model over history before the window but only returns the window", () => {
+    const model = buildFitnessModel(
+      [activity("2024-02-28", 60), activity("2024-03-01", 60, { type: "Ride", sport_type: "Ride" })],
+      "2024-03-01",
+      "2024-03-01",
+      options,
+    );
+
+    expect(model.series.map((d) => d.date)).toEqual(["2024-03-01"]);
+    // Two days of decay after the 100 on 2024-02-28, then a 49
+    expect(model.series[0].tsb).toBe(-9.2);
+    expect(model.loadBySport).toEqual([{ sportType: "Ride", activities: 1, stress: 49, share: 1 }]);
+  });
+
+  it("dates the window by local day", () => {
+    // Early morning in Tokyo, still the previous day in UTC
+    const tokyo = activity("2024-03-04", 60, {
+      start_date: "2024-03-03T23:30:00Z",
+      start_date_local: "2024-03-04T08:30:00Z",
+    });
+    const model = buildFitnessModel([tokyo], "2024-03-04", "2024-03-04", options);
+
+    expect(model.series).toEqual([{ date: "2024-03-04", load: 100, ctl: 2.4, atl: 13.3, tsb: 0 }]);
+    expect(model.loadBySport).toEqual([{ sportType: "Run", activities: 1, stress: 100, share: 1 }]);
+  });
+});
+
+describe("classifyForm", () => {
+  it("maps form to coaching states at the boundaries", () => {
+    expect(classifyForm(26)).toBe("detraining");
+    expect(classifyForm(25)).toBe("fresh");
+    expect(classifyForm(5)).toBe("neutral");
+    expect(classifyForm(-10)).toBe("productive");
+    expect(classifyForm(-30)).toBe("overreaching");
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Fitness / fatigue / form model (impulse-response)
+ *
+ * Each activity gets a training stress score: heart-rate TRIMP when it has
+ * average_heartrate, otherwise a pace-based score for runs and a duration-based
+ * estimate for other sports. All are scaled so that one hour at threshold
+ * scores 100, which keeps mixed histories comparable.
+ * Daily stress then feeds two exponentially weighted averages:
+ * chronic load (fitness, CTL) and acute load (fatigue, ATL).
+ * Training stress balance (form, TSB) is yesterday's CTL minus yesterday's ATL.
+ */
+
+import { activitySportType, isRun, type StravaActivity } from "./strava.js";
+
+export type StressMethod = "trimp" | "pace" | "duration";
+
+export type FormState =
+  | "detraining"
+  | "fresh"
+  | "neutral"
+  | "productive"
+  | "overreaching";
+
+export interface FitnessModelOptions {
+  maxHeartRate?: number; // bpm
+  restingHeartRate?: number; // bpm
+  thresholdPaceSeconds?: number; // seconds per km
+  sex?: "M" | "F" | null; // selects the TRIMP weighting
+}
+
+export interface FitnessModelParams {
+  maxHeartRate: number;
+  restingHeartRate: number;
+  thresholdHeartRate: number;
+  thresholdPaceSeconds: number;
+  maxHeartRateSource: "input" | "observed" | "default";
+  thresholdPaceSource: "input" | "estimated" | "default";
+}
+
+export interface ActivityStress {
+  id: number;
+  date: string; // YYYY-MM-DD (local)
+  sportType: string;
+  stress: number;
+  method: StressMethod;
+}
+
+export interface SportLoad {
+  sportType: string;
+  activities: number;
+  stress: number; // total over the requested window
+  share: number; // fraction of all stress in the window
+}
+
+export interface FitnessDay {
+  date: string; // YYYY-MM-DD
+  load: number; // stress that day
+  ctl: number; // chronic training load (fitness)
+  atl: number; // acute training load (fatigue)
+  tsb: number; // training stress balance (form)
+}
+
+export interface FitnessModel {
+  series: FitnessDay[]; // one entry per day in the requested window
+  current: {
+    ctl: number;
+    atl: number;
+    tsb: number;
+    rampRate: number; // CTL change over the last 7 days
+    form: FormState;
+  };
+  params: FitnessModelParams;
+  stressMethods: Record<StressMethod, number>; // activities scored with each method
+  loadBySport: SportLoad[]; // requested window only, most stress first
+}
+
+// Time constants in days
+export const CTL_TIME_CONSTANT = 42;
+export const ATL_TIME_CONSTANT = 7;
+
+// History fetched before the requested window so CTL has settled by its first day
+export const MODEL_WARMUP_DAYS = 90;
+
+const DEFAULT_MAX_HEART_RATE = 190;
+const DEFAULT_RESTING_HEART_RATE = 60;
+const DEFAULT_THRESHOLD_PACE_SECONDS = 300; // 5:00/km
+
+// Lactate threshold as a fraction of heart rate reserve
+const THRESHOLD_HEART_RATE_RESERVE = 0.85;
+
+// Runs shorter than this say little about sustainable pace
+const MIN_THRESHOLD_ESTIMATE_SECONDS = 20 * 60;
+
+// Typical intensity factor of non-running sports recorded without heart rate
+const SPORT_INTENSITY_FACTORS: Record<string, number> = {
+  Ride: 0.7,
+  VirtualRide: 0.75,
+  EBikeRide: 0.5,
+  Swim: 0.75,
+  Rowing: 0.75,
+  NordicSki: 0.75,
+  Hike: 0.6,
+  Walk: 0.45,
+  WeightTraining: 0.6,
+  Yoga: 0.35,
+};
+const DEFAULT_SPORT_INTENSITY_FACTOR = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Banister TRIMP for a given duration and heart rate reserve fraction
+ */
+function trimp(minutes: number, hrReserve: number, sex?: "M" | "F" | null): number {
+  const [a, b] = sex === "F" ? [0.86, 1.67] : [0.64, 1.92];
+  return minutes * hrReserve * a * Math.exp(b * hrReserve);
+}
+
+/**
+ * Estimate threshold pace from history: the 95th-percentile average speed
+ * among runs of at least 20 minutes
+ */
+export function estimateThresholdPace(activities: StravaActivity[]): number | null {
+  const speeds = activities
+    .filter((a) => isRun(a) && a.moving_time >= MIN_THRESHOLD_ESTIMATE_SECONDS && a.average_speed > 0)
+    .map((a) => a.average_speed)
+    .sort((a, b) => a - b);
+
+  if (speeds.length === 0) {
+    return null;
+  }
+
+  const speed = speeds[Math.min(speeds.length - 1, Math.floor(speeds.length * 0.95))];
+  return Math.round(1000 / speed);
+}
+
+/**
+ * Resolve model parameters from explicit options and the activity history
+ */
+export function resolveModelParams(
+  activities: StravaActivity[],
+  options: FitnessModelOptions = {},
+): FitnessModelParams {
+  const observedMax = activities.reduce(
+    (max, a) => Math.max(max, a.max_heartrate ?? 0),
+    0,
+  );
+
+  let maxHeartRate = DEFAULT_MAX_HEART_RATE;
+  let maxHeartRateSource: FitnessModelParams["maxHeartRateSource"] = "default";
+  if (options.maxHeartRate) {
+    maxHeartRate = options.maxHeartRate;
+    maxHeartRateSource = "input";
+  } else if (observedMax >= 150) {
+    // Lower readings are more likely a short history than a real maximum
+    maxHeartRate = observedMax;
+    maxHeartRateSource = "observed";
+  }
+
+  const restingHeartRate = options.restingHeartRate ?? DEFAULT_RESTING_HEART_RATE;
+
+  let thresholdPaceSeconds = DEFAULT_THRESHOLD_PACE_SECONDS;
+  let thresholdPaceSource: FitnessModelParams["thresholdPaceSource"] = "default";
+  const estimated = estimateThresholdPace(activities);
+  if (options.thresholdPaceSeconds) {
+    thresholdPaceSeconds = options.thresholdPaceSeconds;
+    thresholdPaceSource = "input";
+  } else if (estimated) {
+    thresholdPaceSeconds = estimated;
+    thresholdPaceSource = "estimated";
+  }
+
+  return {
+    maxHeartRate,
+    restingHeartRate,
+    thresholdHeartRate: Math.round(
+      restingHeartRate + THRESHOLD_HEART_RATE_RESERVE * (maxHeartRate - restingHeartRate),
+    ),
+    thresholdPaceSeconds,
+    maxHeartRateSource,
+    thresholdPaceSource,
+  };
+}
+
+/**
+ * Training stress of a single activity, scaled so one hour at threshold = 100
+ */
+export function activityStress(
+  activity: StravaActivity,
+  params: FitnessModelParams,
+  sex?: "M" | "F" | null,
+): ActivityStress {
+  const date = activity.start_date_local.split("T")[0];
+  const sportType = activitySportType(activity);
+  const hours = activity.moving_time / 3600;
+  const heartRateReserve = params.maxHeartRate - params.restingHeartRate;
+
+  if (activity.average_heartrate && heartRateReserve > 0) {
+    const hrr = Math.min(
+      1,
+      Math.max(0, (activity.average_heartrate - params.restingHeartRate) / heartRateReserve),
+    );
+    const thresholdHourTrimp = trimp(60, THRESHOLD_HEART_RATE_RESERVE, sex);
+    const stress = (trimp(hours * 60, hrr, sex) / thresholdHourTrimp) * 100;
+    return { id: activity.id, date, sportType, stress, method: "trimp" };
+  }
+
+  // Running pace says nothing about effort in other sports; use a typical intensity
+  if (!isRun(activity)) {
+    const intensityFactor = SPORT_INTENSITY_FACTORS[sportType] ?? DEFAULT_SPORT_INTENSITY_FACTOR;
+    const stress = hours * intensityFactor * intensityFactor * 100;
+    return { id: activity.id, date, sportType, stress, method: "duration" };
+  }
+
+  // Pace-based: hours × intensity factor² × 100
+  const thresholdSpeed = 1000 / params.thresholdPaceSeconds;
+  const intensityFactor = activity.average_speed / thresholdSpeed;
+  const stress = hours * intensityFactor * intensityFactor * 100;
+  return { id: activity.id, date, sportType, stress, method: "pace" };
+}
+
+/**
+ * Map training stress balance to a coaching state
+ */
+export function classifyForm(tsb: number): FormState {
+  if (tsb > 25) return "detraining";
+  if (tsb > 5) return "fresh";
+  if (tsb > -10) return "neutral";
+  if (tsb > -30) return "productive";
+  return "overreaching";
+}
+
+function toDateKey(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Build the daily CTL / ATL / TSB series
+ *
+ * `fromKey` and `toKey` are local calendar days (YYYY-MM-DD), matching how
+ * activities are dated. `activities` should reach back MODEL_WARMUP_DAYS
+ * before `fromKey`; the model runs over that history but only days from
+ * `fromKey` to `toKey` are returned.
+ */
+export function buildFitnessModel(
+  activities: StravaActivity[],
+  fromKey: string,
+  toKey: string,
+  options: FitnessModelOptions = {},
+): FitnessModel {
+  const params = resolveModelParams(activities, options);
+
+  const dailyLoad = new Map<string, number>();
+  const stressMethods: Record<StressMethod, number> = { trimp: 0, pace: 0, duration: 0 };
+  const sportTotals = new Map<string, { activities: number; stress: number }>();
+  for (const activity of activities) {
+    const scored = activityStress(activity, params, options.sex);
+    dailyLoad.set(scored.date, (dailyLoad.get(scored.date) ?? 0) + scored.stress);
+    stressMethods[scored.method]++;
+
+    if (scored.date >= fromKey && scored.date <= toKey) {
+      const totals = sportTotals.get(scored.sportType) ?? { activities: 0, stress: 0 };
+      totals.activities++;
+      totals.stress += scored.stress;
+      sportTotals.set(scored.sportType, totals);
+    }
+  }
+
+  const windowStress = [...sportTotals.values()].reduce((sum, t) => sum + t.stress, 0);
+  const loadBySport = [...sportTotals.entries()]
+    .map(([sportType, totals]) => ({
+      sportType,
+      activities: totals.activities,
+      stress: Math.round(totals.stress),
+      share: windowStress > 0 ? Math.round((totals.stress / windowStress) * 1000) / 1000 : 0,
+    }))
+    .sort((a, b) => b.stress - a.stress);
+
+  // Local calendar days are walked as UTC dates so DST never skips or repeats a day
+  const firstKey = activities.length > 0
+    ? activities.reduce(
+        (min, a) => (a.start_date_local < min ? a.start_date_local : min),
+        activities[0].start_date_local,
+      ).split("T")[0]
+    : fromKey;
+  const startKey = firstKey < fromKey ? firstKey : fromKey;
+
+  const ctlDecay = 1 - Math.exp(-1 / CTL_TIME_CONSTANT);
+  const atlDecay = 1 - Math.exp(-1 / ATL_TIME_CONSTANT);
+
+  const series: FitnessDay[] = [];
+  let ctl = 0;
+  let atl = 0;
+  for (
+    let day = Date.parse(`${startKey}T00:00:00Z`);
+    toDateKey(day) <= toKey;
+    day += DAY_MS
+  ) {
+    const key = toDateKey(day);
+    const load = dailyLoad.get(key) ?? 0;
+    const tsb = ctl - atl;
+
+    ctl += (load - ctl) * ctlDecay;
+    atl += (load - atl) * atlDecay;
+
+    if (key >= fromKey) {
+      series.push({
+        date: key,
+        load: Math.round(load),
+        ctl: round1(ctl),
+        atl: round1(atl),
+        tsb: round1(tsb),
+      });
+    }
+  }
+
+  const last = series[series.length - 1] ?? { ctl: 0, atl: 0, tsb: 0 };
+  const weekAgo = series[series.length - 8] ?? series[0] ?? last;
+
+  return {
+    series,
+    current: {
+      ctl: last.ctl,
+      atl: last.atl,
+      tsb: last.tsb,
+      rampRate: round1(last.ctl - weekAgo.ctl),
+      form: classifyForm(last.tsb),
+    },
+    params,
+    stressMethods,
+    loadBySport,
+  };
+}
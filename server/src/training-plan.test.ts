@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildTrainingPlan, type TrainingPlanInput } from "./training-plan.js";
+
+// A half marathon 14 weeks out from a steady 30 km a week
+const input: TrainingPlanInput = {
+  race: "half",
+  raceDate: "2024-04-14",
+  daysPerWeek: 5,
+  today: "2024-01-03",
+  weekStart: "monday",
+  history: { weeklyDistances: [30000, 30000, 30000, 30000], longestRun: 12000, vdot: 45 },
+};
+
+const plan = buildTrainingPlan(input);
+const training = plan.weeks.slice(0, -1);
+
+describe("buildTrainingPlan", () => {
+  it("starts the Monday after today and ends the week of the race", () => {
+    expect(plan.weeks).toHaveLength(14);
+    expect(plan.weeks[0].start).toBe("2024-01-08");
+    expect(plan.phases.map((p) => p.phase)).toEqual(["base", "build", "peak", "taper"]);
+    expect(plan.phases.reduce((sum, p) => sum + p.weeks, 0)).toBe(14);
+    expect(plan.notes).toEqual([]);
+  });
+
+  it("grows at most 10% a week and stays within an acute:chronic ratio of 1.3", () => {
+    for (const week of plan.weeks) {
+      expect(week.loadRatio).not.toBeNull();
+      expect(week.loadRatio!).toBeLessThanOrEqual(1.3);
+    }
+    const building = training.filter((w) => !w.recovery && w.phase !== "taper");
+    for (let i = 1; i < building.length; i++) {
+      // The 10% applies to planned volume; strides and 500 m rounding add up to a kilometer
+      expect(building[i].distance).toBeLessThanOrEqual(building[i - 1].distance * 1.1 + 1000);
+    }
+  });
+
+  it("eases off every fourth week outside the peak and taper", () => {
+    expect(plan.weeks.filter((w) => w.recovery).map((w) => w.week)).toEqual([4, 8]);
+    for (const week of [4, 8]) {
+      const recovery = plan.weeks[week - 1];
+      expect(recovery.distance).toBeLessThan(plan.weeks[week - 2].distance);
+      expect(recovery.longRun).toBeLessThan(plan.weeks[week - 2].longRun);
+      // The build picks up again above the week before the recovery
+      expect(plan.weeks[week].distance).toBeGreaterThan(plan.weeks[week - 2].distance);
+    }
+  });
+
+  it("tapers down from peak volume into the race", () => {
+    const peak = Math.max(...plan.weeks.map((w) => w.distance));
+    const [first, raceWeek] = plan.weeks.slice(-2);
+
+    expect([first.phase, raceWeek.phase]).toEqual(["taper", "taper"]);
+    expect(first.distance).toBeLessThan(peak * 0.8);
+    expect(raceWeek.distance).toBeLessThan(first.distance);
+    expect(raceWeek.workouts.at(-1)).toMatchObject({ date: "2024-04-14", type: "race", distance: 21098 });
+    expect(raceWeek.workouts.filter((w) => w.date === "2024-04-13")).toEqual([]);
+  });
+
+  it("keeps the long run to half of each training week", () => {
+    for (const week of training) {
+      expect(week.longRun).toBeLessThanOrEqual(week.distance / 2);
+    }
+  });
+
+  it("doesn't start from a one-off long race on low volume", () => {
+    const afterHalf = buildTrainingPlan({
+      ...input,
+      history: { weeklyDistances: [20000, 20000, 20000, 20000], longestRun: 21100, vdot: 45 },
+    });
+
+    expect(afterHalf.weeks[0].longRun).toBe(10000);
+    for (const week of afterHalf.weeks.slice(0, -1)) {
+      expect(week.longRun).toBeLessThanOrEqual(week.distance / 2);
+    }
+  });
+
+  it("predicts the goal from VDOT and needs one or the other", () => {
+    expect(plan.goalSource).toBe("predicted");
+    expect(() => buildTrainingPlan({ ...input, history: { ...input.history, vdot: null } })).toThrow(
+      "Provide a goal time",
+    );
+  });
+
+  it("needs the race between 3 and 30 weeks out", () => {
+    expect(() => buildTrainingPlan({ ...input, raceDate: "2024-01-20" })).toThrow("too close");
+    expect(() => buildTrainingPlan({ ...input, raceDate: "2024-09-01" })).toThrow("more than 30 weeks");
+  });
+});
@@ -0,0 +1,666 @@
+/**
+ * Periodized training plans for a target race
+ *
+ * The plan runs from the next week start to race week and is split into
+ * base, build, peak and taper phases. Weekly volume starts from the athlete's
+ * recent average and grows at most 10% a week, with a lighter week every
+ * fourth week; no week may push the acute:chronic ratio (this week's distance
+ * over the average of the four before) past 1.3, the top of the optimal band
+ * used by compute_training_load. Training paces come from the athlete's
+ * current VDOT; race-pace work uses the goal pace.
+ *
+ * Plans are built in meters and seconds per km; planToSummary converts them
+ * for output.
+ */
+
+import { addDays, weekStartKey, type WeekStart } from "./calendar.js";
+import { RACE_TARGETS, timeForVdot, vdotFromPerformance, type RaceKey } from "./race-predictor.js";
+import { formatDuration } from "./strava.js";
+import {
+  distanceInUnits,
+  formatDistanceInUnits,
+  paceInUnits,
+  unitLabels,
+  type UnitSystem,
+} from "./units.js";
+
+export type PlanPhase = "base" | "build" | "peak" | "taper";
+
+export type WorkoutType =
+  | "easy"
+  | "strides"
+  | "long"
+  | "threshold"
+  | "intervals"
+  | "race_pace"
+  | "race";
+
+export type PaceZone = "easy" | "marathon" | "threshold" | "interval" | "repetition" | "race";
+
+export interface WorkoutStep {
+  kind: "warmup" | "steady" | "work" | "cooldown";
+  pace: PaceZone;
+  distance?: number; // meters
+  duration?: number; // seconds
+  repeat?: number; // work steps only
+  recovery?: { distance?: number; duration?: number }; // easy jog between repeats
+}
+
+export interface PlannedWorkout {
+  date: string; // YYYY-MM-DD
+  type: WorkoutType;
+  title: string;
+  distance: number; // meters, including warm-up and cool-down
+  steps: WorkoutStep[];
+}
+
+export interface PlanWeek {
+  week: number; // 1-based
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD (inclusive)
+  phase: PlanPhase;
+  recovery: boolean; // lighter week
+  distance: number; // meters, sum of workouts
+  longRun: number; // meters
+  loadRatio: number | null; // distance / average of the previous 4 weeks
+  workouts: PlannedWorkout[];
+}
+
+export type TrainingPaces = Record<PaceZone, number>; // seconds per km
+
+export interface TrainingPlanInput {
+  race: RaceKey;
+  raceDate: string; // YYYY-MM-DD
+  goalTime?: number; // seconds
+  daysPerWeek: number; // 3-7
+  today: string; // YYYY-MM-DD in the athlete's timezone
+  weekStart: WeekStart;
+  units?: UnitSystem; // for notes
+  history: {
+    weeklyDistances: number[]; // meters, last complete weeks, oldest first
+    longestRun: number; // meters, recent
+    vdot: number | null; // current fitness, null without recent runs
+  };
+}
+
+export interface TrainingPlan {
+  race: { key: RaceKey; name: string; distance: number; date: string };
+  goalTime: number; // seconds
+  goalSource: "input" | "predicted";
+  goalVdot: number;
+  currentVdot: number | null;
+  paces: TrainingPaces;
+  phases: Array<{ phase: PlanPhase; weeks: number }>;
+  weeks: PlanWeek[];
+  currentWeeklyDistance: number; // meters, recent average
+  peakWeeklyDistance: number; // meters
+  notes: string[];
+}
+
+export const MIN_PLAN_WEEKS = 3;
+export const MAX_PLAN_WEEKS = 30;
+
+// Acute:chronic bands from compute_training_load: 0.8-1.3 optimal, > 1.5 high risk
+const MAX_LOAD_RATIO = 1.3;
+const MAX_WEEKLY_INCREASE = 0.1;
+const RECOVERY_WEEK_FACTOR = 0.8;
+const RECOVERY_EVERY = 4;
+
+// Peak weekly volume at 5 runs a week, scaled by days available
+const PEAK_WEEKLY_DISTANCE: Record<RaceKey, number> = {
+  "5k": 35000,
+  "10k": 45000,
+  half: 55000,
+  marathon: 70000,
+};
+
+const LONG_RUN_CAP: Record<RaceKey, number> = {
+  "5k": 14000,
+  "10k": 18000,
+  half: 22000,
+  marathon: 32000,
+};
+
+const TAPER_WEEKS: Record<RaceKey, number> = { "5k": 1, "10k": 1, half: 2, marathon: 3 };
+
+// Fraction of peak volume in each taper week, race week last
+const TAPER_VOLUME: Record<number, number[]> = {
+  1: [0.5],
+  2: [0.75, 0.5],
+  3: [0.8, 0.65, 0.45],
+};
+
+const LONG_RUN_STEP = 2000; // max long-run increase per week
+const MAX_LONG_RUN_SHARE = 0.5; // of the week's volume, so one-off races don't set the start
+const MIN_EASY_RUN = 3000;
+const WARMUP = 2000;
+
+// Running days per week (0 = first day of the week); quality sessions go on
+// the listed quality days and the long run on the last day
+const RUN_DAYS: Record<number, number[]> = {
+  3: [1, 3, 6],
+  4: [1, 3, 4, 6],
+  5: [1, 2, 3, 5, 6],
+  6: [0, 1, 2, 3, 5, 6],
+  7: [0, 1, 2, 3, 4, 5, 6],
+};
+const QUALITY_DAYS = [1, 3];
+
+// Fraction of VO2max for each training zone (Daniels)
+const ZONE_INTENSITY: Record<Exclude<PaceZone, "race">, number> = {
+  easy: 0.7,
+  marathon: 0.8,
+  threshold: 0.88,
+  interval: 0.975,
+  repetition: 1.05,
+};
+
+const PACE_ZONE_LABELS: Record<PaceZone, string> = {
+  easy: "easy",
+  marathon: "marathon pace",
+  threshold: "threshold",
+  interval: "interval pace",
+  repetition: "repetition pace",
+  race: "goal race pace",
+};
+
+/**
+ * Pace in seconds per km at a fraction of VO2max for a given VDOT
+ */
+export function paceForVdot(vdot: number, intensity: number): number {
+  // Invert VO2 = -4.6 + 0.182258v + 0.000104v² (v in meters per minute)
+  const vo2 = vdot * intensity;
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -4.6 - vo2;
+  const velocity = (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+  return Math.round(60000 / velocity);
+}
+
+export function trainingPaces(vdot: number, racePace: number): TrainingPaces {
+  return {
+    easy: paceForVdot(vdot, ZONE_INTENSITY.easy),
+    marathon: paceForVdot(vdot, ZONE_INTENSITY.marathon),
+    threshold: paceForVdot(vdot, ZONE_INTENSITY.threshold),
+    interval: paceForVdot(vdot, ZONE_INTENSITY.interval),
+    repetition: paceForVdot(vdot, ZONE_INTENSITY.repetition),
+    race: Math.round(racePace),
+  };
+}
+
+function splitPhases(totalWeeks: number, race: RaceKey): Array<{ phase: PlanPhase; weeks: number }> {
+  const taper = Math.min(TAPER_WEEKS[race], Math.max(1, totalWeeks - 2));
+  const remaining = totalWeeks - taper;
+  const peak = Math.max(1, Math.round(remaining * 0.25));
+  const build = Math.min(remaining - peak, Math.round(remaining * 0.35));
+  const base = remaining - peak - build;
+  return [
+    { phase: "base" as const, weeks: base },
+    { phase: "build" as const, weeks: build },
+    { phase: "peak" as const, weeks: peak },
+    { phase: "taper" as const, weeks: taper },
+  ].filter((p) => p.weeks > 0);
+}
+
+function round500(meters: number): number {
+  return Math.round(meters / 500) * 500;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function repeats(distance: number, count: number, pace: PaceZone, recovery: WorkoutStep["recovery"]): WorkoutStep[] {
+  return [
+    { kind: "warmup", pace: "easy", distance: WARMUP },
+    { kind: "work", pace, distance, repeat: count, recovery },
+    { kind: "cooldown", pace: "easy", distance: WARMUP },
+  ];
+}
+
+function continuous(distance: number, pace: PaceZone): WorkoutStep[] {
+  return [
+    { kind: "warmup", pace: "easy", distance: WARMUP },
+    { kind: "work", pace, distance },
+    { kind: "cooldown", pace: "easy", distance: WARMUP },
+  ];
+}
+
+/**
+ * Distance covered by a list of steps, timing duration-based steps at their pace
+ */
+export function stepsDistance(steps: WorkoutStep[], paces: TrainingPaces): number {
+  const length = (distance: number | undefined, duration: number | undefined, pace: number) =>
+    distance ?? ((duration ?? 0) * 1000) / pace;
+
+  return Math.round(
+    steps.reduce((sum, step) => {
+      const reps = step.repeat ?? 1;
+      const work = length(step.distance, step.duration, paces[step.pace]) * reps;
+      const recovery = step.recovery
+        ? length(step.recovery.distance, step.recovery.duration, paces.easy) * (reps - 1)
+        : 0;
+      return sum + work + recovery;
+    }, 0),
+  );
+}
+
+/**
+ * Quality session of the given type, sized to the week's volume
+ * `scale` shortens the work in taper weeks
+ */
+function qualitySession(
+  type: WorkoutType,
+  race: RaceKey,
+  phase: PlanPhase,
+  volume: number,
+  scale: number,
+): { title: string; steps: WorkoutStep[] } {
+  const count = (share: number, rep: number, min: number, max: number) =>
+    clamp(Math.round((volume * share * scale) / rep), min, max);
+
+  switch (type) {
+    case "threshold":
+      return phase === "base"
+        ? { title: "Cruise intervals", steps: repeats(1000, count(0.08, 1000, 3, 6), "threshold", { duration: 60 }) }
+        : { title: "Tempo run", steps: continuous(clamp(round500(volume * 0.12 * scale), 3000, 10000), "threshold") };
+    case "intervals":
+      return phase === "peak"
+        ? { title: "1000m repeats", steps: repeats(1000, count(0.08, 1000, 3, 6), "interval", { distance: 400 }) }
+        : { title: "800m repeats", steps: repeats(800, count(0.08, 800, 4, 8), "interval", { distance: 400 }) };
+    default:
+      // Race-specific work at goal pace
+      if (race === "5k") {
+        return { title: "5K pace repeats", steps: repeats(1000, count(0.1, 1000, 3, 6), "race", { distance: 400 }) };
+      }
+      if (race === "10k") {
+        return { title: "10K pace repeats", steps: repeats(2000, count(0.12, 2000, 2, 4), "race", { distance: 400 }) };
+      }
+      return race === "half"
+        ? { title: "Half marathon pace run", steps: continuous(clamp(round500(volume * 0.15 * scale), 4000, 14000), "race") }
+        : { title: "Marathon pace run", steps: continuous(clamp(round500(volume * 0.2 * scale), 6000, 18000), "race") };
+  }
+}
+
+function qualityTypes(phase: PlanPhase, daysPerWeek: number): WorkoutType[] {
+  const two = daysPerWeek >= 5;
+  switch (phase) {
+    case "base":
+      return two ? ["strides", "threshold"] : ["strides"];
+    case "build":
+      return two ? ["intervals", "threshold"] : ["threshold"];
+    case "peak":
+      return two ? ["intervals", "race_pace"] : ["race_pace"];
+    case "taper":
+      return ["race_pace"];
+  }
+}
+
+/**
+ * Build the week-by-week plan
+ */
+export function buildTrainingPlan(input: TrainingPlanInput): TrainingPlan {
+  const target = RACE_TARGETS.find((t) => t.key === input.race)!;
+  const { history } = input;
+
+  const currentWeekStart = weekStartKey(input.today, input.weekStart);
+  const planStart = currentWeekStart === input.today ? input.today : addDays(currentWeekStart, 7);
+  const raceWeekStart = weekStartKey(input.raceDate, input.weekStart);
+  const totalWeeks =
+    Math.round((Date.parse(raceWeekStart) - Date.parse(planStart)) / (7 * 24 * 60 * 60 * 1000)) + 1;
+
+  if (totalWeeks < MIN_PLAN_WEEKS) {
+    throw new Error(
+      `Race on ${input.raceDate} is too close for a plan: at least ${MIN_PLAN_WEEKS} weeks are needed from ${planStart}.`,
+    );
+  }
+  if (totalWeeks > MAX_PLAN_WEEKS) {
+    throw new Error(
+      `Race on ${input.raceDate} is more than ${MAX_PLAN_WEEKS} weeks away. Build general fitness first and generate the plan closer to the race.`,
+    );
+  }
+
+  const units = input.units ?? "metric";
+  const notes: string[] = [];
+
+  // Goal: given, else predicted from current fitness
+  let goalTime: number;
+  let goalSource: TrainingPlan["goalSource"];
+  if (input.goalTime) {
+    goalTime = input.goalTime;
+    goalSource = "input";
+  } else if (history.vdot) {
+    goalTime = Math.round(timeForVdot(history.vdot, target.distance));
+    goalSource = "predicted";
+  } else {
+    throw new Error("No recent runs to estimate current fitness from. Provide a goal time.");
+  }
+  const goalVdot = vdotFromPerformance(target.distance, goalTime);
+  const racePace = (goalTime / target.distance) * 1000;
+
+  // Train at current fitness; goal pace is reserved for race-specific sessions
+  const paceVdot = history.vdot ?? goalVdot;
+  const paces = trainingPaces(paceVdot, racePace);
+  if (history.vdot && goalVdot > history.vdot * 1.05) {
+    notes.push(
+      `The goal is ${Math.round((goalVdot / history.vdot - 1) * 100)}% above current fitness (VDOT ${history.vdot.toFixed(1)} → ${goalVdot.toFixed(1)}). Training paces use current fitness; regenerate the plan after a tune-up race to update them.`,
+    );
+  }
+  if (!history.vdot) {
+    notes.push("No recent runs found; training paces are derived from the goal time.");
+  }
+
+  const phases = splitPhases(totalWeeks, input.race);
+  const days = clamp(Math.round(input.daysPerWeek), 3, 7);
+  const runDays = RUN_DAYS[days];
+  // Fewer running days and longer races put more of the week into the long run
+  const longRunShare =
+    (days <= 3 ? 0.4 : days === 4 ? 0.35 : 0.3) + (input.race === "marathon" ? 0.1 : 0);
+
+  const recentWeeks = history.weeklyDistances;
+  const currentVolume =
+    recentWeeks.length > 0 ? recentWeeks.reduce((sum, d) => sum + d, 0) / recentWeeks.length : 0;
+  const peakTarget = Math.max(
+    currentVolume,
+    PEAK_WEEKLY_DISTANCE[input.race] * clamp(days / 5, 0.7, 1.3),
+  );
+
+  const weeks: PlanWeek[] = [];
+  const volumes = [...recentWeeks];
+  let weekIndex = 0;
+  let buildingVolume = Math.max(currentVolume, days * MIN_EASY_RUN);
+  let longRun = Math.min(
+    Math.max(history.longestRun, buildingVolume * longRunShare * 0.8),
+    buildingVolume * MAX_LONG_RUN_SHARE,
+  );
+  let peakVolume = buildingVolume;
+
+  for (const { phase, weeks: phaseWeeks } of phases) {
+    for (let i = 0; i < phaseWeeks; i++, weekIndex++) {
+      const start = addDays(planStart, weekIndex * 7);
+      const isRaceWeek = weekIndex === totalWeeks - 1;
+      const previous = volumes.slice(-4);
+      const chronic = previous.length > 0 ? previous.reduce((s, d) => s + d, 0) / previous.length : 0;
+
+      let volume: number;
+      let weekLongRun: number;
+      let recovery = false;
+      if (phase === "taper") {
+        volume = peakVolume * TAPER_VOLUME[phaseWeeks][i];
+        weekLongRun = Math.min(longRun, volume * 0.35);
+      } else if (phase !== "peak" && (weekIndex + 1) % RECOVERY_EVERY === 0) {
+        // Lighter week; the build resumes from the previous week's level
+        recovery = true;
+        volume = buildingVolume * RECOVERY_WEEK_FACTOR;
+        weekLongRun = longRun * 0.75;
+      } else {
+        const grown = weekIndex === 0 ? buildingVolume : buildingVolume * (1 + MAX_WEEKLY_INCREASE);
+        buildingVolume = Math.min(grown, Math.max(peakTarget, buildingVolume));
+        if (chronic > 0) {
+          buildingVolume = Math.min(buildingVolume, chronic * MAX_LOAD_RATIO);
+        }
+        volume = buildingVolume;
+        peakVolume = Math.max(peakVolume, volume);
+        longRun = Math.min(
+          LONG_RUN_CAP[input.race],
+          longRun + LONG_RUN_STEP,
+          Math.max(volume * longRunShare, longRun),
+          volume * MAX_LONG_RUN_SHARE,
+        );
+        weekLongRun = longRun;
+      }
+
+      const workouts = isRaceWeek
+        ? raceWeekWorkouts(input, target.name, target.distance, goalTime, start, runDays, volume, paces)
+        : trainingWeekWorkouts(input.race, phase, start, runDays, volume, round500(weekLongRun), paces, phase === "taper" ? 0.6 : 1);
+
+      const distance = workouts.reduce((sum, w) => sum + w.distance, 0);
+      volumes.push(distance);
+      weeks.push({
+        week: weekIndex + 1,
+        start,
+        end: addDays(start, 6),
+        phase,
+        recovery,
+        distance,
+        longRun: workouts.filter((w) => w.type === "long" || w.type === "race").reduce((max, w) => Math.max(max, w.distance), 0),
+        loadRatio: chronic > 0 ? Math.round((distance / chronic) * 100) / 100 : null,
+        workouts,
+      });
+    }
+  }
+
+  if (peakVolume < PEAK_WEEKLY_DISTANCE[input.race] * 0.6) {
+    notes.push(
+      `Current volume is low for this race; the plan only reaches ${formatDistanceInUnits(peakVolume, units, 0)} a week while keeping increases within 10%. Consider a later race or a shorter distance.`,
+    );
+  }
+
+  // Race week is excluded: the race itself is the point of it
+  const trainingWeeks = weeks.slice(0, -1);
+  const overloaded = trainingWeeks.filter((w) => (w.loadRatio ?? 0) > MAX_LOAD_RATIO);
+  if (overloaded.length > 0) {
+    notes.push(
+      `Minimum run lengths push ${overloaded.length} week(s) above an acute:chronic ratio of ${MAX_LOAD_RATIO}; shorten easy runs or drop one if those weeks feel hard.`,
+    );
+  }
+
+  return {
+    race: { key: target.key, name: target.name, distance: target.distance, date: input.raceDate },
+    goalTime,
+    goalSource,
+    goalVdot: Math.round(goalVdot * 10) / 10,
+    currentVdot: history.vdot ? Math.round(history.vdot * 10) / 10 : null,
+    paces,
+    phases,
+    weeks,
+    currentWeeklyDistance: Math.round(currentVolume),
+    peakWeeklyDistance: Math.max(...trainingWeeks.map((w) => w.distance)),
+    notes,
+  };
+}
+
+function easyRun(date: string, distance: number, paces: TrainingPaces): PlannedWorkout {
+  const steps: WorkoutStep[] = [{ kind: "steady", pace: "easy", distance: round500(distance) }];
+  return { date, type: "easy", title: "Easy run", distance: stepsDistance(steps, paces), steps };
+}
+
+function trainingWeekWorkouts(
+  race: RaceKey,
+  phase: PlanPhase,
+  start: string,
+  runDays: number[],
+  volume: number,
+  longRun: number,
+  paces: TrainingPaces,
+  scale: number,
+): PlannedWorkout[] {
+  const longDay = runDays[runDays.length - 1];
+  const types = qualityTypes(phase, runDays.length);
+  const quality = new Map<number, WorkoutType>(types.map((type, i) => [QUALITY_DAYS[i], type]));
+
+  // Marathoners practise goal pace at the end of peak-phase long runs
+  const longSteps: WorkoutStep[] =
+    race === "marathon" && phase === "peak"
+      ? [
+          { kind: "steady", pace: "easy", distance: round500(longRun * 0.7) },
+          { kind: "work", pace: "race", distance: round500(longRun * 0.3) },
+        ]
+      : [{ kind: "steady", pace: "easy", distance: longRun }];
+
+  const sessions = new Map<number, PlannedWorkout>();
+  sessions.set(longDay, {
+    date: addDays(start, longDay),
+    type: "long",
+    title: longSteps.length > 1 ? "Long run with marathon-pace finish" : "Long run",
+    distance: stepsDistance(longSteps, paces),
+    steps: longSteps,
+  });
+
+  for (const [day, type] of quality) {
+    if (type === "strides") continue; // an easy run, sized below
+    const session = qualitySession(type, race, phase, volume, scale);
+    sessions.set(day, {
+      date: addDays(start, day),
+      type,
+      title: session.title,
+      distance: stepsDistance(session.steps, paces),
+      steps: session.steps,
+    });
+  }
+
+  // Whatever volume is left is shared between the easy days
+  const easyDays = runDays.filter((day) => !sessions.has(day));
+  const used = [...sessions.values()].reduce((sum, w) => sum + w.distance, 0);
+  const easyDistance = easyDays.length > 0 ? Math.max(MIN_EASY_RUN, (volume - used) / easyDays.length) : 0;
+
+  for (const day of easyDays) {
+    const date = addDays(start, day);
+    if (quality.get(day) === "strides") {
+      const steps: WorkoutStep[] = [
+        { kind: "steady", pace: "easy", distance: round500(easyDistance) },
+        { kind: "work", pace: "repetition", duration: 20, repeat: 6, recovery: { duration: 60 } },
+      ];
+      sessions.set(day, { date, type: "strides", title: "Easy run with strides", distance: stepsDistance(steps, paces), steps });
+    } else {
+      sessions.set(day, easyRun(date, easyDistance, paces));
+    }
+  }
+
+  return [...sessions.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function raceWeekWorkouts(
+  input: TrainingPlanInput,
+  raceName: string,
+  raceDistance: number,
+  goalTime: number,
+  start: string,
+  runDays: number[],
+  volume: number,
+  paces: TrainingPaces,
+): PlannedWorkout[] {
+  const raceDay = Math.round((Date.parse(input.raceDate) - Date.parse(start)) / (24 * 60 * 60 * 1000));
+  const workouts: PlannedWorkout[] = [];
+
+  // Nothing the day before the race, a short sharpener three or more days out
+  const before = runDays.filter((day) => day < raceDay - 1);
+  const shakeout = clamp(round500((volume - raceDistance) / Math.max(1, before.length)), MIN_EASY_RUN, 6000);
+  before.forEach((day, i) => {
+    const date = addDays(start, day);
+    if (i === 0 && day <= raceDay - 3 && before.length >= 2) {
+      const steps = repeats(1000, 3, "race", { distance: 400 });
+      workouts.push({ date, type: "race_pace", title: "Race-pace sharpener", distance: stepsDistance(steps, paces), steps });
+    } else {
+      workouts.push(easyRun(date, shakeout, paces));
+    }
+  });
+
+  workouts.push({
+    date: input.raceDate,
+    type: "race",
+    title: raceName,
+    distance: Math.round(raceDistance),
+    steps: [{ kind: "work", pace: "race", distance: raceDistance, duration: goalTime }],
+  });
+
+  return workouts;
+}
+
+function formatStepDistance(meters: number, units: UnitSystem): string {
+  // Track-style reps stay in meters in both unit systems
+  return meters < 2000 ? `${meters}m` : formatDistanceInUnits(meters, units);
+}
+
+function formatStepLength(distance: number | undefined, duration: number | undefined, units: UnitSystem): string {
+  if (distance !== undefined) return formatStepDistance(distance, units);
+  return duration !== undefined && duration < 120 ? `${duration}s` : formatDuration(duration ?? 0);
+}
+
+/**
+ * Plain-language description of a workout's steps
+ */
+export function describeWorkout(workout: PlannedWorkout, paces: TrainingPaces, units: UnitSystem): string {
+  const pace = (zone: PaceZone) =>
+    `${PACE_ZONE_LABELS[zone]} (${paceInUnits(1000 / paces[zone], units)}${unitLabels(units).pace})`;
+
+  if (workout.type === "race") {
+    return `Race day: ${formatDistanceInUnits(workout.distance, units)} in ${formatDuration(workout.steps[0]?.duration ?? 0)} at ${pace("race")}`;
+  }
+
+  return workout.steps
+    .map((step) => {
+      const length = formatStepLength(step.distance, step.duration, units);
+      switch (step.kind) {
+        case "warmup":
+          return `${length} warm-up`;
+        case "cooldown":
+          return `${length} cool-down`;
+        case "steady":
+          return `${length} at ${pace(step.pace)}`;
+        default: {
+          const reps = step.repeat && step.repeat > 1 ? `${step.repeat} × ` : "";
+          const recovery = step.recovery
+            ? ` with ${formatStepLength(step.recovery.distance, step.recovery.duration, units)} easy jog`
+            : "";
+          return `${reps}${length} at ${pace(step.pace)}${recovery}`;
+        }
+      }
+    })
+    .join(", ");
+}
+
+/**
+ * Plan for tool output, in the athlete's unit system
+ */
+export function planToSummary(plan: TrainingPlan, units: UnitSystem) {
+  const pace = (secondsPerKm: number) => paceInUnits(1000 / secondsPerKm, units);
+
+  return {
+    race: {
+      ...plan.race,
+      distance: distanceInUnits(plan.race.distance, units, 2),
+      goalTime: formatDuration(plan.goalTime),
+      goalPace: pace(plan.paces.race),
+      goalSource: plan.goalSource,
+    },
+    fitness: {
+      currentVdot: plan.currentVdot,
+      goalVdot: plan.goalVdot,
+      currentWeeklyDistance: distanceInUnits(plan.currentWeeklyDistance, units),
+      peakWeeklyDistance: distanceInUnits(plan.peakWeeklyDistance, units),
+    },
+    paces: {
+      easy: pace(plan.paces.easy),
+      marathon: pace(plan.paces.marathon),
+      threshold: pace(plan.paces.threshold),
+      interval: pace(plan.paces.interval),
+      repetition: pace(plan.paces.repetition),
+      race: pace(plan.paces.race),
+    },
+    phases: plan.phases,
+    weeks: plan.weeks.map((week) => ({
+      week: week.week,
+      start: week.start,
+      end: week.end,
+      phase: week.phase,
+      recovery: week.recovery,
+      distance: distanceInUnits(week.distance, units),
+      longRun: distanceInUnits(week.longRun, units),
+      loadRatio: week.loadRatio,
+      workouts: week.workouts.map((workout) => {
+        const main = workout.steps.find((step) => step.kind === "work") ?? workout.steps[0];
+        return {
+          date: workout.date,
+          type: workout.type,
+          title: workout.title,
+          distance: distanceInUnits(workout.distance, units),
+          targetPace: pace(plan.paces[main.pace]),
+          description: describeWorkout(workout, plan.paces, units),
+          steps: workout.steps,
+        };
+      }),
+    })),
+    notes: plan.notes,
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { addDays } from "./calendar.js";
+import type { StravaActivity } from "./strava.js";
+import { buildRun } from "./test-fixtures.js";
+import { resolveModelParams } from "./training-load.js";
+import { evaluateTrainingRisks, type TrainingRiskOptions } from "./training-risks.js";
+
+const today = "2024-03-28";
+
+const options: TrainingRiskOptions = {
+  params: resolveModelParams([], { maxHeartRate: 190, restingHeartRate: 60, thresholdPaceSeconds: 300 }),
+  // No zones and no average pace, so only names and workout types classify runs
+  classification: { typicalLongRun: 16000, medianDistance: 8000, averageSpeed: 0, zones: null },
+};
+
+// At the 5:00/km threshold pace, so 8 km scores 66.7
+function run(daysAgo: number, km: number, overrides: Partial<StravaActivity> = {}) {
+  return buildRun(addDays(today, -daysAgo), km, 300, overrides);
+}
+
+// Scores 49 an hour without heart rate
+function ride(daysAgo: number, hours: number) {
+  return buildRun(addDays(today, -daysAgo), hours * 30, 120, { name: "Ride", type: "Ride", sport_type: "Ride" });
+}
+
+// Three weeks of 3 × 8 km, every other day
+const baseline = [1, 2, 3].flatMap((week) => [1, 3, 5].map((day) => run(week * 7 + day, 8)));
+const steadyWeek = [run(1, 8), run(3, 8), run(5, 8)];
+
+const evaluate = (week: StravaActivity[], extra: Partial<TrainingRiskOptions> = {}) =>
+  evaluateTrainingRisks([...baseline, ...week], today, { ...options, ...extra });
+
+describe("evaluateTrainingRisks", () => {
+  it("raises nothing on a steady week", () => {
+    const report = evaluate(steadyWeek);
+
+    expect(report).toMatchObject({ from: "2024-03-22", to: today, status: "ok", alerts: [] });
+    expect(report.metrics).toEqual({
+      weekDistance: 24,
+      baselineDistance: 24,
+      rampPercent: 0,
+      acuteLoad: 200,
+      chronicLoad: 200,
+      acuteChronicRatio: 1,
+      longRun: 8,
+      longRunShare: 33,
+      consecutiveDays: 1,
+      hardSessions: 0,
+      baselineHardSessions: 0,
+    });
+  });
+
+  it("rates a weekly ramp against the threshold", () => {
+    // 30 km is 25%, 33 km 38% over 24 km; high beyond 2.5 × 10%
+    expect(evaluate([run(1, 10), run(3, 10), run(5, 10)]).alerts).toEqual([
+      expect.objectContaining({ rule: "weekly_ramp", severity: "medium", value: 25, threshold: 10 }),
+    ]);
+    expect(evaluate([run(1, 11), run(3, 11), run(5, 11)]).alerts).toEqual([
+      expect.objectContaining({ rule: "weekly_ramp", severity: "high", value: 38, threshold: 25 }),
+    ]);
+    expect(evaluate([run(1, 11), run(3, 11), run(5, 11)], { rampThreshold: 40 }).alerts).toEqual([]);
+  });
+
+  it("rates the acute:chronic ratio over every sport", () => {
+    // 200 + 2 × 98 against (396 + 600) / 4
+    const spike = evaluate([...steadyWeek, ride(2, 2), ride(4, 2)]);
+    expect(spike.metrics).toMatchObject({ rampPercent: 0, acuteChronicRatio: 1.59 });
+    expect(spike.alerts).toEqual([
+      expect.objectContaining({ rule: "acute_chronic_ratio", severity: "high", value: 1.59, threshold: 1.5 }),
+    ]);
+
+    // 200 + 98 against (298 + 600) / 4
+    expect(evaluate([...steadyWeek, ride(2, 2)]).alerts).toEqual([
+      expect.objectContaining({ rule: "acute_chronic_ratio", severity: "medium", value: 1.33, threshold: 1.3 }),
+    ]);
+
+    expect(evaluate([run(1, 8)]).alerts).toEqual([
+      expect.objectContaining({ rule: "acute_chronic_ratio", severity: "low", value: 0.4, threshold: 0.8 }),
+    ]);
+  });
+
+  it("rates the long run's share of the week", () => {
+    const share = (week: StravaActivity[]) => evaluate(week).alerts.find((a) => a.rule === "long_run_share");
+
+    expect(share([run(1, 5), run(3, 5), run(5, 14)])).toMatchObject({ severity: "high", value: 58, threshold: 50 });
+    expect(share([run(1, 6), run(3, 8), run(5, 10)])).toMatchObject({ severity: "medium", value: 42, threshold: 35 });
+    // Under 10 km, a big share is just a short week
+    expect(share([run(1, 4), run(3, 4), run(5, 9.5)])).toBeUndefined();
+  });
+
+  it("counts training days in a row back from today or yesterday", () => {
+    // 3 km every day for four weeks, with one rest day
+    const daily = (restDaysAgo: number) =>
+      evaluateTrainingRisks(
+        Array.from({ length: 28 }, (_, day) => day).filter((day) => day !== restDaysAgo).map((day) => run(day, 3)),
+        today,
+        options,
+      );
+    const streak = (restDaysAgo: number) => daily(restDaysAgo).alerts.find((a) => a.rule === "consecutive_days");
+
+    expect(streak(6)).toBeUndefined();
+    expect(streak(7)).toMatchObject({ severity: "low", value: 7, threshold: 7 });
+    expect(streak(10)).toMatchObject({ severity: "medium", value: 10, threshold: 10 });
+    expect(streak(27)).toMatchObject({ severity: "high", value: 27, threshold: 14 });
+  });
+
+  it("flags more hard sessions than usual", () => {
+    const report = evaluate([run(1, 8, { name: "Tempo" }), run(3, 8, { name: "Intervals" }), run(5, 8, { workout_type: 1 })]);
+    expect(report.metrics.hardSessions).toBe(3);
+    expect(report.alerts).toEqual([
+      expect.objectContaining({ rule: "intensity_spike", severity: "medium", value: 3, threshold: 3 }),
+    ]);
+  });
+
+  it("flags one session far beyond the baseline and sorts by severity", () => {
+    // A 4-hour ride scores 196, 2.9 × the biggest baseline run, and 396 against (396 + 600) / 4
+    const report = evaluate([...steadyWeek, ride(2, 4)]);
+
+    expect(report.status).toBe("high");
+    expect(report.alerts.map((a) => [a.rule, a.severity, a.value])).toEqual([
+      ["acute_chronic_ratio", "high", 1.59],
+      ["intensity_spike", "medium", 2.9],
+    ]);
+  });
+
+  it("reports distances in miles with imperial units", () => {
+    expect(evaluate(steadyWeek, { units: "imperial" }).metrics).toMatchObject({ weekDistance: 14.9, longRun: 5 });
+  });
+});
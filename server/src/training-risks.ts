@@ -0,0 +1,295 @@
+/**
+ * Injury-risk rules over recent training
+ *
+ * Each rule looks at the last 7 days (by the athlete's local day) against the
+ * three weeks before and raises an alert with a severity, an explanation and
+ * a recommendation:
+ * - weekly ramp: run distance against the previous weeks' average
+ * - acute:chronic ratio: 7-day training stress against the 28-day weekly average
+ * - long-run share: the longest run as a share of the week's running
+ * - consecutive days: training days in a row without rest
+ * - intensity spike: more hard sessions than usual, or a session far bigger
+ *   than anything in the previous weeks
+ * Alerts come back highest severity first.
+ */
+
+import { activityDateKey, addDays } from "./calendar.js";
+import { classifyRun, type ClassificationContext, type RunType } from "./run-classification.js";
+import { isRun, type StravaActivity } from "./strava.js";
+import { activityStress, type FitnessModelParams } from "./training-load.js";
+import { distanceInUnits, type UnitSystem } from "./units.js";
+
+export type RiskSeverity = "high" | "medium" | "low";
+
+export type RiskRule =
+  | "acute_chronic_ratio"
+  | "weekly_ramp"
+  | "intensity_spike"
+  | "long_run_share"
+  | "consecutive_days";
+
+export interface RiskAlert {
+  rule: RiskRule;
+  severity: RiskSeverity;
+  title: string;
+  explanation: string;
+  recommendation: string;
+  value: number; // the measured value, in the rule's unit (%, ratio, days, sessions)
+  threshold: number; // the value at which this severity starts
+}
+
+export interface TrainingRiskMetrics {
+  weekDistance: number; // km or mi, last 7 days of running
+  baselineDistance: number; // km or mi, weekly average of the 3 weeks before
+  rampPercent: number | null;
+  acuteLoad: number; // training stress, last 7 days
+  chronicLoad: number; // training stress, weekly average over 28 days
+  acuteChronicRatio: number | null;
+  longRun: number; // km or mi
+  longRunShare: number | null; // % of the week's running
+  consecutiveDays: number;
+  hardSessions: number; // last 7 days
+  baselineHardSessions: number; // weekly average of the 3 weeks before
+}
+
+export interface TrainingRiskReport {
+  from: string; // first day of the 7-day window
+  to: string; // today
+  status: "ok" | RiskSeverity; // the most severe alert
+  alerts: RiskAlert[];
+  metrics: TrainingRiskMetrics;
+}
+
+export interface TrainingRiskOptions {
+  params: FitnessModelParams;
+  sex?: "M" | "F" | null;
+  classification: ClassificationContext;
+  units?: UnitSystem;
+  rampThreshold?: number; // % over the baseline that starts a ramp alert
+}
+
+// Days of history the rules need: this week plus three baseline weeks
+export const RISK_HISTORY_DAYS = 28;
+
+export const DEFAULT_RISK_RAMP_THRESHOLD = 10;
+// A ramp this many times the threshold is high severity
+const HIGH_RAMP_MULTIPLE = 2.5;
+// Ramps off a near-empty baseline say nothing about injury risk
+const MIN_RAMP_BASE_METERS = 5000;
+
+// Acute:chronic bands, as in compute_training_load
+const RATIO_HIGH = 1.5;
+const RATIO_ELEVATED = 1.3;
+const RATIO_LOW = 0.8;
+
+// Long run as a share of the week's running, percent
+const LONG_RUN_SHARE_ELEVATED = 35;
+const LONG_RUN_SHARE_HIGH = 50;
+// Short weeks make any run a big share
+const MIN_LONG_RUN_METERS = 10000;
+
+// Training days in a row
+const STREAK_LOW = 7;
+const STREAK_MEDIUM = 10;
+const STREAK_HIGH = 14;
+
+// Hard sessions in the week, and how far above the usual that counts as a spike
+const MIN_HARD_SESSIONS = 3;
+const HARD_SESSION_MARGIN = 1;
+// A single session this many times the biggest of the baseline weeks
+const SESSION_SPIKE_FACTOR = 1.5;
+
+const HARD_RUN_TYPES: RunType[] = ["tempo", "intervals", "race"];
+
+const SEVERITY_ORDER: RiskSeverity[] = ["high", "medium", "low"];
+const RULE_ORDER: RiskRule[] = [
+  "acute_chronic_ratio",
+  "weekly_ramp",
+  "intensity_spike",
+  "long_run_share",
+  "consecutive_days",
+];
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Evaluate every rule for the 7 days ending on `today` (YYYY-MM-DD)
+ * `activities` should cover at least RISK_HISTORY_DAYS; every sport counts
+ * towards load and rest days, only runs towards distance.
+ */
+export function evaluateTrainingRisks(
+  activities: StravaActivity[],
+  today: string,
+  options: TrainingRiskOptions,
+): TrainingRiskReport {
+  const units = options.units ?? "metric";
+  const rampThreshold = options.rampThreshold ?? DEFAULT_RISK_RAMP_THRESHOLD;
+  const unit = units === "imperial" ? "mi" : "km";
+
+  const weekStart = addDays(today, -6);
+  const baselineStart = addDays(today, -(RISK_HISTORY_DAYS - 1));
+  const inRange = (a: StravaActivity, from: string, to: string) => {
+    const key = activityDateKey(a);
+    return key >= from && key <= to;
+  };
+  const week = activities.filter((a) => inRange(a, weekStart, today));
+  const baseline = activities.filter((a) => inRange(a, baselineStart, addDays(weekStart, -1)));
+  const baselineWeeks = (RISK_HISTORY_DAYS - 7) / 7;
+
+  const alerts: RiskAlert[] = [];
+
+  // Weekly ramp
+  const weekRuns = week.filter(isRun);
+  const weekMeters = weekRuns.reduce((sum, a) => sum + a.distance, 0);
+  const baselineMeters = baseline.filter(isRun).reduce((sum, a) => sum + a.distance, 0) / baselineWeeks;
+  const rampPercent = baselineMeters >= MIN_RAMP_BASE_METERS
+    ? Math.round(((weekMeters - baselineMeters) / baselineMeters) * 100)
+    : null;
+  if (rampPercent !== null && rampPercent > rampThreshold) {
+    const high = rampPercent > rampThreshold * HIGH_RAMP_MULTIPLE;
+    alerts.push({
+      rule: "weekly_ramp",
+      severity: high ? "high" : "medium",
+      title: "Mileage ramping up quickly",
+      explanation: `${distanceInUnits(weekMeters, units)} ${unit} in the last 7 days is ${rampPercent}% above the ${distanceInUnits(baselineMeters, units)} ${unit} weekly average of the three weeks before; increases above ${rampThreshold}% a week raise the risk of overuse injuries.`,
+      recommendation: `Hold next week near ${distanceInUnits(baselineMeters * (1 + rampThreshold / 100), units)} ${unit} and let the body absorb the jump before adding more.`,
+      value: rampPercent,
+      threshold: high ? Math.round(rampThreshold * HIGH_RAMP_MULTIPLE) : rampThreshold,
+    });
+  }
+
+  // Acute:chronic ratio on training stress, every sport included
+  const stress = (list: StravaActivity[]) =>
+    list.reduce((sum, a) => sum + activityStress(a, options.params, options.sex).stress, 0);
+  const acuteLoad = stress(week);
+  const chronicLoad = (acuteLoad + stress(baseline)) / (RISK_HISTORY_DAYS / 7);
+  const ratio = chronicLoad > 0 && baseline.length > 0 ? Math.round((acuteLoad / chronicLoad) * 100) / 100 : null;
+  if (ratio !== null && ratio > RATIO_ELEVATED) {
+    const high = ratio > RATIO_HIGH;
+    alerts.push({
+      rule: "acute_chronic_ratio",
+      severity: high ? "high" : "medium",
+      title: high ? "Training load spike" : "Training load above the sweet spot",
+      explanation: `This week's training stress is ${ratio}× your 4-week weekly average. Ratios of 0.8-1.3 are the sweet spot; above ${RATIO_HIGH} injury risk rises sharply.`,
+      recommendation: high
+        ? "Take an easy or rest day next and keep the coming days short and easy until the ratio drops."
+        : "Keep the next few days easy rather than adding more hard work.",
+      value: ratio,
+      threshold: high ? RATIO_HIGH : RATIO_ELEVATED,
+    });
+  } else if (ratio !== null && ratio < RATIO_LOW) {
+    alerts.push({
+      rule: "acute_chronic_ratio",
+      severity: "low",
+      title: "Training load dropping",
+      explanation: `This week's training stress is ${ratio}× your 4-week weekly average. That's fine for a recovery week or taper; kept up, fitness starts to slip and returning to full load becomes a ramp.`,
+      recommendation: "If this isn't a planned recovery week, build back gradually rather than jumping straight to full volume.",
+      value: ratio,
+      threshold: RATIO_LOW,
+    });
+  }
+
+  // Long-run share of the week
+  const longRunMeters = weekRuns.reduce((max, a) => Math.max(max, a.distance), 0);
+  const longRunShare = weekMeters > 0 ? Math.round((longRunMeters / weekMeters) * 100) : null;
+  if (longRunShare !== null && longRunMeters >= MIN_LONG_RUN_METERS && weekRuns.length > 1 && longRunShare > LONG_RUN_SHARE_ELEVATED) {
+    const high = longRunShare > LONG_RUN_SHARE_HIGH;
+    alerts.push({
+      rule: "long_run_share",
+      severity: high ? "high" : "medium",
+      title: "Long run carries too much of the week",
+      explanation: `The ${distanceInUnits(longRunMeters, units)} ${unit} long run is ${longRunShare}% of the week's ${distanceInUnits(weekMeters, units)} ${unit}. When one run is much more than a third of the volume, the legs aren't conditioned for it by the rest of the week.`,
+      recommendation: "Add easy distance on other days or shorten the long run until it's closer to 30% of the week.",
+      value: longRunShare,
+      threshold: high ? LONG_RUN_SHARE_HIGH : LONG_RUN_SHARE_ELEVATED,
+    });
+  }
+
+  // Consecutive training days, counting back from today (or yesterday, if today is still open)
+  const trainingDays = new Set(activities.map(activityDateKey));
+  let day = trainingDays.has(today) ? today : addDays(today, -1);
+  let consecutiveDays = 0;
+  while (trainingDays.has(day)) {
+    consecutiveDays++;
+    day = addDays(day, -1);
+  }
+  if (consecutiveDays >= STREAK_LOW) {
+    const severity: RiskSeverity =
+      consecutiveDays >= STREAK_HIGH ? "high" : consecutiveDays >= STREAK_MEDIUM ? "medium" : "low";
+    alerts.push({
+      rule: "consecutive_days",
+      severity,
+      title: "No rest day lately",
+      explanation: `${consecutiveDays} days in a row with training. Adaptation happens during recovery, and fatigue that builds without a break shows up as niggles and flat sessions.`,
+      recommendation: "Schedule a full rest day, or at least a very short easy one, in the next couple of days.",
+      value: consecutiveDays,
+      threshold: severity === "high" ? STREAK_HIGH : severity === "medium" ? STREAK_MEDIUM : STREAK_LOW,
+    });
+  }
+
+  // Intensity: more hard sessions than usual
+  const isHard = (a: StravaActivity) =>
+    isRun(a) && HARD_RUN_TYPES.includes(classifyRun(a, options.classification).type);
+  const hardSessions = week.filter(isHard).length;
+  const baselineHardSessions = round1(baseline.filter(isHard).length / baselineWeeks);
+  if (hardSessions >= MIN_HARD_SESSIONS && hardSessions > baselineHardSessions + HARD_SESSION_MARGIN) {
+    alerts.push({
+      rule: "intensity_spike",
+      severity: "medium",
+      title: "More hard sessions than usual",
+      explanation: `${hardSessions} hard sessions (tempo, intervals or races) in the last 7 days, against an average of ${baselineHardSessions} a week over the three weeks before. Intensity is harder to absorb than volume, and stacking it is a common route to injury.`,
+      recommendation: "Make the next sessions easy and keep hard days to two a week with easy days between them.",
+      value: hardSessions,
+      threshold: Math.max(MIN_HARD_SESSIONS, Math.floor(baselineHardSessions + HARD_SESSION_MARGIN) + 1),
+    });
+  }
+
+  // Intensity: one session far bigger than anything in the baseline weeks
+  const biggestBaseline = baseline.reduce(
+    (max, a) => Math.max(max, activityStress(a, options.params, options.sex).stress),
+    0,
+  );
+  const biggest = week
+    .map((a) => ({ activity: a, stress: activityStress(a, options.params, options.sex).stress }))
+    .sort((a, b) => b.stress - a.stress)[0];
+  if (biggest && biggestBaseline > 0 && biggest.stress > biggestBaseline * SESSION_SPIKE_FACTOR) {
+    const factor = round1(biggest.stress / biggestBaseline);
+    alerts.push({
+      rule: "intensity_spike",
+      severity: "medium",
+      title: "One session well beyond the usual",
+      explanation: `"${biggest.activity.name}" on ${activityDateKey(biggest.activity)} carried ${factor}× the training stress of your biggest session in the three weeks before. Single big jumps need more recovery than the numbers for the week suggest.`,
+      recommendation: "Give it two or three easy days before the next hard or long session.",
+      value: factor,
+      threshold: SESSION_SPIKE_FACTOR,
+    });
+  }
+
+  alerts.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      RULE_ORDER.indexOf(a.rule) - RULE_ORDER.indexOf(b.rule),
+  );
+
+  return {
+    from: weekStart,
+    to: today,
+    status: alerts.length > 0 ? alerts[0].severity : "ok",
+    alerts,
+    metrics: {
+      weekDistance: distanceInUnits(weekMeters, units),
+      baselineDistance: distanceInUnits(baselineMeters, units),
+      rampPercent,
+      acuteLoad: Math.round(acuteLoad),
+      chronicLoad: Math.round(chronicLoad),
+      acuteChronicRatio: ratio,
+      longRun: distanceInUnits(longRunMeters, units),
+      longRunShare,
+      consecutiveDays,
+      hardSessions,
+      baselineHardSessions,
+    },
+  };
+}
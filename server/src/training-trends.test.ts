@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { weekRanges } from "./calendar.js";
+import { buildRun } from "./test-fixtures.js";
+import { buildTrainingTrends } from "./training-trends.js";
+
+// Four Monday-to-Sunday weeks, 2024-02-26 to 2024-03-24
+const ranges = weekRanges("2024-03-24", 4);
+
+describe("buildTrainingTrends", () => {
+  it("buckets activities by local day into the ranges", () => {
+    const trends = buildTrainingTrends(
+      [buildRun("2024-02-25", 8), buildRun("2024-02-26", 10), buildRun("2024-03-24", 12)],
+      ranges,
+    );
+
+    // 2024-02-25 is the Sunday before the first week
+    expect(trends.periods.map((p) => p.distance)).toEqual([10, 0, 0, 12]);
+    expect(trends.totals.runs).toBe(2);
+    expect(trends.totals.distance).toBe(22);
+  });
+
+  it("averages distance and pace over the rolling window", () => {
+    const trends = buildTrainingTrends(
+      [
+        buildRun("2024-02-27", 10, 360),
+        buildRun("2024-03-05", 20, 300),
+        buildRun("2024-03-12", 30, 240),
+        buildRun("2024-03-25", 40, 240), // after the last week
+      ],
+      ranges,
+      { rollingWindow: 2 },
+    );
+
+    expect(trends.periods.map((p) => p.rollingDistance)).toEqual([10, 15, 25, 15]);
+    // 30 km in 160 minutes over the first two weeks
+    expect(trends.periods[1].rollingPace).toBe("5:20");
+    expect(trends.periods[3].rollingPace).toBe("4:00");
+  });
+
+  it("treats a window of one as no smoothing", () => {
+    const trends = buildTrainingTrends([buildRun("2024-02-27", 10), buildRun("2024-03-05", 20)], ranges);
+    expect(trends.periods.map((p) => p.rollingDistance)).toEqual([10, 20, 0, 0]);
+  });
+
+  it("warns when volume ramps faster than the threshold", () => {
+    const trends = buildTrainingTrends(
+      [buildRun("2024-02-27", 10), buildRun("2024-03-05", 20), buildRun("2024-03-12", 22), buildRun("2024-03-13", 4)],
+      ranges,
+    );
+
+    expect(trends.periods.map((p) => p.distanceChange)).toEqual([null, 100, 30, -100]);
+    expect(trends.rampWarnings).toEqual([
+      { start: "2024-03-04", distance: 20, previousDistance: 10, distanceChange: 100 },
+      { start: "2024-03-11", distance: 26, previousDistance: 20, distanceChange: 30 },
+    ]);
+  });
+
+  it("only warns above the threshold", () => {
+    const trends = buildTrainingTrends(
+      [buildRun("2024-02-27", 20), buildRun("2024-03-05", 22), buildRun("2024-03-12", 26)],
+      ranges,
+      { rampThreshold: 15 },
+    );
+
+    // +10% stays quiet, +18% warns
+    expect(trends.periods.map((p) => p.rampWarning)).toEqual([false, false, true, false]);
+  });
+
+  it("ignores ramps off a near-empty period", () => {
+    const trends = buildTrainingTrends([buildRun("2024-02-27", 3), buildRun("2024-03-05", 12)], ranges);
+    expect(trends.periods[1].distanceChange).toBe(300);
+    expect(trends.rampWarnings).toEqual([]);
+  });
+
+  it("reports distances in miles with imperial units", () => {
+    const trends = buildTrainingTrends([buildRun("2024-03-05", 16.09344)], ranges, { units: "imperial" });
+    expect(trends.periods[1].distance).toBe(10);
+  });
+});
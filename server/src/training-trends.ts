@@ -0,0 +1,151 @@
+/**
+ * Weekly and monthly training trends
+ *
+ * Activities are bucketed into calendar periods (see calendar.ts) and each
+ * period gets volume, run count, long run, average pace and elevation, plus a
+ * rolling average over the preceding periods. A ramp warning is raised when
+ * volume grows faster than the threshold from one period to the next.
+ */
+
+import { activityDateKey, type DateRange } from "./calendar.js";
+import {
+  calculateAveragePace,
+  isRun,
+  paceToSecondsPerKm,
+  type StravaActivity,
+} from "./strava.js";
+import { distanceInUnits, elevationInUnits, type UnitSystem } from "./units.js";
+
+export type TrendPeriod = "week" | "month";
+
+export interface TrendPeriodStats {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD (inclusive)
+  activities: number;
+  runs: number;
+  distance: number; // km, or mi with imperial units
+  duration: number; // minutes
+  longRun: number; // longest run, km or mi
+  avgPace: string | null; // min:sec per km (or per mile), null without runs
+  avgPaceSeconds: number | null; // avgPace in seconds, for charting
+  elevationGain: number; // m, or ft with imperial units
+  rollingDistance: number; // average distance over the rolling window
+  rollingPace: string | null; // average pace of all runs in the rolling window
+  distanceChange: number | null; // % change from the previous period
+  rampWarning: boolean;
+}
+
+export interface RampWarning {
+  start: string;
+  distance: number;
+  previousDistance: number;
+  distanceChange: number; // %
+}
+
+export interface TrainingTrends {
+  periods: TrendPeriodStats[];
+  rampWarnings: RampWarning[];
+  totals: {
+    activities: number;
+    runs: number;
+    distance: number;
+    elevationGain: number;
+    avgPace: string | null;
+  };
+}
+
+export interface TrainingTrendOptions {
+  units?: UnitSystem;
+  rollingWindow?: number; // periods in the rolling average, including the current one
+  rampThreshold?: number; // % increase over the previous period that triggers a warning
+}
+
+export const DEFAULT_ROLLING_WINDOW: Record<TrendPeriod, number> = { week: 4, month: 3 };
+export const DEFAULT_RAMP_THRESHOLD = 10;
+
+// Ramps off a near-empty period say nothing about injury risk
+const MIN_RAMP_BASE_METERS = 5000;
+
+function averagePace(activities: StravaActivity[], units: UnitSystem): string | null {
+  const runs = activities.filter((a) => isRun(a) && a.distance > 0);
+  return runs.length > 0 ? calculateAveragePace(runs, units) : null;
+}
+
+/**
+ * Aggregate activities into the given periods (oldest first)
+ */
+export function buildTrainingTrends(
+  activities: StravaActivity[],
+  ranges: DateRange[],
+  options: TrainingTrendOptions = {},
+): TrainingTrends {
+  const units = options.units ?? "metric";
+  const rollingWindow = Math.max(1, options.rollingWindow ?? 1);
+  const rampThreshold = options.rampThreshold ?? DEFAULT_RAMP_THRESHOLD;
+
+  const buckets = ranges.map((range) =>
+    activities.filter((a) => {
+      const key = activityDateKey(a);
+      return key >= range.start && key <= range.end;
+    }),
+  );
+  const meters = buckets.map((bucket) => bucket.reduce((sum, a) => sum + a.distance, 0));
+
+  const periods = ranges.map((range, i): TrendPeriodStats => {
+    const bucket = buckets[i];
+    const runs = bucket.filter(isRun);
+    const avgPace = averagePace(bucket, units);
+
+    const windowStart = Math.max(0, i - rollingWindow + 1);
+    const windowMeters = meters.slice(windowStart, i + 1);
+    const rollingMeters = windowMeters.reduce((sum, m) => sum + m, 0) / windowMeters.length;
+
+    const previous = i > 0 ? meters[i - 1] : null;
+    const distanceChange = previous && previous > 0
+      ? Math.round(((meters[i] - previous) / previous) * 100)
+      : null;
+
+    return {
+      start: range.start,
+      end: range.end,
+      activities: bucket.length,
+      runs: runs.length,
+      distance: distanceInUnits(meters[i], units),
+      duration: Math.round(bucket.reduce((sum, a) => sum + a.moving_time, 0) / 60),
+      longRun: distanceInUnits(runs.reduce((max, a) => Math.max(max, a.distance), 0), units),
+      avgPace,
+      avgPaceSeconds: avgPace ? paceToSecondsPerKm(avgPace) : null,
+      elevationGain: elevationInUnits(bucket.reduce((sum, a) => sum + a.total_elevation_gain, 0), units),
+      rollingDistance: distanceInUnits(rollingMeters, units),
+      rollingPace: averagePace(buckets.slice(windowStart, i + 1).flat(), units),
+      distanceChange,
+      rampWarning:
+        distanceChange !== null &&
+        distanceChange > rampThreshold &&
+        (previous ?? 0) >= MIN_RAMP_BASE_METERS,
+    };
+  });
+
+  const rampWarnings = periods
+    .map((period, i) => ({ period, previous: periods[i - 1] }))
+    .filter(({ period }) => period.rampWarning)
+    .map(({ period, previous }) => ({
+      start: period.start,
+      distance: period.distance,
+      previousDistance: previous.distance,
+      distanceChange: period.distanceChange ?? 0,
+    }));
+
+  const all = buckets.flat();
+  return {
+    periods,
+    rampWarnings,
+    totals: {
+      activities: all.length,
+      runs: all.filter(isRun).length,
+      distance: distanceInUnits(all.reduce((sum, a) => sum + a.distance, 0), units),
+      elevationGain: elevationInUnits(all.reduce((sum, a) => sum + a.total_elevation_gain, 0), units),
+      avgPace: averagePace(all, units),
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Unit systems: metric (km, min/km, m) and imperial (mi, min/mi, ft)
+ *
+ * Calculations stay metric throughout; values are converted only when they
+ * are put into tool output. The unit system comes from an explicit tool
+ * parameter, else the athlete's Strava measurement preference.
+ */
+
+import type { StravaAthlete } from "./strava.js";
+
+export type UnitSystem = "metric" | "imperial";
+
+export interface UnitLabels {
+  system: UnitSystem;
+  distance: "km" | "mi";
+  pace: "/km" | "/mi";
+  elevation: "m" | "ft";
+}
+
+export const METERS_PER_MILE = 1609.344;
+export const METERS_PER_FOOT = 0.3048;
+
+/**
+ * Pick the unit system: explicit request, then the athlete's Strava preference
+ */
+export function resolveUnits(
+  requested: UnitSystem | undefined,
+  athlete?: StravaAthlete | null,
+): UnitSystem {
+  if (requested) {
+    return requested;
+  }
+  return athlete?.measurement_preference === "feet" ? "imperial" : "metric";
+}
+
+export function unitLabels(units: UnitSystem): UnitLabels {
+  return units === "imperial"
+    ? { system: units, distance: "mi", pace: "/mi", elevation: "ft" }
+    : { system: units, distance: "km", pace: "/km", elevation: "m" };
+}
+
+/**
+ * Distance in km or miles, rounded to `decimals`
+ */
+export function distanceInUnits(
+  meters: number,
+  units: UnitSystem,
+  decimals: number = 1,
+): number {
+  const value = units === "imperial" ? meters / METERS_PER_MILE : meters / 1000;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert a distance given in the unit system back to meters (for inputs)
+ */
+export function distanceToMeters(value: number, units: UnitSystem): number {
+  return units === "imperial" ? value * METERS_PER_MILE : value * 1000;
+}
+
+/**
+ * Elevation in whole meters or feet
+ */
+export function elevationInUnits(meters: number, units: UnitSystem): number {
+  return Math.round(units === "imperial" ? meters / METERS_PER_FOOT : meters);
+}
+
+/**
+ * Pace string ("m:ss") per km or per mile from a speed in m/s
+ */
+export function paceInUnits(metersPerSecond: number, units: UnitSystem): string {
+  if (metersPerSecond === 0) return "0:00";
+
+  const unitMeters = units === "imperial" ? METERS_PER_MILE : 1000;
+  const secondsPerUnit = Math.round(unitMeters / metersPerSecond);
+  const minutes = Math.floor(secondsPerUnit / 60);
+  const seconds = secondsPerUnit % 60;
+
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Pace string ("m:ss") from seconds per km or per mile
+ */
+export function formatPaceSeconds(secondsPerUnit: number): string {
+  const rounded = Math.round(secondsPerUnit);
+  const minutes = Math.floor(rounded / 60);
+  const seconds = rounded % 60;
+
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Convert a per-km duration (pace or pace delta, in seconds) to the unit system
+ */
+export function perKmSecondsInUnits(secondsPerKm: number, units: UnitSystem): number {
+  return units === "imperial" ? (secondsPerKm * METERS_PER_MILE) / 1000 : secondsPerKm;
+}
+
+/**
+ * Format a distance with its unit, e.g. "12.4km" or "7.7mi"
+ */
+export function formatDistanceInUnits(
+  meters: number,
+  units: UnitSystem,
+  decimals: number = 1,
+): string {
+  return `${distanceInUnits(meters, units, decimals)}${unitLabels(units).distance}`;
+}
+
+/**
+ * Format a pace with its unit, e.g. "5:12/km" or "8:22/mi"
+ */
+export function formatPaceInUnits(metersPerSecond: number, units: UnitSystem): string {
+  return `${paceInUnits(metersPerSecond, units)}${unitLabels(units).pace}`;
+}
+
+/**
+ * Format an elevation with its unit, e.g. "120m" or "394ft"
+ */
+export function formatElevationInUnits(meters: number, units: UnitSystem): string {
+  return `${elevationInUnits(meters, units)}${unitLabels(units).elevation}`;
+}
+
+/**
+ * Format a temperature, e.g. "18°C" or "64°F"
+ */
+export function formatTemperatureInUnits(celsius: number, units: UnitSystem): string {
+  return units === "imperial"
+    ? `${Math.round((celsius * 9) / 5 + 32)}°F`
+    : `${celsius}°C`;
+}
+
+/**
+ * Format a wind speed given in km/h, e.g. "12 km/h" or "7 mph"
+ */
+export function formatSpeedInUnits(kmPerHour: number, units: UnitSystem): string {
+  return units === "imperial"
+    ? `${Math.round((kmPerHour * 1000) / METERS_PER_MILE)} mph`
+    : `${kmPerHour} km/h`;
+}
+
+/**
+ * Format precipitation given in mm, e.g. "2mm" or "0.08in"
+ */
+export function formatPrecipitationInUnits(millimeters: number, units: UnitSystem): string {
+  return units === "imperial"
+    ? `${Math.round((millimeters / 25.4) * 100) / 100}in`
+    : `${millimeters}mm`;
+}
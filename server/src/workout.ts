@@ -0,0 +1,378 @@
+/**
+ * Structured workouts for export to watches
+ *
+ * A workout is a list of steps (warm-up, work, recovery, cool-down) and
+ * repeat blocks. Each step ends after a distance, a time or a lap-button
+ * press, and may carry a pace or heart-rate range. Steps are built from short
+ * text parameters ("800m", "3:00", "4:00-4:10", "150-160 bpm") read in the
+ * athlete's units, and stored in meters, seconds and seconds per km;
+ * routes/tcx.ts and routes/fit.ts turn them into device files.
+ */
+
+import { formatDuration, parseDuration, paceToSecondsPerKm } from "./strava.js";
+import {
+  formatDistanceInUnits,
+  METERS_PER_MILE,
+  paceInUnits,
+  unitLabels,
+  type UnitSystem,
+} from "./units.js";
+
+export type StepIntensity = "warmup" | "active" | "recovery" | "rest" | "cooldown";
+
+export type StepLength =
+  | { type: "distance"; meters: number }
+  | { type: "time"; seconds: number }
+  | { type: "open" }; // until the lap button is pressed
+
+export type StepTarget =
+  | { type: "pace"; fast: number; slow: number } // seconds per km
+  | { type: "heart_rate"; low: number; high: number } // bpm
+  | { type: "open" };
+
+export interface StructuredStep {
+  name: string;
+  intensity: StepIntensity;
+  length: StepLength;
+  target: StepTarget;
+}
+
+export interface RepeatBlock {
+  repeat: number;
+  steps: StructuredStep[];
+}
+
+export interface StructuredWorkout {
+  name: string;
+  notes?: string;
+  steps: Array<StructuredStep | RepeatBlock>;
+}
+
+export interface StepInput {
+  length: string; // "2 km", "800m", "1 mi", "10:00", "90s", "lap"
+  target?: string; // "4:00-4:10", "7:30/mi", "150-160 bpm"
+}
+
+export interface IntervalSetInput extends StepInput {
+  repeats: number;
+  recovery?: string; // length of the recovery between repeats
+  recoveryTarget?: string;
+}
+
+export interface WorkoutInput {
+  name: string;
+  notes?: string;
+  warmup?: StepInput;
+  intervals: IntervalSetInput[];
+  cooldown?: StepInput;
+}
+
+export class WorkoutValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkoutValidationError";
+  }
+}
+
+export const MAX_REPEATS = 50;
+// TCX numbers steps 1-20, counting repeat blocks and the steps inside them
+export const MAX_WORKOUT_STEPS = 20;
+
+// TCX stores step distances and durations as unsigned 16-bit numbers (up to 65535 m or s)
+const MAX_STEP_METERS = 65_000;
+const MAX_STEP_SECONDS = 6 * 3600;
+
+// Anything outside these ranges is a typo rather than a training target
+const MIN_PACE_SECONDS_PER_KM = 120;
+const MAX_PACE_SECONDS_PER_KM = 900;
+const MIN_HEART_RATE = 60;
+const MAX_HEART_RATE = 230;
+
+// A single pace or heart rate becomes a band this wide on each side
+const PACE_TOLERANCE_SECONDS = 5;
+const HEART_RATE_TOLERANCE = 5;
+
+export function isRepeatBlock(step: StructuredStep | RepeatBlock): step is RepeatBlock {
+  return "repeat" in step;
+}
+
+/**
+ * Parse a step length: a distance ("800m", "2 km", "1.5 mi"), a time
+ * ("10:00", "90s", "12 min") or "lap"/"open"
+ * A bare number is a distance in the athlete's units.
+ */
+export function parseStepLength(value: string, units: UnitSystem = "metric"): StepLength | null {
+  const text = value.trim().toLowerCase();
+  if (/^(lap|open|lap button)$/.test(text)) {
+    return { type: "open" };
+  }
+
+  const clock = parseDuration(text);
+  if (clock !== null) {
+    return { type: "time", seconds: clock };
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/.exec(text);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  if (amount <= 0) return null;
+
+  switch (match[2]) {
+    case "m":
+      return { type: "distance", meters: amount };
+    case "km":
+    case "k":
+      return { type: "distance", meters: amount * 1000 };
+    case "mi":
+    case "mile":
+    case "miles":
+      return { type: "distance", meters: amount * METERS_PER_MILE };
+    case "s":
+    case "sec":
+    case "secs":
+      return { type: "time", seconds: amount };
+    case "min":
+    case "mins":
+      return { type: "time", seconds: amount * 60 };
+    case "h":
+    case "hr":
+      return { type: "time", seconds: amount * 3600 };
+    case "":
+      return { type: "distance", meters: units === "imperial" ? amount * METERS_PER_MILE : amount * 1000 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a step target: a pace or pace range ("4:05", "4:00-4:10", "7:30/mi"),
+ * a heart-rate range ("150-160 bpm", "145 bpm") or "open"
+ * Paces without a unit suffix are per km or per mile, following `units`.
+ */
+export function parseStepTarget(value: string, units: UnitSystem = "metric"): StepTarget | null {
+  const text = value.trim().toLowerCase();
+  if (text === "" || text === "open" || text === "none") {
+    return { type: "open" };
+  }
+
+  const heartRate = /^(?:hr\s*)?(\d{2,3})(?:\s*-\s*(\d{2,3}))?\s*bpm$|^hr\s*(\d{2,3})(?:\s*-\s*(\d{2,3}))?$/.exec(text);
+  if (heartRate) {
+    const low = parseInt(heartRate[1] ?? heartRate[3], 10);
+    const high = heartRate[2] ?? heartRate[4];
+    return high
+      ? { type: "heart_rate", low: Math.min(low, parseInt(high, 10)), high: Math.max(low, parseInt(high, 10)) }
+      : { type: "heart_rate", low: low - HEART_RATE_TOLERANCE, high: low + HEART_RATE_TOLERANCE };
+  }
+
+  const pace = /^(\d{1,2}:[0-5]\d)(?:\s*-\s*(\d{1,2}:[0-5]\d))?\s*(\/km|\/mi|per km|per mile)?$/.exec(text);
+  if (!pace) return null;
+
+  const perMile = pace[3] ? pace[3].endsWith("mi") || pace[3].endsWith("mile") : units === "imperial";
+  const toPerKm = (seconds: number) => (perMile ? (seconds * 1000) / METERS_PER_MILE : seconds);
+  const first = paceToSecondsPerKm(pace[1]);
+  const second = pace[2] ? paceToSecondsPerKm(pace[2]) : null;
+  if (first === null || (pace[2] && second === null)) return null;
+
+  return second !== null
+    ? { type: "pace", fast: toPerKm(Math.min(first, second)), slow: toPerKm(Math.max(first, second)) }
+    : { type: "pace", fast: toPerKm(first - PACE_TOLERANCE_SECONDS), slow: toPerKm(first + PACE_TOLERANCE_SECONDS) };
+}
+
+function buildStep(
+  name: string,
+  intensity: StepIntensity,
+  input: StepInput,
+  units: UnitSystem,
+): StructuredStep {
+  const length = parseStepLength(input.length, units);
+  if (!length) {
+    throw new WorkoutValidationError(
+      `${name}: can't read length "${input.length}". Use a distance ("800m", "2 km", "1 mi"), a time ("10:00", "90s") or "lap".`,
+    );
+  }
+
+  const target = input.target ? parseStepTarget(input.target, units) : { type: "open" as const };
+  if (!target) {
+    throw new WorkoutValidationError(
+      `${name}: can't read target "${input.target}". Use a pace ("4:05", "4:00-4:10", "7:30/mi") or heart rate ("150-160 bpm").`,
+    );
+  }
+
+  return { name, intensity, length, target };
+}
+
+/**
+ * Build a workout from text parameters; throws WorkoutValidationError when
+ * a parameter can't be read or the workout doesn't fit on a device
+ */
+export function buildWorkout(input: WorkoutInput, units: UnitSystem = "metric"): StructuredWorkout {
+  if (input.intervals.length === 0) {
+    throw new WorkoutValidationError("Add at least one interval set.");
+  }
+
+  const steps: StructuredWorkout["steps"] = [];
+  if (input.warmup) {
+    steps.push(buildStep("Warm-up", "warmup", input.warmup, units));
+  }
+
+  input.intervals.forEach((set, i) => {
+    const label = input.intervals.length > 1 ? `Set ${i + 1}` : "Intervals";
+    if (!Number.isInteger(set.repeats) || set.repeats < 1 || set.repeats > MAX_REPEATS) {
+      throw new WorkoutValidationError(`${label}: repeats must be a whole number from 1 to ${MAX_REPEATS}.`);
+    }
+
+    const work = buildStep(set.repeats > 1 ? "Interval" : "Run", "active", set, units);
+    const recovery = set.recovery
+      ? buildStep("Recovery", "recovery", { length: set.recovery, target: set.recoveryTarget }, units)
+      : null;
+
+    if (set.repeats === 1) {
+      steps.push(work);
+      if (recovery) steps.push(recovery);
+    } else {
+      steps.push({ repeat: set.repeats, steps: recovery ? [work, recovery] : [work] });
+    }
+  });
+
+  if (input.cooldown) {
+    steps.push(buildStep("Cool-down", "cooldown", input.cooldown, units));
+  }
+
+  const workout: StructuredWorkout = { name: input.name.trim() || "Workout", notes: input.notes, steps };
+  validateWorkout(workout);
+  return workout;
+}
+
+/**
+ * Check step count and target ranges; throws WorkoutValidationError
+ */
+export function validateWorkout(workout: StructuredWorkout): void {
+  if (countSteps(workout) > MAX_WORKOUT_STEPS) {
+    throw new WorkoutValidationError(
+      `Workout has ${countSteps(workout)} steps; devices accept at most ${MAX_WORKOUT_STEPS} (each repeat block counts as one plus its steps).`,
+    );
+  }
+
+  for (const step of flattenSteps(workout)) {
+    const { target, length } = step;
+    if (length.type === "distance" && length.meters > MAX_STEP_METERS) {
+      throw new WorkoutValidationError(`${step.name}: distance is longer than ${MAX_STEP_METERS / 1000} km.`);
+    }
+    if (length.type === "time" && length.seconds > MAX_STEP_SECONDS) {
+      throw new WorkoutValidationError(`${step.name}: duration is longer than 6 hours.`);
+    }
+    if (
+      target.type === "pace" &&
+      (target.fast < MIN_PACE_SECONDS_PER_KM || target.slow > MAX_PACE_SECONDS_PER_KM)
+    ) {
+      throw new WorkoutValidationError(`${step.name}: pace target is outside 2:00-15:00 per km.`);
+    }
+    if (
+      target.type === "heart_rate" &&
+      (target.low < MIN_HEART_RATE || target.high > MAX_HEART_RATE)
+    ) {
+      throw new WorkoutValidationError(
+        `${step.name}: heart rate target is outside ${MIN_HEART_RATE}-${MAX_HEART_RATE} bpm.`,
+      );
+    }
+  }
+}
+
+/**
+ * Step count as devices see it: each repeat block plus the steps inside it
+ */
+export function countSteps(workout: StructuredWorkout): number {
+  return workout.steps.reduce((sum, step) => sum + (isRepeatBlock(step) ? step.steps.length + 1 : 1), 0);
+}
+
+/**
+ * Steps in order with repeat blocks expanded once
+ */
+function flattenSteps(workout: StructuredWorkout): StructuredStep[] {
+  return workout.steps.flatMap((step) => (isRepeatBlock(step) ? step.steps : [step]));
+}
+
+/**
+ * Planned distance and time, estimating the missing one from the pace target
+ * Open steps and steps without a pace count as zero on the side they lack.
+ */
+export function workoutTotals(workout: StructuredWorkout): { distance: number; duration: number } {
+  const stepTotals = (step: StructuredStep) => {
+    const pace = step.target.type === "pace" ? (step.target.fast + step.target.slow) / 2 : null;
+    switch (step.length.type) {
+      case "distance":
+        return { distance: step.length.meters, duration: pace ? (step.length.meters / 1000) * pace : 0 };
+      case "time":
+        return { distance: pace ? (step.length.seconds / pace) * 1000 : 0, duration: step.length.seconds };
+      default:
+        return { distance: 0, duration: 0 };
+    }
+  };
+
+  return workout.steps.reduce(
+    (totals, step) => {
+      const reps = isRepeatBlock(step) ? step.repeat : 1;
+      for (const inner of isRepeatBlock(step) ? step.steps : [step]) {
+        const { distance, duration } = stepTotals(inner);
+        totals.distance += distance * reps;
+        totals.duration += duration * reps;
+      }
+      return totals;
+    },
+    { distance: 0, duration: 0 },
+  );
+}
+
+function describeLength(length: StepLength, units: UnitSystem): string {
+  switch (length.type) {
+    case "distance":
+      return length.meters < 1000 && units === "metric"
+        ? `${Math.round(length.meters)} m`
+        : formatDistanceInUnits(length.meters, units, 2);
+    case "time":
+      return formatDuration(length.seconds);
+    default:
+      return "until lap";
+  }
+}
+
+function describeTarget(target: StepTarget, units: UnitSystem): string {
+  switch (target.type) {
+    case "pace":
+      return ` at ${paceInUnits(1000 / target.fast, units)}-${paceInUnits(1000 / target.slow, units)}${unitLabels(units).pace}`;
+    case "heart_rate":
+      return ` at ${target.low}-${target.high} bpm`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Plain-language description of a workout, e.g.
+ * "2 km warm-up, 6 × (800 m at 3:50-4:00/km, 400 m recovery), 2 km cool-down"
+ */
+export function describeStructuredWorkout(workout: StructuredWorkout, units: UnitSystem = "metric"): string {
+  const describeStep = (step: StructuredStep) => {
+    const length = describeLength(step.length, units);
+    const target = describeTarget(step.target, units);
+    switch (step.intensity) {
+      case "warmup":
+        return `${length} warm-up${target}`;
+      case "cooldown":
+        return `${length} cool-down${target}`;
+      case "recovery":
+      case "rest":
+        return `${length} recovery${target}`;
+      default:
+        return `${length}${target}`;
+    }
+  };
+
+  return workout.steps
+    .map((step) => {
+      if (!isRepeatBlock(step)) return describeStep(step);
+      const inner = step.steps.map(describeStep).join(", ");
+      return step.steps.length > 1 ? `${step.repeat} × (${inner})` : `${step.repeat} × ${inner}`;
+    })
+    .join(", ");
+}
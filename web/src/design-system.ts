@@ -260,32 +260,74 @@ export function getTrendIcon(value: number): string {
 }
 
 /**
- * Utility function to format pace (min:sec per km)
+ * Unit system reported by the tools ("metric" when absent)
+ */
+export type UnitSystem = "metric" | "imperial";
+
+/**
+ * Utility function to get unit labels for a unit system
+ * 
+ * @param units - Unit system (default: "metric")
+ * @returns Distance, pace and elevation unit labels
+ */
+export function getUnitLabels(units: UnitSystem = "metric") {
+  return units === "imperial"
+    ? { distance: "mi", pace: "/mi", elevation: "ft" }
+    : { distance: "km", pace: "/km", elevation: "m" };
+}
+
+/**
+ * Utility function to format pace (min:sec per km or per mile)
  * 
  * @param paceString - Pace string in "M:SS" format
+ * @param units - Unit system the pace is expressed in (default: "metric")
  * @returns Formatted pace string with unit
  */
-export function formatPace(paceString: string): string {
-  return `${paceString}/km`;
+export function formatPace(paceString: string, units: UnitSystem = "metric"): string {
+  return `${paceString}${getUnitLabels(units).pace}`;
 }
 
 /**
  * Utility function to format distance
  * 
- * @param distanceKm - Distance in kilometers
+ * @param distance - Distance in kilometers (metric) or miles (imperial)
  * @param decimals - Number of decimal places (default: 1)
+ * @param units - Unit system the distance is expressed in (default: "metric")
  * @returns Formatted distance string with unit
  */
-export function formatDistance(distanceKm: number, decimals: number = 1): string {
-  return `${distanceKm.toFixed(decimals)}km`;
+export function formatDistance(distance: number, decimals: number = 1, units: UnitSystem = "metric"): string {
+  return `${distance.toFixed(decimals)}${getUnitLabels(units).distance}`;
 }
 
 /**
  * Utility function to format elevation
  * 
- * @param elevationMeters - Elevation in meters
+ * @param elevation - Elevation in meters (metric) or feet (imperial)
+ * @param units - Unit system the elevation is expressed in (default: "metric")
  * @returns Formatted elevation string with unit
  */
-export function formatElevation(elevationMeters: number): string {
-  return `${Math.round(elevationMeters)}m`;
+export function formatElevation(elevation: number, units: UnitSystem = "metric"): string {
+  return `${Math.round(elevation)}${getUnitLabels(units).elevation}`;
+}
+
+/**
+ * Utility function to convert a distance in km to the unit system
+ * 
+ * @param distanceKm - Distance in kilometers
+ * @param units - Target unit system (default: "metric")
+ * @returns Distance in kilometers (metric) or miles (imperial)
+ */
+export function convertDistance(distanceKm: number, units: UnitSystem = "metric"): number {
+  return units === "imperial" ? distanceKm / 1.609344 : distanceKm;
+}
+
+/**
+ * Utility function to convert an elevation in meters to the unit system
+ * 
+ * @param elevationMeters - Elevation in meters
+ * @param units - Target unit system (default: "metric")
+ * @returns Elevation in meters (metric) or feet (imperial)
+ */
+export function convertElevation(elevationMeters: number, units: UnitSystem = "metric"): number {
+  return units === "imperial" ? elevationMeters / 0.3048 : elevationMeters;
 }
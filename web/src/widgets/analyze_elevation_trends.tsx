@@ -1,7 +1,7 @@
 import "@/index.css";
 import { generateHelpers, mountWidget } from "skybridge/web";
 import type { AppType } from "../../../server/src/server";
-import { DesignSystem } from "../design-system";
+import { DesignSystem, getUnitLabels } from "../design-system";
 
 const { useToolInfo } = generateHelpers<AppType>();
 
@@ -26,7 +26,8 @@ export default function AnalyzeElevationTrends() {
     );
   }
 
-  const { summary, topHillyRuns } = toolInfo.output as any;
+  const { summary, topHillyRuns, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
 
   if (summary.totalActivities === 0) {
     return (
@@ -88,7 +89,7 @@ export default function AnalyzeElevationTrends() {
               Avg Elevation Gain
             </div>
             <div style={{ fontSize: "24px", fontWeight: 600, color: "#111827" }}>
-              {summary.averageElevationGain}m
+              {summary.averageElevationGain}{labels.elevation}
             </div>
             <div style={{ fontSize: "11px", color: "#9ca3af", marginTop: "2px" }}>
               per run
@@ -100,10 +101,10 @@ export default function AnalyzeElevationTrends() {
               Avg Pace Impact
             </div>
             <div style={{ fontSize: "24px", fontWeight: 600, color: "#111827" }}>
-              +{summary.averagePaceAdjustment}s
+              {summary.averagePaceAdjustment >= 0 ? "+" : ""}{summary.averagePaceAdjustment}s
             </div>
             <div style={{ fontSize: "11px", color: "#9ca3af", marginTop: "2px" }}>
-              per km
+              per {labels.distance}
             </div>
           </div>
         </div>
@@ -164,7 +165,7 @@ export default function AnalyzeElevationTrends() {
                         {run.name}
                       </div>
                       <div style={{ fontSize: "12px", color: "#6b7280" }}>
-                        {run.date} • {run.distance}km
+                        {run.date} • {run.distance}{labels.distance}
                       </div>
                     </div>
                     <div style={{ 
@@ -173,7 +174,7 @@ export default function AnalyzeElevationTrends() {
                       color: "#059669",
                       textAlign: "right"
                     }}>
-                      {run.elevationGain}m
+                      {run.elevationGain}{labels.elevation}
                     </div>
                   </div>
 
@@ -204,10 +205,10 @@ export default function AnalyzeElevationTrends() {
                     
                     <div>
                       <div style={{ fontSize: "10px", color: "#9ca3af", marginBottom: "2px" }}>
-                        Elevation/km
+                        Elevation/{labels.distance}
                       </div>
                       <div style={{ fontSize: "14px", fontWeight: 600, color: "#6b7280" }}>
-                        {run.elevationPerKm}m
+                        {run.elevationPerDistance}{labels.elevation}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,281 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, applyGradientText, createGradientOverlay, formatPace } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+// Form (TSB) states, matching classifyForm on the server
+const FORM_STYLES: Record<string, { label: string; color: string; icon: string }> = {
+  detraining: { label: "Detraining", color: "#6b7280", icon: "💤" },
+  fresh: { label: "Fresh", color: DesignSystem.colors.semantic.improvement, icon: "🏁" },
+  neutral: { label: "Neutral", color: "#3b82f6", icon: "⚖️" },
+  productive: { label: "Productive", color: "#f59e0b", icon: "💪" },
+  overreaching: { label: "Overreaching", color: DesignSystem.colors.semantic.decline, icon: "⚠️" },
+};
+
+function AnalyzeFitnessFormContent() {
+  const toolInfo = useToolInfo<"analyze_fitness_form">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>📈</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Modelling fitness and fatigue...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error loading training load data</p>
+      </div>
+    );
+  }
+
+  const { period, current, peakFitness, series, model, totalRuns, totalActivities, loadBySport, truncated, units } = toolInfo.output as any;
+
+  if (!series || series.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No training data available
+        </p>
+      </div>
+    );
+  }
+
+  const form = FORM_STYLES[current.form] ?? FORM_STYLES.neutral;
+  const methods = model.stressMethods ?? { trimp: 0, pace: 0, duration: 0 };
+  const sports = Array.isArray(loadBySport) ? loadBySport : [];
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        background: "white",
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        border: "1px solid #e5e7eb",
+        boxShadow: DesignSystem.shadows.card,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Subtle gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "200px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.card }}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: DesignSystem.spacing.compact }}>
+            <div style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.compact }}>
+              <div style={{
+                width: "8px",
+                height: "8px",
+                borderRadius: "50%",
+                background: DesignSystem.colors.gradients.primary,
+                boxShadow: "0 0 12px #667eea99"
+              }} />
+              <span style={{
+                fontSize: "11px",
+                fontWeight: "600",
+                color: "rgba(0, 0, 0, 0.5)",
+                textTransform: "uppercase" as const,
+                letterSpacing: "1px"
+              }}>
+                Fitness, Fatigue & Form
+              </span>
+            </div>
+
+            {/* Form Badge */}
+            <div style={{
+              padding: "6px 12px",
+              borderRadius: DesignSystem.borderRadius.small,
+              background: `${form.color}15`,
+              border: `1px solid ${form.color}30`,
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+            }}>
+              <span style={{ fontSize: "14px" }}>{form.icon}</span>
+              <span style={{ fontSize: "12px", fontWeight: "600", color: form.color }}>
+                {form.label}
+              </span>
+            </div>
+          </div>
+          <p style={{ color: "rgba(0, 0, 0, 0.4)", fontSize: "13px", margin: 0 }}>
+            {period.start} → {period.end} • {totalRuns} runs
+            {totalActivities > totalRuns && ` + ${totalActivities - totalRuns} cross-training`}
+            {peakFitness && ` • Peak fitness ${peakFitness.ctl} on ${peakFitness.date}`}
+          </p>
+        </div>
+
+        {/* Current Values */}
+        <div style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: DesignSystem.spacing.element,
+          marginBottom: DesignSystem.spacing.card,
+          position: "relative" as const
+        }}>
+          {[
+            { value: current.ctl, label: "Fitness (CTL)", gradient: DesignSystem.colors.gradients.tertiary, icon: "💪" },
+            { value: current.atl, label: "Fatigue (ATL)", gradient: DesignSystem.colors.gradients.secondary, icon: "🔥" },
+            { value: `${current.tsb > 0 ? "+" : ""}${current.tsb}`, label: "Form (TSB)", gradient: DesignSystem.colors.gradients.quaternary, icon: form.icon },
+            { value: `${current.rampRate > 0 ? "+" : ""}${current.rampRate}`, label: "CTL Ramp /week", gradient: DesignSystem.colors.gradients.primary, icon: current.rampRate > 0 ? "📈" : current.rampRate < 0 ? "📉" : "➡️" },
+          ].map((stat, i) => (
+            <div key={i} style={{
+              padding: DesignSystem.spacing.section,
+              background: "#f8f9fa",
+              backdropFilter: DesignSystem.glassmorphism.backdropBlur,
+              borderRadius: DesignSystem.borderRadius.element,
+              border: DesignSystem.glassmorphism.border,
+              position: "relative" as const,
+              overflow: "hidden" as const,
+            }}>
+              <div style={createGradientOverlay(stat.gradient)} />
+              <div style={{ position: "relative" as const }}>
+                <div style={{ fontSize: "20px", marginBottom: "4px" }}>{stat.icon}</div>
+                <div style={{
+                  fontSize: "24px",
+                  fontWeight: "700",
+                  marginBottom: "4px",
+                  ...applyGradientText(stat.gradient)
+                }}>
+                  {stat.value}
+                </div>
+                <div style={{ fontSize: "10px", color: "rgba(0, 0, 0, 0.5)", fontWeight: "500" }}>
+                  {stat.label}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Model Chart */}
+        <div style={{
+          position: "relative" as const,
+          marginBottom: DesignSystem.spacing.section,
+          background: "#f8f9fa",
+          borderRadius: DesignSystem.borderRadius.element,
+          padding: DesignSystem.spacing.section,
+        }}>
+          <h3 style={{
+            fontSize: "13px",
+            fontWeight: "600",
+            marginBottom: DesignSystem.spacing.element,
+            color: "rgba(0, 0, 0, 0.6)",
+            textTransform: "uppercase" as const,
+            letterSpacing: "0.5px"
+          }}>
+            Daily Training Load Model
+          </h3>
+
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={series} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 0, 0, 0.1)" vertical={false} />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                tickFormatter={(value) => {
+                  const date = new Date(value);
+                  return `${date.getUTCMonth() + 1}/${date.getUTCDate()}`;
+                }}
+                minTickGap={20}
+              />
+              <YAxis yAxisId="load" tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }} />
+              <YAxis yAxisId="form" orientation="right" tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }} />
+              <Tooltip
+                contentStyle={{
+                  background: "rgba(255, 255, 255, 0.95)",
+                  border: "1px solid rgba(0, 0, 0, 0.1)",
+                  borderRadius: DesignSystem.borderRadius.small,
+                  fontSize: "12px",
+                  boxShadow: DesignSystem.shadows.element,
+                }}
+              />
+              <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "12px" }} />
+              <ReferenceLine yAxisId="form" y={0} stroke="rgba(0, 0, 0, 0.2)" />
+
+              {/* Form: positive = fresh, negative = fatigued */}
+              <Area
+                yAxisId="form"
+                type="monotone"
+                dataKey="tsb"
+                name="Form (TSB)"
+                stroke={DesignSystem.colors.semantic.improvement}
+                fill={DesignSystem.colors.semantic.improvement}
+                fillOpacity={0.12}
+                strokeWidth={1.5}
+              />
+              <Bar yAxisId="load" dataKey="load" name="Daily stress" fill="rgba(0, 0, 0, 0.12)" barSize={4} />
+              <Line yAxisId="load" type="monotone" dataKey="ctl" name="Fitness (CTL)" stroke="#4facfe" strokeWidth={3} dot={false} />
+              <Line yAxisId="load" type="monotone" dataKey="atl" name="Fatigue (ATL)" stroke="#f5576c" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Model Parameters */}
+        <div style={{
+          position: "relative" as const,
+          padding: DesignSystem.spacing.element,
+          background: "#eff6ff",
+          borderRadius: DesignSystem.borderRadius.element,
+          border: "1px solid #bfdbfe",
+        }}>
+          <div style={{ fontSize: "12px", color: "#1e40af", fontWeight: 500 }}>
+            ℹ️ Calculation Method
+          </div>
+          <div style={{ fontSize: "13px", color: "#3b82f6", marginTop: "4px" }}>
+            {methods.trimp} activities scored by heart rate (max {model.maxHeartRate} bpm{model.maxHeartRateSource === "default" ? ", assumed" : ""}, rest {model.restingHeartRate} bpm),
+            {" "}{methods.pace} by pace (threshold {formatPace(model.thresholdPace, units)}{model.thresholdPaceSource === "default" ? ", assumed" : ""})
+            {methods.duration > 0 && `, ${methods.duration} by duration`}.
+            1 hour at threshold = 100.
+          </div>
+          {sports.length > 1 && (
+            <div style={{ fontSize: "12px", color: "#6b7280", marginTop: "4px" }}>
+              Stress by sport: {sports.map((sport: any) => `${sport.sportType} ${Math.round(sport.share * 100)}%`).join(" • ")}
+            </div>
+          )}
+          {truncated && (
+            <div style={{ fontSize: "12px", color: DesignSystem.colors.semantic.decline, marginTop: "4px" }}>
+              ⚠️ Activity history was truncated - early fitness values may be understated.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyzeFitnessForm() {
+  return (
+    <ErrorBoundary widgetName="analyze_fitness_form">
+      <AnalyzeFitnessFormContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<AnalyzeFitnessForm />);
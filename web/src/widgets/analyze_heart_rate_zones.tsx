@@ -0,0 +1,242 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, createGradientOverlay } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+// Zone 1 → 5, cool to hot
+const ZONE_COLORS = ["#9ca3af", "#4facfe", "#43e97b", "#f59e0b", "#f5576c"];
+
+const SOURCE_LABELS: Record<string, string> = {
+  strava: "Strava zones",
+  threshold_hr: "From threshold heart rate",
+  max_hr: "From max heart rate",
+  estimated: "Estimated from highest recorded heart rate",
+};
+
+function AnalyzeHeartRateZonesContent() {
+  const toolInfo = useToolInfo<"analyze_heart_rate_zones">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>❤️</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Analyzing heart rate zones...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error loading heart rate data</p>
+      </div>
+    );
+  }
+
+  const { zones, zoneSource, weekly, overall, coverage } = toolInfo.output as any;
+
+  if (!coverage || coverage.runsWithHeartRate === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No runs with heart rate data found
+        </p>
+      </div>
+    );
+  }
+
+  const chartData = weekly.map((week: any) => {
+    const row: Record<string, any> = { week: week.weekStart };
+    week.minutesPerZone.forEach((minutes: number, i: number) => {
+      row[`z${i + 1}`] = minutes;
+    });
+    return row;
+  });
+
+  const complianceColor = overall.polarization.compliant
+    ? DesignSystem.colors.semantic.improvement
+    : DesignSystem.colors.semantic.decline;
+
+  const intensityBands = [
+    { label: "Low (Z1-2)", share: overall.polarization.low, color: ZONE_COLORS[1] },
+    { label: "Moderate (Z3)", share: overall.polarization.moderate, color: ZONE_COLORS[2] },
+    { label: "High (Z4-5)", share: overall.polarization.high, color: ZONE_COLORS[4] },
+  ];
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        background: "white",
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        border: "1px solid #e5e7eb",
+        boxShadow: DesignSystem.shadows.card,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Subtle gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.secondary, 0.03),
+          height: "200px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.section }}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: DesignSystem.spacing.compact }}>
+            <h2 style={{ margin: 0, fontSize: "20px", fontWeight: 600, color: "#111827" }}>
+              Heart Rate Zones
+            </h2>
+
+            {/* 80/20 Badge */}
+            <div style={{
+              padding: "6px 12px",
+              borderRadius: DesignSystem.borderRadius.small,
+              background: `${complianceColor}15`,
+              border: `1px solid ${complianceColor}30`,
+              fontSize: "12px",
+              fontWeight: "600",
+              color: complianceColor,
+            }}>
+              {overall.polarization.compliant ? "✅ 80/20 compliant" : "⚠️ Below 80/20"}
+            </div>
+          </div>
+          <p style={{ margin: 0, fontSize: "14px", color: "#6b7280" }}>
+            {weekly.length} weeks • {coverage.runsWithHeartRate} runs with heart rate • {overall.compliantWeeks} of {overall.weeksWithData} weeks compliant
+          </p>
+        </div>
+
+        {/* Overall Polarization */}
+        <div style={{
+          position: "relative" as const,
+          marginBottom: DesignSystem.spacing.section,
+          padding: DesignSystem.spacing.element,
+          background: "#f9fafb",
+          borderRadius: DesignSystem.borderRadius.element,
+          border: "1px solid #e5e7eb"
+        }}>
+          <div style={{ fontSize: "11px", color: "#6b7280", marginBottom: "8px", textTransform: "uppercase", letterSpacing: "0.5px" }}>
+            Intensity Balance (target: {Math.round(overall.target * 100)}% low)
+          </div>
+          <div style={{ display: "flex", height: "14px", borderRadius: "7px", overflow: "hidden", marginBottom: "8px" }}>
+            {intensityBands.map((band) => (
+              <div key={band.label} style={{ width: `${band.share * 100}%`, background: band.color }} />
+            ))}
+          </div>
+          <div style={{ display: "flex", gap: DesignSystem.spacing.element, flexWrap: "wrap" as const }}>
+            {intensityBands.map((band) => (
+              <div key={band.label} style={{ fontSize: "12px", color: "#374151" }}>
+                <span style={{ display: "inline-block", width: "8px", height: "8px", borderRadius: "50%", background: band.color, marginRight: "6px" }} />
+                {band.label}: <strong>{Math.round(band.share * 100)}%</strong>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Weekly Distribution */}
+        <div style={{
+          position: "relative" as const,
+          marginBottom: DesignSystem.spacing.section,
+          background: "#f8f9fa",
+          borderRadius: DesignSystem.borderRadius.element,
+          padding: DesignSystem.spacing.section,
+        }}>
+          <h3 style={{
+            fontSize: "13px",
+            fontWeight: "600",
+            marginTop: 0,
+            marginBottom: DesignSystem.spacing.element,
+            color: "rgba(0, 0, 0, 0.6)",
+            textTransform: "uppercase" as const,
+            letterSpacing: "0.5px"
+          }}>
+            Weekly Minutes per Zone
+          </h3>
+
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 0, 0, 0.1)" vertical={false} />
+              <XAxis
+                dataKey="week"
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                tickFormatter={(value) => {
+                  const date = new Date(value);
+                  return `${date.getUTCMonth() + 1}/${date.getUTCDate()}`;
+                }}
+              />
+              <YAxis tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }} />
+              <Tooltip
+                contentStyle={{
+                  background: "rgba(255, 255, 255, 0.95)",
+                  border: "1px solid rgba(0, 0, 0, 0.1)",
+                  borderRadius: DesignSystem.borderRadius.small,
+                  fontSize: "12px",
+                  boxShadow: DesignSystem.shadows.element,
+                }}
+                formatter={(value: any, name?: string) => [`${value} min`, name || ""]}
+              />
+              <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "12px" }} />
+              {zones.map((zone: any, i: number) => (
+                <Bar
+                  key={zone.zone}
+                  dataKey={`z${zone.zone}`}
+                  stackId="zones"
+                  name={`Z${zone.zone} ${zone.name}`}
+                  fill={ZONE_COLORS[i % ZONE_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Zone Definitions */}
+        <div style={{
+          position: "relative" as const,
+          padding: DesignSystem.spacing.element,
+          background: "#eff6ff",
+          borderRadius: DesignSystem.borderRadius.element,
+          border: "1px solid #bfdbfe",
+        }}>
+          <div style={{ fontSize: "12px", color: "#1e40af", fontWeight: 500 }}>
+            ℹ️ {SOURCE_LABELS[zoneSource] ?? zoneSource}
+          </div>
+          <div style={{ fontSize: "13px", color: "#3b82f6", marginTop: "4px" }}>
+            {zones.map((zone: any) => `Z${zone.zone} ${zone.max === null ? `≥${zone.min}` : `${zone.min}-${zone.max - 1}`}`).join(" • ")} bpm
+          </div>
+          <div style={{ fontSize: "12px", color: "#6b7280", marginTop: "4px" }}>
+            {coverage.fromStreams} runs from heart rate streams, {coverage.fromAverages} estimated from average heart rate
+            {coverage.rateLimited && " (Strava rate limit reached)"}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyzeHeartRateZones() {
+  return (
+    <ErrorBoundary widgetName="analyze_heart_rate_zones">
+      <AnalyzeHeartRateZonesContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<AnalyzeHeartRateZones />);
@@ -1,7 +1,7 @@
 import "@/index.css";
 import { generateHelpers, mountWidget } from "skybridge/web";
 import type { AppType } from "../../../server/src/server";
-import { DesignSystem } from "../design-system";
+import { DesignSystem, getUnitLabels } from "../design-system";
 
 const { useToolInfo } = generateHelpers<AppType>();
 
@@ -26,7 +26,8 @@ export default function AnalyzePacePatterns() {
     );
   }
 
-  const { groups, groupBy, totalActivities } = toolInfo.output as any;
+  const { groups, groupBy, totalActivities, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
 
   if (!groups || groups.length === 0) {
     return (
@@ -108,6 +109,9 @@ export default function AnalyzePacePatterns() {
                     marginTop: "2px"
                   }}>
                     {group.count} {group.count === 1 ? 'run' : 'runs'}
+                    {group.averageConfidence !== null && group.averageConfidence !== undefined && (
+                      <> • {Math.round(group.averageConfidence * 100)}% confidence</>
+                    )}
                   </p>
                 </div>
               </div>
@@ -127,7 +131,7 @@ export default function AnalyzePacePatterns() {
                     {group.statistics.mean}
                   </div>
                   <div style={{ fontSize: "11px", color: "#9ca3af" }}>
-                    min/km
+                    min{labels.pace}
                   </div>
                 </div>
                 
@@ -139,7 +143,7 @@ export default function AnalyzePacePatterns() {
                     {group.statistics.median}
                   </div>
                   <div style={{ fontSize: "11px", color: "#9ca3af" }}>
-                    min/km
+                    min{labels.pace}
                   </div>
                 </div>
                 
@@ -151,7 +155,7 @@ export default function AnalyzePacePatterns() {
                     ±{group.statistics.stdDev}s
                   </div>
                   <div style={{ fontSize: "11px", color: "#9ca3af" }}>
-                    per km
+                    per {labels.distance}
                   </div>
                 </div>
               </div>
@@ -186,7 +190,7 @@ export default function AnalyzePacePatterns() {
                           {run.name}
                         </div>
                         <div style={{ color: "#6b7280", marginLeft: "12px" }}>
-                          {run.distance}km
+                          {run.distance}{labels.distance}
                         </div>
                         <div style={{ color: "#111827", fontWeight: 600, marginLeft: "12px" }}>
                           {run.pace}
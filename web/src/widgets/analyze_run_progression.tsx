@@ -1,7 +1,7 @@
 import "@/index.css";
 import { generateHelpers, mountWidget } from "skybridge/web";
 import type { AppType } from "../../../server/src/server";
-import { DesignSystem, applyGradientText, createGradientOverlay, getSemanticColor, getTrendIcon } from "../design-system";
+import { DesignSystem, applyGradientText, createGradientOverlay, getSemanticColor, getTrendIcon, getUnitLabels } from "../design-system";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 
 const { useToolInfo } = generateHelpers<AppType>();
@@ -39,7 +39,8 @@ export default function AnalyzeRunProgression() {
     );
   }
 
-  const { route, progression, summary } = toolInfo.output as any;
+  const { route, progression, summary, metadata } = toolInfo.output as any;
+  const labels = getUnitLabels(metadata?.units);
 
   // Safety check
   if (!route || !progression || progression.length === 0) {
@@ -159,19 +160,19 @@ export default function AnalyzeRunProgression() {
           {[
             { 
               value: summary.bestPace, 
-              label: "Best Pace /km", 
+              label: `Best Pace ${labels.pace}`, 
               gradient: DesignSystem.colors.gradients.quaternary,
               icon: "🏆"
             },
             { 
               value: summary.averagePace, 
-              label: "Avg Pace /km", 
+              label: `Avg Pace ${labels.pace}`, 
               gradient: DesignSystem.colors.gradients.tertiary,
               icon: "📊"
             },
             { 
               value: summary.worstPace, 
-              label: "Slowest /km", 
+              label: `Slowest ${labels.pace}`, 
               gradient: DesignSystem.colors.gradients.secondary,
               icon: "🐌"
             },
@@ -349,15 +350,21 @@ export default function AnalyzeRunProgression() {
                   display: "flex",
                   gap: "12px"
                 }}>
-                  <span style={{ fontWeight: "600" }}>{run.pace}/km</span>
+                  <span style={{ fontWeight: "600" }}>{run.pace}{labels.pace}</span>
                   <span>•</span>
-                  <span>{run.distance}km</span>
+                  <span>{run.distance}{labels.distance}</span>
                   <span>•</span>
                   <span>{run.duration}min</span>
                   {run.elevation > 0 && (
                     <>
                       <span>•</span>
-                      <span>↗ {run.elevation}m</span>
+                      <span>↗ {run.elevation}{labels.elevation}</span>
+                    </>
+                  )}
+                  {run.matchConfidence !== undefined && (
+                    <>
+                      <span>•</span>
+                      <span title="Route match confidence">≈ {Math.round(run.matchConfidence * 100)}%</span>
                     </>
                   )}
                 </span>
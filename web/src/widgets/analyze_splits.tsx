@@ -0,0 +1,355 @@
+import "@/index.css";
+import React from "react";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, applyGlassmorphism, applyGradientText, createGradientOverlay, getUnitLabels } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+// Pacing strategies, matching PacingStrategy on the server
+const STRATEGY_STYLES: Record<string, { label: string; color: string; icon: string }> = {
+  negative: { label: "Negative split", color: DesignSystem.colors.semantic.improvement, icon: "🚀" },
+  even: { label: "Even split", color: "#667eea", icon: "⚖️" },
+  positive: { label: "Positive split", color: "#f59e0b", icon: "📉" },
+  fade: { label: "Fade", color: DesignSystem.colors.semantic.decline, icon: "🥵" },
+};
+
+const COLORS = {
+  split: "#667eea",
+  fastest: DesignSystem.colors.semantic.improvement,
+  slowest: DesignSystem.colors.semantic.decline,
+  elevation: "#00f2fe",
+  average: "rgba(0, 0, 0, 0.35)",
+};
+
+function formatPaceSeconds(value: number): string {
+  const minutes = Math.floor(value / 60);
+  const seconds = Math.round(value % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function AnalyzeSplitsContent() {
+  const toolInfo = useToolInfo<"analyze_splits">();
+  const [selectedIndex, setSelectedIndex] = React.useState(0);
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>⏱️</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Analyzing splits...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error analyzing splits</p>
+      </div>
+    );
+  }
+
+  const { activities, strategyCounts, skipped, pending, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
+
+  if (!activities || activities.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No splits available for these runs
+        </p>
+      </div>
+    );
+  }
+
+  const run = activities[Math.min(selectedIndex, activities.length - 1)];
+  const strategy = STRATEGY_STYLES[run.strategy] ?? STRATEGY_STYLES.even;
+  const hasElevation = run.splits.some((s: any) => s.elevationChange !== null);
+  const averagePaceSeconds = run.splits.reduce((sum: number, s: any) => sum + s.paceSeconds - s.paceDelta, 0) / run.splits.length;
+  const splitColor = (split: any) =>
+    split.fastest ? COLORS.fastest : split.slowest ? COLORS.slowest : COLORS.split;
+  const highlight = (splitNumber: number) => run.splits.find((s: any) => s.split === splitNumber);
+  const fastest = highlight(run.fastestSplit);
+  const slowest = highlight(run.slowestSplit);
+  const withElevation = (split: any) =>
+    split.elevationChange !== null ? ` (${split.elevationChange > 0 ? "+" : ""}${split.elevationChange}${labels.elevation})` : "";
+
+  const tooltipStyle = {
+    background: "rgba(255, 255, 255, 0.95)",
+    border: "1px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: DesignSystem.borderRadius.small,
+    fontSize: "12px",
+    boxShadow: DesignSystem.shadows.element,
+  };
+
+  const sectionStyle = {
+    position: "relative" as const,
+    marginBottom: DesignSystem.spacing.section,
+    background: "rgba(255, 255, 255, 0.4)",
+    borderRadius: DesignSystem.borderRadius.element,
+    border: DesignSystem.glassmorphism.border,
+    padding: DesignSystem.spacing.section,
+  };
+
+  const headingStyle = {
+    fontSize: "13px",
+    fontWeight: "600",
+    marginBottom: DesignSystem.spacing.element,
+    color: "rgba(0, 0, 0, 0.6)",
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.5px",
+    marginTop: 0,
+  };
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        ...applyGlassmorphism(0.02),
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        boxShadow: `${DesignSystem.shadows.card}, inset 0 1px 0 rgba(255, 255, 255, 0.1)`,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "120px",
+        }} />
+
+        {/* Run Selector */}
+        {activities.length > 1 && (
+          <div style={{ position: "relative" as const, display: "flex", flexWrap: "wrap" as const, gap: DesignSystem.spacing.compact, marginBottom: DesignSystem.spacing.section }}>
+            {activities.map((a: any, i: number) => {
+              const style = STRATEGY_STYLES[a.strategy] ?? STRATEGY_STYLES.even;
+              const isSelected = a.id === run.id;
+              return (
+                <button
+                  key={a.id}
+                  onClick={() => setSelectedIndex(i)}
+                  style={{
+                    padding: "6px 10px",
+                    borderRadius: DesignSystem.borderRadius.small,
+                    background: isSelected ? `${style.color}26` : "rgba(255, 255, 255, 0.4)",
+                    border: `1px solid ${isSelected ? style.color : "rgba(0, 0, 0, 0.1)"}`,
+                    fontSize: "12px",
+                    color: "rgba(0, 0, 0, 0.7)",
+                    cursor: "pointer",
+                    fontFamily: "inherit",
+                  }}
+                >
+                  {style.icon} {a.date} · {a.distance}{labels.distance}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.card }}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: DesignSystem.spacing.compact }}>
+            <div style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.compact }}>
+              <div style={{
+                width: "8px",
+                height: "8px",
+                borderRadius: "50%",
+                background: strategy.color,
+                boxShadow: `0 0 12px ${strategy.color}99`
+              }} />
+              <span style={{
+                fontSize: "11px",
+                fontWeight: "600",
+                color: "rgba(0, 0, 0, 0.5)",
+                textTransform: "uppercase" as const,
+                letterSpacing: "1px"
+              }}>
+                Split Analysis
+              </span>
+            </div>
+            <div style={{
+              padding: "6px 12px",
+              borderRadius: DesignSystem.borderRadius.small,
+              background: `${strategy.color}15`,
+              border: `1px solid ${strategy.color}30`,
+              fontSize: "12px",
+              fontWeight: "600",
+              color: strategy.color,
+            }}>
+              {strategy.icon} {strategy.label}
+            </div>
+          </div>
+          <div style={{ fontSize: "24px", fontWeight: "700", ...applyGradientText(DesignSystem.colors.gradients.primary) }}>
+            {run.name}
+          </div>
+          <p style={{ color: "rgba(0, 0, 0, 0.4)", fontSize: "13px", margin: "4px 0 0" }}>
+            {run.date} • {run.distance}{labels.distance} in {run.duration} • {run.averagePace}{labels.pace}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: DesignSystem.spacing.element,
+          marginBottom: DesignSystem.spacing.card,
+          position: "relative" as const
+        }}>
+          {[
+            { value: `${run.firstHalfPace} → ${run.secondHalfPace}`, unit: labels.pace, label: "First → Second Half", gradient: DesignSystem.colors.gradients.primary },
+            { value: `${run.halfDifference > 0 ? "+" : ""}${run.halfDifference}`, unit: "%", label: "Second Half vs First", gradient: DesignSystem.colors.gradients.secondary },
+            { value: `${run.lastQuarterSlowdown > 0 ? "+" : ""}${run.lastQuarterSlowdown}`, unit: "%", label: "Last Quarter vs Rest", gradient: DesignSystem.colors.gradients.tertiary },
+            { value: `${run.variability.paceCv}`, unit: "%", label: `Split Spread · ${run.variability.rating}`, gradient: DesignSystem.colors.gradients.quaternary },
+          ].map((stat, i) => (
+            <div key={i} style={{
+              padding: DesignSystem.spacing.section,
+              background: "rgba(255, 255, 255, 0.3)",
+              backdropFilter: DesignSystem.glassmorphism.backdropBlur,
+              borderRadius: DesignSystem.borderRadius.element,
+              border: DesignSystem.glassmorphism.border,
+              position: "relative" as const,
+              overflow: "hidden" as const,
+            }}>
+              <div style={createGradientOverlay(stat.gradient)} />
+              <div style={{ position: "relative" as const }}>
+                <div style={{
+                  fontSize: "18px",
+                  fontWeight: "700",
+                  marginBottom: "4px",
+                  ...applyGradientText(stat.gradient)
+                }}>
+                  {stat.value}
+                  <span style={{ fontSize: "12px", marginLeft: "2px" }}>{stat.unit}</span>
+                </div>
+                <div style={{ fontSize: "10px", color: "rgba(0, 0, 0, 0.5)", fontWeight: "500" }}>
+                  {stat.label}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Split Chart */}
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Pace by {labels.distance === "km" ? "Kilometer" : "Mile"}</h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart data={run.splits} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 0, 0, 0.1)" vertical={false} />
+              <XAxis dataKey="split" tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }} />
+              {/* Bars start just below the fastest split so differences stay visible */}
+              <YAxis
+                yAxisId="pace"
+                domain={["dataMin - 10", "dataMax + 5"]}
+                tickFormatter={formatPaceSeconds}
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                width={56}
+              />
+              {hasElevation && (
+                <YAxis
+                  yAxisId="elevation"
+                  orientation="right"
+                  tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                  unit={labels.elevation}
+                  width={56}
+                />
+              )}
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(split) => `${labels.distance === "km" ? "Km" : "Mile"} ${split}`}
+                formatter={(value: any, name: any) =>
+                  name === "Elevation change"
+                    ? `${value > 0 ? "+" : ""}${value}${labels.elevation}`
+                    : `${formatPaceSeconds(Number(value))}${labels.pace}`
+                }
+              />
+              <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "12px" }} />
+              <ReferenceLine yAxisId="pace" y={averagePaceSeconds} stroke={COLORS.average} strokeDasharray="4 4" />
+              <Bar yAxisId="pace" dataKey="paceSeconds" name="Pace (lower is faster)" radius={[4, 4, 0, 0]}>
+                {run.splits.map((split: any, i: number) => (
+                  <Cell key={i} fill={splitColor(split)} fillOpacity={0.8} />
+                ))}
+              </Bar>
+              {hasElevation && (
+                <Line yAxisId="elevation" type="monotone" dataKey="elevationChange" name="Elevation change" stroke={COLORS.elevation} strokeWidth={2} dot={{ r: 3, fill: COLORS.elevation }} connectNulls />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Highlights */}
+        <div style={{
+          position: "relative" as const,
+          padding: DesignSystem.spacing.element,
+          background: `${strategy.color}10`,
+          borderRadius: DesignSystem.borderRadius.small,
+          border: `1px solid ${strategy.color}30`,
+          fontSize: "12px",
+          color: "rgba(0, 0, 0, 0.6)",
+        }}>
+          {fastest && (
+            <div>
+              ⚡ Fastest: {labels.distance} {fastest.split} at {fastest.pace}{labels.pace}{withElevation(fastest)}
+            </div>
+          )}
+          {slowest && (
+            <div style={{ marginTop: "4px" }}>
+              🐢 Slowest: {labels.distance} {slowest.split} at {slowest.pace}{labels.pace}{withElevation(slowest)}
+            </div>
+          )}
+          {run.gapStrategy && run.gapStrategy !== run.strategy && (
+            <div style={{ marginTop: "4px" }}>
+              ⛰️ On grade-adjusted pace this was a {(STRATEGY_STYLES[run.gapStrategy] ?? STRATEGY_STYLES.even).label.toLowerCase()} ({run.gapHalfDifference > 0 ? "+" : ""}{run.gapHalfDifference}%) - terrain explains part of the difference
+            </div>
+          )}
+          {activities.length > 1 && (
+            <div style={{ marginTop: "4px" }}>
+              📊 Across {activities.length} runs: {Object.entries(strategyCounts)
+                .filter(([, count]) => (count as number) > 0)
+                .map(([key, count]) => `${count} ${(STRATEGY_STYLES[key] ?? STRATEGY_STYLES.even).label.toLowerCase()}`)
+                .join(", ")}
+            </div>
+          )}
+          {skipped?.length > 0 && (
+            <div style={{ marginTop: "4px", color: "rgba(0, 0, 0, 0.45)" }}>
+              No splits for: {skipped.join(", ")}
+            </div>
+          )}
+          {pending?.length > 0 && (
+            <div style={{ marginTop: "4px", color: "rgba(0, 0, 0, 0.45)" }}>
+              Details not loaded yet for: {pending.join(", ")}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyzeSplits() {
+  return (
+    <ErrorBoundary widgetName="analyze_splits">
+      <AnalyzeSplitsContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<AnalyzeSplits />);
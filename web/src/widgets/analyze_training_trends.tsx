@@ -0,0 +1,314 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, applyGlassmorphism, applyGradientText, createGradientOverlay, getUnitLabels } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+const COLORS = {
+  volume: "#667eea",
+  rolling: "#f5576c",
+  longRun: "#00f2fe",
+  pace: "#38f9d7",
+  ramp: DesignSystem.colors.semantic.decline,
+};
+
+function formatPaceSeconds(value: number): string {
+  const minutes = Math.floor(value / 60);
+  const seconds = Math.round(value % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function AnalyzeTrainingTrendsContent() {
+  const toolInfo = useToolInfo<"analyze_training_trends">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>📈</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Analyzing training trends...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error loading training trends</p>
+      </div>
+    );
+  }
+
+  const { period, range, periods, rampWarnings, totals, rollingWindow, rampThreshold, truncated, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
+
+  if (!periods || periods.length === 0 || totals.activities === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No activities found in this period
+        </p>
+      </div>
+    );
+  }
+
+  const periodLabel = period === "month" ? "Month" : "Week";
+  const formatPeriod = (start: string) => {
+    const date = new Date(`${start}T00:00:00Z`);
+    return period === "month"
+      ? date.toLocaleDateString("en-US", { month: "short", year: "2-digit", timeZone: "UTC" })
+      : date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  };
+  const warnings: any[] = Array.isArray(rampWarnings) ? rampWarnings : [];
+  const last = periods[periods.length - 1];
+
+  const tooltipStyle = {
+    background: "rgba(255, 255, 255, 0.95)",
+    border: "1px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: DesignSystem.borderRadius.small,
+    fontSize: "12px",
+    boxShadow: DesignSystem.shadows.element,
+  };
+
+  const sectionStyle = {
+    position: "relative" as const,
+    marginBottom: DesignSystem.spacing.section,
+    background: "rgba(255, 255, 255, 0.4)",
+    borderRadius: DesignSystem.borderRadius.element,
+    border: DesignSystem.glassmorphism.border,
+    padding: DesignSystem.spacing.section,
+  };
+
+  const headingStyle = {
+    fontSize: "13px",
+    fontWeight: "600",
+    marginBottom: DesignSystem.spacing.element,
+    color: "rgba(0, 0, 0, 0.6)",
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.5px",
+    marginTop: 0,
+  };
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        ...applyGlassmorphism(0.02),
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        boxShadow: `${DesignSystem.shadows.card}, inset 0 1px 0 rgba(255, 255, 255, 0.1)`,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "120px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.card }}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: DesignSystem.spacing.compact }}>
+            <div style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.compact }}>
+              <div style={{
+                width: "8px",
+                height: "8px",
+                borderRadius: "50%",
+                background: COLORS.volume,
+                boxShadow: `0 0 12px ${COLORS.volume}99`
+              }} />
+              <span style={{
+                fontSize: "11px",
+                fontWeight: "600",
+                color: "rgba(0, 0, 0, 0.5)",
+                textTransform: "uppercase" as const,
+                letterSpacing: "1px"
+              }}>
+                {periodLabel}ly Training Trends
+              </span>
+            </div>
+            {warnings.length > 0 && (
+              <div style={{
+                padding: "6px 12px",
+                borderRadius: DesignSystem.borderRadius.small,
+                background: `${COLORS.ramp}15`,
+                border: `1px solid ${COLORS.ramp}30`,
+                fontSize: "12px",
+                fontWeight: "600",
+                color: COLORS.ramp,
+              }}>
+                ⚠️ {warnings.length} ramp warning{warnings.length > 1 ? "s" : ""}
+              </div>
+            )}
+          </div>
+          <p style={{ color: "rgba(0, 0, 0, 0.4)", fontSize: "13px", margin: 0 }}>
+            {range.start} → {range.end} • {totals.runs} runs
+            {totals.activities > totals.runs && ` + ${totals.activities - totals.runs} other activities`}
+          </p>
+        </div>
+
+        {/* Totals */}
+        <div style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: DesignSystem.spacing.element,
+          marginBottom: DesignSystem.spacing.card,
+          position: "relative" as const
+        }}>
+          {[
+            { value: `${totals.distance}`, unit: labels.distance, label: "Total Distance", gradient: DesignSystem.colors.gradients.primary },
+            { value: `${last.rollingDistance}`, unit: labels.distance, label: `${rollingWindow}-${period} Average`, gradient: DesignSystem.colors.gradients.secondary },
+            { value: totals.avgPace ?? "–", unit: totals.avgPace ? labels.pace : "", label: "Average Pace", gradient: DesignSystem.colors.gradients.tertiary },
+            { value: `${totals.elevationGain}`, unit: labels.elevation, label: "Elevation Gain", gradient: DesignSystem.colors.gradients.quaternary },
+          ].map((stat, i) => (
+            <div key={i} style={{
+              padding: DesignSystem.spacing.section,
+              background: "rgba(255, 255, 255, 0.3)",
+              backdropFilter: DesignSystem.glassmorphism.backdropBlur,
+              borderRadius: DesignSystem.borderRadius.element,
+              border: DesignSystem.glassmorphism.border,
+              position: "relative" as const,
+              overflow: "hidden" as const,
+            }}>
+              <div style={createGradientOverlay(stat.gradient)} />
+              <div style={{ position: "relative" as const }}>
+                <div style={{
+                  fontSize: "22px",
+                  fontWeight: "700",
+                  marginBottom: "4px",
+                  ...applyGradientText(stat.gradient)
+                }}>
+                  {stat.value}
+                  <span style={{ fontSize: "12px", marginLeft: "2px" }}>{stat.unit}</span>
+                </div>
+                <div style={{ fontSize: "10px", color: "rgba(0, 0, 0, 0.5)", fontWeight: "500" }}>
+                  {stat.label}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Volume Chart */}
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Volume & Long Run</h3>
+          <ResponsiveContainer width="100%" height={280}>
+            <ComposedChart data={periods} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 0, 0, 0.1)" vertical={false} />
+              <XAxis
+                dataKey="start"
+                tickFormatter={formatPeriod}
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                minTickGap={12}
+              />
+              <YAxis tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }} unit={labels.distance} width={56} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(value) => `${periodLabel} of ${formatPeriod(String(value))}`}
+                formatter={(value: any) => `${value} ${labels.distance}`}
+              />
+              <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "12px" }} />
+              <Bar dataKey="distance" name="Distance" fill={COLORS.volume} fillOpacity={0.8} radius={[4, 4, 0, 0]}>
+                {periods.map((p: any, i: number) => (
+                  <Cell key={i} fill={p.rampWarning ? COLORS.ramp : COLORS.volume} />
+                ))}
+              </Bar>
+              <Line type="monotone" dataKey="rollingDistance" name={`${rollingWindow}-${period} average`} stroke={COLORS.rolling} strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="longRun" name="Long run" stroke={COLORS.longRun} strokeWidth={2} dot={{ r: 3, fill: COLORS.longRun }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Pace Chart */}
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Average Pace</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={periods} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 0, 0, 0.1)" vertical={false} />
+              <XAxis
+                dataKey="start"
+                tickFormatter={formatPeriod}
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                minTickGap={12}
+              />
+              {/* Faster paces on top */}
+              <YAxis
+                reversed
+                domain={["dataMin - 10", "dataMax + 10"]}
+                tickFormatter={formatPaceSeconds}
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                width={56}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(value) => `${periodLabel} of ${formatPeriod(String(value))}`}
+                formatter={(value: any) => `${formatPaceSeconds(Number(value))}${labels.pace}`}
+              />
+              <Line type="monotone" dataKey="avgPaceSeconds" name="Average pace" stroke={COLORS.pace} strokeWidth={2} dot={{ r: 3, fill: COLORS.pace }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Ramp Warnings */}
+        <div style={{
+          position: "relative" as const,
+          padding: DesignSystem.spacing.element,
+          background: warnings.length > 0 ? `${COLORS.ramp}10` : "rgba(0, 0, 0, 0.02)",
+          borderRadius: DesignSystem.borderRadius.small,
+          border: warnings.length > 0 ? `1px solid ${COLORS.ramp}30` : DesignSystem.glassmorphism.border,
+          fontSize: "12px",
+          color: "rgba(0, 0, 0, 0.6)",
+        }}>
+          {warnings.length > 0 ? (
+            <>
+              <div style={{ fontWeight: "600", color: COLORS.ramp, marginBottom: "4px" }}>
+                ⚠️ Volume rose more than {rampThreshold}% {period}-over-{period}
+              </div>
+              {warnings.map((w: any) => (
+                <div key={w.start} style={{ fontFamily: "ui-monospace, monospace" }}>
+                  {formatPeriod(w.start)}: {w.previousDistance} → {w.distance}{labels.distance} (+{w.distanceChange}%)
+                </div>
+              ))}
+            </>
+          ) : (
+            <div>✅ No {period}-over-{period} volume increase above {rampThreshold}%</div>
+          )}
+          {truncated && (
+            <div style={{ color: DesignSystem.colors.semantic.decline, marginTop: "4px" }}>
+              ⚠️ Activity history was truncated - early periods may be understated.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyzeTrainingTrends() {
+  return (
+    <ErrorBoundary widgetName="analyze_training_trends">
+      <AnalyzeTrainingTrendsContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<AnalyzeTrainingTrends />);
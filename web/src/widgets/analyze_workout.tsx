@@ -0,0 +1,333 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, applyGlassmorphism, applyGradientText, createGradientOverlay, getUnitLabels } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+const COLORS = {
+  fast: DesignSystem.colors.semantic.improvement,
+  onPace: "#667eea",
+  slow: DesignSystem.colors.semantic.decline,
+  heartRate: "#f5576c",
+  average: "rgba(0, 0, 0, 0.35)",
+};
+
+// Reps within this many seconds of the average count as on pace
+const ON_PACE_SECONDS = 2;
+
+function formatPaceSeconds(value: number): string {
+  const minutes = Math.floor(value / 60);
+  const seconds = Math.round(value % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function AnalyzeWorkoutContent() {
+  const toolInfo = useToolInfo<"analyze_workout">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>⏱️</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Detecting intervals...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error analyzing workout</p>
+      </div>
+    );
+  }
+
+  const { activity, detected, source, structure, reps, summary, warmup, cooldown, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
+
+  if (!detected || !reps || reps.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No intervals detected in {activity?.name ?? "this activity"} - it looks like a steady run
+        </p>
+      </div>
+    );
+  }
+
+  const hasHeartRate = reps.some((r: any) => r.averageHeartRate !== null);
+  const averagePaceSeconds = reps.reduce((sum: number, r: any) => sum + r.paceSeconds, 0) / reps.length;
+  const repColor = (rep: any) =>
+    rep.paceDelta < -ON_PACE_SECONDS ? COLORS.fast : rep.paceDelta > ON_PACE_SECONDS ? COLORS.slow : COLORS.onPace;
+  const fadeColor = summary.fade.rating === "faded"
+    ? COLORS.slow
+    : summary.fade.rating === "faster" ? COLORS.fast : COLORS.onPace;
+
+  const tooltipStyle = {
+    background: "rgba(255, 255, 255, 0.95)",
+    border: "1px solid rgba(0, 0, 0, 0.1)",
+    borderRadius: DesignSystem.borderRadius.small,
+    fontSize: "12px",
+    boxShadow: DesignSystem.shadows.element,
+  };
+
+  const sectionStyle = {
+    position: "relative" as const,
+    marginBottom: DesignSystem.spacing.section,
+    background: "rgba(255, 255, 255, 0.4)",
+    borderRadius: DesignSystem.borderRadius.element,
+    border: DesignSystem.glassmorphism.border,
+    padding: DesignSystem.spacing.section,
+  };
+
+  const headingStyle = {
+    fontSize: "13px",
+    fontWeight: "600",
+    marginBottom: DesignSystem.spacing.element,
+    color: "rgba(0, 0, 0, 0.6)",
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.5px",
+    marginTop: 0,
+  };
+
+  const cellStyle = {
+    padding: "6px 8px",
+    fontSize: "12px",
+    fontFamily: "ui-monospace, monospace",
+    color: "rgba(0, 0, 0, 0.7)",
+    borderTop: "1px solid rgba(0, 0, 0, 0.06)",
+  };
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        ...applyGlassmorphism(0.02),
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        boxShadow: `${DesignSystem.shadows.card}, inset 0 1px 0 rgba(255, 255, 255, 0.1)`,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "120px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.card }}>
+          <div style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.compact, marginBottom: DesignSystem.spacing.compact }}>
+            <div style={{
+              width: "8px",
+              height: "8px",
+              borderRadius: "50%",
+              background: COLORS.onPace,
+              boxShadow: `0 0 12px ${COLORS.onPace}99`
+            }} />
+            <span style={{
+              fontSize: "11px",
+              fontWeight: "600",
+              color: "rgba(0, 0, 0, 0.5)",
+              textTransform: "uppercase" as const,
+              letterSpacing: "1px"
+            }}>
+              Workout Analysis
+            </span>
+          </div>
+          <div style={{ fontSize: "26px", fontWeight: "700", ...applyGradientText(DesignSystem.colors.gradients.primary) }}>
+            {structure}
+          </div>
+          <p style={{ color: "rgba(0, 0, 0, 0.4)", fontSize: "13px", margin: "4px 0 0" }}>
+            {activity.name} • {activity.date} • {activity.distance}{labels.distance} in {activity.duration}
+            {" "}• reps from {source === "laps" ? "device laps" : "pace changes"}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: DesignSystem.spacing.element,
+          marginBottom: DesignSystem.spacing.card,
+          position: "relative" as const
+        }}>
+          {[
+            { value: summary.averagePace, unit: labels.pace, label: "Average Rep Pace", gradient: DesignSystem.colors.gradients.primary },
+            { value: `${summary.consistency.paceCv}`, unit: "%", label: `Pace Spread · ${summary.consistency.rating}`, gradient: DesignSystem.colors.gradients.secondary },
+            { value: `${summary.fade.percent > 0 ? "+" : ""}${summary.fade.percent}`, unit: "%", label: `Second Half · ${summary.fade.rating}`, gradient: DesignSystem.colors.gradients.tertiary },
+            {
+              value: summary.heartRateDrift !== null ? `${summary.heartRateDrift > 0 ? "+" : ""}${summary.heartRateDrift}` : "–",
+              unit: summary.heartRateDrift !== null ? "bpm" : "",
+              label: "HR Drift (first → last)",
+              gradient: DesignSystem.colors.gradients.quaternary,
+            },
+          ].map((stat, i) => (
+            <div key={i} style={{
+              padding: DesignSystem.spacing.section,
+              background: "rgba(255, 255, 255, 0.3)",
+              backdropFilter: DesignSystem.glassmorphism.backdropBlur,
+              borderRadius: DesignSystem.borderRadius.element,
+              border: DesignSystem.glassmorphism.border,
+              position: "relative" as const,
+              overflow: "hidden" as const,
+            }}>
+              <div style={createGradientOverlay(stat.gradient)} />
+              <div style={{ position: "relative" as const }}>
+                <div style={{
+                  fontSize: "22px",
+                  fontWeight: "700",
+                  marginBottom: "4px",
+                  ...applyGradientText(stat.gradient)
+                }}>
+                  {stat.value}
+                  <span style={{ fontSize: "12px", marginLeft: "2px" }}>{stat.unit}</span>
+                </div>
+                <div style={{ fontSize: "10px", color: "rgba(0, 0, 0, 0.5)", fontWeight: "500", textTransform: "capitalize" as const }}>
+                  {stat.label}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Rep Chart */}
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Pace by Rep</h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart data={reps} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0, 0, 0, 0.1)" vertical={false} />
+              <XAxis
+                dataKey="rep"
+                tickFormatter={(rep) => `#${rep}`}
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+              />
+              {/* Bars start just below the fastest rep so differences stay visible */}
+              <YAxis
+                yAxisId="pace"
+                domain={["dataMin - 10", "dataMax + 5"]}
+                tickFormatter={formatPaceSeconds}
+                tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                width={56}
+              />
+              {hasHeartRate && (
+                <YAxis
+                  yAxisId="hr"
+                  orientation="right"
+                  domain={["dataMin - 5", "dataMax + 5"]}
+                  tick={{ fontSize: 11, fill: "rgba(0, 0, 0, 0.5)" }}
+                  unit=" bpm"
+                  width={64}
+                />
+              )}
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(rep) => `Rep ${rep}`}
+                formatter={(value: any, name: any) =>
+                  name === "Heart rate" ? `${value} bpm` : `${formatPaceSeconds(Number(value))}${labels.pace}`
+                }
+              />
+              <Legend wrapperStyle={{ fontSize: "12px", paddingTop: "12px" }} />
+              <ReferenceLine yAxisId="pace" y={averagePaceSeconds} stroke={COLORS.average} strokeDasharray="4 4" />
+              <Bar yAxisId="pace" dataKey="paceSeconds" name="Pace (lower is faster)" radius={[4, 4, 0, 0]}>
+                {reps.map((rep: any, i: number) => (
+                  <Cell key={i} fill={repColor(rep)} fillOpacity={0.8} />
+                ))}
+              </Bar>
+              {hasHeartRate && (
+                <Line yAxisId="hr" type="monotone" dataKey="averageHeartRate" name="Heart rate" stroke={COLORS.heartRate} strokeWidth={2} dot={{ r: 3, fill: COLORS.heartRate }} connectNulls />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Rep Table */}
+        <div style={sectionStyle}>
+          <h3 style={headingStyle}>Reps</h3>
+          <div style={{ overflowX: "auto" as const }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" as const }}>
+              <thead>
+                <tr>
+                  {["Rep", "Distance", "Time", "Pace", "± Avg", "HR", "Recovery"].map((heading) => (
+                    <th key={heading} style={{ textAlign: "left" as const, padding: "6px 8px", fontSize: "10px", fontWeight: "600", color: "rgba(0, 0, 0, 0.45)", textTransform: "uppercase" as const }}>
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {reps.map((rep: any) => (
+                  <tr key={rep.rep}>
+                    <td style={{ ...cellStyle, fontWeight: "700" }}>
+                      {rep.rep}
+                      {rep.rep === summary.fastestRep && " ⚡"}
+                    </td>
+                    <td style={cellStyle}>{rep.distanceMeters < 3000 ? `${rep.distanceMeters} m` : `${rep.distance}${labels.distance}`}</td>
+                    <td style={cellStyle}>{rep.duration}</td>
+                    <td style={{ ...cellStyle, fontWeight: "600" }}>{rep.pace}{labels.pace}</td>
+                    <td style={{ ...cellStyle, color: repColor(rep) }}>{rep.paceDelta > 0 ? "+" : ""}{rep.paceDelta}s</td>
+                    <td style={cellStyle}>{rep.averageHeartRate ?? "–"}</td>
+                    <td style={cellStyle}>{rep.recovery ? rep.recovery.duration : "–"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Session */}
+        <div style={{
+          position: "relative" as const,
+          padding: DesignSystem.spacing.element,
+          background: `${fadeColor}10`,
+          borderRadius: DesignSystem.borderRadius.small,
+          border: `1px solid ${fadeColor}30`,
+          fontSize: "12px",
+          color: "rgba(0, 0, 0, 0.6)",
+        }}>
+          <div>
+            {summary.workDistance}{labels.distance} of work in {summary.workTime}
+            {summary.averageRecovery && ` • average recovery ${summary.averageRecovery}`}
+            {` • ${summary.fade.secondsPerRep > 0 ? "+" : ""}${summary.fade.secondsPerRep}s per rep trend`}
+          </div>
+          {(warmup || cooldown) && (
+            <div style={{ marginTop: "4px" }}>
+              {warmup && `Warm-up ${warmup.distance}${labels.distance} (${warmup.duration})`}
+              {warmup && cooldown && " • "}
+              {cooldown && `Cool-down ${cooldown.distance}${labels.distance} (${cooldown.duration})`}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyzeWorkout() {
+  return (
+    <ErrorBoundary widgetName="analyze_workout">
+      <AnalyzeWorkoutContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<AnalyzeWorkout />);
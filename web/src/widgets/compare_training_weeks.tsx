@@ -1,7 +1,7 @@
 import "@/index.css";
 import { generateHelpers, mountWidget } from "skybridge/web";
 import type { AppType } from "../../../server/src/server";
-import { DesignSystem, applyGradientText, createGradientOverlay, getTrendIcon, getSemanticColor, getSemanticBackground, applyGlassmorphism } from "../design-system";
+import { DesignSystem, applyGradientText, createGradientOverlay, getTrendIcon, getSemanticColor, getSemanticBackground, applyGlassmorphism, getUnitLabels } from "../design-system";
 
 const { useToolInfo } = generateHelpers<AppType>();
 
@@ -38,7 +38,17 @@ export default function CompareTrainingWeeks() {
     );
   }
 
-  const { currentWeek, previousWeek, changes, trend } = toolInfo.output as any;
+  const { currentWeek, previousWeek, weeks, changes, trend, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
+  const weekList: any[] = weeks ?? [previousWeek, currentWeek];
+  const maxWeekDistance = Math.max(...weekList.map((w) => w.totalDistance), 1);
+
+  const formatWeekRange = (week: any) => {
+    if (!week?.weekStart) return null;
+    const format = (key: string) =>
+      new Date(`${key}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+    return `${format(week.weekStart)} – ${format(week.weekEnd)}`;
+  };
 
   const getTrendConfig = () => {
     if (trend === "improving") return { color: DesignSystem.colors.semantic.improvement, bg: getSemanticBackground(1, false), label: "Improving" };
@@ -123,13 +133,14 @@ export default function CompareTrainingWeeks() {
             <div style={{ position: "relative" as const }}>
               <div style={{ fontSize: "10px", color: "rgba(0, 0, 0, 0.4)", marginBottom: DesignSystem.spacing.compact, fontWeight: "600", textTransform: "uppercase" as const, letterSpacing: "0.5px" }}>
                 Previous Week
+                {formatWeekRange(previousWeek) && <span style={{ textTransform: "none" as const, fontWeight: "500" }}> · {formatWeekRange(previousWeek)}</span>}
               </div>
               <div style={{ fontSize: "36px", fontWeight: "700", marginBottom: DesignSystem.spacing.compact, color: "rgba(0, 0, 0, 0.7)" }}>
                 {previousWeek.totalDistance}
-                <span style={{ fontSize: "16px", fontWeight: "500", marginLeft: "4px", color: "rgba(0, 0, 0, 0.4)" }}>km</span>
+                <span style={{ fontSize: "16px", fontWeight: "500", marginLeft: "4px", color: "rgba(0, 0, 0, 0.4)" }}>{labels.distance}</span>
               </div>
               <div style={{ fontSize: "12px", color: "rgba(0, 0, 0, 0.5)", fontFamily: "ui-monospace, monospace" }}>
-                {previousWeek.totalRuns} runs • {previousWeek.avgPace}/km
+                {previousWeek.totalRuns} runs • {previousWeek.avgPace}{labels.pace}
               </div>
             </div>
           </div>
@@ -150,6 +161,7 @@ export default function CompareTrainingWeeks() {
             <div style={{ position: "relative" as const }}>
               <div style={{ fontSize: "10px", color: "rgba(102, 126, 234, 0.7)", marginBottom: DesignSystem.spacing.compact, fontWeight: "600", textTransform: "uppercase" as const, letterSpacing: "0.5px" }}>
                 Current Week
+                {formatWeekRange(currentWeek) && <span style={{ textTransform: "none" as const, fontWeight: "500" }}> · {formatWeekRange(currentWeek)}</span>}
               </div>
               <div style={{ 
                 fontSize: "36px", 
@@ -158,15 +170,57 @@ export default function CompareTrainingWeeks() {
                 ...applyGradientText(DesignSystem.colors.gradients.primary)
               }}>
                 {currentWeek.totalDistance}
-                <span style={{ fontSize: "16px", fontWeight: "500", marginLeft: "4px" }}>km</span>
+                <span style={{ fontSize: "16px", fontWeight: "500", marginLeft: "4px" }}>{labels.distance}</span>
               </div>
               <div style={{ fontSize: "12px", color: "rgba(102, 126, 234, 0.8)", fontFamily: "ui-monospace, monospace" }}>
-                {currentWeek.totalRuns} runs • {currentWeek.avgPace}/km
+                {currentWeek.totalRuns} runs • {currentWeek.avgPace}{labels.pace}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Weekly Volume (only when comparing more than two weeks) */}
+        {weekList.length > 2 && (
+          <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.card }}>
+            <h3 style={{ 
+              fontSize: "13px", 
+              fontWeight: "600", 
+              marginBottom: DesignSystem.spacing.element, 
+              color: "rgba(0, 0, 0, 0.6)",
+              textTransform: "uppercase" as const,
+              letterSpacing: "0.5px"
+            }}>
+              Weekly Volume
+            </h3>
+            <div style={{ display: "flex", flexDirection: "column" as const, gap: "8px" }}>
+              {weekList.map((week, i) => {
+                const isCurrent = i === weekList.length - 1;
+                return (
+                  <div key={week.weekStart ?? i} style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.element }}>
+                    <span style={{ width: "110px", fontSize: "11px", color: "rgba(0, 0, 0, 0.5)", fontFamily: "ui-monospace, monospace" }}>
+                      {formatWeekRange(week)}
+                    </span>
+                    <div style={{ flex: 1, height: "10px", background: "rgba(0, 0, 0, 0.05)", borderRadius: "5px", overflow: "hidden" as const }}>
+                      <div style={{
+                        width: `${(week.totalDistance / maxWeekDistance) * 100}%`,
+                        height: "100%",
+                        background: isCurrent ? DesignSystem.colors.gradients.primary : DesignSystem.colors.semantic.stable,
+                        borderRadius: "5px"
+                      }} />
+                    </div>
+                    <span style={{ width: "64px", textAlign: "right" as const, fontSize: "12px", fontWeight: "600", color: "rgba(0, 0, 0, 0.7)", fontFamily: "ui-monospace, monospace" }}>
+                      {week.totalDistance}{labels.distance}
+                    </span>
+                    <span style={{ width: "48px", textAlign: "right" as const, fontSize: "11px", color: getSemanticColor(week.distanceChange ?? 0), fontFamily: "ui-monospace, monospace" }}>
+                      {week.distanceChange == null ? "" : `${week.distanceChange > 0 ? "+" : ""}${week.distanceChange}%`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Changes */}
         <div style={{ position: "relative" as const }}>
           <h3 style={{ 
@@ -183,7 +237,7 @@ export default function CompareTrainingWeeks() {
             {[
               { label: "Distance", value: changes.distanceChange, suffix: "%", invertIcon: false },
               { label: "Number of Runs", value: changes.runsChange, suffix: "", invertIcon: false },
-              { label: "Pace", value: changes.paceChange, suffix: "s/km", invertIcon: true }
+              { label: "Pace", value: changes.paceChange, suffix: `s${labels.pace}`, invertIcon: true }
             ].map((change, i) => {
               const color = getSemanticColor(change.invertIcon ? -change.value : change.value);
               const bgColor = getSemanticBackground(change.invertIcon ? -change.value : change.value);
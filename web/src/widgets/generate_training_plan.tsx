@@ -0,0 +1,278 @@
+import "@/index.css";
+import React from "react";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, applyGlassmorphism, applyGradientText, createGradientOverlay, getUnitLabels } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+// Workout types, matching WorkoutType on the server
+const WORKOUT_STYLES: Record<string, { label: string; color: string }> = {
+  easy: { label: "Easy", color: "#10b981" },
+  strides: { label: "Strides", color: "#14b8a6" },
+  long: { label: "Long", color: "#3b82f6" },
+  threshold: { label: "Threshold", color: "#f59e0b" },
+  intervals: { label: "Intervals", color: "#f5576c" },
+  race_pace: { label: "Race pace", color: "#8b5cf6" },
+  race: { label: "Race", color: "#667eea" },
+};
+
+const PHASE_COLORS: Record<string, string> = {
+  base: "#10b981",
+  build: "#f59e0b",
+  peak: "#f5576c",
+  taper: "#667eea",
+};
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function GenerateTrainingPlanContent() {
+  const toolInfo = useToolInfo<"generate_training_plan">();
+  const [selected, setSelected] = React.useState<any>(null);
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>🗓️</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Building your training plan...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error generating training plan</p>
+      </div>
+    );
+  }
+
+  const { race, fitness, paces, phases, weeks, notes, weekStart, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
+
+  if (!weeks || weeks.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No plan available
+        </p>
+      </div>
+    );
+  }
+
+  const firstDay = weekStart === "sunday" ? 0 : 1;
+  const dayHeaders = Array.from({ length: 7 }, (_, i) => DAY_NAMES[(firstDay + i) % 7]);
+  const dayIndex = (weekStartKey: string, date: string) =>
+    Math.round((Date.parse(date) - Date.parse(weekStartKey)) / (24 * 60 * 60 * 1000));
+  const formatDate = (key: string) =>
+    new Date(`${key}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+  return (
+    <div style={{
+      maxWidth: "900px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        ...applyGlassmorphism(0.02),
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        boxShadow: `${DesignSystem.shadows.card}, inset 0 1px 0 rgba(255, 255, 255, 0.1)`,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "160px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.section }}>
+          <div style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.compact, marginBottom: DesignSystem.spacing.compact }}>
+            <div style={{
+              width: "8px",
+              height: "8px",
+              borderRadius: "50%",
+              background: DesignSystem.colors.gradients.primary,
+              boxShadow: "0 0 12px #667eea99"
+            }} />
+            <span style={{
+              fontSize: "11px",
+              fontWeight: "600",
+              color: "rgba(0, 0, 0, 0.5)",
+              textTransform: "uppercase" as const,
+              letterSpacing: "1px"
+            }}>
+              {weeks.length}-Week Training Plan
+            </span>
+          </div>
+          <div style={{ fontSize: "26px", fontWeight: "700", ...applyGradientText(DesignSystem.colors.gradients.primary) }}>
+            {race.name} · {race.goalTime}
+          </div>
+          <p style={{ color: "rgba(0, 0, 0, 0.5)", fontSize: "13px", margin: "4px 0 0" }}>
+            {formatDate(race.date)} • goal pace {race.goalPace}{labels.pace}
+            {race.goalSource === "predicted" && " (predicted from current fitness)"}
+            {" "}• {fitness.currentWeeklyDistance} → {fitness.peakWeeklyDistance}{labels.distance}/week
+          </p>
+        </div>
+
+        {/* Phases */}
+        <div style={{ position: "relative" as const, display: "flex", height: "24px", borderRadius: DesignSystem.borderRadius.small, overflow: "hidden" as const, marginBottom: DesignSystem.spacing.section }}>
+          {phases.map((p: any) => (
+            <div key={p.phase} style={{
+              flex: p.weeks,
+              background: `${PHASE_COLORS[p.phase]}26`,
+              borderBottom: `3px solid ${PHASE_COLORS[p.phase]}`,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              fontSize: "11px",
+              fontWeight: "600",
+              color: PHASE_COLORS[p.phase],
+              textTransform: "capitalize" as const,
+            }}>
+              {p.phase} · {p.weeks}w
+            </div>
+          ))}
+        </div>
+
+        {/* Paces */}
+        <div style={{ position: "relative" as const, display: "flex", flexWrap: "wrap" as const, gap: DesignSystem.spacing.compact, marginBottom: DesignSystem.spacing.section }}>
+          {[
+            { label: "Easy", value: paces.easy },
+            { label: "Marathon", value: paces.marathon },
+            { label: "Threshold", value: paces.threshold },
+            { label: "Interval", value: paces.interval },
+            { label: "Repetition", value: paces.repetition },
+            { label: "Goal", value: paces.race },
+          ].map((pace) => (
+            <div key={pace.label} style={{
+              padding: "6px 10px",
+              background: "rgba(255, 255, 255, 0.4)",
+              border: DesignSystem.glassmorphism.border,
+              borderRadius: DesignSystem.borderRadius.small,
+              fontSize: "12px",
+              color: "rgba(0, 0, 0, 0.7)",
+            }}>
+              <span style={{ color: "rgba(0, 0, 0, 0.45)" }}>{pace.label}</span>{" "}
+              <strong style={{ fontFamily: "ui-monospace, monospace" }}>{pace.value}{labels.pace}</strong>
+            </div>
+          ))}
+        </div>
+
+        {/* Calendar */}
+        <div style={{ position: "relative" as const, overflowX: "auto" as const }}>
+          <div style={{ display: "grid", gridTemplateColumns: "92px repeat(7, minmax(80px, 1fr))", gap: "4px", minWidth: "680px" }}>
+            <div />
+            {dayHeaders.map((day) => (
+              <div key={day} style={{ fontSize: "10px", fontWeight: "600", color: "rgba(0, 0, 0, 0.45)", textAlign: "center" as const, textTransform: "uppercase" as const, letterSpacing: "0.5px" }}>
+                {day}
+              </div>
+            ))}
+
+            {weeks.map((week: any) => {
+              const cells: any[] = new Array(7).fill(null);
+              for (const workout of week.workouts) {
+                const index = dayIndex(week.start, workout.date);
+                if (index >= 0 && index < 7) cells[index] = workout;
+              }
+              return [
+                <div key={`w${week.week}`} style={{
+                  padding: "6px",
+                  borderLeft: `3px solid ${PHASE_COLORS[week.phase]}`,
+                  fontSize: "11px",
+                  color: "rgba(0, 0, 0, 0.6)",
+                }}>
+                  <div style={{ fontWeight: "700" }}>Week {week.week}{week.recovery && " ↓"}</div>
+                  <div>{formatDate(week.start)}</div>
+                  <div style={{ fontFamily: "ui-monospace, monospace" }}>{week.distance}{labels.distance}</div>
+                </div>,
+                ...cells.map((workout, i) => {
+                  if (!workout) {
+                    return <div key={`${week.week}-${i}`} style={{ borderRadius: DesignSystem.borderRadius.small, background: "rgba(0, 0, 0, 0.02)" }} />;
+                  }
+                  const style = WORKOUT_STYLES[workout.type] ?? WORKOUT_STYLES.easy;
+                  const isSelected = selected?.date === workout.date;
+                  return (
+                    <button
+                      key={`${week.week}-${i}`}
+                      onClick={() => setSelected(isSelected ? null : workout)}
+                      title={workout.description}
+                      style={{
+                        textAlign: "left" as const,
+                        padding: "6px",
+                        borderRadius: DesignSystem.borderRadius.small,
+                        background: `${style.color}${isSelected ? "33" : "1a"}`,
+                        border: `1px solid ${style.color}${isSelected ? "99" : "40"}`,
+                        cursor: "pointer",
+                        fontFamily: "inherit",
+                      }}
+                    >
+                      <div style={{ fontSize: "10px", fontWeight: "700", color: style.color, textTransform: "uppercase" as const }}>
+                        {style.label}
+                      </div>
+                      <div style={{ fontSize: "12px", fontWeight: "600", color: "rgba(0, 0, 0, 0.75)", fontFamily: "ui-monospace, monospace" }}>
+                        {workout.distance}{labels.distance}
+                      </div>
+                    </button>
+                  );
+                }),
+              ];
+            })}
+          </div>
+        </div>
+
+        {/* Selected Workout */}
+        {selected && (
+          <div style={{
+            position: "relative" as const,
+            marginTop: DesignSystem.spacing.section,
+            padding: DesignSystem.spacing.element,
+            background: `${(WORKOUT_STYLES[selected.type] ?? WORKOUT_STYLES.easy).color}12`,
+            borderRadius: DesignSystem.borderRadius.element,
+            border: `1px solid ${(WORKOUT_STYLES[selected.type] ?? WORKOUT_STYLES.easy).color}40`,
+          }}>
+            <div style={{ fontSize: "13px", fontWeight: "700", color: "rgba(0, 0, 0, 0.8)" }}>
+              {formatDate(selected.date)} · {selected.title} · {selected.distance}{labels.distance}
+            </div>
+            <div style={{ fontSize: "12px", color: "rgba(0, 0, 0, 0.65)", marginTop: "4px" }}>
+              {selected.description}
+            </div>
+          </div>
+        )}
+
+        {/* Notes */}
+        {notes?.length > 0 && (
+          <div style={{
+            position: "relative" as const,
+            marginTop: DesignSystem.spacing.section,
+            padding: DesignSystem.spacing.element,
+            background: "#eff6ff",
+            borderRadius: DesignSystem.borderRadius.element,
+            border: "1px solid #bfdbfe",
+          }}>
+            {notes.map((note: string, i: number) => (
+              <div key={i} style={{ fontSize: "12px", color: "#1e40af", marginTop: i > 0 ? "4px" : 0 }}>
+                ℹ️ {note}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function GenerateTrainingPlan() {
+  return (
+    <ErrorBoundary widgetName="generate_training_plan">
+      <GenerateTrainingPlanContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<GenerateTrainingPlan />);
@@ -0,0 +1,203 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import { DesignSystem, applyGlassmorphism, applyGradientText, createGradientOverlay, getUnitLabels } from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+// Gear states, matching GearState on the server
+const STATE_STYLES: Record<string, { label: string; color: string; icon: string }> = {
+  ok: { label: "Good", color: DesignSystem.colors.semantic.improvement, icon: "👟" },
+  approaching: { label: "Replace soon", color: "#f59e0b", icon: "⏳" },
+  retire: { label: "Retire", color: DesignSystem.colors.semantic.decline, icon: "⚠️" },
+  retired: { label: "Retired", color: DesignSystem.colors.semantic.stable, icon: "📦" },
+};
+
+function GearStatusContent() {
+  const toolInfo = useToolInfo<"get_gear_status">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>👟</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Checking your shoes...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error loading gear</p>
+      </div>
+    );
+  }
+
+  const { gear, warnings, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
+
+  if (!gear || gear.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>👟</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No shoes on this Strava account yet
+        </p>
+      </div>
+    );
+  }
+
+  const active = gear.filter((g: any) => g.state !== "retired");
+  const totalDistance = Math.round(active.reduce((sum: number, g: any) => sum + g.distance, 0));
+  const headerColor = warnings.length > 0
+    ? (gear.some((g: any) => g.state === "retire") ? STATE_STYLES.retire.color : STATE_STYLES.approaching.color)
+    : STATE_STYLES.ok.color;
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={{
+        ...applyGlassmorphism(0.02),
+        borderRadius: DesignSystem.borderRadius.card,
+        padding: DesignSystem.spacing.card,
+        boxShadow: `${DesignSystem.shadows.card}, inset 0 1px 0 rgba(255, 255, 255, 0.1)`,
+        position: "relative" as const,
+        overflow: "hidden" as const
+      }}>
+        {/* Gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "120px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.card }}>
+          <div style={{ display: "flex", alignItems: "center", gap: DesignSystem.spacing.compact, marginBottom: DesignSystem.spacing.compact }}>
+            <div style={{
+              width: "8px",
+              height: "8px",
+              borderRadius: "50%",
+              background: headerColor,
+              boxShadow: `0 0 12px ${headerColor}99`
+            }} />
+            <span style={{
+              fontSize: "11px",
+              fontWeight: "600",
+              color: "rgba(0, 0, 0, 0.5)",
+              textTransform: "uppercase" as const,
+              letterSpacing: "1px"
+            }}>
+              Shoe Mileage
+            </span>
+          </div>
+          <div style={{ fontSize: "24px", fontWeight: "700", ...applyGradientText(DesignSystem.colors.gradients.primary) }}>
+            {active.length} active {active.length === 1 ? "pair" : "pairs"} • {totalDistance}{labels.distance}
+          </div>
+          <p style={{ color: "rgba(0, 0, 0, 0.4)", fontSize: "13px", margin: "4px 0 0" }}>
+            {warnings.length > 0
+              ? `${warnings.length} ${warnings.length === 1 ? "pair needs" : "pairs need"} attention`
+              : "All pairs within their retirement distance"}
+          </p>
+        </div>
+
+        {/* Shoes */}
+        <div style={{ position: "relative" as const, display: "flex", flexDirection: "column" as const, gap: DesignSystem.spacing.element }}>
+          {gear.map((shoe: any) => {
+            const style = STATE_STYLES[shoe.state] ?? STATE_STYLES.ok;
+            const progress = Math.min(100, shoe.percentUsed);
+            return (
+              <div key={shoe.id} style={{
+                padding: DesignSystem.spacing.section,
+                background: "rgba(255, 255, 255, 0.4)",
+                borderRadius: DesignSystem.borderRadius.element,
+                border: shoe.state === "retire" || shoe.state === "approaching"
+                  ? `1px solid ${style.color}50`
+                  : DesignSystem.glassmorphism.border,
+                opacity: shoe.state === "retired" ? 0.6 : 1,
+              }}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: DesignSystem.spacing.compact }}>
+                  <div>
+                    <div style={{ fontSize: "15px", fontWeight: "600", color: "rgba(0, 0, 0, 0.8)" }}>
+                      {shoe.name}
+                      {shoe.primary && (
+                        <span style={{ marginLeft: "6px", fontSize: "11px", fontWeight: "500", color: "rgba(0, 0, 0, 0.4)" }}>
+                          default
+                        </span>
+                      )}
+                    </div>
+                    {(shoe.brand || shoe.model) && (
+                      <div style={{ fontSize: "12px", color: "rgba(0, 0, 0, 0.45)" }}>
+                        {[shoe.brand, shoe.model].filter(Boolean).join(" ")}
+                      </div>
+                    )}
+                  </div>
+                  <div style={{
+                    padding: "4px 10px",
+                    borderRadius: DesignSystem.borderRadius.small,
+                    background: `${style.color}15`,
+                    border: `1px solid ${style.color}30`,
+                    fontSize: "12px",
+                    fontWeight: "600",
+                    color: style.color,
+                    whiteSpace: "nowrap" as const,
+                  }}>
+                    {style.icon} {style.label}
+                  </div>
+                </div>
+
+                {/* Progress toward retirement */}
+                <div style={{
+                  height: "8px",
+                  borderRadius: "4px",
+                  background: "rgba(0, 0, 0, 0.08)",
+                  overflow: "hidden" as const,
+                  marginBottom: "6px",
+                }}>
+                  <div style={{
+                    width: `${progress}%`,
+                    height: "100%",
+                    borderRadius: "4px",
+                    background: style.color,
+                  }} />
+                </div>
+
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: "12px", color: "rgba(0, 0, 0, 0.55)" }}>
+                  <span>
+                    <strong style={{ color: "rgba(0, 0, 0, 0.75)" }}>{shoe.distance}</strong> / {shoe.retirementDistance}{labels.distance} ({shoe.percentUsed}%)
+                  </span>
+                  <span>
+                    {shoe.remaining >= 0
+                      ? `${shoe.remaining}${labels.distance} left`
+                      : `${Math.abs(shoe.remaining)}${labels.distance} over`}
+                  </span>
+                </div>
+
+                <div style={{ marginTop: "6px", fontSize: "11px", color: "rgba(0, 0, 0, 0.45)" }}>
+                  {shoe.lastUsed ? `Last run ${shoe.lastUsed}` : "No recent runs"}
+                  {shoe.recentDistance > 0 && ` • ${shoe.recentDistance}${labels.distance} in the last 4 weeks`}
+                  {shoe.projectedRetirement && ` • retire around ${shoe.projectedRetirement}`}
+                  {shoe.retirementSource === "shoe" && " • custom retirement distance"}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function GearStatus() {
+  return (
+    <ErrorBoundary widgetName="get_gear_status">
+      <GearStatusContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<GearStatus />);
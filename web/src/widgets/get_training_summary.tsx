@@ -1,7 +1,7 @@
 import "@/index.css";
 import { generateHelpers, mountWidget } from "skybridge/web";
 import type { AppType } from "../../../server/src/server";
-import { DesignSystem, applyGradientText, createGradientOverlay } from "../design-system";
+import { DesignSystem, applyGradientText, createGradientOverlay, getUnitLabels } from "../design-system";
 import { ErrorBoundary } from "../ErrorBoundary";
 
 const { useToolInfo } = generateHelpers<AppType>();
@@ -42,7 +42,8 @@ function TrainingSummaryContent() {
     );
   }
 
-  const { period, stats, runs } = toolInfo.output as any;
+  const { period, stats, runs, bySport, newPersonalRecords, units } = toolInfo.output as any;
+  const labels = getUnitLabels(units);
 
   // Debug: log what we're getting
   console.log("Widget data:", { period, stats, runs });
@@ -71,6 +72,8 @@ function TrainingSummaryContent() {
   };
 
   const safeRuns = Array.isArray(runs) ? runs : [];
+  const safeRecords = Array.isArray(newPersonalRecords) ? newPersonalRecords : [];
+  const safeSports = Array.isArray(bySport) ? bySport : [];
 
   return (
     <div style={{ 
@@ -118,6 +121,28 @@ function TrainingSummaryContent() {
           </p>
         </div>
 
+        {/* New Personal Records */}
+        {safeRecords.length > 0 && (
+          <div style={{
+            position: "relative" as const,
+            marginBottom: DesignSystem.spacing.card,
+            padding: DesignSystem.spacing.element,
+            background: "#fffbeb",
+            borderRadius: DesignSystem.borderRadius.element,
+            border: "1px solid #fde68a",
+          }}>
+            <div style={{ fontSize: "13px", fontWeight: 600, color: "#92400e", marginBottom: "4px" }}>
+              🎉 New personal record{safeRecords.length > 1 ? "s" : ""}!
+            </div>
+            {safeRecords.map((record: any) => (
+              <div key={`${record.distance}-${record.activityId}`} style={{ fontSize: "13px", color: "#b45309" }}>
+                {record.name} in <strong>{record.time}</strong> on {record.date} ({record.improvementSeconds}s faster
+                {record.scope === "12_months" ? ", best in 12 months" : ""})
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Stats Grid with glassmorphism */}
         <div style={{
           display: "grid",
@@ -127,9 +152,9 @@ function TrainingSummaryContent() {
           position: "relative" as const
         }}>
           {[
-            { value: safeStats.totalDistance, label: "km total", gradient: DesignSystem.colors.gradients.primary },
+            { value: safeStats.totalDistance, label: `${labels.distance} total`, gradient: DesignSystem.colors.gradients.primary },
             { value: safeStats.totalRuns, label: "runs", gradient: DesignSystem.colors.gradients.secondary },
-            { value: safeStats.avgPace, label: "avg pace /km", gradient: DesignSystem.colors.gradients.tertiary },
+            { value: safeStats.avgPace, label: `avg pace ${labels.pace}`, gradient: DesignSystem.colors.gradients.tertiary },
             { value: safeStats.totalTime, label: "minutes", gradient: DesignSystem.colors.gradients.quaternary }
           ].map((stat, i) => (
             <div key={i} style={{ 
@@ -160,6 +185,30 @@ function TrainingSummaryContent() {
           ))}
         </div>
 
+        {/* Per-Sport Breakdown (only when more than one sport is included) */}
+        {safeSports.length > 1 && (
+          <div style={{
+            display: "flex",
+            flexWrap: "wrap" as const,
+            gap: DesignSystem.spacing.compact,
+            marginBottom: DesignSystem.spacing.card,
+            position: "relative" as const
+          }}>
+            {safeSports.map((sport: any) => (
+              <div key={sport.sportType} style={{
+                padding: "6px 12px",
+                background: "#f3f4f6",
+                borderRadius: DesignSystem.borderRadius.small,
+                border: DesignSystem.glassmorphism.border,
+                fontSize: "12px",
+                color: "rgba(0, 0, 0, 0.6)",
+              }}>
+                <strong>{sport.sportType}</strong> • {sport.count}× • {sport.distance}{labels.distance} • {sport.movingTime}min
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Recent Runs */}
         {safeRuns.length > 0 && (
           <div style={{ position: "relative" as const }}>
@@ -192,13 +241,24 @@ function TrainingSummaryContent() {
                 >
                   <span style={{ fontWeight: "600", color: "rgba(0, 0, 0, 0.7)" }}>
                     {run.date ?? "Unknown date"}
+                    {run.runType && (
+                      <span style={{
+                        marginLeft: DesignSystem.spacing.compact,
+                        fontSize: "11px",
+                        fontWeight: "500",
+                        color: "rgba(0, 0, 0, 0.45)",
+                        textTransform: "capitalize" as const,
+                      }}>
+                        {run.runType}
+                      </span>
+                    )}
                   </span>
                   <span style={{ 
                     color: "rgba(0, 0, 0, 0.5)", 
                     fontSize: "12px",
                     fontFamily: "ui-monospace, monospace"
                   }}>
-                    {run.distance ?? "0"}km • {run.pace ?? "0:00"}/km • {run.duration ?? "0"}min
+                    {run.distance ?? "0"}{labels.distance} • {run.pace ?? "0:00"}{labels.pace} • {run.duration ?? "0"}min
                   </span>
                 </div>
               ))}
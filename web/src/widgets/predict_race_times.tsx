@@ -0,0 +1,219 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import {
+  DesignSystem,
+  applyCardStyle,
+  applyGradientText,
+  createGradientOverlay,
+  formatDistance,
+  formatPace,
+} from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+const RACE_GRADIENTS: Record<string, string> = {
+  "5k": DesignSystem.colors.gradients.quaternary,
+  "10k": DesignSystem.colors.gradients.tertiary,
+  half: DesignSystem.colors.gradients.primary,
+  marathon: DesignSystem.colors.gradients.secondary,
+};
+
+const CONFIDENCE_COLORS: Record<string, string> = {
+  high: DesignSystem.colors.semantic.improvement,
+  medium: "#f59e0b",
+  low: DesignSystem.colors.semantic.decline,
+};
+
+function PredictRaceTimesContent() {
+  const toolInfo = useToolInfo<"predict_race_times">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>🏁</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Predicting race times...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error loading race predictions</p>
+      </div>
+    );
+  }
+
+  const { predictions, vdot, sourceEfforts, notes, period, units } = toolInfo.output as any;
+
+  if (!predictions || predictions.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          Not enough recent runs to predict race times
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={applyCardStyle("elevated")}>
+        {/* Subtle gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.primary, 0.03),
+          height: "200px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.section }}>
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: DesignSystem.spacing.compact }}>
+            <h2 style={{ margin: 0, fontSize: "20px", fontWeight: 600, color: "#111827" }}>
+              Race Predictions
+            </h2>
+            <div style={{
+              padding: "6px 12px",
+              borderRadius: DesignSystem.borderRadius.small,
+              background: "rgba(102, 126, 234, 0.08)",
+              border: "1px solid rgba(102, 126, 234, 0.2)",
+              fontSize: "12px",
+              fontWeight: "600",
+              color: "#667eea",
+            }}>
+              VDOT {vdot}
+            </div>
+          </div>
+          <p style={{ margin: 0, fontSize: "14px", color: "#6b7280" }}>
+            Based on your strongest efforts of the last {period.days} days
+          </p>
+        </div>
+
+        {/* Prediction Cards */}
+        <div style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(2, 1fr)",
+          gap: DesignSystem.spacing.element,
+          marginBottom: DesignSystem.spacing.section,
+          position: "relative" as const
+        }}>
+          {predictions.map((prediction: any) => {
+            const gradient = RACE_GRADIENTS[prediction.race] ?? DesignSystem.colors.gradients.primary;
+            const confidenceColor = CONFIDENCE_COLORS[prediction.confidence] ?? DesignSystem.colors.semantic.stable;
+
+            return (
+              <div key={prediction.race} style={{
+                padding: DesignSystem.spacing.section,
+                background: "#f8f9fa",
+                borderRadius: DesignSystem.borderRadius.element,
+                border: DesignSystem.glassmorphism.border,
+                position: "relative" as const,
+                overflow: "hidden" as const,
+              }}>
+                <div style={createGradientOverlay(gradient)} />
+                <div style={{ position: "relative" as const }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+                    <span style={{ fontSize: "12px", fontWeight: "600", color: "rgba(0, 0, 0, 0.6)", textTransform: "uppercase" as const, letterSpacing: "0.5px" }}>
+                      {prediction.name}
+                    </span>
+                    <span style={{ fontSize: "10px", fontWeight: "600", color: confidenceColor, textTransform: "capitalize" as const }}>
+                      ● {prediction.confidence}
+                    </span>
+                  </div>
+                  <div style={{
+                    fontSize: "28px",
+                    fontWeight: "700",
+                    marginBottom: "4px",
+                    ...applyGradientText(gradient)
+                  }}>
+                    {prediction.time}
+                  </div>
+                  <div style={{ fontSize: "12px", color: "rgba(0, 0, 0, 0.5)", marginBottom: "4px" }}>
+                    {prediction.range.fast} – {prediction.range.slow}
+                  </div>
+                  <div style={{ fontSize: "11px", color: "rgba(0, 0, 0, 0.4)" }}>
+                    {formatPace(prediction.pace, units)} • Riegel {prediction.models.riegel} • VDOT {prediction.models.vdot}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Source Efforts */}
+        <div style={{ position: "relative" as const, marginBottom: notes.length > 0 ? DesignSystem.spacing.section : 0 }}>
+          <h3 style={{
+            fontSize: "13px",
+            fontWeight: "600",
+            marginTop: 0,
+            marginBottom: DesignSystem.spacing.compact,
+            color: "rgba(0, 0, 0, 0.6)",
+            textTransform: "uppercase" as const,
+            letterSpacing: "0.5px"
+          }}>
+            Based On
+          </h3>
+          <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+            {sourceEfforts.map((effort: any) => (
+              <div key={`${effort.activityId}-${effort.label}`} style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                padding: "12px 16px",
+                background: "#f9fafb",
+                borderRadius: DesignSystem.borderRadius.small,
+                border: "1px solid #e5e7eb",
+              }}>
+                <div>
+                  <div style={{ fontSize: "14px", fontWeight: 600, color: "#111827" }}>
+                    {effort.label} • {effort.time}
+                  </div>
+                  <div style={{ fontSize: "12px", color: "#6b7280" }}>
+                    {effort.activityName} • {effort.date} • {formatDistance(effort.distance, 2, units)} at {formatPace(effort.pace, units)}
+                  </div>
+                </div>
+                <div style={{ fontSize: "13px", fontWeight: 600, color: "#667eea" }}>
+                  VDOT {effort.vdot}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Notes */}
+        {notes.length > 0 && (
+          <div style={{
+            position: "relative" as const,
+            padding: DesignSystem.spacing.element,
+            background: "#fffbeb",
+            borderRadius: DesignSystem.borderRadius.element,
+            border: "1px solid #fde68a",
+          }}>
+            {notes.map((note: string, i: number) => (
+              <div key={i} style={{ fontSize: "13px", color: "#92400e", marginTop: i > 0 ? "4px" : 0 }}>
+                ⚠️ {note}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function PredictRaceTimes() {
+  return (
+    <ErrorBoundary widgetName="predict_race_times">
+      <PredictRaceTimesContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<PredictRaceTimes />);
@@ -9,6 +9,8 @@ import {
   getSemanticColor,
   getSemanticBackground,
   applyGlassmorphism,
+  getUnitLabels,
+  type UnitSystem,
 } from "../design-system";
 
 const { useToolInfo } = generateHelpers<AppType>();
@@ -26,8 +28,8 @@ interface RunData {
 
 interface Deltas {
   distance: number; // percentage
-  pace: number; // seconds per km
-  elevation: number; // meters
+  pace: number; // seconds per km (per mile with imperial units)
+  elevation: number; // meters (feet with imperial units)
   heartRate?: number; // bpm
 }
 
@@ -36,6 +38,7 @@ interface RunComparison {
   run2: RunData;
   deltas: Deltas;
   trend: "improving" | "declining" | "stable";
+  units?: UnitSystem;
 }
 
 export default function RenderComparisonCard() {
@@ -111,6 +114,7 @@ export default function RenderComparisonCard() {
   };
 
   const { run1, run2, deltas, trend } = data;
+  const labels = getUnitLabels(data.units);
 
   const getTrendConfig = () => {
     if (trend === "improving")
@@ -304,7 +308,7 @@ export default function RenderComparisonCard() {
                     color: "rgba(0, 0, 0, 0.4)",
                   }}
                 >
-                  km
+                  {labels.distance}
                 </span>
               </div>
               <div
@@ -314,7 +318,7 @@ export default function RenderComparisonCard() {
                   fontFamily: "ui-monospace, monospace",
                 }}
               >
-                {run1.pace}/km • {run1.duration}min
+                {run1.pace}{labels.pace} • {run1.duration}min
               </div>
               <div
                 style={{
@@ -323,7 +327,7 @@ export default function RenderComparisonCard() {
                   marginTop: DesignSystem.spacing.compact,
                 }}
               >
-                ⛰️ {run1.elevation}m
+                ⛰️ {run1.elevation}{labels.elevation}
                 {run1.heartRate && ` • ❤️ ${run1.heartRate} bpm`}
               </div>
             </div>
@@ -392,7 +396,7 @@ export default function RenderComparisonCard() {
               >
                 {run2.distance}
                 <span style={{ fontSize: "14px", fontWeight: "500", marginLeft: "4px" }}>
-                  km
+                  {labels.distance}
                 </span>
               </div>
               <div
@@ -402,7 +406,7 @@ export default function RenderComparisonCard() {
                   fontFamily: "ui-monospace, monospace",
                 }}
               >
-                {run2.pace}/km • {run2.duration}min
+                {run2.pace}{labels.pace} • {run2.duration}min
               </div>
               <div
                 style={{
@@ -411,7 +415,7 @@ export default function RenderComparisonCard() {
                   marginTop: DesignSystem.spacing.compact,
                 }}
               >
-                ⛰️ {run2.elevation}m
+                ⛰️ {run2.elevation}{labels.elevation}
                 {run2.heartRate && ` • ❤️ ${run2.heartRate} bpm`}
               </div>
             </div>
@@ -503,7 +507,7 @@ export default function RenderComparisonCard() {
                   fontFamily: "ui-monospace, monospace",
                 }}
               >
-                {getTrendIcon(-deltas.pace)} {Math.abs(deltas.pace)}s/km
+                {getTrendIcon(-deltas.pace)} {Math.abs(deltas.pace)}s{labels.pace}
               </span>
             </div>
 
@@ -537,7 +541,7 @@ export default function RenderComparisonCard() {
                   fontFamily: "ui-monospace, monospace",
                 }}
               >
-                {getTrendIcon(deltas.elevation)} {Math.abs(deltas.elevation)}m
+                {getTrendIcon(deltas.elevation)} {Math.abs(deltas.elevation)}{labels.elevation}
               </span>
             </div>
 
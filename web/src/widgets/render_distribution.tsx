@@ -195,13 +195,13 @@ export default function RenderDistribution() {
     
     const unit = config.unit;
     
-    if (unit === "min/km") {
+    if (unit === "min/km" || unit === "min/mi") {
       const minutes = Math.floor(value / 60);
       const seconds = Math.round(value % 60);
       return `${minutes}:${seconds.toString().padStart(2, "0")}`;
-    } else if (unit === "km") {
+    } else if (unit === "km" || unit === "mi") {
       return `${value.toFixed(1)}`;
-    } else if (unit === "m") {
+    } else if (unit === "m" || unit === "ft") {
       return `${Math.round(value)}`;
     } else if (unit === "bpm") {
       return `${Math.round(value)}`;
@@ -6,6 +6,8 @@ import {
   DesignSystem,
   applyGlassmorphism,
   createGradientOverlay,
+  getUnitLabels,
+  type UnitSystem,
 } from "../design-system";
 import { ErrorBoundary } from "../ErrorBoundary";
 
@@ -29,6 +31,7 @@ interface HeatmapConfig {
   showTooltips?: boolean;
   showMonthLabels?: boolean;
   showDayLabels?: boolean;
+  units?: UnitSystem; // Unit system of details.distance and details.pace
 }
 
 function RenderHeatmapContent() {
@@ -99,6 +102,7 @@ function RenderHeatmapContent() {
     data: HeatmapDataPoint[];
     config?: HeatmapConfig;
   };
+  const labels = getUnitLabels(config?.units);
 
   // Create a map for quick date lookups
   const dataMap = new Map<string, HeatmapDataPoint>();
@@ -466,7 +470,7 @@ function RenderHeatmapContent() {
                   color: "rgba(0, 0, 0, 0.6)",
                 }}
               >
-                <strong>Distance:</strong> {hoveredDay.details.distance}km
+                <strong>Distance:</strong> {hoveredDay.details.distance}{labels.distance}
               </p>
             )}
             {hoveredDay.details?.duration !== undefined && (
@@ -488,7 +492,7 @@ function RenderHeatmapContent() {
                   color: "rgba(0, 0, 0, 0.6)",
                 }}
               >
-                <strong>Pace:</strong> {hoveredDay.details.pace}/km
+                <strong>Pace:</strong> {hoveredDay.details.pace}{labels.pace}
               </p>
             )}
             <p
@@ -164,14 +164,14 @@ function RenderLineChartContent() {
   const formatYAxis = (value: number): string => {
     const unit = config?.yAxis?.unit;
     
-    if (unit === "min/km") {
+    if (unit === "min/km" || unit === "min/mi") {
       // Convert seconds to pace format
       const minutes = Math.floor(value / 60);
       const seconds = Math.round(value % 60);
       return `${minutes}:${seconds.toString().padStart(2, "0")}`;
-    } else if (unit === "km") {
+    } else if (unit === "km" || unit === "mi") {
       return `${value.toFixed(1)}`;
-    } else if (unit === "m") {
+    } else if (unit === "m" || unit === "ft") {
       return `${Math.round(value)}`;
     } else if (unit === "bpm") {
       return `${Math.round(value)}`;
@@ -190,8 +190,8 @@ function RenderLineChartContent() {
         const date = new Date(value);
         return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
       }
-    } else if (unit === "km") {
-      return `${value}km`;
+    } else if (unit === "km" || unit === "mi") {
+      return `${value}${unit}`;
     }
     
     return value.toString();
@@ -5,6 +5,12 @@ import {
   DesignSystem,
   applyGlassmorphism,
   createGradientOverlay,
+  convertDistance,
+  convertElevation,
+  formatDistance,
+  formatElevation,
+  getUnitLabels,
+  type UnitSystem,
 } from "../design-system";
 import { ErrorBoundary } from "../ErrorBoundary";
 import {
@@ -60,6 +66,7 @@ interface MapConfig {
   showPOIs?: boolean;
   showWaypoints?: boolean;
   mapStyle?: "standard" | "satellite" | "terrain";
+  units?: UnitSystem; // Display units; route data is always km and meters
 }
 
 function RenderRouteMapContent() {
@@ -129,6 +136,8 @@ function RenderRouteMapContent() {
     route: RouteData;
     config?: MapConfig;
   };
+  const units = config?.units ?? "metric";
+  const labels = getUnitLabels(units);
 
   // Validate route data
   if (!route.path || route.path.length === 0) {
@@ -274,13 +283,13 @@ function RenderRouteMapContent() {
               {route.distance && (
                 <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
                   <span style={{ fontSize: "18px" }}>📏</span>
-                  <span style={{ fontWeight: "600" }}>{route.distance.toFixed(1)} km</span>
+                  <span style={{ fontWeight: "600" }}>{formatDistance(convertDistance(route.distance, units), 1, units)}</span>
                 </div>
               )}
               {route.elevationGain && (
                 <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
                   <span style={{ fontSize: "18px" }}>⛰️</span>
-                  <span style={{ fontWeight: "600" }}>{Math.round(route.elevationGain)} m gain</span>
+                  <span style={{ fontWeight: "600" }}>{formatElevation(convertElevation(route.elevationGain, units), units)} gain</span>
                 </div>
               )}
             </div>
@@ -500,7 +509,10 @@ function RenderRouteMapContent() {
             <div style={{ height: "200px", width: "100%" }}>
               <ResponsiveContainer width="100%" height="100%">
                 <AreaChart
-                  data={route.elevationProfile}
+                  data={route.elevationProfile.map((point) => ({
+                    distance: convertDistance(point.distance, units),
+                    elevation: convertElevation(point.elevation, units),
+                  }))}
                   margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
                 >
                   <defs>
@@ -515,7 +527,7 @@ function RenderRouteMapContent() {
                     stroke="rgba(0, 0, 0, 0.4)"
                     style={{ fontSize: "11px" }}
                     label={{
-                      value: "Distance (km)",
+                      value: `Distance (${labels.distance})`,
                       position: "insideBottom",
                       offset: -5,
                       style: { fontSize: "11px", fill: "rgba(0, 0, 0, 0.6)" },
@@ -526,7 +538,7 @@ function RenderRouteMapContent() {
                     stroke="rgba(0, 0, 0, 0.4)"
                     style={{ fontSize: "11px" }}
                     label={{
-                      value: "Elevation (m)",
+                      value: `Elevation (${labels.elevation})`,
                       angle: -90,
                       position: "insideLeft",
                       style: { fontSize: "11px", fill: "rgba(0, 0, 0, 0.6)" },
@@ -543,11 +555,11 @@ function RenderRouteMapContent() {
                     }}
                     formatter={(value: number | undefined) => {
                       if (value === undefined) return ["", "Elevation"];
-                      return [`${Math.round(value)}m`, "Elevation"];
+                      return [formatElevation(value, units), "Elevation"];
                     }}
                     labelFormatter={(label: any) => {
                       const numLabel = typeof label === 'number' ? label : parseFloat(String(label));
-                      return `${numLabel.toFixed(2)} km`;
+                      return formatDistance(numLabel, 2, units);
                     }}
                   />
                   <Area
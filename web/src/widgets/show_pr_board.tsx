@@ -0,0 +1,184 @@
+import "@/index.css";
+import { generateHelpers, mountWidget } from "skybridge/web";
+import type { AppType } from "../../../server/src/server";
+import {
+  DesignSystem,
+  applyCardStyle,
+  applyGradientText,
+  createGradientOverlay,
+  formatPace,
+} from "../design-system";
+import { ErrorBoundary } from "../ErrorBoundary";
+
+const { useToolInfo } = generateHelpers<AppType>();
+
+const DISTANCE_GRADIENTS: Record<string, string> = {
+  "1k": DesignSystem.colors.gradients.quaternary,
+  "1mile": DesignSystem.colors.gradients.quaternary,
+  "5k": DesignSystem.colors.gradients.tertiary,
+  "10k": DesignSystem.colors.gradients.tertiary,
+  half: DesignSystem.colors.gradients.primary,
+  marathon: DesignSystem.colors.gradients.secondary,
+};
+
+function ShowPrBoardContent() {
+  const toolInfo = useToolInfo<"show_pr_board">();
+
+  if (toolInfo.isPending) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact, animation: "pulse 2s ease-in-out infinite" }}>🏆</div>
+        <p style={{ color: DesignSystem.colors.semantic.stable, margin: 0, fontSize: "14px" }}>Finding your personal records...</p>
+      </div>
+    );
+  }
+
+  if (!toolInfo.isSuccess || !toolInfo.output) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>⚠️</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.decline, fontSize: "14px" }}>Error loading personal records</p>
+      </div>
+    );
+  }
+
+  const { board, recentRecords, coverage, units } = toolInfo.output as any;
+  const records = (board ?? []).filter((entry: any) => entry.allTime);
+
+  if (records.length === 0) {
+    return (
+      <div style={{ padding: DesignSystem.spacing.card, textAlign: "center" }}>
+        <div style={{ fontSize: "40px", marginBottom: DesignSystem.spacing.compact }}>🔍</div>
+        <p style={{ margin: 0, color: DesignSystem.colors.semantic.stable, fontSize: "14px" }}>
+          No personal records found yet
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      maxWidth: "800px",
+      margin: "0 auto",
+      fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif",
+    }}>
+      <div style={applyCardStyle("elevated")}>
+        {/* Subtle gradient overlay */}
+        <div style={{
+          ...createGradientOverlay(DesignSystem.colors.gradients.quaternary, 0.03),
+          height: "200px",
+        }} />
+
+        {/* Header */}
+        <div style={{ position: "relative" as const, marginBottom: DesignSystem.spacing.section }}>
+          <h2 style={{ margin: 0, marginBottom: DesignSystem.spacing.compact, fontSize: "20px", fontWeight: 600, color: "#111827" }}>
+            Personal Records
+          </h2>
+          <p style={{ margin: 0, fontSize: "14px", color: "#6b7280" }}>
+            All-time bests, with your best of the last 12 months
+          </p>
+        </div>
+
+        {/* Recent PRs */}
+        {recentRecords.length > 0 && (
+          <div style={{
+            position: "relative" as const,
+            marginBottom: DesignSystem.spacing.section,
+            padding: DesignSystem.spacing.element,
+            background: "#fffbeb",
+            borderRadius: DesignSystem.borderRadius.element,
+            border: "1px solid #fde68a",
+          }}>
+            {recentRecords.map((record: any) => (
+              <div key={`${record.distance}-${record.activityId}`} style={{ fontSize: "13px", color: "#92400e", marginTop: "2px" }}>
+                🎉 New {record.name} {record.scope === "all_time" ? "PR" : "12-month best"}: <strong>{record.time}</strong> on {record.date}, {record.improvementSeconds}s faster than {record.previousTime}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Record Cards */}
+        <div style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(2, 1fr)",
+          gap: DesignSystem.spacing.element,
+          marginBottom: DesignSystem.spacing.section,
+          position: "relative" as const
+        }}>
+          {records.map((entry: any) => {
+            const gradient = DISTANCE_GRADIENTS[entry.distance] ?? DesignSystem.colors.gradients.primary;
+            const yearBest = entry.last12Months;
+            const yearIsAllTime = yearBest && yearBest.activityId === entry.allTime.activityId;
+
+            return (
+              <div key={entry.distance} style={{
+                padding: DesignSystem.spacing.section,
+                background: "#f8f9fa",
+                borderRadius: DesignSystem.borderRadius.element,
+                border: entry.isNew ? "1px solid #fbbf24" : DesignSystem.glassmorphism.border,
+                position: "relative" as const,
+                overflow: "hidden" as const,
+              }}>
+                <div style={createGradientOverlay(gradient)} />
+                <div style={{ position: "relative" as const }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+                    <span style={{ fontSize: "12px", fontWeight: "600", color: "rgba(0, 0, 0, 0.6)", textTransform: "uppercase" as const, letterSpacing: "0.5px" }}>
+                      {entry.name}
+                    </span>
+                    {entry.isNew && (
+                      <span style={{ fontSize: "10px", fontWeight: "700", color: "#b45309" }}>
+                        🎉 NEW
+                      </span>
+                    )}
+                  </div>
+                  <div style={{
+                    fontSize: "28px",
+                    fontWeight: "700",
+                    marginBottom: "4px",
+                    ...applyGradientText(gradient)
+                  }}>
+                    {entry.allTime.time}
+                  </div>
+                  <div style={{ fontSize: "12px", color: "rgba(0, 0, 0, 0.5)", marginBottom: "4px" }}>
+                    {formatPace(entry.allTime.pace, units)} • {entry.allTime.date}
+                  </div>
+                  <div style={{ fontSize: "11px", color: "rgba(0, 0, 0, 0.4)" }}>
+                    {yearBest
+                      ? yearIsAllTime ? "Set in the last 12 months" : `12 months: ${yearBest.time} (${yearBest.date})`
+                      : "Not run in the last 12 months"}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Coverage */}
+        {(coverage.remainingActivities > 0 || coverage.rateLimited) && (
+          <div style={{
+            position: "relative" as const,
+            padding: DesignSystem.spacing.element,
+            background: "#eff6ff",
+            borderRadius: DesignSystem.borderRadius.element,
+            border: "1px solid #bfdbfe",
+          }}>
+            <div style={{ fontSize: "12px", color: "#1e40af" }}>
+              ℹ️ {coverage.scannedActivities} activities scanned, {coverage.remainingActivities} older ones still to scan
+              {coverage.rateLimited && " (Strava rate limit reached)"}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ShowPrBoard() {
+  return (
+    <ErrorBoundary widgetName="show_pr_board">
+      <ShowPrBoardContent />
+    </ErrorBoundary>
+  );
+}
+
+mountWidget(<ShowPrBoard />);